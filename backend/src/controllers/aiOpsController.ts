@@ -1102,7 +1102,7 @@ export async function executeFaultRemediation(req: Request, res: Response): Prom
 export async function getNotificationChannels(_req: Request, res: Response): Promise<void> {
   try {
     const channels = await notificationService.getChannels();
-    res.json({ success: true, data: channels });
+    res.json({ success: true, data: channels.map((channel) => notificationService.maskChannel(channel)) });
   } catch (error) {
     logger.error('Failed to get notification channels:', error);
     res.status(500).json({
@@ -1126,7 +1126,7 @@ export async function getNotificationChannelById(req: Request, res: Response): P
       return;
     }
 
-    res.json({ success: true, data: channel });
+    res.json({ success: true, data: notificationService.maskChannel(channel) });
   } catch (error) {
     logger.error('Failed to get notification channel:', error);
     res.status(500).json({
@@ -1143,7 +1143,7 @@ export async function getNotificationChannelById(req: Request, res: Response): P
 export async function createNotificationChannel(req: Request, res: Response): Promise<void> {
   try {
     const channel = await notificationService.createChannel(req.body);
-    res.status(201).json({ success: true, data: channel });
+    res.status(201).json({ success: true, data: notificationService.maskChannel(channel) });
   } catch (error) {
     logger.error('Failed to create notification channel:', error);
     res.status(500).json({
@@ -1161,7 +1161,7 @@ export async function updateNotificationChannel(req: Request, res: Response): Pr
   try {
     const { id } = req.params;
     const channel = await notificationService.updateChannel(id, req.body);
-    res.json({ success: true, data: channel });
+    res.json({ success: true, data: notificationService.maskChannel(channel) });
   } catch (error) {
     logger.error('Failed to update notification channel:', error);
     const status = (error as Error).message.includes('not found') ? 404 : 500;
@@ -1256,10 +1256,11 @@ export async function getNotificationHistory(req: Request, res: Response): Promi
  */
 export async function getAuditLogs(req: Request, res: Response): Promise<void> {
   try {
-    const { action, module, from, to, limit } = req.query;
+    const { action, module, from, to, limit, username } = req.query;
 
     const logs = await auditLogger.query({
       action: action as AuditAction | undefined,
+      username: username as string | undefined,
       from: from ? parseInt(from as string, 10) : undefined,
       to: to ? parseInt(to as string, 10) : undefined,
       limit: limit ? parseInt(limit as string, 10) : undefined,
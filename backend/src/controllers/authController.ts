@@ -0,0 +1,138 @@
+/**
+ * Auth Controller
+ * 处理登录、注销及本地用户账户管理相关的 API 请求
+ */
+
+import { Request, Response } from 'express';
+import { authService } from '../services/authService';
+import { getSessionToken } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+/**
+ * 登录
+ * POST /api/auth/login
+ */
+export async function login(req: Request, res: Response): Promise<void> {
+  try {
+    const { username, password } = req.body;
+    if (!username || !password) {
+      res.status(400).json({ success: false, error: '请输入用户名和密码' });
+      return;
+    }
+
+    const result = await authService.login(username, password);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.warn(`Login failed for user: ${req.body?.username}`);
+    res.status(401).json({
+      success: false,
+      error: error instanceof Error ? error.message : '登录失败',
+    });
+  }
+}
+
+/**
+ * 注销
+ * POST /api/auth/logout
+ */
+export async function logout(req: Request, res: Response): Promise<void> {
+  const token = getSessionToken(req);
+  if (token) {
+    authService.logout(token);
+  }
+  res.json({ success: true, message: '已注销' });
+}
+
+/**
+ * 获取当前登录用户
+ * GET /api/auth/me
+ */
+export async function getCurrentUser(req: Request, res: Response): Promise<void> {
+  res.json({ success: true, data: req.user });
+}
+
+/**
+ * 修改当前用户密码
+ * POST /api/auth/password
+ */
+export async function changePassword(req: Request, res: Response): Promise<void> {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    await authService.changePassword(req.user!.id, currentPassword, newPassword, req.sessionToken);
+    res.json({ success: true, message: '密码已修改' });
+  } catch (error) {
+    logger.error('Failed to change password:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '修改密码失败',
+    });
+  }
+}
+
+/**
+ * 获取用户列表
+ * GET /api/auth/users
+ */
+export async function getUsers(_req: Request, res: Response): Promise<void> {
+  try {
+    const users = await authService.getUsers();
+    res.json({ success: true, data: users });
+  } catch (error) {
+    logger.error('Failed to get users:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取用户列表失败',
+    });
+  }
+}
+
+/**
+ * 创建用户
+ * POST /api/auth/users
+ */
+export async function createUser(req: Request, res: Response): Promise<void> {
+  try {
+    const user = await authService.createUser(req.body);
+    res.status(201).json({ success: true, data: user, message: '用户已创建' });
+  } catch (error) {
+    logger.error('Failed to create user:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建用户失败',
+    });
+  }
+}
+
+/**
+ * 更新用户
+ * PUT /api/auth/users/:id
+ */
+export async function updateUser(req: Request, res: Response): Promise<void> {
+  try {
+    const user = await authService.updateUser(req.params.id, req.body);
+    res.json({ success: true, data: user, message: '用户已更新' });
+  } catch (error) {
+    logger.error('Failed to update user:', error);
+    const message = error instanceof Error ? error.message : '更新用户失败';
+    res.status(message.includes('不存在') ? 404 : 400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * 删除用户
+ * DELETE /api/auth/users/:id
+ */
+export async function deleteUser(req: Request, res: Response): Promise<void> {
+  try {
+    if (req.params.id === req.user?.id) {
+      res.status(400).json({ success: false, error: '不能删除当前登录用户' });
+      return;
+    }
+    await authService.deleteUser(req.params.id);
+    res.json({ success: true, message: '用户已删除' });
+  } catch (error) {
+    logger.error('Failed to delete user:', error);
+    const message = error instanceof Error ? error.message : '删除用户失败';
+    res.status(message.includes('不存在') ? 404 : 400).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Backup Controller
+ * 处理应用状态备份导出、校验和导入相关的 API 请求
+ */
+
+import { Request, Response } from 'express';
+import { backupService } from '../services/backupService';
+import { RestoreMode } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * 读取上传的归档（原始文件内容，或已按 JSON 解析的请求体）
+ */
+async function readUploadedArchive(req: Request): Promise<unknown> {
+  if (Buffer.isBuffer(req.body) && req.body.length > 0) {
+    return backupService.parseArchive(req.body);
+  }
+  if (req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body) && Object.keys(req.body).length > 0) {
+    return req.body;
+  }
+  throw new Error('请上传备份文件');
+}
+
+/**
+ * 导出备份
+ * GET /api/backup/export?history=true&secrets=false
+ */
+export async function exportBackup(req: Request, res: Response): Promise<void> {
+  try {
+    const options = {
+      includeHistory: req.query.history === 'true',
+      includeSecrets: req.query.secrets === 'true',
+    };
+    const buffer = await backupService.exportArchive(options);
+    const date = new Date().toISOString().split('T')[0];
+
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="routeros-web-manager-backup-${date}.json.gz"`);
+    res.send(buffer);
+  } catch (error) {
+    logger.error('Failed to export backup:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '导出备份失败',
+    });
+  }
+}
+
+/**
+ * 校验备份文件
+ * POST /api/backup/validate
+ */
+export async function validateBackup(req: Request, res: Response): Promise<void> {
+  try {
+    const archive = await readUploadedArchive(req);
+    res.json({ success: true, data: backupService.validateArchive(archive) });
+  } catch (error) {
+    logger.error('Failed to validate backup:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '校验备份文件失败',
+    });
+  }
+}
+
+/**
+ * 导入备份
+ * POST /api/backup/import?mode=merge|replace
+ */
+export async function importBackup(req: Request, res: Response): Promise<void> {
+  const mode = (req.query.mode || 'merge') as RestoreMode;
+  if (mode !== 'merge' && mode !== 'replace') {
+    res.status(400).json({ success: false, error: '导入方式必须为 merge 或 replace' });
+    return;
+  }
+
+  let archive: unknown;
+  try {
+    archive = await readUploadedArchive(req);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '读取备份文件失败',
+    });
+    return;
+  }
+
+  const validation = backupService.validateArchive(archive);
+  if (!validation.valid) {
+    res.status(400).json({ success: false, error: validation.errors.join('；') });
+    return;
+  }
+
+  try {
+    const result = await backupService.restore(archive, mode);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('Failed to import backup:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '导入备份失败',
+    });
+  }
+}
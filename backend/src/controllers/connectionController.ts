@@ -4,8 +4,9 @@
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient, routerosClientPool } from '../services/routerosClientPool';
 import { configService } from '../services/configService';
+import { getDefaultPort } from '../services/routerosTransport';
 import { RouterOSConfig, ConnectionStatus } from '../types';
 import { logger } from '../utils/logger';
 
@@ -15,14 +16,10 @@ import { logger } from '../utils/logger';
  */
 export async function getConnectionStatus(_req: Request, res: Response): Promise<void> {
   try {
-    const connected = routerosClient.isConnected();
-    const config = routerosClient.getConfig();
-    
+    // 包含自动重连状态（state、最近错误、重试次数）
     const status: ConnectionStatus = {
-      connected,
-      host: config?.host,
-      lastConnected: connected ? new Date().toISOString() : undefined,
-      config: config || undefined,
+      deviceId: routerosClientPool.getCurrentDeviceId(),
+      ...getRouterOSClient().getStatus(),
     };
 
     res.json({ success: true, data: status });
@@ -52,15 +49,16 @@ export async function connect(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // 设置默认值 - RouterOS API 端口 8728 (普通) / 8729 (SSL)
-    config.port = config.port || (config.useTLS ? 8729 : 8728);
+    // 设置默认值 - API 端口 8728 (普通) / 8729 (SSL)，REST 端口 80 / 443
     config.useTLS = config.useTLS === true;
+    config.protocol = config.protocol === 'rest' ? 'rest' : 'api';
+    config.port = config.port || getDefaultPort(config.protocol, config.useTLS);
 
     // 尝试连接
-    await routerosClient.connect(config);
+    await getRouterOSClient().connect(config);
 
     // 获取安全配置（不含密码）
-    const safeConfig = routerosClient.getConfig();
+    const safeConfig = getRouterOSClient().getConfig();
 
     res.json({
       success: true,
@@ -86,7 +84,7 @@ export async function connect(req: Request, res: Response): Promise<void> {
  */
 export async function disconnect(_req: Request, res: Response): Promise<void> {
   try {
-    await routerosClient.disconnect();
+    await getRouterOSClient().disconnect();
 
     res.json({
       success: true,
@@ -151,9 +149,10 @@ export async function saveConfig(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // 设置默认值 - RouterOS API 端口 8728 (普通) / 8729 (SSL)
-    config.port = config.port || (config.useTLS ? 8729 : 8728);
+    // 设置默认值 - API 端口 8728 (普通) / 8729 (SSL)，REST 端口 80 / 443
     config.useTLS = config.useTLS === true;
+    config.protocol = config.protocol === 'rest' ? 'rest' : 'api';
+    config.port = config.port || getDefaultPort(config.protocol, config.useTLS);
 
     // 保存配置
     await configService.saveConfig(config);
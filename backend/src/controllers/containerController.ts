@@ -5,7 +5,7 @@
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient } from '../services/routerosClientPool';
 import { logger } from '../utils/logger';
 
 // RouterOS API 路径
@@ -21,7 +21,7 @@ const CONTAINER_ENVS_PATH = '/container/envs';
  */
 export async function getAllContainers(_req: Request, res: Response): Promise<void> {
   try {
-    const containers = await routerosClient.print<Record<string, unknown>>(CONTAINER_PATH);
+    const containers = await getRouterOSClient().print<Record<string, unknown>>(CONTAINER_PATH);
     const data = Array.isArray(containers) ? containers : [];
     
     logger.info(`Returning ${data.length} containers`);
@@ -55,7 +55,7 @@ export async function getContainerById(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const container = await routerosClient.getById<Record<string, unknown>>(CONTAINER_PATH, id);
+    const container = await getRouterOSClient().getById<Record<string, unknown>>(CONTAINER_PATH, id);
     
     if (!container) {
       res.status(404).json({
@@ -111,7 +111,7 @@ export async function createContainer(req: Request, res: Response): Promise<void
       return;
     }
 
-    const newContainer = await routerosClient.add<Record<string, unknown>>(
+    const newContainer = await getRouterOSClient().add<Record<string, unknown>>(
       CONTAINER_PATH,
       data
     );
@@ -157,7 +157,7 @@ export async function updateContainer(req: Request, res: Response): Promise<void
       return;
     }
 
-    const updatedContainer = await routerosClient.set<Record<string, unknown>>(
+    const updatedContainer = await getRouterOSClient().set<Record<string, unknown>>(
       CONTAINER_PATH,
       id,
       updateData
@@ -196,10 +196,10 @@ export async function startContainer(req: Request, res: Response): Promise<void>
     }
 
     // RouterOS 使用 /container/start 命令启动容器
-    await routerosClient.execute(`${CONTAINER_PATH}/start`, [`=.id=${id}`]);
+    await getRouterOSClient().execute(`${CONTAINER_PATH}/start`, [`=.id=${id}`]);
     
     // 获取更新后的容器状态
-    const updatedContainer = await routerosClient.getById<Record<string, unknown>>(CONTAINER_PATH, id);
+    const updatedContainer = await getRouterOSClient().getById<Record<string, unknown>>(CONTAINER_PATH, id);
     
     logger.info(`Started container: ${id}`);
     
@@ -234,10 +234,10 @@ export async function stopContainer(req: Request, res: Response): Promise<void>
     }
 
     // RouterOS 使用 /container/stop 命令停止容器
-    await routerosClient.execute(`${CONTAINER_PATH}/stop`, [`=.id=${id}`]);
+    await getRouterOSClient().execute(`${CONTAINER_PATH}/stop`, [`=.id=${id}`]);
     
     // 获取更新后的容器状态
-    const updatedContainer = await routerosClient.getById<Record<string, unknown>>(CONTAINER_PATH, id);
+    const updatedContainer = await getRouterOSClient().getById<Record<string, unknown>>(CONTAINER_PATH, id);
     
     logger.info(`Stopped container: ${id}`);
     
@@ -264,7 +264,7 @@ export async function stopContainer(req: Request, res: Response): Promise<void>
  */
 export async function getAllMounts(_req: Request, res: Response): Promise<void> {
   try {
-    const mounts = await routerosClient.print<Record<string, unknown>>(CONTAINER_MOUNTS_PATH);
+    const mounts = await getRouterOSClient().print<Record<string, unknown>>(CONTAINER_MOUNTS_PATH);
     const data = Array.isArray(mounts) ? mounts : [];
     
     logger.info(`Returning ${data.length} container mounts`);
@@ -307,7 +307,7 @@ export async function updateMount(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const updatedMount = await routerosClient.set<Record<string, unknown>>(
+    const updatedMount = await getRouterOSClient().set<Record<string, unknown>>(
       CONTAINER_MOUNTS_PATH,
       id,
       updateData
@@ -345,7 +345,7 @@ export async function deleteMount(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    await routerosClient.remove(CONTAINER_MOUNTS_PATH, id);
+    await getRouterOSClient().remove(CONTAINER_MOUNTS_PATH, id);
     
     logger.info(`Deleted container mount: ${id}`);
     
@@ -370,7 +370,7 @@ export async function deleteMount(req: Request, res: Response): Promise<void> {
  */
 export async function getAllEnvs(_req: Request, res: Response): Promise<void> {
   try {
-    const envs = await routerosClient.print<Record<string, unknown>>(CONTAINER_ENVS_PATH);
+    const envs = await getRouterOSClient().print<Record<string, unknown>>(CONTAINER_ENVS_PATH);
     const data = Array.isArray(envs) ? envs : [];
     
     logger.info(`Returning ${data.length} container envs`);
@@ -413,7 +413,7 @@ export async function updateEnv(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const updatedEnv = await routerosClient.set<Record<string, unknown>>(
+    const updatedEnv = await getRouterOSClient().set<Record<string, unknown>>(
       CONTAINER_ENVS_PATH,
       id,
       updateData
@@ -451,7 +451,7 @@ export async function deleteEnv(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    await routerosClient.remove(CONTAINER_ENVS_PATH, id);
+    await getRouterOSClient().remove(CONTAINER_ENVS_PATH, id);
     
     logger.info(`Deleted container env: ${id}`);
     
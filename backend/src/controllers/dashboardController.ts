@@ -4,7 +4,7 @@
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient } from '../services/routerosClientPool';
 import { logger } from '../utils/logger';
 
 const RESOURCE_PATH = '/system/resource';
@@ -37,7 +37,7 @@ interface SystemResource {
  */
 export async function getSystemResource(_req: Request, res: Response): Promise<void> {
   try {
-    const resources = await routerosClient.print<SystemResource>(RESOURCE_PATH);
+    const resources = await getRouterOSClient().print<SystemResource>(RESOURCE_PATH);
     
     if (!resources || resources.length === 0) {
       res.status(404).json({
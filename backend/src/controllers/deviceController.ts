@@ -0,0 +1,155 @@
+/**
+ * Device Controller
+ * 处理受管设备清单及设备连接管理相关的 API 请求
+ */
+
+import { Request, Response } from 'express';
+import { deviceService } from '../services/deviceService';
+import { routerosClientPool } from '../services/routerosClientPool';
+import { Device, DeviceSummary } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * 转换为不含密码的设备信息
+ */
+function toDeviceSummary(device: Device): DeviceSummary {
+  const { host, port, username, useTLS, protocol } = device.config;
+  return {
+    ...device,
+    config: { host, port, username, useTLS, protocol },
+    connected: routerosClientPool.isConnected(device.id),
+  };
+}
+
+/**
+ * 获取设备列表
+ * GET /api/devices
+ */
+export async function getDevices(_req: Request, res: Response): Promise<void> {
+  try {
+    const devices = await deviceService.getDevices();
+    res.json({ success: true, data: devices.map(toDeviceSummary) });
+  } catch (error) {
+    logger.error('Failed to get devices:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取设备列表失败',
+    });
+  }
+}
+
+/**
+ * 获取单个设备
+ * GET /api/devices/:id
+ */
+export async function getDeviceById(req: Request, res: Response): Promise<void> {
+  try {
+    const device = await deviceService.getDeviceById(req.params.id);
+    if (!device) {
+      res.status(404).json({ success: false, error: '设备不存在' });
+      return;
+    }
+    res.json({ success: true, data: toDeviceSummary(device) });
+  } catch (error) {
+    logger.error('Failed to get device:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取设备失败',
+    });
+  }
+}
+
+/**
+ * 添加设备
+ * POST /api/devices
+ */
+export async function createDevice(req: Request, res: Response): Promise<void> {
+  try {
+    const device = await deviceService.createDevice(req.body);
+    res.status(201).json({ success: true, data: toDeviceSummary(device), message: '设备已添加' });
+  } catch (error) {
+    logger.error('Failed to create device:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '添加设备失败',
+    });
+  }
+}
+
+/**
+ * 更新设备
+ * PUT /api/devices/:id
+ * 连接配置变更后，已连接的设备会断开，需要重新连接
+ */
+export async function updateDevice(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const device = await deviceService.updateDevice(id, req.body);
+    if (req.body.config) {
+      await routerosClientPool.disconnect(id);
+    }
+    res.json({ success: true, data: toDeviceSummary(device), message: '设备已更新' });
+  } catch (error) {
+    logger.error('Failed to update device:', error);
+    const message = error instanceof Error ? error.message : '更新设备失败';
+    res.status(message.includes('不存在') ? 404 : 400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * 删除设备
+ * DELETE /api/devices/:id
+ */
+export async function deleteDevice(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    await deviceService.deleteDevice(id);
+    await routerosClientPool.remove(id);
+    res.json({ success: true, message: '设备已删除' });
+  } catch (error) {
+    logger.error('Failed to delete device:', error);
+    const message = error instanceof Error ? error.message : '删除设备失败';
+    res.status(message.includes('不存在') ? 404 : 500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * 连接设备
+ * POST /api/devices/:id/connect
+ */
+export async function connectDevice(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    await routerosClientPool.connect(id);
+    res.json({
+      success: true,
+      data: { connected: true, message: '连接成功' },
+    });
+  } catch (error) {
+    logger.error('Failed to connect device:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '连接失败',
+    });
+  }
+}
+
+/**
+ * 断开设备连接
+ * POST /api/devices/:id/disconnect
+ */
+export async function disconnectDevice(req: Request, res: Response): Promise<void> {
+  try {
+    await routerosClientPool.disconnect(req.params.id);
+    res.json({
+      success: true,
+      data: { connected: false, message: '已断开连接' },
+    });
+  } catch (error) {
+    logger.error('Failed to disconnect device:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '断开连接失败',
+    });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Event Controller
+ * 处理实时推送通道（SSE）的订阅请求
+ */
+
+import { Request, Response } from 'express';
+import { realtimeService } from '../services/realtimeService';
+import { getRouterOSClient, routerosClientPool } from '../services/routerosClientPool';
+import { RealtimeTopic, REALTIME_TOPICS } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * 解析 topics 查询参数（逗号分隔），未指定时订阅全部主题
+ * 包含未知主题时返回 null
+ */
+function parseTopics(value: unknown): RealtimeTopic[] | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [...REALTIME_TOPICS];
+  }
+
+  const topics = value.split(',').map((t) => t.trim()).filter(Boolean);
+  if (topics.some((t) => !REALTIME_TOPICS.includes(t as RealtimeTopic))) {
+    return null;
+  }
+  return Array.from(new Set(topics)) as RealtimeTopic[];
+}
+
+/**
+ * 订阅实时事件流
+ * GET /api/events?topics=traffic,alerts,syslog,connection,notifications
+ */
+export async function streamEvents(req: Request, res: Response): Promise<void> {
+  const topics = parseTopics(req.query.topics);
+  if (!topics) {
+    res.status(400).json({
+      success: false,
+      error: `无效的订阅主题，可选值：${REALTIME_TOPICS.join(', ')}`,
+    });
+    return;
+  }
+
+  try {
+    // 设置 SSE 响应头
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const deviceId = routerosClientPool.getCurrentDeviceId();
+    const clientId = realtimeService.subscribe(res, topics, deviceId);
+
+    // 下发当前连接状态，客户端无需再单独查询
+    realtimeService.sendTo(clientId, 'connection', {
+      deviceId,
+      ...getRouterOSClient().getStatus(),
+    });
+
+    req.on('close', () => {
+      realtimeService.unsubscribe(clientId);
+    });
+  } catch (error) {
+    logger.error('Failed to open event stream:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : '订阅实时事件失败',
+      });
+    } else {
+      res.end();
+    }
+  }
+}
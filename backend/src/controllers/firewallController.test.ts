@@ -0,0 +1,321 @@
+/**
+ * 防火墙 Filter、Mangle、Raw 规则修改测试
+ *
+ * 验证 Filter、Raw 规则每次修改（包括移动）前都会创建配置快照，快照失败时不执行修改；Mangle 标记类规则的校验；
+ * 规则模板应用前创建快照，参数错误时不创建快照；规则命中统计只支持默认设备
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { routerosClient } from '../services/routerosClient';
+import { configSnapshotService } from '../services/ai-ops/configSnapshotService';
+import { MockRouterOSServer } from '../services/mockRouterOS';
+import { routerosClientPool } from '../services/routerosClientPool';
+import firewallRoutes from '../routes/firewallRoutes';
+
+jest.mock('../services/ai-ops/configSnapshotService', () => ({
+  configSnapshotService: { createSnapshot: jest.fn() },
+}));
+
+const createSnapshot = configSnapshotService.createSnapshot as jest.Mock;
+
+const FILTER_PATH = '/ip/firewall/filter';
+
+describe('firewall filter rules', () => {
+  let server: MockRouterOSServer;
+  let app: express.Express;
+  // 每次创建快照时的规则列表，用于确认快照早于修改
+  let snapshotStates: Array<Array<Record<string, unknown>>>;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+
+    snapshotStates = [];
+    createSnapshot.mockReset();
+    createSnapshot.mockImplementation(async () => {
+      snapshotStates.push(server.state.getRecords(FILTER_PATH).map((record) => ({ ...record })));
+      return { id: `snapshot-${snapshotStates.length}` };
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/firewall', firewallRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should snapshot before create, update, disable, enable and delete', async () => {
+    const initialCount = server.state.getRecords(FILTER_PATH).length;
+
+    const created = await request(app)
+      .post('/api/firewall/filter')
+      .send({ chain: 'input', action: 'accept', protocol: 'tcp', 'dst-port': '22', comment: 'ssh' });
+    expect(created.status).toBe(201);
+    expect(created.body.snapshotId).toBe('snapshot-1');
+    const id = encodeURIComponent(created.body.data['.id']);
+
+    const updated = await request(app).patch(`/api/firewall/filter/${id}`).send({ 'dst-port': '2222' });
+    expect(updated.body.data).toEqual(expect.objectContaining({ 'dst-port': '2222' }));
+
+    const disabled = await request(app).post(`/api/firewall/filter/${id}/disable`);
+    expect(disabled.body.data.disabled).toBe('true');
+    const enabled = await request(app).post(`/api/firewall/filter/${id}/enable`);
+    expect(enabled.body.data.disabled).toBe('false');
+
+    const deleted = await request(app).delete(`/api/firewall/filter/${id}`);
+    expect(deleted.body).toEqual(expect.objectContaining({ success: true, snapshotId: 'snapshot-5' }));
+
+    expect(createSnapshot).toHaveBeenCalledTimes(5);
+    expect(createSnapshot).toHaveBeenCalledWith('pre-change');
+    expect(snapshotStates[0]).toHaveLength(initialCount);
+    expect(snapshotStates[1].find((rule) => rule.comment === 'ssh')).toEqual(expect.objectContaining({ 'dst-port': '22' }));
+    expect(snapshotStates[4]).toHaveLength(initialCount + 1);
+    expect(server.state.getRecords(FILTER_PATH)).toHaveLength(initialCount);
+  });
+
+  it('should not change rules when the snapshot fails', async () => {
+    createSnapshot.mockRejectedValue(new Error('RouterOS not connected'));
+    const [first] = server.state.getRecords(FILTER_PATH);
+
+    const response = await request(app).delete(`/api/firewall/filter/${encodeURIComponent(String(first['.id']))}`);
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toContain('创建配置快照失败');
+    expect(server.state.getRecords(FILTER_PATH)[0]).toEqual(first);
+  });
+
+  it('should snapshot before moving a rule and return the new order', async () => {
+    const [first, second, third] = server.state.getRecords(FILTER_PATH).map((rule) => String(rule['.id']));
+
+    const moved = await request(app).post(`/api/firewall/filter/${encodeURIComponent(third)}/move`).send({ destination: first });
+    expect(moved.body.snapshotId).toBe('snapshot-1');
+    expect(moved.body.data.slice(0, 3).map((rule: Record<string, unknown>) => rule['.id'])).toEqual([third, first, second]);
+    expect(snapshotStates[0][2]['.id']).toBe(third);
+
+    const toEnd = await request(app).post(`/api/firewall/filter/${encodeURIComponent(third)}/move`).send({});
+    expect(toEnd.body.data[toEnd.body.data.length - 1]['.id']).toBe(third);
+
+    const missingTarget = await request(app).post(`/api/firewall/filter/${encodeURIComponent(first)}/move`).send({ destination: '*FFFF' });
+    expect(missingTarget.status).toBe(400);
+    expect(createSnapshot).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject invalid rules without taking a snapshot', async () => {
+    const invalidAction = await request(app).post('/api/firewall/filter').send({ chain: 'input', action: 'allow' });
+    const missingTarget = await request(app).post('/api/firewall/filter').send({ chain: 'forward', action: 'jump' });
+
+    expect(invalidAction.status).toBe(400);
+    expect(missingTarget.status).toBe(400);
+    expect(missingTarget.body.error).toContain('jump-target');
+    expect(createSnapshot).not.toHaveBeenCalled();
+  });
+});
+
+describe('firewall mangle rules', () => {
+  const MANGLE_PATH = '/ip/firewall/mangle';
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/firewall', firewallRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should create, update, disable, enable and delete mark rules', async () => {
+    const created = await request(app).post('/api/firewall/mangle').send({
+      chain: 'prerouting',
+      action: 'mark-routing',
+      'src-address': '192.168.88.0/24',
+      'new-routing-mark': 'to_wan2',
+      passthrough: 'no',
+    });
+    expect(created.body.success).toBe(true);
+    const id = encodeURIComponent(created.body.data['.id']);
+
+    const updated = await request(app).patch(`/api/firewall/mangle/${id}`).send({ 'new-routing-mark': 'to_wan1' });
+    expect(updated.body.data).toEqual(expect.objectContaining({ 'new-routing-mark': 'to_wan1' }));
+
+    expect((await request(app).post(`/api/firewall/mangle/${id}/disable`)).body.data.disabled).toBe('true');
+    expect((await request(app).post(`/api/firewall/mangle/${id}/enable`)).body.data.disabled).toBe('false');
+
+    expect((await request(app).delete(`/api/firewall/mangle/${id}`)).body.success).toBe(true);
+    expect(server.state.getRecords(MANGLE_PATH)).toHaveLength(0);
+  });
+
+  it('should reject mark actions without a mark name or in an invalid chain', async () => {
+    const missingMark = await request(app)
+      .post('/api/firewall/mangle')
+      .send({ chain: 'forward', action: 'mark-connection' });
+    const wrongChain = await request(app)
+      .post('/api/firewall/mangle')
+      .send({ chain: 'forward', action: 'mark-routing', 'new-routing-mark': 'to_wan2' });
+
+    expect(missingMark.status).toBe(400);
+    expect(missingMark.body.error).toContain('new-connection-mark');
+    expect(wrongChain.status).toBe(400);
+    expect(wrongChain.body.error).toContain('prerouting');
+    expect(server.state.getRecords(MANGLE_PATH)).toHaveLength(0);
+  });
+
+  it('should validate updates against the existing rule', async () => {
+    const created = await request(app)
+      .post('/api/firewall/mangle')
+      .send({ chain: 'forward', action: 'mark-packet', 'new-packet-mark': 'bulk' });
+    const id = encodeURIComponent(created.body.data['.id']);
+
+    const chainOnly = await request(app).patch(`/api/firewall/mangle/${id}`).send({ chain: 'postrouting' });
+    const toRouting = await request(app).patch(`/api/firewall/mangle/${id}`).send({ action: 'mark-routing' });
+    const missing = await request(app).patch('/api/firewall/mangle/*FFFF').send({ comment: 'x' });
+
+    expect(chainOnly.body.data.chain).toBe('postrouting');
+    expect(toRouting.status).toBe(400);
+    expect(missing.status).toBe(404);
+  });
+});
+
+describe('firewall raw rules', () => {
+  const RAW_PATH = '/ip/firewall/raw';
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+
+    createSnapshot.mockReset();
+    createSnapshot.mockImplementation(async () => ({ id: `snapshot-${createSnapshot.mock.calls.length}` }));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/firewall', firewallRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should snapshot before each change and move rules within the table', async () => {
+    const bogons = await request(app)
+      .post('/api/firewall/raw')
+      .send({ chain: 'prerouting', action: 'drop', 'src-address-list': 'bogons', comment: 'drop bogons' });
+    const notrack = await request(app)
+      .post('/api/firewall/raw')
+      .send({ chain: 'prerouting', action: 'notrack', protocol: 'udp', 'dst-port': '53' });
+    expect(bogons.status).toBe(201);
+    expect(notrack.body.snapshotId).toBe('snapshot-2');
+    const [first, second] = [bogons.body.data['.id'], notrack.body.data['.id']];
+
+    const moved = await request(app).post(`/api/firewall/raw/${encodeURIComponent(second)}/move`).send({ destination: first });
+    expect(moved.body.data.map((rule: Record<string, unknown>) => rule['.id'])).toEqual([second, first]);
+
+    const id = encodeURIComponent(first);
+    expect((await request(app).patch(`/api/firewall/raw/${id}`).send({ 'src-address-list': 'bogon_v4' })).body.data).toEqual(
+      expect.objectContaining({ 'src-address-list': 'bogon_v4' })
+    );
+    expect((await request(app).post(`/api/firewall/raw/${id}/disable`)).body.data.disabled).toBe('true');
+    expect((await request(app).post(`/api/firewall/raw/${id}/enable`)).body.data.disabled).toBe('false');
+    expect((await request(app).delete(`/api/firewall/raw/${id}`)).body.snapshotId).toBe('snapshot-7');
+
+    expect(createSnapshot).toHaveBeenCalledTimes(7);
+    expect(server.state.getRecords(RAW_PATH).map((rule) => rule['.id'])).toEqual([second]);
+  });
+
+  it('should reject actions that raw rules do not support without taking a snapshot', async () => {
+    const reject = await request(app).post('/api/firewall/raw').send({ chain: 'prerouting', action: 'reject' });
+    const missingTarget = await request(app).post('/api/firewall/raw').send({ chain: 'prerouting', action: 'jump' });
+
+    expect(reject.status).toBe(400);
+    expect(reject.body.error).toContain('notrack');
+    expect(missingTarget.status).toBe(400);
+    expect(createSnapshot).not.toHaveBeenCalled();
+    expect(server.state.getRecords(RAW_PATH)).toHaveLength(0);
+  });
+});
+
+describe('firewall templates', () => {
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+
+    createSnapshot.mockReset();
+    createSnapshot.mockImplementation(async () => ({ id: `snapshot-${createSnapshot.mock.calls.length}` }));
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/firewall', firewallRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should snapshot once before applying a template', async () => {
+    const parameters = { wanInterface: 'ether1', lanSubnet: '10.0.0.0/24' };
+    const preview = await request(app).post('/api/firewall/templates/lan-masquerade/preview').send({ parameters });
+    expect(preview.body.data.rules).toEqual([
+      {
+        table: 'nat',
+        properties: expect.objectContaining({ 'src-address': '10.0.0.0/24', 'out-interface': 'ether1' }),
+        position: 'bottom',
+      },
+    ]);
+    expect(createSnapshot).not.toHaveBeenCalled();
+
+    const applied = await request(app).post('/api/firewall/templates/lan-masquerade/apply').send({ parameters });
+    expect(applied.body).toEqual(expect.objectContaining({ success: true, snapshotId: 'snapshot-1' }));
+    expect(server.state.getRecords('/ip/firewall/nat')).toHaveLength(2);
+
+    // 再次应用时规则已存在，不再创建快照
+    const again = await request(app).post('/api/firewall/templates/lan-masquerade/apply').send({ parameters });
+    expect(again.body.data.added).toEqual([]);
+    expect(createSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid parameters and unknown templates without taking a snapshot', async () => {
+    const invalid = await request(app)
+      .post('/api/firewall/templates/site-baseline/apply')
+      .send({ parameters: { lanSubnet: 'lan' } });
+    const unknown = await request(app).post('/api/firewall/templates/unknown/apply').send({});
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toContain('LAN 网段');
+    expect(unknown.status).toBe(404);
+    expect(createSnapshot).not.toHaveBeenCalled();
+  });
+});
+
+describe('firewall rule counters', () => {
+  it('should reject devices other than the default device', async () => {
+    const app = express();
+    app.use('/api/firewall', (_req, _res, next) => routerosClientPool.runWithDevice('branch', () => next()), firewallRoutes);
+
+    const history = await request(app).get('/api/firewall/counters?table=filter');
+    const unused = await request(app).get('/api/firewall/unused-rules');
+
+    expect(history.status).toBe(400);
+    expect(unused.status).toBe(400);
+    expect(unused.body.error).toContain('branch');
+  });
+});
@@ -1,20 +1,74 @@
 /**
  * Firewall Controller
  * 处理 RouterOS 防火墙管理相关的 API 请求
- * 包括 Filter、NAT、Mangle、Address List
+ * 包括 Filter、NAT、Mangle、Raw、Address List、连接跟踪、规则集分析、规则命中统计以及数据包路径模拟
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient, routerosClientPool, DEFAULT_DEVICE_ID } from '../services/routerosClientPool';
+import { configSnapshotService } from '../services/ai-ops/configSnapshotService';
+import { metricsCollector } from '../services/ai-ops/metricsCollector';
+import { configChangeRecorder } from '../services/configChangeRecorder';
+import {
+  addressListImporter,
+  CONNECTION_PATH,
+  connectionTracker,
+  firewallAnalyzer,
+  FIREWALL_TABLES,
+  firewallTemplateService,
+  isValidTimeout,
+  packetSimulator,
+  parseAddress,
+  RAW_ACTIONS,
+  RULE_COUNTER_TABLES,
+  validateFilterRule,
+  validateMangleRule,
+} from '../services/firewall';
+import {
+  AddressListImportFormat,
+  AddressListImportMode,
+  AddressListImportRequest,
+  ConnectionFilter,
+  FirewallTable,
+  SimulatedConnectionState,
+  SimulatedPacket,
+} from '../types';
 import { logger } from '../utils/logger';
 
 // RouterOS API 路径
 const FIREWALL_FILTER_PATH = '/ip/firewall/filter';
 const FIREWALL_NAT_PATH = '/ip/firewall/nat';
 const FIREWALL_MANGLE_PATH = '/ip/firewall/mangle';
+const FIREWALL_RAW_PATH = '/ip/firewall/raw';
 const FIREWALL_ADDRESS_LIST_PATH = '/ip/firewall/address-list';
 
-// ==================== Filter Rules (只读) ====================
+// 地址列表导入支持的格式与方式
+const ADDRESS_LIST_IMPORT_FORMATS: AddressListImportFormat[] = ['auto', 'text', 'csv', 'json'];
+const ADDRESS_LIST_IMPORT_MODES: AddressListImportMode[] = ['merge', 'sync'];
+
+// 数据包路径模拟支持的连接状态
+const CONNECTION_STATES: SimulatedConnectionState[] = ['new', 'established', 'related', 'invalid', 'untracked'];
+
+/**
+ * 修改规则前创建配置快照，规则配置错误导致无法访问设备时可从快照恢复
+ * 快照失败时返回错误响应，不执行修改
+ * @returns 快照 ID，失败时为 null
+ */
+async function snapshotBeforeChange(res: Response, operation: string): Promise<string | null> {
+  try {
+    const snapshot = await configSnapshotService.createSnapshot('pre-change');
+    return snapshot.id;
+  } catch (error) {
+    logger.error(`Failed to create snapshot before ${operation}:`, error);
+    res.status(500).json({
+      success: false,
+      error: `创建配置快照失败，已取消修改：${error instanceof Error ? error.message : String(error)}`,
+    });
+    return null;
+  }
+}
+
+// ==================== Filter Rules (完整 CRUD) ====================
 
 /**
  * 获取所有 Filter 规则
@@ -22,7 +76,7 @@ const FIREWALL_ADDRESS_LIST_PATH = '/ip/firewall/address-list';
  */
 export async function getAllFilterRules(_req: Request, res: Response): Promise<void> {
   try {
-    const rules = await routerosClient.print<Record<string, unknown>>(FIREWALL_FILTER_PATH);
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_FILTER_PATH);
     const data = Array.isArray(rules) ? rules : [];
     
     logger.info(`Returning ${data.length} filter rules`);
@@ -56,7 +110,7 @@ export async function getFilterRuleById(req: Request, res: Response): Promise<vo
       return;
     }
 
-    const rule = await routerosClient.getById<Record<string, unknown>>(FIREWALL_FILTER_PATH, id);
+    const rule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_FILTER_PATH, id);
     
     if (!rule) {
       res.status(404).json({
@@ -79,6 +133,304 @@ export async function getFilterRuleById(req: Request, res: Response): Promise<vo
   }
 }
 
+/**
+ * 创建 Filter 规则
+ * POST /api/firewall/filter
+ */
+export async function createFilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.chain) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：chain',
+      });
+      return;
+    }
+
+    if (!data.action) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：action',
+      });
+      return;
+    }
+
+    const invalid = validateFilterRule(data, true);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, 'creating filter rule');
+    if (!snapshotId) return;
+
+    const newRule = await getRouterOSClient().add<Record<string, unknown>>(
+      FIREWALL_FILTER_PATH,
+      data
+    );
+
+    logger.info(`Created filter rule: chain=${data.chain}, action=${data.action}`);
+
+    res.status(201).json({
+      success: true,
+      data: newRule,
+      snapshotId,
+      message: 'Filter 规则已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建 Filter 规则失败',
+    });
+  }
+}
+
+/**
+ * 更新 Filter 规则
+ * PATCH /api/firewall/filter/:id
+ */
+export async function updateFilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const invalid = validateFilterRule(updateData, false);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `updating filter rule ${id}`);
+    if (!snapshotId) return;
+
+    const updatedRule = await getRouterOSClient().set<Record<string, unknown>>(
+      FIREWALL_FILTER_PATH,
+      id,
+      updateData
+    );
+
+    logger.info(`Updated filter rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      snapshotId,
+      message: 'Filter 规则已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新 Filter 规则失败',
+    });
+  }
+}
+
+/**
+ * 删除 Filter 规则
+ * DELETE /api/firewall/filter/:id
+ */
+export async function deleteFilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `deleting filter rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().remove(FIREWALL_FILTER_PATH, id);
+
+    logger.info(`Deleted filter rule: ${id}`);
+
+    res.json({
+      success: true,
+      snapshotId,
+      message: 'Filter 规则已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除 Filter 规则失败',
+    });
+  }
+}
+
+/**
+ * 启用 Filter 规则
+ * POST /api/firewall/filter/:id/enable
+ */
+export async function enableFilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `enabling filter rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().enable(FIREWALL_FILTER_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_FILTER_PATH, id);
+
+    logger.info(`Enabled filter rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      snapshotId,
+      message: 'Filter 规则已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 Filter 规则失败',
+    });
+  }
+}
+
+/**
+ * 禁用 Filter 规则
+ * POST /api/firewall/filter/:id/disable
+ */
+export async function disableFilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `disabling filter rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().disable(FIREWALL_FILTER_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_FILTER_PATH, id);
+
+    logger.info(`Disabled filter rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      snapshotId,
+      message: 'Filter 规则已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 Filter 规则失败',
+    });
+  }
+}
+
+/**
+ * 移动 Filter 规则（调整匹配顺序）
+ * POST /api/firewall/filter/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveFilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_FILTER_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Filter 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `moving filter rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().move(FIREWALL_FILTER_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_FILTER_PATH);
+
+    logger.info(`Moved filter rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      snapshotId,
+      message: 'Filter 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 Filter 规则失败',
+    });
+  }
+}
+
 // ==================== NAT Rules (完整 CRUD) ====================
 
 /**
@@ -87,7 +439,7 @@ export async function getFilterRuleById(req: Request, res: Response): Promise<vo
  */
 export async function getAllNatRules(_req: Request, res: Response): Promise<void> {
   try {
-    const rules = await routerosClient.print<Record<string, unknown>>(FIREWALL_NAT_PATH);
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_NAT_PATH);
     const data = Array.isArray(rules) ? rules : [];
     
     logger.info(`Returning ${data.length} NAT rules`);
@@ -121,7 +473,7 @@ export async function getNatRuleById(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const rule = await routerosClient.getById<Record<string, unknown>>(FIREWALL_NAT_PATH, id);
+    const rule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_NAT_PATH, id);
     
     if (!rule) {
       res.status(404).json({
@@ -168,7 +520,7 @@ export async function createNatRule(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const newRule = await routerosClient.add<Record<string, unknown>>(
+    const newRule = await getRouterOSClient().add<Record<string, unknown>>(
       FIREWALL_NAT_PATH,
       data
     );
@@ -214,7 +566,7 @@ export async function updateNatRule(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const updatedRule = await routerosClient.set<Record<string, unknown>>(
+    const updatedRule = await getRouterOSClient().set<Record<string, unknown>>(
       FIREWALL_NAT_PATH,
       id,
       updateData
@@ -252,7 +604,7 @@ export async function deleteNatRule(req: Request, res: Response): Promise<void>
       return;
     }
 
-    await routerosClient.remove(FIREWALL_NAT_PATH, id);
+    await getRouterOSClient().remove(FIREWALL_NAT_PATH, id);
     
     logger.info(`Deleted NAT rule: ${id}`);
     
@@ -285,8 +637,8 @@ export async function enableNatRule(req: Request, res: Response): Promise<void>
       return;
     }
 
-    await routerosClient.enable(FIREWALL_NAT_PATH, id);
-    const updatedRule = await routerosClient.getById<Record<string, unknown>>(FIREWALL_NAT_PATH, id);
+    await getRouterOSClient().enable(FIREWALL_NAT_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_NAT_PATH, id);
     
     logger.info(`Enabled NAT rule: ${id}`);
     
@@ -320,8 +672,8 @@ export async function disableNatRule(req: Request, res: Response): Promise<void>
       return;
     }
 
-    await routerosClient.disable(FIREWALL_NAT_PATH, id);
-    const updatedRule = await routerosClient.getById<Record<string, unknown>>(FIREWALL_NAT_PATH, id);
+    await getRouterOSClient().disable(FIREWALL_NAT_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_NAT_PATH, id);
     
     logger.info(`Disabled NAT rule: ${id}`);
     
@@ -339,40 +691,16 @@ export async function disableNatRule(req: Request, res: Response): Promise<void>
   }
 }
 
-// ==================== Mangle Rules (只读) ====================
-
-/**
- * 获取所有 Mangle 规则
- * GET /api/firewall/mangle
- */
-export async function getAllMangleRules(_req: Request, res: Response): Promise<void> {
-  try {
-    const rules = await routerosClient.print<Record<string, unknown>>(FIREWALL_MANGLE_PATH);
-    const data = Array.isArray(rules) ? rules : [];
-    
-    logger.info(`Returning ${data.length} mangle rules`);
-    
-    res.json({
-      success: true,
-      data: data,
-    });
-  } catch (error) {
-    logger.error('Failed to get mangle rules:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : '获取 Mangle 规则列表失败',
-    });
-  }
-}
-
 /**
- * 获取单条 Mangle 规则
- * GET /api/firewall/mangle/:id
+ * 移动 NAT 规则（调整匹配顺序）
+ * POST /api/firewall/nat/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
  */
-export async function getMangleRuleById(req: Request, res: Response): Promise<void> {
+export async function moveNatRule(req: Request, res: Response): Promise<void> {
   try {
     const { id } = req.params;
-    
+    const { destination } = req.body || {};
+
     if (!id) {
       res.status(400).json({
         success: false,
@@ -381,114 +709,181 @@ export async function getMangleRuleById(req: Request, res: Response): Promise<vo
       return;
     }
 
-    const rule = await routerosClient.getById<Record<string, unknown>>(FIREWALL_MANGLE_PATH, id);
-    
-    if (!rule) {
-      res.status(404).json({
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
         success: false,
-        error: 'Mangle 规则不存在',
+        error: 'destination 参数无效',
       });
       return;
     }
-    
+
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_NAT_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'NAT 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    await getRouterOSClient().move(FIREWALL_NAT_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_NAT_PATH);
+
+    logger.info(`Moved NAT rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
     res.json({
       success: true,
-      data: rule,
+      data: ordered,
+      message: 'NAT 规则已移动',
     });
   } catch (error) {
-    logger.error('Failed to get mangle rule:', error);
+    logger.error('Failed to move NAT rule:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : '获取 Mangle 规则详情失败',
+      error: error instanceof Error ? error.message : '移动 NAT 规则失败',
     });
   }
 }
 
-
-// ==================== Address List (完整 CRUD) ====================
+// ==================== Mangle Rules (完整 CRUD) ====================
 
 /**
- * 获取所有地址列表条目
- * GET /api/firewall/address-list
+ * 获取所有 Mangle 规则
+ * GET /api/firewall/mangle
  */
-export async function getAllAddressListEntries(_req: Request, res: Response): Promise<void> {
+export async function getAllMangleRules(_req: Request, res: Response): Promise<void> {
   try {
-    const entries = await routerosClient.print<Record<string, unknown>>(FIREWALL_ADDRESS_LIST_PATH);
-    const data = Array.isArray(entries) ? entries : [];
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_MANGLE_PATH);
+    const data = Array.isArray(rules) ? rules : [];
     
-    logger.info(`Returning ${data.length} address list entries`);
+    logger.info(`Returning ${data.length} mangle rules`);
     
     res.json({
       success: true,
       data: data,
     });
   } catch (error) {
-    logger.error('Failed to get address list entries:', error);
+    logger.error('Failed to get mangle rules:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : '获取地址列表失败',
+      error: error instanceof Error ? error.message : '获取 Mangle 规则列表失败',
     });
   }
 }
 
 /**
- * 创建地址列表条目
- * POST /api/firewall/address-list
+ * 获取单条 Mangle 规则
+ * GET /api/firewall/mangle/:id
  */
-export async function createAddressListEntry(req: Request, res: Response): Promise<void> {
+export async function getMangleRuleById(req: Request, res: Response): Promise<void> {
   try {
-    const data = req.body;
+    const { id } = req.params;
     
-    if (!data || !data.list) {
+    if (!id) {
       res.status(400).json({
         success: false,
-        error: '缺少必要参数：list（列表名称）',
+        error: '缺少规则 ID',
       });
       return;
     }
 
-    if (!data.address) {
+    const rule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_MANGLE_PATH, id);
+    
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'Mangle 规则不存在',
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Failed to get mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 Mangle 规则详情失败',
+    });
+  }
+}
+
+/**
+ * 创建 Mangle 规则
+ * POST /api/firewall/mangle
+ */
+export async function createMangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.chain) {
       res.status(400).json({
         success: false,
-        error: '缺少必要参数：address（IP 地址）',
+        error: '缺少必要参数：chain',
       });
       return;
     }
 
-    const newEntry = await routerosClient.add<Record<string, unknown>>(
-      FIREWALL_ADDRESS_LIST_PATH,
+    if (!data.action) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：action',
+      });
+      return;
+    }
+
+    const invalid = validateMangleRule(data);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const newRule = await getRouterOSClient().add<Record<string, unknown>>(
+      FIREWALL_MANGLE_PATH,
       data
     );
-    
-    logger.info(`Created address list entry: list=${data.list}, address=${data.address}`);
-    
+
+    logger.info(`Created mangle rule: chain=${data.chain}, action=${data.action}`);
+
     res.json({
       success: true,
-      data: newEntry,
-      message: '地址条目已创建',
+      data: newRule,
+      message: 'Mangle 规则已创建',
     });
   } catch (error) {
-    logger.error('Failed to create address list entry:', error);
+    logger.error('Failed to create mangle rule:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : '创建地址条目失败',
+      error: error instanceof Error ? error.message : '创建 Mangle 规则失败',
     });
   }
 }
 
 /**
- * 更新地址列表条目
- * PATCH /api/firewall/address-list/:id
+ * 更新 Mangle 规则
+ * PATCH /api/firewall/mangle/:id
  */
-export async function updateAddressListEntry(req: Request, res: Response): Promise<void> {
+export async function updateMangleRule(req: Request, res: Response): Promise<void> {
   try {
     const { id } = req.params;
     const updateData = req.body;
-    
+
     if (!id) {
       res.status(400).json({
         success: false,
-        error: '缺少条目 ID',
+        error: '缺少规则 ID',
       });
       return;
     }
@@ -501,57 +896,1305 @@ export async function updateAddressListEntry(req: Request, res: Response): Promi
       return;
     }
 
-    const updatedEntry = await routerosClient.set<Record<string, unknown>>(
-      FIREWALL_ADDRESS_LIST_PATH,
+    const existing = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_MANGLE_PATH, id);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Mangle 规则不存在',
+      });
+      return;
+    }
+
+    const invalid = validateMangleRule(updateData, existing);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const updatedRule = await getRouterOSClient().set<Record<string, unknown>>(
+      FIREWALL_MANGLE_PATH,
       id,
       updateData
     );
-    
-    logger.info(`Updated address list entry: ${id}`);
-    
+
+    logger.info(`Updated mangle rule: ${id}`);
+
     res.json({
       success: true,
-      data: updatedEntry,
-      message: '地址条目已更新',
+      data: updatedRule,
+      message: 'Mangle 规则已更新',
     });
   } catch (error) {
-    logger.error('Failed to update address list entry:', error);
+    logger.error('Failed to update mangle rule:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : '更新地址条目失败',
+      error: error instanceof Error ? error.message : '更新 Mangle 规则失败',
     });
   }
 }
 
 /**
- * 删除地址列表条目
- * DELETE /api/firewall/address-list/:id
+ * 删除 Mangle 规则
+ * DELETE /api/firewall/mangle/:id
  */
-export async function deleteAddressListEntry(req: Request, res: Response): Promise<void> {
+export async function deleteMangleRule(req: Request, res: Response): Promise<void> {
   try {
     const { id } = req.params;
-    
+
     if (!id) {
       res.status(400).json({
         success: false,
-        error: '缺少条目 ID',
+        error: '缺少规则 ID',
       });
       return;
     }
 
-    await routerosClient.remove(FIREWALL_ADDRESS_LIST_PATH, id);
-    
-    logger.info(`Deleted address list entry: ${id}`);
-    
+    await getRouterOSClient().remove(FIREWALL_MANGLE_PATH, id);
+
+    logger.info(`Deleted mangle rule: ${id}`);
+
     res.json({
       success: true,
-      message: '地址条目已删除',
+      message: 'Mangle 规则已删除',
     });
   } catch (error) {
-    logger.error('Failed to delete address list entry:', error);
+    logger.error('Failed to delete mangle rule:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : '删除地址条目失败',
+      error: error instanceof Error ? error.message : '删除 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 启用 Mangle 规则
+ * POST /api/firewall/mangle/:id/enable
+ */
+export async function enableMangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().enable(FIREWALL_MANGLE_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_MANGLE_PATH, id);
+
+    logger.info(`Enabled mangle rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'Mangle 规则已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 禁用 Mangle 规则
+ * POST /api/firewall/mangle/:id/disable
+ */
+export async function disableMangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().disable(FIREWALL_MANGLE_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_MANGLE_PATH, id);
+
+    logger.info(`Disabled mangle rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'Mangle 规则已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 移动 Mangle 规则（调整匹配顺序）
+ * POST /api/firewall/mangle/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveMangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_MANGLE_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Mangle 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    await getRouterOSClient().move(FIREWALL_MANGLE_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_MANGLE_PATH);
+
+    logger.info(`Moved mangle rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      message: 'Mangle 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 Mangle 规则失败',
+    });
+  }
+}
+
+// ==================== Raw Rules (完整 CRUD) ====================
+// Raw 规则在连接跟踪之前丢弃数据包，误配同样会导致无法访问设备，修改前与 Filter 一样创建配置快照
+
+/**
+ * 获取所有 Raw 规则
+ * GET /api/firewall/raw
+ */
+export async function getAllRawRules(_req: Request, res: Response): Promise<void> {
+  try {
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_RAW_PATH);
+    const data = Array.isArray(rules) ? rules : [];
+
+    logger.info(`Returning ${data.length} raw rules`);
+
+    res.json({
+      success: true,
+      data: data,
+    });
+  } catch (error) {
+    logger.error('Failed to get raw rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 Raw 规则列表失败',
+    });
+  }
+}
+
+/**
+ * 获取单条 Raw 规则
+ * GET /api/firewall/raw/:id
+ */
+export async function getRawRuleById(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const rule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_RAW_PATH, id);
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'Raw 规则不存在',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Failed to get raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 Raw 规则详情失败',
+    });
+  }
+}
+
+/**
+ * 创建 Raw 规则
+ * POST /api/firewall/raw
+ */
+export async function createRawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.chain) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：chain',
+      });
+      return;
+    }
+
+    if (!data.action) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：action',
+      });
+      return;
+    }
+
+    const invalid = validateFilterRule(data, true, RAW_ACTIONS);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, 'creating raw rule');
+    if (!snapshotId) return;
+
+    const newRule = await getRouterOSClient().add<Record<string, unknown>>(
+      FIREWALL_RAW_PATH,
+      data
+    );
+
+    logger.info(`Created raw rule: chain=${data.chain}, action=${data.action}`);
+
+    res.status(201).json({
+      success: true,
+      data: newRule,
+      snapshotId,
+      message: 'Raw 规则已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 更新 Raw 规则
+ * PATCH /api/firewall/raw/:id
+ */
+export async function updateRawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const invalid = validateFilterRule(updateData, false, RAW_ACTIONS);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `updating raw rule ${id}`);
+    if (!snapshotId) return;
+
+    const updatedRule = await getRouterOSClient().set<Record<string, unknown>>(
+      FIREWALL_RAW_PATH,
+      id,
+      updateData
+    );
+
+    logger.info(`Updated raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      snapshotId,
+      message: 'Raw 规则已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 删除 Raw 规则
+ * DELETE /api/firewall/raw/:id
+ */
+export async function deleteRawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `deleting raw rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().remove(FIREWALL_RAW_PATH, id);
+
+    logger.info(`Deleted raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      snapshotId,
+      message: 'Raw 规则已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 启用 Raw 规则
+ * POST /api/firewall/raw/:id/enable
+ */
+export async function enableRawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `enabling raw rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().enable(FIREWALL_RAW_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_RAW_PATH, id);
+
+    logger.info(`Enabled raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      snapshotId,
+      message: 'Raw 规则已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 禁用 Raw 规则
+ * POST /api/firewall/raw/:id/disable
+ */
+export async function disableRawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `disabling raw rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().disable(FIREWALL_RAW_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<Record<string, unknown>>(FIREWALL_RAW_PATH, id);
+
+    logger.info(`Disabled raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      snapshotId,
+      message: 'Raw 规则已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 移动 Raw 规则（调整匹配顺序）
+ * POST /api/firewall/raw/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveRawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_RAW_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Raw 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `moving raw rule ${id}`);
+    if (!snapshotId) return;
+
+    await getRouterOSClient().move(FIREWALL_RAW_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_RAW_PATH);
+
+    logger.info(`Moved raw rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      snapshotId,
+      message: 'Raw 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 Raw 规则失败',
+    });
+  }
+}
+
+// ==================== Address List (完整 CRUD) ====================
+
+/**
+ * 获取所有地址列表条目
+ * GET /api/firewall/address-list
+ */
+export async function getAllAddressListEntries(_req: Request, res: Response): Promise<void> {
+  try {
+    const entries = await getRouterOSClient().print<Record<string, unknown>>(FIREWALL_ADDRESS_LIST_PATH);
+    const data = Array.isArray(entries) ? entries : [];
+    
+    logger.info(`Returning ${data.length} address list entries`);
+    
+    res.json({
+      success: true,
+      data: data,
+    });
+  } catch (error) {
+    logger.error('Failed to get address list entries:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取地址列表失败',
+    });
+  }
+}
+
+/**
+ * 创建地址列表条目
+ * POST /api/firewall/address-list
+ */
+export async function createAddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+    
+    if (!data || !data.list) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：list（列表名称）',
+      });
+      return;
+    }
+
+    if (!data.address) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：address（IP 地址）',
+      });
+      return;
+    }
+
+    const newEntry = await getRouterOSClient().add<Record<string, unknown>>(
+      FIREWALL_ADDRESS_LIST_PATH,
+      data
+    );
+    
+    logger.info(`Created address list entry: list=${data.list}, address=${data.address}`);
+    
+    res.json({
+      success: true,
+      data: newEntry,
+      message: '地址条目已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建地址条目失败',
+    });
+  }
+}
+
+/**
+ * 更新地址列表条目
+ * PATCH /api/firewall/address-list/:id
+ */
+export async function updateAddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+    
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少条目 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const updatedEntry = await getRouterOSClient().set<Record<string, unknown>>(
+      FIREWALL_ADDRESS_LIST_PATH,
+      id,
+      updateData
+    );
+    
+    logger.info(`Updated address list entry: ${id}`);
+    
+    res.json({
+      success: true,
+      data: updatedEntry,
+      message: '地址条目已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新地址条目失败',
+    });
+  }
+}
+
+/**
+ * 删除地址列表条目
+ * DELETE /api/firewall/address-list/:id
+ */
+export async function deleteAddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少条目 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().remove(FIREWALL_ADDRESS_LIST_PATH, id);
+    
+    logger.info(`Deleted address list entry: ${id}`);
+    
+    res.json({
+      success: true,
+      message: '地址条目已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除地址条目失败',
+    });
+  }
+}
+
+/**
+ * 批量删除地址列表条目
+ * POST /api/firewall/address-list/delete
+ * Body: { ids: string[] }
+ */
+export async function deleteAddressListEntries(req: Request, res: Response): Promise<void> {
+  try {
+    const { ids } = req.body || {};
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string' || !id)) {
+      res.status(400).json({
+        success: false,
+        error: 'ids 必须是非空的条目 ID 数组',
+      });
+      return;
+    }
+
+    const client = getRouterOSClient();
+    const failed: Array<{ id: string; error: string }> = [];
+    // 逐条删除不做审计记录，完成后记录一条汇总
+    await configChangeRecorder.suppress(async () => {
+      for (const id of ids as string[]) {
+        try {
+          await client.remove(FIREWALL_ADDRESS_LIST_PATH, id);
+        } catch (error) {
+          failed.push({ id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    });
+    configChangeRecorder.record({
+      operation: 'bulk',
+      path: FIREWALL_ADDRESS_LIST_PATH,
+      summary: { action: 'delete', ids, deleted: ids.length - failed.length, failed },
+      before: null,
+      after: null,
+    });
+
+    logger.info(`Deleted ${ids.length - failed.length} address list entries, ${failed.length} failed`);
+
+    res.json({
+      success: failed.length === 0,
+      data: { deleted: ids.length - failed.length, failed },
+      message: `已删除 ${ids.length - failed.length} 个地址条目${failed.length > 0 ? `，${failed.length} 个失败` : ''}`,
+    });
+  } catch (error) {
+    logger.error('Failed to delete address list entries:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '批量删除地址条目失败',
+    });
+  }
+}
+
+/**
+ * 校验地址列表导入请求
+ * @returns 错误信息，校验通过时返回 null
+ */
+function validateAddressListImport(data: Record<string, unknown>): string | null {
+  if (!data.list || typeof data.list !== 'string') {
+    return '缺少必要参数：list（列表名称）';
+  }
+  if (typeof data.content !== 'string' || !data.content.trim()) {
+    return '导入内容不能为空';
+  }
+  if (data.format !== undefined && !ADDRESS_LIST_IMPORT_FORMATS.includes(data.format as AddressListImportFormat)) {
+    return `format 必须是 ${ADDRESS_LIST_IMPORT_FORMATS.join('、')} 之一`;
+  }
+  if (data.mode !== undefined && !ADDRESS_LIST_IMPORT_MODES.includes(data.mode as AddressListImportMode)) {
+    return `mode 必须是 ${ADDRESS_LIST_IMPORT_MODES.join('、')} 之一`;
+  }
+  if (data.timeout !== undefined && data.timeout !== '' && (typeof data.timeout !== 'string' || !isValidTimeout(data.timeout))) {
+    return '无效的超时时间，格式如 1d、12h、00:30:00';
+  }
+  return null;
+}
+
+function toImportRequest(data: Record<string, unknown>): AddressListImportRequest {
+  return {
+    list: data.list as string,
+    content: data.content as string,
+    format: data.format as AddressListImportFormat | undefined,
+    mode: data.mode as AddressListImportMode | undefined,
+    timeout: (data.timeout as string) || undefined,
+  };
+}
+
+/**
+ * 预览地址列表导入（新增、删除、不变以及无法识别的地址）
+ * POST /api/firewall/address-list/import/preview
+ * Body: { list, content, format?, mode?, timeout? }
+ */
+export async function previewAddressListImport(req: Request, res: Response): Promise<void> {
+  try {
+    const validationError = validateAddressListImport(req.body || {});
+
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    const diff = await addressListImporter.preview(toImportRequest(req.body));
+
+    res.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    logger.error('Failed to preview address list import:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '预览地址列表导入失败',
+    });
+  }
+}
+
+/**
+ * 执行地址列表导入，以 SSE 推送进度
+ * POST /api/firewall/address-list/import/apply
+ * Body: { list, content, format?, mode?, timeout? }
+ * 消息：{ type: 'progress', progress } / { type: 'done', result } / { type: 'error', error }
+ */
+export async function applyAddressListImport(req: Request, res: Response): Promise<void> {
+  const validationError = validateAddressListImport(req.body || {});
+
+  if (validationError) {
+    res.status(400).json({
+      success: false,
+      error: validationError,
+    });
+    return;
+  }
+
+  // 设置 SSE 响应头
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (message: Record<string, unknown>) => {
+    if (res.writableEnded || res.destroyed) return;
+    res.write(`data: ${JSON.stringify(message)}\n\n`);
+  };
+
+  try {
+    const result = await addressListImporter.apply(toImportRequest(req.body), (progress) =>
+      send({ type: 'progress', progress })
+    );
+    send({ type: 'done', result });
+  } catch (error) {
+    logger.error('Failed to apply address list import:', error);
+    send({ type: 'error', error: error instanceof Error ? error.message : '导入地址列表失败' });
+  }
+  res.end();
+}
+
+// ==================== Connection Tracking ====================
+
+/**
+ * 查询连接跟踪表，附带按协议的汇总和流量最大的源、目标及端口
+ * GET /api/firewall/connection?src=&dst=&protocol=&state=&connectionMark=&limit=&top=
+ */
+export async function getConnections(req: Request, res: Response): Promise<void> {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+    const top = query.top !== undefined ? Number(query.top) : undefined;
+
+    if ([limit, top].some((value) => value !== undefined && (!Number.isInteger(value) || value < 1))) {
+      res.status(400).json({
+        success: false,
+        error: 'limit 和 top 必须是正整数',
+      });
+      return;
+    }
+
+    const filter: ConnectionFilter = {
+      src: query.src || undefined,
+      dst: query.dst || undefined,
+      protocol: query.protocol || undefined,
+      state: query.state || undefined,
+      connectionMark: query.connectionMark || undefined,
+    };
+    const result = await connectionTracker.query(filter, limit, top);
+
+    logger.info(`Returning ${result.connections.length} of ${result.matched}/${result.total} tracked connections`);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Failed to get tracked connections:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取连接跟踪表失败',
+    });
+  }
+}
+
+/**
+ * 断开连接（从连接跟踪表中删除）
+ * DELETE /api/firewall/connection/:id
+ */
+export async function killConnection(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const client = getRouterOSClient();
+    const connection = await client.getById(CONNECTION_PATH, id);
+
+    if (!connection) {
+      res.status(404).json({
+        success: false,
+        error: '连接不存在或已结束',
+      });
+      return;
+    }
+
+    await client.remove(CONNECTION_PATH, id);
+
+    logger.info(`Killed connection: ${id}`);
+
+    res.json({
+      success: true,
+      message: '连接已断开',
+    });
+  } catch (error) {
+    logger.error('Failed to kill connection:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '断开连接失败',
+    });
+  }
+}
+
+// ==================== Rule Analysis ====================
+
+/**
+ * 分析防火墙规则集（遮蔽、重复、无效引用、无备注的禁用规则）
+ * GET /api/firewall/analysis?table=filter
+ * table 可选，逗号分隔，默认分析全部规则表
+ */
+export async function analyzeFirewallRules(req: Request, res: Response): Promise<void> {
+  try {
+    const { table } = req.query;
+    const tables = typeof table === 'string' && table ? table.split(',') : FIREWALL_TABLES;
+    const invalid = tables.filter((item) => !FIREWALL_TABLES.includes(item as FirewallTable));
+
+    if (invalid.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `table 参数无效，必须是 ${FIREWALL_TABLES.join('、')} 之一`,
+      });
+      return;
+    }
+
+    const report = await firewallAnalyzer.analyze(tables as FirewallTable[]);
+
+    logger.info(`Firewall analysis found ${report.issues.length} issues in ${tables.join(', ')}`);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    logger.error('Failed to analyze firewall rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '分析防火墙规则失败',
+    });
+  }
+}
+
+// ==================== Rule Hit Counters ====================
+
+/**
+ * 规则计数器只对默认设备采样，其他设备没有命中记录
+ * @returns 当前请求的设备不是默认设备时返回 false，并已返回 400
+ */
+function ensureRuleCounterDevice(res: Response): boolean {
+  const deviceId = routerosClientPool.getCurrentDeviceId();
+  if (deviceId === DEFAULT_DEVICE_ID) {
+    return true;
+  }
+  res.status(400).json({
+    success: false,
+    error: `规则命中统计仅采集默认设备，不支持设备 ${deviceId}`,
+  });
+  return false;
+}
+
+/**
+ * 获取规则表中每条规则的命中历史
+ * GET /api/firewall/counters?table=filter&hours=24&buckets=24
+ * hours 默认 24，buckets 默认 24
+ */
+export async function getRuleHitHistory(req: Request, res: Response): Promise<void> {
+  try {
+    if (!ensureRuleCounterDevice(res)) return;
+
+    const query = req.query as Record<string, string | undefined>;
+    const table = query.table as FirewallTable;
+    const hours = query.hours !== undefined ? Number(query.hours) : 24;
+    const buckets = query.buckets !== undefined ? Number(query.buckets) : 24;
+
+    if (!RULE_COUNTER_TABLES.includes(table)) {
+      res.status(400).json({
+        success: false,
+        error: `table 参数无效，必须是 ${RULE_COUNTER_TABLES.join('、')} 之一`,
+      });
+      return;
+    }
+
+    if (!Number.isInteger(hours) || hours < 1 || !Number.isInteger(buckets) || buckets < 1 || buckets > 288) {
+      res.status(400).json({
+        success: false,
+        error: 'hours 必须是正整数，buckets 必须是 1-288 之间的整数',
+      });
+      return;
+    }
+
+    const to = Date.now();
+    const history = await metricsCollector.getRuleHitHistory(table, to - hours * 60 * 60 * 1000, to, buckets);
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    logger.error('Failed to get firewall rule hit history:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取规则命中历史失败',
+    });
+  }
+}
+
+/**
+ * 获取最近若干天内没有命中的规则（清理候选）
+ * GET /api/firewall/unused-rules?days=30
+ * days 默认 30
+ */
+export async function getUnusedRules(req: Request, res: Response): Promise<void> {
+  try {
+    if (!ensureRuleCounterDevice(res)) return;
+
+    const { days } = req.query;
+    const value = days !== undefined ? Number(days) : 30;
+
+    if (!Number.isInteger(value) || value < 1 || value > 90) {
+      res.status(400).json({
+        success: false,
+        error: 'days 必须是 1-90 之间的整数',
+      });
+      return;
+    }
+
+    const report = await metricsCollector.getUnusedRules(value);
+
+    logger.info(`Found ${report.rules.length} firewall rules without hits in ${value} days (${report.pending} pending)`);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    logger.error('Failed to get unused firewall rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取未使用规则失败',
+    });
+  }
+}
+
+// ==================== Packet Simulation ====================
+
+/**
+ * 校验数据包路径模拟参数
+ * @returns 错误信息，校验通过时返回 null
+ */
+function validateSimulatedPacket(data: Record<string, unknown>): string | null {
+  for (const field of ['srcAddress', 'dstAddress']) {
+    const value = data[field];
+    const address = typeof value === 'string' && !/[/-]/.test(value) ? parseAddress(value) : null;
+    if (!address || address.version !== 4) {
+      return `${field} 必须是有效的 IPv4 地址`;
+    }
+  }
+  if (!data.protocol || typeof data.protocol !== 'string') {
+    return '协议不能为空';
+  }
+  for (const field of ['srcPort', 'dstPort']) {
+    const value = data[field];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 65535)) {
+      return `${field} 必须是 0-65535 之间的整数`;
+    }
+  }
+  for (const field of ['inInterface', 'outInterface']) {
+    if (data[field] !== undefined && typeof data[field] !== 'string') {
+      return `${field} 必须是字符串`;
+    }
+  }
+  if (data.connectionState !== undefined && !CONNECTION_STATES.includes(data.connectionState as SimulatedConnectionState)) {
+    return `connectionState 必须是 ${CONNECTION_STATES.join('、')} 之一`;
+  }
+  return null;
+}
+
+/**
+ * 模拟数据包经过 Filter、NAT、Mangle 规则的路径
+ * POST /api/firewall/simulate
+ */
+export async function simulatePacket(req: Request, res: Response): Promise<void> {
+  try {
+    const validationError = validateSimulatedPacket(req.body || {});
+
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+      return;
+    }
+
+    const { inInterface, outInterface, srcAddress, dstAddress, protocol, srcPort, dstPort, connectionState } = req.body;
+    const packet: SimulatedPacket = {
+      inInterface: inInterface || undefined,
+      outInterface: outInterface || undefined,
+      srcAddress,
+      dstAddress,
+      protocol,
+      srcPort,
+      dstPort,
+      connectionState,
+    };
+    const result = await packetSimulator.simulate(packet);
+
+    logger.info(
+      `Simulated ${protocol} ${srcAddress} -> ${dstAddress}${dstPort !== undefined ? `:${dstPort}` : ''}: ${result.path} ${result.verdict}`
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Failed to simulate packet:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '模拟数据包路径失败',
+    });
+  }
+}
+
+// ==================== Firewall Templates ====================
+
+/**
+ * 获取规则模板列表
+ * GET /api/firewall/templates
+ */
+export async function getFirewallTemplates(_req: Request, res: Response): Promise<void> {
+  res.json({
+    success: true,
+    data: firewallTemplateService.getTemplates(),
+  });
+}
+
+/**
+ * 预览规则模板：返回按参数替换后将要添加的规则，以及设备上已存在的相同规则
+ * POST /api/firewall/templates/:id/preview
+ * body: { parameters: { wanInterface: 'ether1', lanSubnet: '192.168.88.0/24' } }
+ */
+export async function previewFirewallTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const template = firewallTemplateService.getTemplate(id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: '规则模板不存在',
+      });
+      return;
+    }
+
+    const preview = await firewallTemplateService.preview(template, req.body?.parameters || {});
+
+    if (preview.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: preview.errors.join('；'),
+        data: preview,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    logger.error('Failed to preview firewall template:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '预览规则模板失败',
+    });
+  }
+}
+
+/**
+ * 应用规则模板
+ * POST /api/firewall/templates/:id/apply
+ * body: { parameters: { ... } }
+ * 应用前创建配置快照；任一规则添加失败时删除本次已添加的规则
+ */
+export async function applyFirewallTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const template = firewallTemplateService.getTemplate(id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: '规则模板不存在',
+      });
+      return;
+    }
+
+    const preview = await firewallTemplateService.preview(template, req.body?.parameters || {});
+
+    if (preview.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: preview.errors.join('；'),
+        data: preview,
+      });
+      return;
+    }
+
+    if (preview.rules.length === 0) {
+      res.json({
+        success: true,
+        data: { templateId: id, applied: true, added: [], rolledBack: 0, rollbackErrors: [] },
+        message: '模板中的规则均已存在，无需添加',
+      });
+      return;
+    }
+
+    const snapshotId = await snapshotBeforeChange(res, `applying firewall template ${id}`);
+    if (!snapshotId) return;
+
+    const result = await firewallTemplateService.apply(preview);
+
+    if (result.failed) {
+      const rollback = result.rollbackErrors.length > 0
+        ? `${result.rollbackErrors.length} 条规则回滚失败，请从配置快照恢复`
+        : `已回滚 ${result.rolledBack} 条已添加的规则`;
+      res.status(500).json({
+        success: false,
+        error: `第 ${result.failed.index + 1} 条规则添加失败：${result.failed.error}，${rollback}`,
+        data: result,
+        snapshotId,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      snapshotId,
+      message: `已应用模板 ${template.name}，添加 ${result.added.length} 条规则`,
+    });
+  } catch (error) {
+    logger.error('Failed to apply firewall template:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '应用规则模板失败',
     });
   }
 }
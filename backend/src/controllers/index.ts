@@ -12,3 +12,11 @@ export * from './ipv6Controller';
 export * from './ipv6FirewallController';
 export * from './aiController';
 export * from './aiOpsController';
+export * from './deviceController';
+export * from './authController';
+export * from './eventController';
+export * from './backupController';
+export * from './metricsController';
+export * from './rosController';
+export * from './streamController';
+export * from './secretController';
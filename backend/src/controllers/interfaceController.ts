@@ -4,7 +4,7 @@
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient } from '../services/routerosClientPool';
 import { NetworkInterface, VethInterface } from '../types';
 import { logger } from '../utils/logger';
 
@@ -19,7 +19,7 @@ const VETH_PATH = '/interface/veth';
  */
 export async function getAllInterfaces(_req: Request, res: Response): Promise<void> {
   try {
-    const interfaces = await routerosClient.print<NetworkInterface>(INTERFACE_PATH);
+    const interfaces = await getRouterOSClient().print<NetworkInterface>(INTERFACE_PATH);
     
     // 确保 interfaces 是数组
     const data = Array.isArray(interfaces) ? interfaces : [];
@@ -55,7 +55,7 @@ export async function getInterfaceById(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const interfaceData = await routerosClient.getById<NetworkInterface>(INTERFACE_PATH, id);
+    const interfaceData = await getRouterOSClient().getById<NetworkInterface>(INTERFACE_PATH, id);
     
     if (!interfaceData) {
       res.status(404).json({
@@ -103,7 +103,7 @@ export async function updateInterface(req: Request, res: Response): Promise<void
       return;
     }
 
-    const updatedInterface = await routerosClient.set<NetworkInterface>(
+    const updatedInterface = await getRouterOSClient().set<NetworkInterface>(
       INTERFACE_PATH,
       id,
       updateData
@@ -139,8 +139,8 @@ export async function enableInterface(req: Request, res: Response): Promise<void
       return;
     }
 
-    await routerosClient.enable(INTERFACE_PATH, id);
-    const updatedInterface = await routerosClient.getById<NetworkInterface>(INTERFACE_PATH, id);
+    await getRouterOSClient().enable(INTERFACE_PATH, id);
+    const updatedInterface = await getRouterOSClient().getById<NetworkInterface>(INTERFACE_PATH, id);
     
     res.json({
       success: true,
@@ -172,8 +172,8 @@ export async function disableInterface(req: Request, res: Response): Promise<voi
       return;
     }
 
-    await routerosClient.disable(INTERFACE_PATH, id);
-    const updatedInterface = await routerosClient.getById<NetworkInterface>(INTERFACE_PATH, id);
+    await getRouterOSClient().disable(INTERFACE_PATH, id);
+    const updatedInterface = await getRouterOSClient().getById<NetworkInterface>(INTERFACE_PATH, id);
     
     res.json({
       success: true,
@@ -196,7 +196,7 @@ export async function disableInterface(req: Request, res: Response): Promise<voi
  */
 export async function getL2tpClients(_req: Request, res: Response): Promise<void> {
   try {
-    const clients = await routerosClient.print<Record<string, unknown>>(L2TP_CLIENT_PATH);
+    const clients = await getRouterOSClient().print<Record<string, unknown>>(L2TP_CLIENT_PATH);
     const data = Array.isArray(clients) ? clients : [];
     
     logger.info(`Returning ${data.length} L2TP clients`);
@@ -230,7 +230,7 @@ export async function getL2tpClientById(req: Request, res: Response): Promise<vo
       return;
     }
 
-    const client = await routerosClient.getById<Record<string, unknown>>(L2TP_CLIENT_PATH, id);
+    const client = await getRouterOSClient().getById<Record<string, unknown>>(L2TP_CLIENT_PATH, id);
     
     if (!client) {
       res.status(404).json({
@@ -278,7 +278,7 @@ export async function updateL2tpClient(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const updatedClient = await routerosClient.set<Record<string, unknown>>(
+    const updatedClient = await getRouterOSClient().set<Record<string, unknown>>(
       L2TP_CLIENT_PATH,
       id,
       updateData
@@ -304,7 +304,7 @@ export async function updateL2tpClient(req: Request, res: Response): Promise<voi
  */
 export async function getPppoeClients(_req: Request, res: Response): Promise<void> {
   try {
-    const clients = await routerosClient.print<Record<string, unknown>>(PPPOE_CLIENT_PATH);
+    const clients = await getRouterOSClient().print<Record<string, unknown>>(PPPOE_CLIENT_PATH);
     const data = Array.isArray(clients) ? clients : [];
     
     logger.info(`Returning ${data.length} PPPoE clients`);
@@ -338,7 +338,7 @@ export async function getPppoeClientById(req: Request, res: Response): Promise<v
       return;
     }
 
-    const client = await routerosClient.getById<Record<string, unknown>>(PPPOE_CLIENT_PATH, id);
+    const client = await getRouterOSClient().getById<Record<string, unknown>>(PPPOE_CLIENT_PATH, id);
     
     if (!client) {
       res.status(404).json({
@@ -386,7 +386,7 @@ export async function updatePppoeClient(req: Request, res: Response): Promise<vo
       return;
     }
 
-    const updatedClient = await routerosClient.set<Record<string, unknown>>(
+    const updatedClient = await getRouterOSClient().set<Record<string, unknown>>(
       PPPOE_CLIENT_PATH,
       id,
       updateData
@@ -439,7 +439,7 @@ export async function createL2tpClient(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const newClient = await routerosClient.add<Record<string, unknown>>(
+    const newClient = await getRouterOSClient().add<Record<string, unknown>>(
       L2TP_CLIENT_PATH,
       data
     );
@@ -476,7 +476,7 @@ export async function deleteL2tpClient(req: Request, res: Response): Promise<voi
       return;
     }
 
-    await routerosClient.remove(L2TP_CLIENT_PATH, id);
+    await getRouterOSClient().remove(L2TP_CLIENT_PATH, id);
     
     logger.info(`Deleted L2TP client: ${id}`);
     
@@ -525,7 +525,7 @@ export async function createPppoeClient(req: Request, res: Response): Promise<vo
       return;
     }
 
-    const newClient = await routerosClient.add<Record<string, unknown>>(
+    const newClient = await getRouterOSClient().add<Record<string, unknown>>(
       PPPOE_CLIENT_PATH,
       data
     );
@@ -562,7 +562,7 @@ export async function deletePppoeClient(req: Request, res: Response): Promise<vo
       return;
     }
 
-    await routerosClient.remove(PPPOE_CLIENT_PATH, id);
+    await getRouterOSClient().remove(PPPOE_CLIENT_PATH, id);
     
     logger.info(`Deleted PPPoE client: ${id}`);
     
@@ -588,7 +588,7 @@ export async function deletePppoeClient(req: Request, res: Response): Promise<vo
  */
 export async function getVethInterfaces(_req: Request, res: Response): Promise<void> {
   try {
-    const interfaces = await routerosClient.print<VethInterface>(VETH_PATH);
+    const interfaces = await getRouterOSClient().print<VethInterface>(VETH_PATH);
     const data = Array.isArray(interfaces) ? interfaces : [];
     
     logger.info(`Returning ${data.length} VETH interfaces`);
@@ -622,7 +622,7 @@ export async function getVethInterfaceById(req: Request, res: Response): Promise
       return;
     }
 
-    const vethInterface = await routerosClient.getById<VethInterface>(VETH_PATH, id);
+    const vethInterface = await getRouterOSClient().getById<VethInterface>(VETH_PATH, id);
     
     if (!vethInterface) {
       res.status(404).json({
@@ -661,7 +661,7 @@ export async function createVethInterface(req: Request, res: Response): Promise<
       return;
     }
 
-    const newInterface = await routerosClient.add<VethInterface>(
+    const newInterface = await getRouterOSClient().add<VethInterface>(
       VETH_PATH,
       data
     );
@@ -707,7 +707,7 @@ export async function updateVethInterface(req: Request, res: Response): Promise<
       return;
     }
 
-    const updatedInterface = await routerosClient.set<VethInterface>(
+    const updatedInterface = await getRouterOSClient().set<VethInterface>(
       VETH_PATH,
       id,
       updateData
@@ -743,7 +743,7 @@ export async function deleteVethInterface(req: Request, res: Response): Promise<
       return;
     }
 
-    await routerosClient.remove(VETH_PATH, id);
+    await getRouterOSClient().remove(VETH_PATH, id);
     
     logger.info(`Deleted VETH interface: ${id}`);
     
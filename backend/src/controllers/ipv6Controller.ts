@@ -4,7 +4,7 @@
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient } from '../services/routerosClientPool';
 import { IPv6Address, DHCPv6Client, ND, IPv6Neighbor, IPv6Route } from '../types';
 import { logger } from '../utils/logger';
 
@@ -23,7 +23,7 @@ const IPV6_ROUTE_PATH = '/ipv6/route';
  */
 export async function getAllIPv6Addresses(_req: Request, res: Response): Promise<void> {
   try {
-    const addresses = await routerosClient.print<IPv6Address>(IPV6_ADDRESS_PATH);
+    const addresses = await getRouterOSClient().print<IPv6Address>(IPV6_ADDRESS_PATH);
     res.json({ success: true, data: addresses });
   } catch (error) {
     logger.error('Failed to get IPv6 addresses:', error);
@@ -46,7 +46,7 @@ export async function getIPv6AddressById(req: Request, res: Response): Promise<v
       return;
     }
 
-    const address = await routerosClient.getById<IPv6Address>(IPV6_ADDRESS_PATH, id);
+    const address = await getRouterOSClient().getById<IPv6Address>(IPV6_ADDRESS_PATH, id);
     if (!address) {
       res.status(404).json({ success: false, error: 'IPv6 地址不存在' });
       return;
@@ -86,7 +86,7 @@ export async function addIPv6Address(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const newAddress = await routerosClient.add<IPv6Address>(IPV6_ADDRESS_PATH, addressData);
+    const newAddress = await getRouterOSClient().add<IPv6Address>(IPV6_ADDRESS_PATH, addressData);
     res.status(201).json({ success: true, data: newAddress, message: 'IPv6 地址已添加' });
   } catch (error) {
     logger.error('Failed to add IPv6 address:', error);
@@ -128,7 +128,7 @@ export async function updateIPv6Address(req: Request, res: Response): Promise<vo
       }
     }
 
-    const updatedAddress = await routerosClient.set<IPv6Address>(IPV6_ADDRESS_PATH, id, updateData);
+    const updatedAddress = await getRouterOSClient().set<IPv6Address>(IPV6_ADDRESS_PATH, id, updateData);
     res.json({ success: true, data: updatedAddress, message: 'IPv6 地址已更新' });
   } catch (error) {
     logger.error('Failed to update IPv6 address:', error);
@@ -151,7 +151,7 @@ export async function deleteIPv6Address(req: Request, res: Response): Promise<vo
       return;
     }
 
-    await routerosClient.remove(IPV6_ADDRESS_PATH, id);
+    await getRouterOSClient().remove(IPV6_ADDRESS_PATH, id);
     res.json({ success: true, message: 'IPv6 地址已删除' });
   } catch (error) {
     logger.error('Failed to delete IPv6 address:', error);
@@ -171,7 +171,7 @@ export async function deleteIPv6Address(req: Request, res: Response): Promise<vo
  */
 export async function getAllDHCPv6Clients(_req: Request, res: Response): Promise<void> {
   try {
-    const clients = await routerosClient.print<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH);
+    const clients = await getRouterOSClient().print<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH);
     res.json({ success: true, data: clients });
   } catch (error) {
     logger.error('Failed to get DHCPv6 clients:', error);
@@ -194,7 +194,7 @@ export async function getDHCPv6ClientById(req: Request, res: Response): Promise<
       return;
     }
 
-    const client = await routerosClient.getById<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH, id);
+    const client = await getRouterOSClient().getById<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH, id);
     if (!client) {
       res.status(404).json({ success: false, error: 'DHCPv6 客户端不存在' });
       return;
@@ -223,7 +223,7 @@ export async function addDHCPv6Client(req: Request, res: Response): Promise<void
       return;
     }
 
-    const newClient = await routerosClient.add<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH, clientData);
+    const newClient = await getRouterOSClient().add<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH, clientData);
     res.status(201).json({ success: true, data: newClient, message: 'DHCPv6 客户端已添加' });
   } catch (error) {
     logger.error('Failed to add DHCPv6 client:', error);
@@ -253,7 +253,7 @@ export async function updateDHCPv6Client(req: Request, res: Response): Promise<v
       return;
     }
 
-    const updatedClient = await routerosClient.set<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH, id, updateData);
+    const updatedClient = await getRouterOSClient().set<DHCPv6Client>(IPV6_DHCP_CLIENT_PATH, id, updateData);
     res.json({ success: true, data: updatedClient, message: 'DHCPv6 客户端已更新' });
   } catch (error) {
     logger.error('Failed to update DHCPv6 client:', error);
@@ -276,7 +276,7 @@ export async function deleteDHCPv6Client(req: Request, res: Response): Promise<v
       return;
     }
 
-    await routerosClient.remove(IPV6_DHCP_CLIENT_PATH, id);
+    await getRouterOSClient().remove(IPV6_DHCP_CLIENT_PATH, id);
     res.json({ success: true, message: 'DHCPv6 客户端已删除' });
   } catch (error) {
     logger.error('Failed to delete DHCPv6 client:', error);
@@ -299,7 +299,7 @@ export async function releaseDHCPv6Client(req: Request, res: Response): Promise<
       return;
     }
 
-    await routerosClient.execute(`${IPV6_DHCP_CLIENT_PATH}/release`, [`=.id=${id}`]);
+    await getRouterOSClient().execute(`${IPV6_DHCP_CLIENT_PATH}/release`, [`=.id=${id}`]);
     res.json({ success: true, message: 'DHCPv6 客户端租约已释放' });
   } catch (error) {
     logger.error('Failed to release DHCPv6 client:', error);
@@ -322,7 +322,7 @@ export async function renewDHCPv6Client(req: Request, res: Response): Promise<vo
       return;
     }
 
-    await routerosClient.execute(`${IPV6_DHCP_CLIENT_PATH}/renew`, [`=.id=${id}`]);
+    await getRouterOSClient().execute(`${IPV6_DHCP_CLIENT_PATH}/renew`, [`=.id=${id}`]);
     res.json({ success: true, message: 'DHCPv6 客户端租约已续约' });
   } catch (error) {
     logger.error('Failed to renew DHCPv6 client:', error);
@@ -342,7 +342,7 @@ export async function renewDHCPv6Client(req: Request, res: Response): Promise<vo
  */
 export async function getAllND(_req: Request, res: Response): Promise<void> {
   try {
-    const ndList = await routerosClient.print<ND>(IPV6_ND_PATH);
+    const ndList = await getRouterOSClient().print<ND>(IPV6_ND_PATH);
     res.json({ success: true, data: ndList });
   } catch (error) {
     logger.error('Failed to get ND configurations:', error);
@@ -365,7 +365,7 @@ export async function getNDById(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const nd = await routerosClient.getById<ND>(IPV6_ND_PATH, id);
+    const nd = await getRouterOSClient().getById<ND>(IPV6_ND_PATH, id);
     if (!nd) {
       res.status(404).json({ success: false, error: 'ND 配置不存在' });
       return;
@@ -394,7 +394,7 @@ export async function addND(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const newND = await routerosClient.add<ND>(IPV6_ND_PATH, ndData);
+    const newND = await getRouterOSClient().add<ND>(IPV6_ND_PATH, ndData);
     res.status(201).json({ success: true, data: newND, message: 'ND 配置已添加' });
   } catch (error) {
     logger.error('Failed to add ND configuration:', error);
@@ -424,7 +424,7 @@ export async function updateND(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const updatedND = await routerosClient.set<ND>(IPV6_ND_PATH, id, updateData);
+    const updatedND = await getRouterOSClient().set<ND>(IPV6_ND_PATH, id, updateData);
     res.json({ success: true, data: updatedND, message: 'ND 配置已更新' });
   } catch (error) {
     logger.error('Failed to update ND configuration:', error);
@@ -447,7 +447,7 @@ export async function deleteND(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    await routerosClient.remove(IPV6_ND_PATH, id);
+    await getRouterOSClient().remove(IPV6_ND_PATH, id);
     res.json({ success: true, message: 'ND 配置已删除' });
   } catch (error) {
     logger.error('Failed to delete ND configuration:', error);
@@ -466,7 +466,7 @@ export async function deleteND(req: Request, res: Response): Promise<void> {
  */
 export async function getAllNeighbors(_req: Request, res: Response): Promise<void> {
   try {
-    const neighbors = await routerosClient.print<IPv6Neighbor>(IPV6_NEIGHBOR_PATH);
+    const neighbors = await getRouterOSClient().print<IPv6Neighbor>(IPV6_NEIGHBOR_PATH);
     res.json({ success: true, data: neighbors });
   } catch (error) {
     logger.error('Failed to get IPv6 neighbors:', error);
@@ -486,7 +486,7 @@ export async function getAllNeighbors(_req: Request, res: Response): Promise<voi
  */
 export async function getAllIPv6Routes(_req: Request, res: Response): Promise<void> {
   try {
-    const routes = await routerosClient.print<IPv6Route>(IPV6_ROUTE_PATH);
+    const routes = await getRouterOSClient().print<IPv6Route>(IPV6_ROUTE_PATH);
     res.json({ success: true, data: routes });
   } catch (error) {
     logger.error('Failed to get IPv6 routes:', error);
@@ -509,7 +509,7 @@ export async function getIPv6RouteById(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const route = await routerosClient.getById<IPv6Route>(IPV6_ROUTE_PATH, id);
+    const route = await getRouterOSClient().getById<IPv6Route>(IPV6_ROUTE_PATH, id);
     if (!route) {
       res.status(404).json({ success: false, error: 'IPv6 路由不存在' });
       return;
@@ -548,7 +548,7 @@ export async function addIPv6Route(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const newRoute = await routerosClient.add<IPv6Route>(IPV6_ROUTE_PATH, routeData);
+    const newRoute = await getRouterOSClient().add<IPv6Route>(IPV6_ROUTE_PATH, routeData);
     res.status(201).json({ success: true, data: newRoute, message: 'IPv6 路由已添加' });
   } catch (error) {
     logger.error('Failed to add IPv6 route:', error);
@@ -590,7 +590,7 @@ export async function updateIPv6Route(req: Request, res: Response): Promise<void
       }
     }
 
-    const updatedRoute = await routerosClient.set<IPv6Route>(IPV6_ROUTE_PATH, id, updateData);
+    const updatedRoute = await getRouterOSClient().set<IPv6Route>(IPV6_ROUTE_PATH, id, updateData);
     res.json({ success: true, data: updatedRoute, message: 'IPv6 路由已更新' });
   } catch (error) {
     logger.error('Failed to update IPv6 route:', error);
@@ -613,7 +613,7 @@ export async function deleteIPv6Route(req: Request, res: Response): Promise<void
       return;
     }
 
-    await routerosClient.remove(IPV6_ROUTE_PATH, id);
+    await getRouterOSClient().remove(IPV6_ROUTE_PATH, id);
     res.json({ success: true, message: 'IPv6 路由已删除' });
   } catch (error) {
     logger.error('Failed to delete IPv6 route:', error);
@@ -0,0 +1,108 @@
+/**
+ * IPv6 防火墙 NAT、Mangle、Raw 规则与地址列表测试
+ *
+ * 验证各规则表的增删改、启用/禁用和排序，以及 Mangle、Raw 规则与 IPv4 相同的参数校验
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { routerosClient } from '../services/routerosClient';
+import { MockRouterOSServer } from '../services/mockRouterOS';
+import ipv6Routes from '../routes/ipv6Routes';
+
+describe('ipv6 firewall', () => {
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/ipv6', ipv6Routes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should create, update, disable, enable, move and delete NAT rules', async () => {
+    const masquerade = await request(app)
+      .post('/api/ipv6/firewall/nat')
+      .send({ chain: 'srcnat', action: 'masquerade', 'out-interface-list': 'WAN' });
+    const dstnat = await request(app)
+      .post('/api/ipv6/firewall/nat')
+      .send({ chain: 'dstnat', action: 'dst-nat', 'dst-port': '443', 'to-address': 'fd00::10', protocol: 'tcp' });
+    expect(masquerade.status).toBe(201);
+    const [first, second] = [masquerade.body.data['.id'], dstnat.body.data['.id']];
+    const id = encodeURIComponent(second);
+
+    const updated = await request(app).patch(`/api/ipv6/firewall/nat/${id}`).send({ 'to-address': 'fd00::20' });
+    expect(updated.body.data).toEqual(expect.objectContaining({ 'to-address': 'fd00::20' }));
+    expect((await request(app).post(`/api/ipv6/firewall/nat/${id}/disable`)).body.data.disabled).toBe('true');
+    expect((await request(app).post(`/api/ipv6/firewall/nat/${id}/enable`)).body.data.disabled).toBe('false');
+
+    const moved = await request(app).post(`/api/ipv6/firewall/nat/${id}/move`).send({ destination: first });
+    expect(moved.body.data.map((rule: Record<string, unknown>) => rule['.id'])).toEqual([second, first]);
+
+    expect((await request(app).delete(`/api/ipv6/firewall/nat/${id}`)).body.success).toBe(true);
+    expect((await request(app).get('/api/ipv6/firewall/nat')).body.data).toHaveLength(1);
+    expect((await request(app).get(`/api/ipv6/firewall/nat/${id}`)).status).toBe(404);
+  });
+
+  it('should validate mangle mark rules against the existing rule', async () => {
+    const missingMark = await request(app).post('/api/ipv6/firewall/mangle').send({ chain: 'forward', action: 'mark-packet' });
+    expect(missingMark.status).toBe(400);
+    expect(missingMark.body.error).toContain('new-packet-mark');
+
+    const created = await request(app)
+      .post('/api/ipv6/firewall/mangle')
+      .send({ chain: 'forward', action: 'mark-connection', 'new-connection-mark': 'voip' });
+    const id = encodeURIComponent(created.body.data['.id']);
+
+    const toRouting = await request(app)
+      .patch(`/api/ipv6/firewall/mangle/${id}`)
+      .send({ action: 'mark-routing', 'new-routing-mark': 'to_wan2' });
+    const missing = await request(app).patch('/api/ipv6/firewall/mangle/*FFFF').send({ comment: 'x' });
+
+    expect(toRouting.status).toBe(400);
+    expect(toRouting.body.error).toContain('prerouting');
+    expect(missing.status).toBe(404);
+  });
+
+  it('should reject raw actions that raw rules do not support', async () => {
+    const reject = await request(app).post('/api/ipv6/firewall/raw').send({ chain: 'prerouting', action: 'reject' });
+    const created = await request(app)
+      .post('/api/ipv6/firewall/raw')
+      .send({ chain: 'prerouting', action: 'drop', 'src-address-list': 'bogons_v6' });
+    const toJump = await request(app)
+      .patch(`/api/ipv6/firewall/raw/${encodeURIComponent(created.body.data['.id'])}`)
+      .send({ action: 'jump', 'jump-target': '' });
+
+    expect(reject.status).toBe(400);
+    expect(reject.body.error).toContain('notrack');
+    expect(created.status).toBe(201);
+    expect(toJump.status).toBe(400);
+    expect(server.state.getRecords('/ipv6/firewall/raw')).toEqual([expect.objectContaining({ action: 'drop' })]);
+  });
+
+  it('should manage address list entries', async () => {
+    const missingAddress = await request(app).post('/api/ipv6/firewall/address-list').send({ list: 'trusted_v6' });
+    expect(missingAddress.status).toBe(400);
+
+    const created = await request(app)
+      .post('/api/ipv6/firewall/address-list')
+      .send({ list: 'trusted_v6', address: 'fd00::/64', comment: 'LAN' });
+    expect(created.status).toBe(201);
+    const id = encodeURIComponent(created.body.data['.id']);
+
+    expect((await request(app).patch(`/api/ipv6/firewall/address-list/${id}`).send({ comment: 'ULA' })).body.data.comment).toBe('ULA');
+    expect((await request(app).post(`/api/ipv6/firewall/address-list/${id}/disable`)).body.data.disabled).toBe('true');
+    expect((await request(app).post(`/api/ipv6/firewall/address-list/${id}/enable`)).body.data.disabled).toBe('false');
+    expect((await request(app).delete(`/api/ipv6/firewall/address-list/${id}`)).body.success).toBe(true);
+    expect(server.state.getRecords('/ipv6/firewall/address-list')).toHaveLength(0);
+  });
+});
@@ -1,15 +1,20 @@
 /**
  * IPv6 Firewall Controller
- * 处理 RouterOS IPv6 防火墙 Filter 规则管理相关的 API 请求
+ * 处理 RouterOS IPv6 防火墙 Filter、NAT、Mangle、Raw 规则以及地址列表管理相关的 API 请求
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
-import { IPv6FilterRule } from '../types';
+import { getRouterOSClient } from '../services/routerosClientPool';
+import { RAW_ACTIONS, validateFilterRule, validateMangleRule } from '../services/firewall';
+import { IPv6AddressListEntry, IPv6FilterRule, IPv6MangleRule, IPv6NatRule, IPv6RawRule } from '../types';
 import { logger } from '../utils/logger';
 
 // RouterOS API 路径常量
 const IPV6_FIREWALL_FILTER_PATH = '/ipv6/firewall/filter';
+const IPV6_FIREWALL_NAT_PATH = '/ipv6/firewall/nat';
+const IPV6_FIREWALL_MANGLE_PATH = '/ipv6/firewall/mangle';
+const IPV6_FIREWALL_RAW_PATH = '/ipv6/firewall/raw';
+const IPV6_FIREWALL_ADDRESS_LIST_PATH = '/ipv6/firewall/address-list';
 
 // ==================== IPv6 Firewall Filter 相关 ====================
 
@@ -19,7 +24,7 @@ const IPV6_FIREWALL_FILTER_PATH = '/ipv6/firewall/filter';
  */
 export async function getAllIPv6FilterRules(_req: Request, res: Response): Promise<void> {
   try {
-    const rules = await routerosClient.print<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH);
+    const rules = await getRouterOSClient().print<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH);
     const data = Array.isArray(rules) ? rules : [];
 
     logger.info(`Returning ${data.length} IPv6 filter rules`);
@@ -53,7 +58,7 @@ export async function getIPv6FilterRuleById(req: Request, res: Response): Promis
       return;
     }
 
-    const rule = await routerosClient.getById<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, id);
+    const rule = await getRouterOSClient().getById<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, id);
 
     if (!rule) {
       res.status(404).json({
@@ -121,7 +126,7 @@ export async function createIPv6FilterRule(req: Request, res: Response): Promise
       return;
     }
 
-    const newRule = await routerosClient.add<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, data);
+    const newRule = await getRouterOSClient().add<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, data);
 
     logger.info(`Created IPv6 filter rule: chain=${data.chain}, action=${data.action}`);
 
@@ -188,7 +193,7 @@ export async function updateIPv6FilterRule(req: Request, res: Response): Promise
       }
     }
 
-    const updatedRule = await routerosClient.set<IPv6FilterRule>(
+    const updatedRule = await getRouterOSClient().set<IPv6FilterRule>(
       IPV6_FIREWALL_FILTER_PATH,
       id,
       updateData
@@ -227,7 +232,7 @@ export async function deleteIPv6FilterRule(req: Request, res: Response): Promise
       return;
     }
 
-    await routerosClient.remove(IPV6_FIREWALL_FILTER_PATH, id);
+    await getRouterOSClient().remove(IPV6_FIREWALL_FILTER_PATH, id);
 
     logger.info(`Deleted IPv6 filter rule: ${id}`);
 
@@ -260,8 +265,8 @@ export async function enableIPv6FilterRule(req: Request, res: Response): Promise
       return;
     }
 
-    await routerosClient.enable(IPV6_FIREWALL_FILTER_PATH, id);
-    const updatedRule = await routerosClient.getById<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, id);
+    await getRouterOSClient().enable(IPV6_FIREWALL_FILTER_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, id);
 
     logger.info(`Enabled IPv6 filter rule: ${id}`);
 
@@ -295,8 +300,8 @@ export async function disableIPv6FilterRule(req: Request, res: Response): Promis
       return;
     }
 
-    await routerosClient.disable(IPV6_FIREWALL_FILTER_PATH, id);
-    const updatedRule = await routerosClient.getById<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, id);
+    await getRouterOSClient().disable(IPV6_FIREWALL_FILTER_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH, id);
 
     logger.info(`Disabled IPv6 filter rule: ${id}`);
 
@@ -313,3 +318,1277 @@ export async function disableIPv6FilterRule(req: Request, res: Response): Promis
     });
   }
 }
+
+/**
+ * 移动 IPv6 Filter 规则（调整匹配顺序）
+ * POST /api/ipv6/firewall/filter/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveIPv6FilterRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 Filter 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    await getRouterOSClient().move(IPV6_FIREWALL_FILTER_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<IPv6FilterRule>(IPV6_FIREWALL_FILTER_PATH);
+
+    logger.info(`Moved IPv6 filter rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      message: 'IPv6 Filter 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move IPv6 filter rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 IPv6 Filter 规则失败',
+    });
+  }
+}
+
+// ==================== IPv6 Firewall NAT 相关 ====================
+
+/**
+ * 获取所有 IPv6 NAT 规则
+ * GET /api/ipv6/firewall/nat
+ */
+export async function getAllIPv6NatRules(_req: Request, res: Response): Promise<void> {
+  try {
+    const rules = await getRouterOSClient().print<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH);
+    const data = Array.isArray(rules) ? rules : [];
+
+    logger.info(`Returning ${data.length} IPv6 NAT rules`);
+
+    res.json({
+      success: true,
+      data: data,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 NAT rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 NAT 规则列表失败',
+    });
+  }
+}
+
+/**
+ * 获取单条 IPv6 NAT 规则
+ * GET /api/ipv6/firewall/nat/:id
+ */
+export async function getIPv6NatRuleById(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const rule = await getRouterOSClient().getById<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH, id);
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 NAT 规则不存在',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 NAT 规则详情失败',
+    });
+  }
+}
+
+/**
+ * 创建 IPv6 NAT 规则
+ * POST /api/ipv6/firewall/nat
+ */
+export async function createIPv6NatRule(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.chain) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：chain',
+      });
+      return;
+    }
+
+    if (!data.action) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：action',
+      });
+      return;
+    }
+
+    const newRule = await getRouterOSClient().add<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH, data);
+
+    logger.info(`Created IPv6 NAT rule: chain=${data.chain}, action=${data.action}`);
+
+    res.status(201).json({
+      success: true,
+      data: newRule,
+      message: 'IPv6 NAT 规则已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建 IPv6 NAT 规则失败',
+    });
+  }
+}
+
+/**
+ * 更新 IPv6 NAT 规则
+ * PATCH /api/ipv6/firewall/nat/:id
+ */
+export async function updateIPv6NatRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const updatedRule = await getRouterOSClient().set<IPv6NatRule>(
+      IPV6_FIREWALL_NAT_PATH,
+      id,
+      updateData
+    );
+
+    logger.info(`Updated IPv6 NAT rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 NAT 规则已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新 IPv6 NAT 规则失败',
+    });
+  }
+}
+
+/**
+ * 删除 IPv6 NAT 规则
+ * DELETE /api/ipv6/firewall/nat/:id
+ */
+export async function deleteIPv6NatRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().remove(IPV6_FIREWALL_NAT_PATH, id);
+
+    logger.info(`Deleted IPv6 NAT rule: ${id}`);
+
+    res.json({
+      success: true,
+      message: 'IPv6 NAT 规则已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除 IPv6 NAT 规则失败',
+    });
+  }
+}
+
+/**
+ * 启用 IPv6 NAT 规则
+ * POST /api/ipv6/firewall/nat/:id/enable
+ */
+export async function enableIPv6NatRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().enable(IPV6_FIREWALL_NAT_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH, id);
+
+    logger.info(`Enabled IPv6 NAT rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 NAT 规则已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 IPv6 NAT 规则失败',
+    });
+  }
+}
+
+/**
+ * 禁用 IPv6 NAT 规则
+ * POST /api/ipv6/firewall/nat/:id/disable
+ */
+export async function disableIPv6NatRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().disable(IPV6_FIREWALL_NAT_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH, id);
+
+    logger.info(`Disabled IPv6 NAT rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 NAT 规则已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 IPv6 NAT 规则失败',
+    });
+  }
+}
+
+/**
+ * 移动 IPv6 NAT 规则（调整匹配顺序）
+ * POST /api/ipv6/firewall/nat/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveIPv6NatRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 NAT 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    await getRouterOSClient().move(IPV6_FIREWALL_NAT_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<IPv6NatRule>(IPV6_FIREWALL_NAT_PATH);
+
+    logger.info(`Moved IPv6 NAT rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      message: 'IPv6 NAT 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move IPv6 NAT rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 IPv6 NAT 规则失败',
+    });
+  }
+}
+
+// ==================== IPv6 Firewall Mangle 相关 ====================
+
+/**
+ * 获取所有 IPv6 Mangle 规则
+ * GET /api/ipv6/firewall/mangle
+ */
+export async function getAllIPv6MangleRules(_req: Request, res: Response): Promise<void> {
+  try {
+    const rules = await getRouterOSClient().print<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH);
+    const data = Array.isArray(rules) ? rules : [];
+
+    logger.info(`Returning ${data.length} IPv6 mangle rules`);
+
+    res.json({
+      success: true,
+      data: data,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 mangle rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 Mangle 规则列表失败',
+    });
+  }
+}
+
+/**
+ * 获取单条 IPv6 Mangle 规则
+ * GET /api/ipv6/firewall/mangle/:id
+ */
+export async function getIPv6MangleRuleById(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const rule = await getRouterOSClient().getById<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH, id);
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 Mangle 规则不存在',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 Mangle 规则详情失败',
+    });
+  }
+}
+
+/**
+ * 创建 IPv6 Mangle 规则
+ * POST /api/ipv6/firewall/mangle
+ */
+export async function createIPv6MangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.chain) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：chain',
+      });
+      return;
+    }
+
+    if (!data.action) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：action',
+      });
+      return;
+    }
+
+    const invalid = validateMangleRule(data);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const newRule = await getRouterOSClient().add<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH, data);
+
+    logger.info(`Created IPv6 mangle rule: chain=${data.chain}, action=${data.action}`);
+
+    res.status(201).json({
+      success: true,
+      data: newRule,
+      message: 'IPv6 Mangle 规则已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建 IPv6 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 更新 IPv6 Mangle 规则
+ * PATCH /api/ipv6/firewall/mangle/:id
+ */
+export async function updateIPv6MangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const existing = await getRouterOSClient().getById<Record<string, unknown>>(IPV6_FIREWALL_MANGLE_PATH, id);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 Mangle 规则不存在',
+      });
+      return;
+    }
+
+    const invalid = validateMangleRule(updateData, existing);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const updatedRule = await getRouterOSClient().set<IPv6MangleRule>(
+      IPV6_FIREWALL_MANGLE_PATH,
+      id,
+      updateData
+    );
+
+    logger.info(`Updated IPv6 mangle rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 Mangle 规则已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新 IPv6 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 删除 IPv6 Mangle 规则
+ * DELETE /api/ipv6/firewall/mangle/:id
+ */
+export async function deleteIPv6MangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().remove(IPV6_FIREWALL_MANGLE_PATH, id);
+
+    logger.info(`Deleted IPv6 mangle rule: ${id}`);
+
+    res.json({
+      success: true,
+      message: 'IPv6 Mangle 规则已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除 IPv6 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 启用 IPv6 Mangle 规则
+ * POST /api/ipv6/firewall/mangle/:id/enable
+ */
+export async function enableIPv6MangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().enable(IPV6_FIREWALL_MANGLE_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH, id);
+
+    logger.info(`Enabled IPv6 mangle rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 Mangle 规则已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 IPv6 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 禁用 IPv6 Mangle 规则
+ * POST /api/ipv6/firewall/mangle/:id/disable
+ */
+export async function disableIPv6MangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().disable(IPV6_FIREWALL_MANGLE_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH, id);
+
+    logger.info(`Disabled IPv6 mangle rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 Mangle 规则已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 IPv6 Mangle 规则失败',
+    });
+  }
+}
+
+/**
+ * 移动 IPv6 Mangle 规则（调整匹配顺序）
+ * POST /api/ipv6/firewall/mangle/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveIPv6MangleRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 Mangle 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    await getRouterOSClient().move(IPV6_FIREWALL_MANGLE_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<IPv6MangleRule>(IPV6_FIREWALL_MANGLE_PATH);
+
+    logger.info(`Moved IPv6 mangle rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      message: 'IPv6 Mangle 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move IPv6 mangle rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 IPv6 Mangle 规则失败',
+    });
+  }
+}
+
+// ==================== IPv6 Firewall Raw 相关 ====================
+
+/**
+ * 获取所有 IPv6 Raw 规则
+ * GET /api/ipv6/firewall/raw
+ */
+export async function getAllIPv6RawRules(_req: Request, res: Response): Promise<void> {
+  try {
+    const rules = await getRouterOSClient().print<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH);
+    const data = Array.isArray(rules) ? rules : [];
+
+    logger.info(`Returning ${data.length} IPv6 raw rules`);
+
+    res.json({
+      success: true,
+      data: data,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 raw rules:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 Raw 规则列表失败',
+    });
+  }
+}
+
+/**
+ * 获取单条 IPv6 Raw 规则
+ * GET /api/ipv6/firewall/raw/:id
+ */
+export async function getIPv6RawRuleById(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    const rule = await getRouterOSClient().getById<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH, id);
+
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 Raw 规则不存在',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 Raw 规则详情失败',
+    });
+  }
+}
+
+/**
+ * 创建 IPv6 Raw 规则
+ * POST /api/ipv6/firewall/raw
+ */
+export async function createIPv6RawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.chain) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：chain',
+      });
+      return;
+    }
+
+    if (!data.action) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：action',
+      });
+      return;
+    }
+
+    const invalid = validateFilterRule(data, true, RAW_ACTIONS);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const newRule = await getRouterOSClient().add<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH, data);
+
+    logger.info(`Created IPv6 raw rule: chain=${data.chain}, action=${data.action}`);
+
+    res.status(201).json({
+      success: true,
+      data: newRule,
+      message: 'IPv6 Raw 规则已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建 IPv6 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 更新 IPv6 Raw 规则
+ * PATCH /api/ipv6/firewall/raw/:id
+ */
+export async function updateIPv6RawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const invalid = validateFilterRule(updateData, false, RAW_ACTIONS);
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        error: invalid,
+      });
+      return;
+    }
+
+    const updatedRule = await getRouterOSClient().set<IPv6RawRule>(
+      IPV6_FIREWALL_RAW_PATH,
+      id,
+      updateData
+    );
+
+    logger.info(`Updated IPv6 raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 Raw 规则已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新 IPv6 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 删除 IPv6 Raw 规则
+ * DELETE /api/ipv6/firewall/raw/:id
+ */
+export async function deleteIPv6RawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().remove(IPV6_FIREWALL_RAW_PATH, id);
+
+    logger.info(`Deleted IPv6 raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      message: 'IPv6 Raw 规则已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除 IPv6 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 启用 IPv6 Raw 规则
+ * POST /api/ipv6/firewall/raw/:id/enable
+ */
+export async function enableIPv6RawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().enable(IPV6_FIREWALL_RAW_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH, id);
+
+    logger.info(`Enabled IPv6 raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 Raw 规则已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 IPv6 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 禁用 IPv6 Raw 规则
+ * POST /api/ipv6/firewall/raw/:id/disable
+ */
+export async function disableIPv6RawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().disable(IPV6_FIREWALL_RAW_PATH, id);
+    const updatedRule = await getRouterOSClient().getById<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH, id);
+
+    logger.info(`Disabled IPv6 raw rule: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedRule,
+      message: 'IPv6 Raw 规则已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 IPv6 Raw 规则失败',
+    });
+  }
+}
+
+/**
+ * 移动 IPv6 Raw 规则（调整匹配顺序）
+ * POST /api/ipv6/firewall/raw/:id/move
+ * body: { destination?: string } 移动到该规则之前，未指定时移动到末尾
+ */
+export async function moveIPv6RawRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { destination } = req.body || {};
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少规则 ID',
+      });
+      return;
+    }
+
+    if (destination !== undefined && (typeof destination !== 'string' || destination === id)) {
+      res.status(400).json({
+        success: false,
+        error: 'destination 参数无效',
+      });
+      return;
+    }
+
+    const rules = await getRouterOSClient().print<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH);
+    if (!rules.some((rule) => rule['.id'] === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'IPv6 Raw 规则不存在',
+      });
+      return;
+    }
+    if (destination && !rules.some((rule) => rule['.id'] === destination)) {
+      res.status(400).json({
+        success: false,
+        error: '目标位置的规则不存在',
+      });
+      return;
+    }
+
+    await getRouterOSClient().move(IPV6_FIREWALL_RAW_PATH, id, destination || undefined);
+    const ordered = await getRouterOSClient().print<IPv6RawRule>(IPV6_FIREWALL_RAW_PATH);
+
+    logger.info(`Moved IPv6 raw rule ${id} ${destination ? `before ${destination}` : 'to the end'}`);
+
+    res.json({
+      success: true,
+      data: ordered,
+      message: 'IPv6 Raw 规则已移动',
+    });
+  } catch (error) {
+    logger.error('Failed to move IPv6 raw rule:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '移动 IPv6 Raw 规则失败',
+    });
+  }
+}
+
+// ==================== IPv6 Firewall Address List 相关 ====================
+
+/**
+ * 获取所有 IPv6 地址列表条目
+ * GET /api/ipv6/firewall/address-list
+ */
+export async function getAllIPv6AddressListEntries(_req: Request, res: Response): Promise<void> {
+  try {
+    const entries = await getRouterOSClient().print<IPv6AddressListEntry>(IPV6_FIREWALL_ADDRESS_LIST_PATH);
+    const data = Array.isArray(entries) ? entries : [];
+
+    logger.info(`Returning ${data.length} IPv6 address list entries`);
+
+    res.json({
+      success: true,
+      data: data,
+    });
+  } catch (error) {
+    logger.error('Failed to get IPv6 address list entries:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取 IPv6 地址列表失败',
+    });
+  }
+}
+
+/**
+ * 创建 IPv6 地址列表条目
+ * POST /api/ipv6/firewall/address-list
+ */
+export async function createIPv6AddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const data = req.body;
+
+    if (!data || !data.list) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：list（列表名称）',
+      });
+      return;
+    }
+
+    if (!data.address) {
+      res.status(400).json({
+        success: false,
+        error: '缺少必要参数：address（IPv6 地址）',
+      });
+      return;
+    }
+
+    const newEntry = await getRouterOSClient().add<IPv6AddressListEntry>(IPV6_FIREWALL_ADDRESS_LIST_PATH, data);
+
+    logger.info(`Created IPv6 address list entry: list=${data.list}, address=${data.address}`);
+
+    res.status(201).json({
+      success: true,
+      data: newEntry,
+      message: 'IPv6 地址条目已创建',
+    });
+  } catch (error) {
+    logger.error('Failed to create IPv6 address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建 IPv6 地址条目失败',
+    });
+  }
+}
+
+/**
+ * 更新 IPv6 地址列表条目
+ * PATCH /api/ipv6/firewall/address-list/:id
+ */
+export async function updateIPv6AddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const updateData = req.body;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少条目 ID',
+      });
+      return;
+    }
+
+    if (!updateData || Object.keys(updateData).length === 0) {
+      res.status(400).json({
+        success: false,
+        error: '缺少更新数据',
+      });
+      return;
+    }
+
+    const updatedEntry = await getRouterOSClient().set<IPv6AddressListEntry>(IPV6_FIREWALL_ADDRESS_LIST_PATH, id, updateData);
+
+    logger.info(`Updated IPv6 address list entry: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedEntry,
+      message: 'IPv6 地址条目已更新',
+    });
+  } catch (error) {
+    logger.error('Failed to update IPv6 address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新 IPv6 地址条目失败',
+    });
+  }
+}
+
+/**
+ * 删除 IPv6 地址列表条目
+ * DELETE /api/ipv6/firewall/address-list/:id
+ */
+export async function deleteIPv6AddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少条目 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().remove(IPV6_FIREWALL_ADDRESS_LIST_PATH, id);
+
+    logger.info(`Deleted IPv6 address list entry: ${id}`);
+
+    res.json({
+      success: true,
+      message: 'IPv6 地址条目已删除',
+    });
+  } catch (error) {
+    logger.error('Failed to delete IPv6 address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除 IPv6 地址条目失败',
+    });
+  }
+}
+
+/**
+ * 启用 IPv6 地址列表条目
+ * POST /api/ipv6/firewall/address-list/:id/enable
+ */
+export async function enableIPv6AddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少条目 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().enable(IPV6_FIREWALL_ADDRESS_LIST_PATH, id);
+    const updatedEntry = await getRouterOSClient().getById<IPv6AddressListEntry>(IPV6_FIREWALL_ADDRESS_LIST_PATH, id);
+
+    logger.info(`Enabled IPv6 address list entry: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedEntry,
+      message: 'IPv6 地址条目已启用',
+    });
+  } catch (error) {
+    logger.error('Failed to enable IPv6 address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '启用 IPv6 地址条目失败',
+    });
+  }
+}
+
+/**
+ * 禁用 IPv6 地址列表条目
+ * POST /api/ipv6/firewall/address-list/:id/disable
+ */
+export async function disableIPv6AddressListEntry(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({
+        success: false,
+        error: '缺少条目 ID',
+      });
+      return;
+    }
+
+    await getRouterOSClient().disable(IPV6_FIREWALL_ADDRESS_LIST_PATH, id);
+    const updatedEntry = await getRouterOSClient().getById<IPv6AddressListEntry>(IPV6_FIREWALL_ADDRESS_LIST_PATH, id);
+
+    logger.info(`Disabled IPv6 address list entry: ${id}`);
+
+    res.json({
+      success: true,
+      data: updatedEntry,
+      message: 'IPv6 地址条目已禁用',
+    });
+  } catch (error) {
+    logger.error('Failed to disable IPv6 address list entry:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '禁用 IPv6 地址条目失败',
+    });
+  }
+}
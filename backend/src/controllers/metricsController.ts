@@ -0,0 +1,44 @@
+/**
+ * Metrics Controller
+ * 处理 Prometheus 指标抓取请求
+ */
+
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { metricsExporter, PROMETHEUS_CONTENT_TYPE } from '../services/metricsExporter';
+import { logger } from '../utils/logger';
+
+/**
+ * 校验抓取令牌（设置 METRICS_TOKEN 时要求 Authorization: Bearer <token>）
+ */
+function isAuthorized(req: Request): boolean {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) {
+    return true;
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = Buffer.from(header.startsWith('Bearer ') ? header.substring(7) : '');
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * 导出 Prometheus 指标
+ * GET /metrics
+ */
+export async function getMetrics(req: Request, res: Response): Promise<void> {
+  if (!isAuthorized(req)) {
+    res.status(401).type('text/plain').send('Unauthorized\n');
+    return;
+  }
+
+  try {
+    const body = await metricsExporter.render();
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.send(body);
+  } catch (error) {
+    logger.error('Failed to export metrics:', error);
+    res.status(500).type('text/plain').send('Failed to export metrics\n');
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * RouterOS Menu Controller
+ * 通用菜单浏览器：对允许列表中的任意菜单执行 print/add/set/remove/enable/disable
+ *
+ * 路径示例：
+ * - GET    /api/ros/queue/simple?target=192.168.88.10/32  print（查询参数作为过滤条件）
+ * - POST   /api/ros/queue/simple                          add
+ * - PATCH  /api/ros/queue/simple/*1A                      set
+ * - PATCH  /api/ros/ip/dns                                set（单例菜单）
+ * - DELETE /api/ros/queue/simple/*1A                      remove
+ * - POST   /api/ros/queue/simple/*1A/enable               enable / disable
+ *
+ * 非 admin 读取时隐藏密码、密钥等敏感属性的值，且不能按这些属性过滤
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { requireRole } from '../middleware/auth';
+import { hasRole } from '../services/authService';
+import { isSensitiveKey, maskState } from '../services/configChangeRecorder';
+import { getRouterOSClient } from '../services/routerosClientPool';
+import {
+  MenuTarget,
+  getMenuAllowlist,
+  isAdminOnlyMenu,
+  isMenuAllowed,
+  parseMenuTarget,
+} from '../services/rosMenuService';
+import { logger } from '../utils/logger';
+
+type MenuRecord = Record<string, unknown>;
+
+/**
+ * 解析并校验请求的菜单，失败时直接返回错误响应
+ */
+function resolveTarget(req: Request, res: Response): MenuTarget | null {
+  let target: MenuTarget;
+  try {
+    target = parseMenuTarget(req.params[0] || '');
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : '无效的菜单路径' });
+    return null;
+  }
+
+  if (!isMenuAllowed(target.path)) {
+    res.status(403).json({ success: false, error: `菜单不在允许列表中: ${target.path}` });
+    return null;
+  }
+  return target;
+}
+
+/**
+ * 修改脚本、计划任务等可执行代码的菜单时要求 admin（与 /api/system/scripts/:id/run 一致）
+ * 路径无效时交由后续处理返回 400
+ */
+export function authorizeMenuWrite(req: Request, res: Response, next: NextFunction): void {
+  let target: MenuTarget;
+  try {
+    target = parseMenuTarget(req.params[0] || '');
+  } catch {
+    next();
+    return;
+  }
+
+  if (isAdminOnlyMenu(target.path)) {
+    requireRole('admin')(req, res, next);
+    return;
+  }
+  next();
+}
+
+/**
+ * 当前用户能否读取敏感属性的值（PPP 密码、IPsec 密钥、无线预共享密钥等）
+ */
+function canReadSecrets(req: Request): boolean {
+  return req.user !== undefined && hasRole(req.user.role, 'admin');
+}
+
+/**
+ * 读取请求体中的属性（忽略 .id 等只读的内部属性）
+ */
+function getProperties(req: Request, res: Response): MenuRecord | null {
+  const body = req.body;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    res.status(400).json({ success: false, error: '请求体必须是属性对象' });
+    return null;
+  }
+
+  const properties: MenuRecord = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (key.startsWith('.')) continue;
+    if (value !== null && typeof value === 'object') {
+      res.status(400).json({ success: false, error: `属性 ${key} 的值必须是字符串、数字或布尔值` });
+      return null;
+    }
+    properties[key] = value;
+  }
+  return properties;
+}
+
+/**
+ * 获取允许访问的菜单列表
+ * GET /api/ros/menus
+ */
+export async function getMenus(_req: Request, res: Response): Promise<void> {
+  res.json({ success: true, data: getMenuAllowlist() });
+}
+
+/**
+ * 获取菜单条目（或单个条目）
+ * GET /api/ros/<menu>[/<id>]
+ */
+export async function printMenu(req: Request, res: Response): Promise<void> {
+  const target = resolveTarget(req, res);
+  if (!target) return;
+
+  if (target.action) {
+    res.status(405).json({ success: false, error: `${target.action} 需要使用 POST 请求` });
+    return;
+  }
+
+  const revealSecrets = canReadSecrets(req);
+  const reveal = (item: MenuRecord) => (revealSecrets ? item : maskState(item));
+
+  try {
+    if (target.id) {
+      const item = await getRouterOSClient().getById<MenuRecord>(target.path, target.id);
+      if (!item) {
+        res.status(404).json({ success: false, error: '条目不存在' });
+        return;
+      }
+      res.json({ success: true, data: reveal(item) });
+      return;
+    }
+
+    const query: Record<string, string> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      if (typeof value === 'string') query[key] = value;
+    }
+    // 按敏感属性过滤可以逐个猜测其值
+    const sensitive = Object.keys(query).find(isSensitiveKey);
+    if (sensitive && !revealSecrets) {
+      res.status(403).json({ success: false, error: `按敏感属性 ${sensitive} 过滤需要 admin 权限` });
+      return;
+    }
+    const items = await getRouterOSClient().print<MenuRecord>(
+      target.path,
+      Object.keys(query).length > 0 ? query : undefined
+    );
+    res.json({ success: true, data: items.map(reveal) });
+  } catch (error) {
+    logger.error(`Failed to print ${target.path}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取菜单数据失败',
+    });
+  }
+}
+
+/**
+ * 添加条目，或对条目执行 enable/disable
+ * POST /api/ros/<menu>
+ * POST /api/ros/<menu>/<id>/enable|disable
+ */
+export async function addMenuItem(req: Request, res: Response): Promise<void> {
+  const target = resolveTarget(req, res);
+  if (!target) return;
+
+  try {
+    const client = getRouterOSClient();
+    if (target.action && target.id) {
+      if (target.action === 'enable') {
+        await client.enable(target.path, target.id);
+      } else {
+        await client.disable(target.path, target.id);
+      }
+      const item = await client.getById<MenuRecord>(target.path, target.id);
+      res.json({ success: true, data: item });
+      return;
+    }
+
+    if (target.id) {
+      res.status(405).json({ success: false, error: '更新条目请使用 PATCH 请求' });
+      return;
+    }
+
+    const properties = getProperties(req, res);
+    if (!properties) return;
+    const item = await client.add<MenuRecord>(target.path, properties);
+    res.status(201).json({ success: true, data: item });
+  } catch (error) {
+    logger.error(`Failed to ${target.action || 'add'} ${target.path}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '操作失败',
+    });
+  }
+}
+
+/**
+ * 更新条目，未指定条目 ID 时更新单例菜单
+ * PATCH /api/ros/<menu>[/<id>]
+ */
+export async function updateMenuItem(req: Request, res: Response): Promise<void> {
+  const target = resolveTarget(req, res);
+  if (!target) return;
+
+  if (target.action) {
+    res.status(405).json({ success: false, error: `${target.action} 需要使用 POST 请求` });
+    return;
+  }
+
+  const properties = getProperties(req, res);
+  if (!properties) return;
+  if (Object.keys(properties).length === 0) {
+    res.status(400).json({ success: false, error: '没有需要更新的属性' });
+    return;
+  }
+
+  try {
+    const client = getRouterOSClient();
+    const item = target.id
+      ? await client.set<MenuRecord>(target.path, target.id, properties)
+      : await client.setSingleton<MenuRecord>(target.path, properties);
+    res.json({ success: true, data: item });
+  } catch (error) {
+    logger.error(`Failed to update ${target.path}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新失败',
+    });
+  }
+}
+
+/**
+ * 删除条目
+ * DELETE /api/ros/<menu>/<id>
+ */
+export async function deleteMenuItem(req: Request, res: Response): Promise<void> {
+  const target = resolveTarget(req, res);
+  if (!target) return;
+
+  if (!target.id || target.action) {
+    res.status(400).json({ success: false, error: '缺少条目 ID' });
+    return;
+  }
+
+  try {
+    await getRouterOSClient().remove(target.path, target.id);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error(`Failed to remove ${target.path} ${target.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除失败',
+    });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Secret Controller
+ * 处理敏感信息加密密钥的查询和轮换请求
+ */
+
+import { Request, Response } from 'express';
+import { secretStore } from '../services/secretStore';
+import { migrateSecrets } from '../services/secretMigration';
+import { logger } from '../utils/logger';
+
+/**
+ * 获取当前密钥信息（不含密钥本身）
+ * GET /api/secrets
+ */
+export async function getSecretKeyInfo(_req: Request, res: Response): Promise<void> {
+  try {
+    res.json({ success: true, data: secretStore.getKeyInfo() });
+  } catch (error) {
+    logger.error('Failed to get secret key info:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取密钥信息失败',
+    });
+  }
+}
+
+/**
+ * 生成新密钥，并用新密钥重新加密所有保存的敏感信息
+ * POST /api/secrets/rotate
+ */
+export async function rotateSecretKey(_req: Request, res: Response): Promise<void> {
+  try {
+    secretStore.rotateKey();
+    const result = await migrateSecrets();
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('Failed to rotate secret key:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : '密钥轮换失败',
+    });
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * 持续输出命令权限和并发限制测试
+ *
+ * 验证 listen、print 所有角色均可使用，monitor、torch、ping 等主动执行的命令需要 operator；
+ * 每个会话同时打开的流不超过上限，流结束或客户端断开后释放名额
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import { RouterOSCommandStream } from '../services/routerosCommandStream';
+import { getRouterOSClient } from '../services/routerosClientPool';
+import { MAX_STREAMS_PER_SESSION } from './streamController';
+import streamRoutes from '../routes/streamRoutes';
+import { UserRole } from '../types';
+
+jest.mock('../services/routerosClientPool', () => ({
+  getRouterOSClient: jest.fn(),
+}));
+
+const mockGetClient = getRouterOSClient as jest.Mock;
+
+/**
+ * 打开 SSE 请求，收到响应头后返回状态码和关闭连接的方法
+ */
+function openStream(port: number, path: string, session: string, role: UserRole = 'operator') {
+  return new Promise<{ status: number; close: () => void }>((resolve, reject) => {
+    const req = http.get({ port, path, headers: { 'x-test-session': session, 'x-test-role': role } }, (res) => {
+      res.resume();
+      resolve({ status: res.statusCode || 0, close: () => req.destroy() });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('stream controller', () => {
+  let app: express.Express;
+  let server: http.Server;
+  let port: number;
+  let streams: RouterOSCommandStream[];
+
+  beforeEach(async () => {
+    streams = [];
+    mockGetClient.mockReset();
+    mockGetClient.mockReturnValue({
+      stream: (command: string, params: string[]) => {
+        const stream = new RouterOSCommandStream(command, params);
+        streams.push(stream);
+        return stream;
+      },
+    });
+
+    app = express();
+    app.use((req, _res, next) => {
+      const role = (req.header('x-test-role') || 'viewer') as UserRole;
+      req.user = { id: 'u1', username: role, role, createdAt: 0, updatedAt: 0 };
+      req.sessionToken = req.header('x-test-session') || 'session-1';
+      next();
+    });
+    app.use('/api/stream', streamRoutes);
+
+    server = app.listen(0);
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await Promise.all(streams.map((stream) => stream.stop()));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should require operator for commands that run on the router', async () => {
+    for (const path of ['tool/torch?interface=ether1', 'ping?address=8.8.8.8', 'interface/ethernet/monitor?interface=ether1']) {
+      const res = await request(app).get(`/api/stream/${path}`).set('x-test-role', 'viewer');
+      expect(res.status).toBe(403);
+      expect(res.body.error).toContain('operator');
+    }
+    expect(mockGetClient).not.toHaveBeenCalled();
+  });
+
+  it('should allow viewers to follow logs and listen', async () => {
+    const log = await openStream(port, '/api/stream/log/print?follow-only=', 'viewer-session', 'viewer');
+    const listen = await openStream(port, '/api/stream/ip/address/listen', 'viewer-session', 'viewer');
+    expect(log.status).toBe(200);
+    expect(listen.status).toBe(200);
+    expect(streams.map((stream) => stream.command)).toEqual(['/log/print', '/ip/address/listen']);
+    log.close();
+    listen.close();
+  });
+
+  it('should limit concurrent streams per session and release them when closed', async () => {
+    const opened = [];
+    for (let i = 0; i < MAX_STREAMS_PER_SESSION; i++) {
+      opened.push(await openStream(port, '/api/stream/tool/torch?interface=ether1', 'session-a'));
+    }
+    expect(opened.every((item) => item.status === 200)).toBe(true);
+
+    const rejected = await request(app).get('/api/stream/ping?address=8.8.8.8').set('x-test-session', 'session-a').set('x-test-role', 'operator');
+    expect(rejected.status).toBe(429);
+
+    // 其他会话不受影响
+    const other = await openStream(port, '/api/stream/ping?address=8.8.8.8', 'session-b');
+    expect(other.status).toBe(200);
+    other.close();
+
+    // 客户端断开后释放名额
+    opened[0].close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(streams[0].isEnded()).toBe(true);
+    const reopened = await openStream(port, '/api/stream/ping?address=8.8.8.8', 'session-a');
+    expect(reopened.status).toBe(200);
+
+    // 命令在设备上结束后同样释放名额
+    await streams[1].stop();
+    const afterEnd = await openStream(port, '/api/stream/ping?address=8.8.8.8', 'session-a');
+    expect(afterEnd.status).toBe(200);
+
+    for (const item of [...opened.slice(1), reopened, afterEnd]) item.close();
+  });
+});
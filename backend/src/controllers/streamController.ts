@@ -0,0 +1,170 @@
+/**
+ * Stream Controller
+ * 通过 SSE 推送持续输出命令的结果
+ *
+ * GET /api/stream/<命令路径>?<参数>，查询参数作为命令参数（值为空表示开关参数），例如：
+ * - /api/stream/interface/monitor-traffic?interface=ether1,ether2
+ * - /api/stream/tool/torch?interface=ether1&src-address=0.0.0.0/0
+ * - /api/stream/ping?address=8.8.8.8&count=10
+ * - /api/stream/log/print?follow-only=
+ * - /api/stream/ip/address/listen（允许列表中菜单的 listen）
+ *
+ * 每条消息为 data: {"type":"data"|"end"|"error", ...}，客户端断开时停止命令
+ *
+ * listen 和 print 只读取设备上已有的数据，所有角色均可使用；monitor、torch、ping 等会在设备上
+ * 主动执行（torch 占用较多 CPU），至少需要 operator。每个会话同时打开的流不超过 MAX_STREAMS_PER_SESSION
+ */
+
+import { Request, Response } from 'express';
+import { hasRole } from '../services/authService';
+import { getRouterOSClient } from '../services/routerosClientPool';
+import { RouterOSCommandStream } from '../services/routerosCommandStream';
+import { isMenuAllowed, parseMenuTarget } from '../services/rosMenuService';
+import { logger } from '../utils/logger';
+
+/**
+ * 允许通过 SSE 执行的持续输出命令（另外允许菜单允许列表中菜单的 listen）
+ */
+export const STREAM_COMMANDS = [
+  '/interface/monitor-traffic',
+  '/interface/ethernet/monitor',
+  '/interface/wireless/monitor',
+  '/tool/torch',
+  '/ping',
+  '/log/print',
+];
+
+// 心跳间隔，防止代理因空闲断开连接
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+const PARAM_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * 每个会话同时打开的流的上限
+ */
+export const MAX_STREAMS_PER_SESSION = 4;
+
+// 各会话当前打开的流数量
+const openStreams = new Map<string, number>();
+
+/**
+ * 是否只读取设备上已有数据的命令（listen、print），其余命令会在设备上主动执行
+ */
+function isPassiveCommand(command: string): boolean {
+  return command.endsWith('/listen') || command.endsWith('/print');
+}
+
+/**
+ * 解析请求的命令和参数，失败时直接返回错误响应
+ */
+function resolveCommand(req: Request, res: Response): { command: string; params: string[] } | null {
+  let command: string;
+  try {
+    const target = parseMenuTarget(req.params[0] || '');
+    if (target.id) {
+      throw new Error('无效的命令路径');
+    }
+    command = target.path;
+  } catch (error) {
+    res.status(400).json({ success: false, error: error instanceof Error ? error.message : '无效的命令路径' });
+    return null;
+  }
+
+  const listenMenu = command.endsWith('/listen') ? command.slice(0, -'/listen'.length) : null;
+  const allowed = STREAM_COMMANDS.includes(command) || (listenMenu !== null && listenMenu !== '' && isMenuAllowed(listenMenu));
+  if (!allowed) {
+    res.status(403).json({ success: false, error: `不支持持续输出的命令: ${command}` });
+    return null;
+  }
+  if (!isPassiveCommand(command) && (!req.user || !hasRole(req.user.role, 'operator'))) {
+    res.status(403).json({ success: false, error: `执行 ${command} 至少需要 operator 权限` });
+    return null;
+  }
+
+  const params: string[] = [];
+  for (const [key, value] of Object.entries(req.query)) {
+    if (!PARAM_PATTERN.test(key) || typeof value !== 'string') {
+      res.status(400).json({ success: false, error: `无效的参数: ${key}` });
+      return null;
+    }
+    params.push(`=${key}=${value}`);
+  }
+  return { command, params };
+}
+
+/**
+ * 执行持续输出的命令并通过 SSE 推送结果
+ * GET /api/stream/<command>
+ */
+export async function streamCommand(req: Request, res: Response): Promise<void> {
+  const resolved = resolveCommand(req, res);
+  if (!resolved) return;
+
+  const session = req.sessionToken || '';
+  const openCount = openStreams.get(session) || 0;
+  if (openCount >= MAX_STREAMS_PER_SESSION) {
+    res.status(429).json({
+      success: false,
+      error: `同时打开的持续输出命令不能超过 ${MAX_STREAMS_PER_SESSION} 个，请先关闭其他命令`,
+    });
+    return;
+  }
+
+  let stream: RouterOSCommandStream;
+  try {
+    stream = getRouterOSClient().stream(resolved.command, resolved.params);
+  } catch (error) {
+    logger.error(`Failed to start stream ${resolved.command}:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '执行命令失败',
+    });
+    return;
+  }
+
+  // 设置 SSE 响应头
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (message: Record<string, unknown>) => {
+    if (res.writableEnded || res.destroyed) return;
+    res.write(`data: ${JSON.stringify({ ...message, timestamp: new Date().toISOString() })}\n\n`);
+  };
+
+  openStreams.set(session, openCount + 1);
+  // 流结束和客户端断开都会调用，只释放一次
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    const remaining = (openStreams.get(session) || 1) - 1;
+    if (remaining > 0) {
+      openStreams.set(session, remaining);
+    } else {
+      openStreams.delete(session);
+    }
+  };
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  stream.on('data', (records) => send({ type: 'data', data: records }));
+  stream.once('end', (error: Error | null) => {
+    clearInterval(heartbeat);
+    release();
+    if (error) {
+      send({ type: 'error', error: error.message });
+    } else {
+      send({ type: 'end' });
+    }
+    res.end();
+  });
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    release();
+    stream.stop().catch(() => undefined);
+  });
+}
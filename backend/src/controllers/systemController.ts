@@ -4,7 +4,7 @@
  */
 
 import { Request, Response } from 'express';
-import { routerosClient } from '../services/routerosClient';
+import { getRouterOSClient } from '../services/routerosClientPool';
 import { Scheduler, Script } from '../types';
 import { logger } from '../utils/logger';
 
@@ -19,7 +19,7 @@ const SCRIPT_PATH = '/system/script';
  */
 export async function getAllSchedulers(_req: Request, res: Response): Promise<void> {
   try {
-    const schedulers = await routerosClient.print<Scheduler>(SCHEDULER_PATH);
+    const schedulers = await getRouterOSClient().print<Scheduler>(SCHEDULER_PATH);
     
     res.json({
       success: true,
@@ -50,7 +50,7 @@ export async function getSchedulerById(req: Request, res: Response): Promise<voi
       return;
     }
 
-    const scheduler = await routerosClient.getById<Scheduler>(SCHEDULER_PATH, id);
+    const scheduler = await getRouterOSClient().getById<Scheduler>(SCHEDULER_PATH, id);
     
     if (!scheduler) {
       res.status(404).json({
@@ -128,7 +128,7 @@ export async function addScheduler(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const newScheduler = await routerosClient.add<Scheduler>(SCHEDULER_PATH, schedulerData);
+    const newScheduler = await getRouterOSClient().add<Scheduler>(SCHEDULER_PATH, schedulerData);
     
     res.status(201).json({
       success: true,
@@ -178,7 +178,7 @@ export async function updateScheduler(req: Request, res: Response): Promise<void
       return;
     }
 
-    const updatedScheduler = await routerosClient.set<Scheduler>(
+    const updatedScheduler = await getRouterOSClient().set<Scheduler>(
       SCHEDULER_PATH,
       id,
       updateData
@@ -214,7 +214,7 @@ export async function deleteScheduler(req: Request, res: Response): Promise<void
       return;
     }
 
-    await routerosClient.remove(SCHEDULER_PATH, id);
+    await getRouterOSClient().remove(SCHEDULER_PATH, id);
     
     res.json({
       success: true,
@@ -245,8 +245,8 @@ export async function enableScheduler(req: Request, res: Response): Promise<void
       return;
     }
 
-    await routerosClient.enable(SCHEDULER_PATH, id);
-    const updatedScheduler = await routerosClient.getById<Scheduler>(SCHEDULER_PATH, id);
+    await getRouterOSClient().enable(SCHEDULER_PATH, id);
+    const updatedScheduler = await getRouterOSClient().getById<Scheduler>(SCHEDULER_PATH, id);
     
     res.json({
       success: true,
@@ -278,8 +278,8 @@ export async function disableScheduler(req: Request, res: Response): Promise<voi
       return;
     }
 
-    await routerosClient.disable(SCHEDULER_PATH, id);
-    const updatedScheduler = await routerosClient.getById<Scheduler>(SCHEDULER_PATH, id);
+    await getRouterOSClient().disable(SCHEDULER_PATH, id);
+    const updatedScheduler = await getRouterOSClient().getById<Scheduler>(SCHEDULER_PATH, id);
     
     res.json({
       success: true,
@@ -304,7 +304,7 @@ export async function disableScheduler(req: Request, res: Response): Promise<voi
  */
 export async function getAllScripts(_req: Request, res: Response): Promise<void> {
   try {
-    const scripts = await routerosClient.print<Script>(SCRIPT_PATH);
+    const scripts = await getRouterOSClient().print<Script>(SCRIPT_PATH);
     
     res.json({
       success: true,
@@ -335,7 +335,7 @@ export async function getScriptById(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const script = await routerosClient.getById<Script>(SCRIPT_PATH, id);
+    const script = await getRouterOSClient().getById<Script>(SCRIPT_PATH, id);
     
     if (!script) {
       res.status(404).json({
@@ -383,7 +383,7 @@ export async function addScript(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const newScript = await routerosClient.add<Script>(SCRIPT_PATH, scriptData);
+    const newScript = await getRouterOSClient().add<Script>(SCRIPT_PATH, scriptData);
     
     res.status(201).json({
       success: true,
@@ -424,7 +424,7 @@ export async function updateScript(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const updatedScript = await routerosClient.set<Script>(
+    const updatedScript = await getRouterOSClient().set<Script>(
       SCRIPT_PATH,
       id,
       updateData
@@ -460,7 +460,7 @@ export async function deleteScript(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    await routerosClient.remove(SCRIPT_PATH, id);
+    await getRouterOSClient().remove(SCRIPT_PATH, id);
     
     res.json({
       success: true,
@@ -491,7 +491,7 @@ export async function runScript(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    await routerosClient.runScript(id);
+    await getRouterOSClient().runScript(id);
     
     res.json({
       success: true,
@@ -516,7 +516,7 @@ export async function runScript(req: Request, res: Response): Promise<void> {
 export async function rebootSystem(_req: Request, res: Response): Promise<void> {
   try {
     logger.warn('System reboot requested');
-    await routerosClient.execute('/system/reboot');
+    await getRouterOSClient().execute('/system/reboot');
     
     res.json({
       success: true,
@@ -538,7 +538,7 @@ export async function rebootSystem(_req: Request, res: Response): Promise<void>
 export async function shutdownSystem(_req: Request, res: Response): Promise<void> {
   try {
     logger.warn('System shutdown requested');
-    await routerosClient.execute('/system/shutdown');
+    await getRouterOSClient().execute('/system/shutdown');
     
     res.json({
       success: true,
@@ -1,9 +1,18 @@
-import express, { Application, Request, Response, NextFunction } from 'express';
+import express, { Application, Request, Response, NextFunction, Router } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
 import { logger } from './utils/logger';
-import { connectionRoutes, interfaceRoutes, ipRoutes, ipv6Routes, systemRoutes, dashboardRoutes, firewallRoutes, containerRoutes, aiRoutes, aiOpsRoutes } from './routes';
+import { connectionRoutes, interfaceRoutes, ipRoutes, ipv6Routes, systemRoutes, dashboardRoutes, firewallRoutes, containerRoutes, aiRoutes, aiOpsRoutes, deviceRoutes, authRoutes, eventRoutes, backupRoutes, metricsRoutes, rosRoutes, streamRoutes, secretRoutes } from './routes';
+import { deviceContext, authenticate, authorizeByMethod, auditConfigChanges } from './middleware';
+import { authService } from './services/authService';
+import { routerosClientPool } from './services/routerosClientPool';
+import { routerosClient } from './services/routerosClient';
+import { configService } from './services/configService';
+import { migrateSecrets } from './services/secretMigration';
+import { realtimeService } from './services/realtimeService';
+import { closeStorage } from './services/storage';
+import { isDemoMode, startDemoRouter, stopDemoRouter } from './services/mockRouterOS';
 import { metricsCollector, scheduler, healthReportService, auditLogger, initializeInspectionHandler, alertEngine, initializeAlertPipeline, syslogReceiver } from './services/ai-ops';
 
 // Load environment variables
@@ -35,17 +44,46 @@ app.get('/api/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Prometheus 指标
+app.use('/metrics', metricsRoutes);
+
+// 登录认证：/api/auth/login 无需认证，其余 /api 路由均需有效会话
+// 角色权限：viewer 只读，写操作需要 operator，危险操作在各路由上声明需要 admin
+app.use('/api/auth', authRoutes);
+app.use('/api', authenticate, authorizeByMethod);
+
+// 设备选择：X-Device-Id 请求头指定目标设备，未指定时使用默认连接
+app.use('/api', deviceContext);
+
 // API Routes
-app.use('/api/connection', connectionRoutes);
-app.use('/api/interfaces', interfaceRoutes);
-app.use('/api/ip', ipRoutes);
-app.use('/api/ipv6', ipv6Routes);
-app.use('/api/system', systemRoutes);
-app.use('/api/dashboard', dashboardRoutes);
-app.use('/api/firewall', firewallRoutes);
-app.use('/api/container', containerRoutes);
-app.use('/api/ai', aiRoutes);
-app.use('/api/ai-ops', aiOpsRoutes);
+const apiRoutes: Array<[string, Router]> = [
+  ['/connection', connectionRoutes],
+  ['/interfaces', interfaceRoutes],
+  ['/ip', ipRoutes],
+  ['/ipv6', ipv6Routes],
+  ['/system', systemRoutes],
+  ['/dashboard', dashboardRoutes],
+  ['/firewall', firewallRoutes],
+  ['/container', containerRoutes],
+  ['/ros', rosRoutes],
+  ['/ai', aiRoutes],
+  ['/ai-ops', aiOpsRoutes],
+  ['/events', eventRoutes],
+  ['/stream', streamRoutes],
+];
+
+// 设备配置模块：修改请求记录审计日志（路径、条目 ID、修改前后状态）
+const auditedPrefixes = ['/interfaces', '/ip', '/ipv6', '/system', '/firewall', '/container', '/ros'];
+
+for (const [prefix, routes] of apiRoutes) {
+  const handlers = auditedPrefixes.includes(prefix) ? [auditConfigChanges, routes] : [routes];
+  app.use(`/api${prefix}`, ...handlers);
+  // 设备范围路由：/api/devices/:deviceId/<模块>
+  app.use(`/api/devices/:deviceId${prefix}`, deviceContext, ...handlers);
+}
+app.use('/api/devices', deviceRoutes);
+app.use('/api/backup', backupRoutes);
+app.use('/api/secrets', secretRoutes);
 
 // Error handling middleware
 app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
@@ -79,11 +117,47 @@ if (isProduction) {
 // Start server
 const server = app.listen(PORT, () => {
   logger.info(`Server is running on port ${PORT}`);
+
+  // 加载用户账户（首次启动时创建初始管理员）
+  authService.initialize().catch((error) => logger.error('Failed to initialize AuthService:', error));
+
+  // 启动实时推送通道（需在恢复连接前注册，以推送连接状态变化）
+  realtimeService.start();
+
+  // 用当前密钥加密保存的敏感信息（旧版本保存的明文、更换密钥前的密文）
+  migrateSecrets().catch((error) => logger.error('Failed to migrate stored secrets:', error));
+
+  // 使用保存的连接配置恢复默认设备连接（失败时自动重连）
+  restoreSavedConnection();
   
   // 初始化 AI-Ops 服务
   initializeAiOpsServices();
 });
 
+/**
+ * 使用保存的连接配置连接默认设备（演示模式下连接模拟设备）
+ * 连接失败时由 RouterOSClient 按退避策略在后台重试
+ */
+async function restoreSavedConnection(): Promise<void> {
+  try {
+    // 演示模式：连接进程内的模拟设备，不使用保存的连接配置
+    if (isDemoMode()) {
+      const demoConfig = await startDemoRouter();
+      logger.warn(`Demo mode enabled, connecting to mock RouterOS at ${demoConfig.host}:${demoConfig.port}`);
+      await routerosClient.connect(demoConfig);
+      return;
+    }
+
+    const config = await configService.loadConfig();
+    if (config) {
+      logger.info(`Restoring saved connection to ${config.host}`);
+      await routerosClient.connectInBackground(config);
+    }
+  } catch (error) {
+    logger.error('Failed to restore saved connection:', error);
+  }
+}
+
 /**
  * 初始化 AI-Ops 智能运维服务
  * Requirements: 1.1, 4.1, 5.1
@@ -180,6 +254,10 @@ const gracefulShutdown = async (signal: string) => {
     await metricsCollector.stop();
     syslogReceiver.stop();
     auditLogger.stop();
+    realtimeService.stop();
+    await routerosClientPool.disconnectAll();
+    await stopDemoRouter();
+    closeStorage();
     logger.info('AI-Ops services stopped');
   } catch (error) {
     logger.error('Error stopping AI-Ops services:', error);
@@ -0,0 +1,88 @@
+/**
+ * Authentication Middleware
+ * 校验 Authorization: Bearer <token> 会话令牌，并将当前用户挂载到 req.user
+ *
+ * 角色权限：
+ * - authorizeByMethod: 默认策略，GET/HEAD/OPTIONS 允许所有角色，其余请求至少需要 operator
+ * - requireRole: 在路由上声明更高的角色要求（如重启、恢复快照等危险操作需要 admin）
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authService, hasRole } from '../services/authService';
+import { SafeUser, UserRole } from '../types';
+import { logger } from '../utils/logger';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: SafeUser;
+    sessionToken?: string;
+  }
+}
+
+/**
+ * 从请求中提取会话令牌
+ */
+export function getSessionToken(req: Request): string | undefined {
+  const header = req.header('authorization');
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || undefined;
+  }
+  return undefined;
+}
+
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const token = getSessionToken(req);
+  if (!token) {
+    res.status(401).json({ success: false, error: '未登录或登录已过期' });
+    return;
+  }
+
+  try {
+    const user = await authService.validateSession(token);
+    if (!user) {
+      res.status(401).json({ success: false, error: '未登录或登录已过期' });
+      return;
+    }
+    req.user = user;
+    req.sessionToken = token;
+    // 在用户上下文中继续处理，审计日志据此记录操作用户
+    authService.runWithUser(user, () => next());
+  } catch (error) {
+    logger.error('Failed to validate session:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '会话校验失败',
+    });
+  }
+}
+
+/**
+ * 要求当前用户至少具有指定角色
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: '未登录或登录已过期' });
+      return;
+    }
+    if (!hasRole(req.user.role, role)) {
+      logger.warn(`Permission denied: ${req.user.username} (${req.user.role}) ${req.method} ${req.originalUrl}`);
+      res.status(403).json({ success: false, error: '权限不足' });
+      return;
+    }
+    next();
+  };
+}
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * 默认权限策略：viewer 仅允许只读请求，写操作至少需要 operator
+ */
+export function authorizeByMethod(req: Request, res: Response, next: NextFunction): void {
+  if (READ_ONLY_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+  requireRole('operator')(req, res, next);
+}
@@ -0,0 +1,60 @@
+/**
+ * Config Audit Middleware
+ * 为设备配置修改请求（POST/PUT/PATCH/DELETE）记录审计日志
+ *
+ * 请求在 configChangeRecorder 上下文中处理，响应结束后为其中的每项修改写入一条
+ * api_change 审计记录，包含 RouterOS 路径、条目 ID 以及修改前后的条目状态
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { configChangeRecorder } from '../services/configChangeRecorder';
+import { auditLogger } from '../services/ai-ops/auditLogger';
+import { DEFAULT_DEVICE_ID } from '../services/routerosClientPool';
+import { AuditConfigChange, AuditUser } from '../types';
+import { DEVICE_ID_HEADER } from './deviceContext';
+import { logger } from '../utils/logger';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export function auditConfigChanges(req: Request, res: Response, next: NextFunction): void {
+  if (READ_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  const changes: AuditConfigChange[] = [];
+  const trigger = `${req.method} ${req.originalUrl}`;
+  const deviceId = req.params.deviceId || req.header(DEVICE_ID_HEADER) || DEFAULT_DEVICE_ID;
+  const user: AuditUser | undefined = req.user ? { id: req.user.id, username: req.user.username } : undefined;
+
+  res.on('finish', () => {
+    if (changes.length === 0) return;
+    writeAuditLogs(changes, trigger, deviceId, res.statusCode, user).catch((error) =>
+      logger.error('Failed to write config change audit logs:', error)
+    );
+  });
+
+  configChangeRecorder.run(changes, () => next());
+}
+
+async function writeAuditLogs(
+  changes: AuditConfigChange[],
+  trigger: string,
+  deviceId: string,
+  statusCode: number,
+  user: AuditUser | undefined
+): Promise<void> {
+  for (const change of changes) {
+    await auditLogger.log({
+      action: 'api_change',
+      actor: 'user',
+      ...(user ? { user } : {}),
+      details: {
+        trigger,
+        result: `${change.operation} ${change.path}${change.id ? ` ${change.id}` : ''}`,
+        change,
+        metadata: { deviceId, statusCode },
+      },
+    });
+  }
+}
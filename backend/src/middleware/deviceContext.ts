@@ -0,0 +1,41 @@
+/**
+ * Device Context Middleware
+ * 根据 /api/devices/:deviceId/... 路径参数或 X-Device-Id 请求头选择目标设备，
+ * 后续处理器中 getRouterOSClient() 返回该设备的客户端
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { deviceService } from '../services/deviceService';
+import { routerosClientPool, DEFAULT_DEVICE_ID } from '../services/routerosClientPool';
+import { logger } from '../utils/logger';
+
+export const DEVICE_ID_HEADER = 'x-device-id';
+
+export async function deviceContext(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const deviceId = req.params.deviceId || req.header(DEVICE_ID_HEADER);
+
+  if (!deviceId || deviceId === DEFAULT_DEVICE_ID) {
+    next();
+    return;
+  }
+
+  try {
+    const device = await deviceService.getDeviceById(deviceId);
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: `设备不存在: ${deviceId}`,
+      });
+      return;
+    }
+  } catch (error) {
+    logger.error('Failed to resolve device context:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '获取设备信息失败',
+    });
+    return;
+  }
+
+  routerosClientPool.runWithDevice(deviceId, () => next());
+}
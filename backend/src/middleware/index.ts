@@ -0,0 +1,6 @@
+/**
+ * 中间件导出
+ */
+export * from './deviceContext';
+export * from './auth';
+export * from './configAudit';
@@ -137,6 +137,7 @@ import {
   getAnalysisCacheStats,
   clearAnalysisCache,
 } from '../controllers/aiOpsController';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -255,7 +256,7 @@ router.delete('/snapshots/:id', deleteSnapshot);
 router.get('/snapshots/:id/download', downloadSnapshot);
 
 // POST /api/ai-ops/snapshots/:id/restore - 恢复快照
-router.post('/snapshots/:id/restore', restoreSnapshot);
+router.post('/snapshots/:id/restore', requireRole('admin'), restoreSnapshot);
 
 
 // ==================== 健康报告管理 ====================
@@ -300,7 +301,7 @@ router.post('/patterns/:id/enable-auto-heal', enableAutoHeal);
 router.post('/patterns/:id/disable-auto-heal', disableAutoHeal);
 
 // POST /api/ai-ops/patterns/:id/execute - 手动执行修复
-router.post('/patterns/:id/execute', executeFaultRemediation);
+router.post('/patterns/:id/execute', requireRole('admin'), executeFaultRemediation);
 
 
 // ==================== 修复记录管理 ====================
@@ -421,10 +422,10 @@ router.get('/remediation/:alertId', getRemediationPlan);
 router.post('/remediation/:alertId', generateRemediationPlan);
 
 // POST /api/ai-ops/remediation/:planId/execute - 执行修复方案
-router.post('/remediation/:planId/execute', executeRemediationPlan);
+router.post('/remediation/:planId/execute', requireRole('admin'), executeRemediationPlan);
 
 // POST /api/ai-ops/remediation/:planId/rollback - 执行回滚
-router.post('/remediation/:planId/rollback', executeRemediationRollback);
+router.post('/remediation/:planId/rollback', requireRole('admin'), executeRemediationRollback);
 
 
 // ==================== AI-Ops Enhancement: 决策引擎 ====================
@@ -51,6 +51,7 @@ import {
   searchSessions,
   deleteAllSessions,
 } from '../controllers/aiController';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -109,7 +110,7 @@ router.get('/context/sections/:section', getContextSection);
 // ==================== 脚本执行 ====================
 
 // POST /api/ai/scripts/execute - 执行脚本
-router.post('/scripts/execute', executeScript);
+router.post('/scripts/execute', requireRole('admin'), executeScript);
 
 // POST /api/ai/scripts/validate - 验证脚本
 router.post('/scripts/validate', validateScript);
@@ -0,0 +1,48 @@
+/**
+ * Auth Routes
+ * 定义登录会话及用户账户管理相关的路由
+ */
+
+import { Router } from 'express';
+import {
+  login,
+  logout,
+  getCurrentUser,
+  changePassword,
+  getUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+} from '../controllers/authController';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// POST /api/auth/login - 登录（无需认证）
+router.post('/login', login);
+
+// 以下路由需要登录
+router.use(authenticate);
+
+// POST /api/auth/logout - 注销当前会话
+router.post('/logout', logout);
+
+// GET /api/auth/me - 获取当前登录用户
+router.get('/me', getCurrentUser);
+
+// POST /api/auth/password - 修改当前用户密码
+router.post('/password', changePassword);
+
+// GET /api/auth/users - 获取用户列表
+router.get('/users', requireRole('admin'), getUsers);
+
+// POST /api/auth/users - 创建用户
+router.post('/users', requireRole('admin'), createUser);
+
+// PUT /api/auth/users/:id - 更新用户
+router.put('/users/:id', requireRole('admin'), updateUser);
+
+// DELETE /api/auth/users/:id - 删除用户
+router.delete('/users/:id', requireRole('admin'), deleteUser);
+
+export default router;
@@ -0,0 +1,26 @@
+/**
+ * Backup Routes
+ * 定义应用状态备份与恢复相关的路由（仅管理员）
+ */
+
+import express, { Router } from 'express';
+import { exportBackup, validateBackup, importBackup } from '../controllers/backupController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// 上传的归档为 gzip 文件或 JSON 文本，按原始内容接收
+const uploadParser = express.raw({ type: () => true, limit: '200mb' });
+
+router.use(requireRole('admin'));
+
+// GET /api/backup/export - 导出备份（history、secrets 查询参数控制是否包含历史记录和敏感信息）
+router.get('/export', exportBackup);
+
+// POST /api/backup/validate - 校验备份文件
+router.post('/validate', uploadParser, validateBackup);
+
+// POST /api/backup/import - 导入备份（mode=merge|replace）
+router.post('/import', uploadParser, importBackup);
+
+export default router;
@@ -0,0 +1,44 @@
+/**
+ * Device Routes
+ * 定义受管设备清单相关的路由
+ *
+ * 设备范围内的 RouterOS 操作通过 /api/devices/:deviceId/<模块> 访问，
+ * 由 index.ts 挂载各模块路由
+ */
+
+import { Router } from 'express';
+import {
+  getDevices,
+  getDeviceById,
+  createDevice,
+  updateDevice,
+  deleteDevice,
+  connectDevice,
+  disconnectDevice,
+} from '../controllers/deviceController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/devices - 获取设备列表
+router.get('/', getDevices);
+
+// GET /api/devices/:id - 获取单个设备
+router.get('/:id', getDeviceById);
+
+// POST /api/devices - 添加设备
+router.post('/', requireRole('admin'), createDevice);
+
+// PUT /api/devices/:id - 更新设备
+router.put('/:id', requireRole('admin'), updateDevice);
+
+// DELETE /api/devices/:id - 删除设备
+router.delete('/:id', requireRole('admin'), deleteDevice);
+
+// POST /api/devices/:id/connect - 使用保存的配置连接设备
+router.post('/:id/connect', connectDevice);
+
+// POST /api/devices/:id/disconnect - 断开设备连接
+router.post('/:id/disconnect', disconnectDevice);
+
+export default router;
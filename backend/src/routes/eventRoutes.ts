@@ -0,0 +1,14 @@
+/**
+ * Event Routes
+ * 定义实时推送通道（SSE）相关的路由
+ */
+
+import { Router } from 'express';
+import { streamEvents } from '../controllers/eventController';
+
+const router = Router();
+
+// GET /api/events - 订阅实时事件流（topics 查询参数指定主题）
+router.get('/', streamEvents);
+
+export default router;
@@ -7,6 +7,12 @@ import { Router } from 'express';
 import {
   getAllFilterRules,
   getFilterRuleById,
+  createFilterRule,
+  updateFilterRule,
+  deleteFilterRule,
+  enableFilterRule,
+  disableFilterRule,
+  moveFilterRule,
   getAllNatRules,
   getNatRuleById,
   createNatRule,
@@ -14,23 +20,68 @@ import {
   deleteNatRule,
   enableNatRule,
   disableNatRule,
+  moveNatRule,
   getAllMangleRules,
   getMangleRuleById,
+  createMangleRule,
+  updateMangleRule,
+  deleteMangleRule,
+  enableMangleRule,
+  disableMangleRule,
+  moveMangleRule,
+  getAllRawRules,
+  getRawRuleById,
+  createRawRule,
+  updateRawRule,
+  deleteRawRule,
+  enableRawRule,
+  disableRawRule,
+  moveRawRule,
   getAllAddressListEntries,
   createAddressListEntry,
   updateAddressListEntry,
   deleteAddressListEntry,
+  deleteAddressListEntries,
+  previewAddressListImport,
+  applyAddressListImport,
+  getConnections,
+  killConnection,
+  analyzeFirewallRules,
+  getRuleHitHistory,
+  getUnusedRules,
+  simulatePacket,
+  getFirewallTemplates,
+  previewFirewallTemplate,
+  applyFirewallTemplate,
 } from '../controllers/firewallController';
 
 const router = Router();
 
-// ==================== Filter Rules (只读) ====================
+// ==================== Filter Rules (完整 CRUD，修改前自动创建配置快照) ====================
 // GET /api/firewall/filter - 获取所有 Filter 规则
 router.get('/filter', getAllFilterRules);
 
 // GET /api/firewall/filter/:id - 获取单条 Filter 规则
 router.get('/filter/:id', getFilterRuleById);
 
+// POST /api/firewall/filter - 创建 Filter 规则
+router.post('/filter', createFilterRule);
+
+// PATCH /api/firewall/filter/:id - 更新 Filter 规则
+router.patch('/filter/:id', updateFilterRule);
+
+// DELETE /api/firewall/filter/:id - 删除 Filter 规则
+router.delete('/filter/:id', deleteFilterRule);
+
+// POST /api/firewall/filter/:id/enable - 启用 Filter 规则
+router.post('/filter/:id/enable', enableFilterRule);
+
+// POST /api/firewall/filter/:id/disable - 禁用 Filter 规则
+router.post('/filter/:id/disable', disableFilterRule);
+
+// POST /api/firewall/filter/:id/move - 移动 Filter 规则
+router.post('/filter/:id/move', moveFilterRule);
+
 // ==================== NAT Rules (完整 CRUD) ====================
 // GET /api/firewall/nat - 获取所有 NAT 规则
 router.get('/nat', getAllNatRules);
@@ -53,13 +104,59 @@ router.post('/nat/:id/enable', enableNatRule);
 // POST /api/firewall/nat/:id/disable - 禁用 NAT 规则
 router.post('/nat/:id/disable', disableNatRule);
 
-// ==================== Mangle Rules (只读) ====================
+// POST /api/firewall/nat/:id/move - 移动 NAT 规则
+router.post('/nat/:id/move', moveNatRule);
+
+// ==================== Mangle Rules (完整 CRUD) ====================
 // GET /api/firewall/mangle - 获取所有 Mangle 规则
 router.get('/mangle', getAllMangleRules);
 
 // GET /api/firewall/mangle/:id - 获取单条 Mangle 规则
 router.get('/mangle/:id', getMangleRuleById);
 
+// POST /api/firewall/mangle - 创建 Mangle 规则
+router.post('/mangle', createMangleRule);
+
+// PATCH /api/firewall/mangle/:id - 更新 Mangle 规则
+router.patch('/mangle/:id', updateMangleRule);
+
+// DELETE /api/firewall/mangle/:id - 删除 Mangle 规则
+router.delete('/mangle/:id', deleteMangleRule);
+
+// POST /api/firewall/mangle/:id/enable - 启用 Mangle 规则
+router.post('/mangle/:id/enable', enableMangleRule);
+
+// POST /api/firewall/mangle/:id/disable - 禁用 Mangle 规则
+router.post('/mangle/:id/disable', disableMangleRule);
+
+// POST /api/firewall/mangle/:id/move - 移动 Mangle 规则
+router.post('/mangle/:id/move', moveMangleRule);
+
+// ==================== Raw Rules (完整 CRUD，修改前自动创建配置快照) ====================
+// GET /api/firewall/raw - 获取所有 Raw 规则
+router.get('/raw', getAllRawRules);
+
+// GET /api/firewall/raw/:id - 获取单条 Raw 规则
+router.get('/raw/:id', getRawRuleById);
+
+// POST /api/firewall/raw - 创建 Raw 规则
+router.post('/raw', createRawRule);
+
+// PATCH /api/firewall/raw/:id - 更新 Raw 规则
+router.patch('/raw/:id', updateRawRule);
+
+// DELETE /api/firewall/raw/:id - 删除 Raw 规则
+router.delete('/raw/:id', deleteRawRule);
+
+// POST /api/firewall/raw/:id/enable - 启用 Raw 规则
+router.post('/raw/:id/enable', enableRawRule);
+
+// POST /api/firewall/raw/:id/disable - 禁用 Raw 规则
+router.post('/raw/:id/disable', disableRawRule);
+
+// POST /api/firewall/raw/:id/move - 移动 Raw 规则
+router.post('/raw/:id/move', moveRawRule);
+
 // ==================== Address List (完整 CRUD) ====================
 // GET /api/firewall/address-list - 获取所有地址列表条目
 router.get('/address-list', getAllAddressListEntries);
@@ -73,4 +170,42 @@ router.patch('/address-list/:id', updateAddressListEntry);
 // DELETE /api/firewall/address-list/:id - 删除地址列表条目
 router.delete('/address-list/:id', deleteAddressListEntry);
 
+// POST /api/firewall/address-list/delete - 批量删除地址列表条目
+router.post('/address-list/delete', deleteAddressListEntries);
+
+// POST /api/firewall/address-list/import/preview - 预览批量导入的差异
+router.post('/address-list/import/preview', previewAddressListImport);
+
+// POST /api/firewall/address-list/import/apply - 执行批量导入（SSE 推送进度）
+router.post('/address-list/import/apply', applyAddressListImport);
+
+// ==================== Connection Tracking ====================
+// GET /api/firewall/connection - 查询连接跟踪表（支持过滤与汇总）
+router.get('/connection', getConnections);
+
+// DELETE /api/firewall/connection/:id - 断开连接
+router.delete('/connection/:id', killConnection);
+
+// ==================== Rule Analysis ====================
+// GET /api/firewall/analysis - 分析规则集（遮蔽、重复、无效引用等）
+router.get('/analysis', analyzeFirewallRules);
+
+// ==================== Rule Hit Counters ====================
+// GET /api/firewall/counters - 获取规则表中每条规则的命中历史
+router.get('/counters', getRuleHitHistory);
+// GET /api/firewall/unused-rules - 获取一段时间内没有命中的规则
+router.get('/unused-rules', getUnusedRules);
+
+// ==================== Packet Simulation ====================
+// POST /api/firewall/simulate - 模拟数据包经过防火墙的路径
+router.post('/simulate', simulatePacket);
+
+// ==================== Firewall Templates (应用前自动创建配置快照，失败时回滚) ====================
+// GET /api/firewall/templates - 获取规则模板列表
+router.get('/templates', getFirewallTemplates);
+// POST /api/firewall/templates/:id/preview - 预览模板将要添加的规则
+router.post('/templates/:id/preview', previewFirewallTemplate);
+// POST /api/firewall/templates/:id/apply - 应用模板
+router.post('/templates/:id/apply', applyFirewallTemplate);
+
 export default router;
@@ -11,3 +11,11 @@ export { default as firewallRoutes } from './firewallRoutes';
 export { default as containerRoutes } from './containerRoutes';
 export { default as aiRoutes } from './aiRoutes';
 export { default as aiOpsRoutes } from './aiOpsRoutes';
+export { default as deviceRoutes } from './deviceRoutes';
+export { default as authRoutes } from './authRoutes';
+export { default as eventRoutes } from './eventRoutes';
+export { default as backupRoutes } from './backupRoutes';
+export { default as metricsRoutes } from './metricsRoutes';
+export { default as rosRoutes } from './rosRoutes';
+export { default as streamRoutes } from './streamRoutes';
+export { default as secretRoutes } from './secretRoutes';
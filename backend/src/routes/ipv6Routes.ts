@@ -1,6 +1,6 @@
 /**
  * IPv6 Routes
- * 定义 IPv6 地址、DHCPv6 客户端、ND、邻居表、路由、防火墙 Filter 管理相关的路由
+ * 定义 IPv6 地址、DHCPv6 客户端、ND、邻居表、路由、防火墙 Filter/NAT/Mangle/Raw 规则及地址列表管理相关的路由
  */
 
 import { Router } from 'express';
@@ -43,6 +43,41 @@ import {
   deleteIPv6FilterRule,
   enableIPv6FilterRule,
   disableIPv6FilterRule,
+  moveIPv6FilterRule,
+  // IPv6 Firewall NAT
+  getAllIPv6NatRules,
+  getIPv6NatRuleById,
+  createIPv6NatRule,
+  updateIPv6NatRule,
+  deleteIPv6NatRule,
+  enableIPv6NatRule,
+  disableIPv6NatRule,
+  moveIPv6NatRule,
+  // IPv6 Firewall Mangle
+  getAllIPv6MangleRules,
+  getIPv6MangleRuleById,
+  createIPv6MangleRule,
+  updateIPv6MangleRule,
+  deleteIPv6MangleRule,
+  enableIPv6MangleRule,
+  disableIPv6MangleRule,
+  moveIPv6MangleRule,
+  // IPv6 Firewall Raw
+  getAllIPv6RawRules,
+  getIPv6RawRuleById,
+  createIPv6RawRule,
+  updateIPv6RawRule,
+  deleteIPv6RawRule,
+  enableIPv6RawRule,
+  disableIPv6RawRule,
+  moveIPv6RawRule,
+  // IPv6 Firewall Address List
+  getAllIPv6AddressListEntries,
+  createIPv6AddressListEntry,
+  updateIPv6AddressListEntry,
+  deleteIPv6AddressListEntry,
+  enableIPv6AddressListEntry,
+  disableIPv6AddressListEntry,
 } from '../controllers/ipv6FirewallController';
 
 const router = Router();
@@ -88,5 +123,44 @@ router.patch('/firewall/filter/:id', updateIPv6FilterRule);
 router.delete('/firewall/filter/:id', deleteIPv6FilterRule);
 router.post('/firewall/filter/:id/enable', enableIPv6FilterRule);
 router.post('/firewall/filter/:id/disable', disableIPv6FilterRule);
+router.post('/firewall/filter/:id/move', moveIPv6FilterRule);
+
+// ==================== IPv6 Firewall NAT 路由 ====================
+router.get('/firewall/nat', getAllIPv6NatRules);
+router.get('/firewall/nat/:id', getIPv6NatRuleById);
+router.post('/firewall/nat', createIPv6NatRule);
+router.patch('/firewall/nat/:id', updateIPv6NatRule);
+router.delete('/firewall/nat/:id', deleteIPv6NatRule);
+router.post('/firewall/nat/:id/enable', enableIPv6NatRule);
+router.post('/firewall/nat/:id/disable', disableIPv6NatRule);
+router.post('/firewall/nat/:id/move', moveIPv6NatRule);
+
+// ==================== IPv6 Firewall Mangle 路由 ====================
+router.get('/firewall/mangle', getAllIPv6MangleRules);
+router.get('/firewall/mangle/:id', getIPv6MangleRuleById);
+router.post('/firewall/mangle', createIPv6MangleRule);
+router.patch('/firewall/mangle/:id', updateIPv6MangleRule);
+router.delete('/firewall/mangle/:id', deleteIPv6MangleRule);
+router.post('/firewall/mangle/:id/enable', enableIPv6MangleRule);
+router.post('/firewall/mangle/:id/disable', disableIPv6MangleRule);
+router.post('/firewall/mangle/:id/move', moveIPv6MangleRule);
+
+// ==================== IPv6 Firewall Raw 路由 ====================
+router.get('/firewall/raw', getAllIPv6RawRules);
+router.get('/firewall/raw/:id', getIPv6RawRuleById);
+router.post('/firewall/raw', createIPv6RawRule);
+router.patch('/firewall/raw/:id', updateIPv6RawRule);
+router.delete('/firewall/raw/:id', deleteIPv6RawRule);
+router.post('/firewall/raw/:id/enable', enableIPv6RawRule);
+router.post('/firewall/raw/:id/disable', disableIPv6RawRule);
+router.post('/firewall/raw/:id/move', moveIPv6RawRule);
+
+// ==================== IPv6 Firewall Address List 路由 ====================
+router.get('/firewall/address-list', getAllIPv6AddressListEntries);
+router.post('/firewall/address-list', createIPv6AddressListEntry);
+router.patch('/firewall/address-list/:id', updateIPv6AddressListEntry);
+router.delete('/firewall/address-list/:id', deleteIPv6AddressListEntry);
+router.post('/firewall/address-list/:id/enable', enableIPv6AddressListEntry);
+router.post('/firewall/address-list/:id/disable', disableIPv6AddressListEntry);
 
 export default router;
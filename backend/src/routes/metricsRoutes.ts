@@ -0,0 +1,14 @@
+/**
+ * Metrics Routes
+ * Prometheus 指标抓取端点（不经过会话认证，可通过 METRICS_TOKEN 设置抓取令牌）
+ */
+
+import { Router } from 'express';
+import { getMetrics } from '../controllers/metricsController';
+
+const router = Router();
+
+// GET /metrics - Prometheus 文本格式指标
+router.get('/', getMetrics);
+
+export default router;
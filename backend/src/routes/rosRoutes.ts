@@ -0,0 +1,35 @@
+/**
+ * RouterOS Menu Routes
+ * 通用菜单浏览器路由：/api/ros/<菜单路径>[/<条目 ID>[/enable|disable]]
+ */
+
+import { Router } from 'express';
+import {
+  authorizeMenuWrite,
+  getMenus,
+  printMenu,
+  addMenuItem,
+  updateMenuItem,
+  deleteMenuItem,
+} from '../controllers/rosController';
+
+const router = Router();
+
+// GET /api/ros/menus - 允许访问的菜单列表
+router.get('/menus', getMenus);
+
+// GET /api/ros/<menu>[/<id>] - 获取菜单条目
+router.get('/*', printMenu);
+
+// 以下修改请求中，脚本、计划任务等菜单需要 admin
+// POST /api/ros/<menu> - 添加条目
+// POST /api/ros/<menu>/<id>/enable|disable - 启用/禁用条目
+router.post('/*', authorizeMenuWrite, addMenuItem);
+
+// PATCH /api/ros/<menu>[/<id>] - 更新条目（未指定 ID 时更新单例菜单）
+router.patch('/*', authorizeMenuWrite, updateMenuItem);
+
+// DELETE /api/ros/<menu>/<id> - 删除条目
+router.delete('/*', authorizeMenuWrite, deleteMenuItem);
+
+export default router;
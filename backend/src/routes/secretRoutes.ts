@@ -0,0 +1,20 @@
+/**
+ * Secret Routes
+ * 敏感信息加密密钥的路由（仅管理员）
+ */
+
+import { Router } from 'express';
+import { getSecretKeyInfo, rotateSecretKey } from '../controllers/secretController';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+// GET /api/secrets - 当前密钥信息（来源、当前密钥 ID、可用于解密的密钥 ID）
+router.get('/', getSecretKeyInfo);
+
+// POST /api/secrets/rotate - 生成新密钥并重新加密所有保存的敏感信息
+router.post('/rotate', rotateSecretKey);
+
+export default router;
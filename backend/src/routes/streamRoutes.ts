@@ -0,0 +1,14 @@
+/**
+ * Stream Routes
+ * 持续输出命令的 SSE 路由：/api/stream/<命令路径>
+ */
+
+import { Router } from 'express';
+import { streamCommand } from '../controllers/streamController';
+
+const router = Router();
+
+// GET /api/stream/<command> - 执行持续输出命令并通过 SSE 推送结果
+router.get('/*', streamCommand);
+
+export default router;
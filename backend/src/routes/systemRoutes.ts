@@ -24,6 +24,7 @@ import {
   rebootSystem,
   shutdownSystem,
 } from '../controllers/systemController';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -68,14 +69,14 @@ router.patch('/scripts/:id', updateScript);
 router.delete('/scripts/:id', deleteScript);
 
 // POST /api/system/scripts/:id/run - 运行脚本
-router.post('/scripts/:id/run', runScript);
+router.post('/scripts/:id/run', requireRole('admin'), runScript);
 
 // ==================== 电源管理路由 ====================
 
 // POST /api/system/reboot - 重启系统
-router.post('/reboot', rebootSystem);
+router.post('/reboot', requireRole('admin'), rebootSystem);
 
 // POST /api/system/shutdown - 关闭系统
-router.post('/shutdown', shutdownSystem);
+router.post('/shutdown', requireRole('admin'), shutdownSystem);
 
 export default router;
@@ -23,7 +23,8 @@ import {
   AlertSeverity,
 } from '../../types/ai-ops';
 import { logger } from '../../utils/logger';
-import { apiConfigService, AdapterFactory, cryptoService } from '../ai';
+import { apiConfigService, AdapterFactory } from '../ai';
+import { secretStore } from '../secretStore';
 import { AIProvider, ChatMessage } from '../../types/ai';
 
 /**
@@ -275,7 +276,7 @@ export class AIAnalyzer implements IAIAnalyzer {
     logger.info(`AIAnalyzer using provider: ${config.provider}, model: ${config.model}, configId: ${config.id}`);
 
     // 解密 API Key
-    const apiKey = cryptoService.decrypt(config.apiKey);
+    const apiKey = secretStore.decrypt(config.apiKey);
 
     // 创建适配器（每次都创建新实例）
     const adapter = AdapterFactory.createAdapter(config.provider, {
@@ -43,32 +43,18 @@ import {
 import { logger } from '../../utils/logger';
 import { auditLogger } from './auditLogger';
 import { notificationService } from './notificationService';
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
 import { metricsCollector } from './metricsCollector';
 import { fingerprintCache } from './fingerprintCache';
 import { alertPreprocessor } from './alertPreprocessor';
 import { alertPipeline } from './alertPipeline';
+import { createTimeSeriesStore } from '../storage';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
 const ALERTS_DIR = path.join(DATA_DIR, 'alerts');
 const RULES_FILE = path.join(ALERTS_DIR, 'rules.json');
 const EVENTS_DIR = path.join(ALERTS_DIR, 'events');
 
-/**
- * 获取日期字符串 (YYYY-MM-DD)
- */
-function getDateString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * 获取告警事件文件路径
- */
-function getEventsFilePath(dateStr: string): string {
-  return path.join(EVENTS_DIR, `${dateStr}.json`);
-}
-
 /**
  * 规则触发状态跟踪（用于持续时间阈值检测）
  */
@@ -91,13 +77,24 @@ export class AlertEngine implements IAlertEngine {
   // 预处理事件处理器（用于 AI 智能处理流程）
   private preprocessedEventHandlers: Array<(event: UnifiedEvent | CompositeEvent) => void> = [];
 
+  // 告警状态变化处理器（用于实时推送）
+  private alertEventHandlers: Array<(event: AlertEvent, action: 'triggered' | 'resolved') => void> = [];
+
+  // 告警事件存储
+  private eventStore = createTimeSeriesStore<AlertEvent>({
+    name: 'alert_events',
+    dir: EVENTS_DIR,
+    timeField: 'triggeredAt',
+    idField: 'id',
+    indexes: ['ruleId', 'status'],
+  });
+
   /**
    * 确保数据目录存在
    */
   private async ensureDataDir(): Promise<void> {
     try {
       await fs.mkdir(ALERTS_DIR, { recursive: true });
-      await fs.mkdir(EVENTS_DIR, { recursive: true });
     } catch (error) {
       logger.error('Failed to create alerts directories:', error);
     }
@@ -150,47 +147,11 @@ export class AlertEngine implements IAlertEngine {
   }
 
 
-  /**
-   * 读取指定日期的告警事件文件
-   */
-  private async readEventsFile(dateStr: string): Promise<AlertEvent[]> {
-    const filePath = getEventsFilePath(dateStr);
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as AlertEvent[];
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      logger.error(`Failed to read alert events file ${dateStr}:`, error);
-      return [];
-    }
-  }
-
-  /**
-   * 写入告警事件文件
-   */
-  private async writeEventsFile(dateStr: string, events: AlertEvent[]): Promise<void> {
-    await this.ensureDataDir();
-    const filePath = getEventsFilePath(dateStr);
-    await fs.writeFile(filePath, JSON.stringify(events, null, 2), 'utf-8');
-  }
-
   /**
    * 保存告警事件
    */
   private async saveEvent(event: AlertEvent): Promise<void> {
-    const dateStr = getDateString(event.triggeredAt);
-    const events = await this.readEventsFile(dateStr);
-    
-    const existingIndex = events.findIndex((e) => e.id === event.id);
-    if (existingIndex >= 0) {
-      events[existingIndex] = event;
-    } else {
-      events.push(event);
-    }
-    
-    await this.writeEventsFile(dateStr, events);
+    await this.eventStore.upsert(event);
   }
 
   /**
@@ -198,54 +159,14 @@ export class AlertEngine implements IAlertEngine {
    */
   private async loadActiveAlerts(): Promise<void> {
     // 查询最近 7 天的告警事件，找出活跃的
-    const now = Date.now();
-    const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
-    
-    const dates = this.getDateRange(sevenDaysAgo, now);
-    
-    for (const dateStr of dates) {
-      const events = await this.readEventsFile(dateStr);
-      for (const event of events) {
-        if (event.status === 'active') {
-          this.activeAlerts.set(event.id, event);
-        }
-      }
-    }
-    
-    logger.info(`Loaded ${this.activeAlerts.size} active alerts`);
-  }
+    const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    const events = await this.eventStore.query({ from: sevenDaysAgo, where: { status: 'active' } });
 
-  /**
-   * 获取日期范围内的所有日期字符串 (使用 UTC 时间)
-   */
-  private getDateRange(from: number, to: number): string[] {
-    const dates: string[] = [];
-    
-    // 使用 UTC 时间计算日期范围
-    const fromDate = new Date(from);
-    const toDate = new Date(to);
-    
-    // 获取 UTC 日期的开始
-    const currentDate = new Date(Date.UTC(
-      fromDate.getUTCFullYear(),
-      fromDate.getUTCMonth(),
-      fromDate.getUTCDate()
-    ));
-    
-    // 获取 UTC 日期的结束
-    const endDate = new Date(Date.UTC(
-      toDate.getUTCFullYear(),
-      toDate.getUTCMonth(),
-      toDate.getUTCDate(),
-      23, 59, 59, 999
-    ));
-
-    while (currentDate <= endDate) {
-      dates.push(getDateString(currentDate.getTime()));
-      currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+    for (const event of events) {
+      this.activeAlerts.set(event.id, event);
     }
 
-    return dates;
+    logger.info(`Loaded ${this.activeAlerts.size} active alerts`);
   }
 
   // ==================== 规则管理 ====================
@@ -378,6 +299,7 @@ export class AlertEngine implements IAlertEngine {
 
       await this.saveEvent(event);
       this.activeAlerts.delete(event.id);
+      this.emitAlertEvent(event, 'resolved');
 
       // 清除指纹缓存，允许同样的告警再次触发
       const fingerprint = fingerprintCache.generateFingerprint(event);
@@ -727,6 +649,7 @@ export class AlertEngine implements IAlertEngine {
     // 保存告警事件
     await this.saveEvent(event);
     this.activeAlerts.set(event.id, event);
+    this.emitAlertEvent(event, 'triggered');
 
     // 记录审计日志
     await auditLogger.log({
@@ -901,6 +824,7 @@ export class AlertEngine implements IAlertEngine {
 
         await this.saveEvent(event);
         this.activeAlerts.delete(eventId);
+        this.emitAlertEvent(event, 'resolved');
 
         // 清除指纹缓存，允许同样的告警再次触发
         const fingerprint = fingerprintCache.generateFingerprint(event);
@@ -967,6 +891,7 @@ export class AlertEngine implements IAlertEngine {
 
         await this.saveEvent(event);
         this.activeAlerts.delete(eventId);
+        this.emitAlertEvent(event, 'resolved');
 
         // 清除指纹缓存，允许同样的告警再次触发
         const fingerprint = fingerprintCache.generateFingerprint(event);
@@ -1047,7 +972,7 @@ export class AlertEngine implements IAlertEngine {
 
     try {
       // 检查 RouterOS 连接
-      if (!routerosClient.isConnected()) {
+      if (!getRouterOSClient().isConnected()) {
         throw new Error('RouterOS not connected');
       }
 
@@ -1125,7 +1050,7 @@ export class AlertEngine implements IAlertEngine {
     for (const line of lines) {
       try {
         const { apiCommand, params } = this.convertToApiFormat(line);
-        const response = await routerosClient.executeRaw(apiCommand, params);
+        const response = await getRouterOSClient().executeRaw(apiCommand, params);
 
         if (response !== null && response !== undefined) {
           if (Array.isArray(response) && response.length > 0) {
@@ -1235,23 +1160,8 @@ export class AlertEngine implements IAlertEngine {
   async getAlertHistory(from: number, to: number): Promise<AlertEvent[]> {
     await this.initialize();
 
-    const dates = this.getDateRange(from, to);
-    let allEvents: AlertEvent[] = [];
-
-    for (const dateStr of dates) {
-      const events = await this.readEventsFile(dateStr);
-      allEvents = allEvents.concat(events);
-    }
-
-    // 过滤时间范围
-    allEvents = allEvents.filter(
-      (e) => e.triggeredAt >= from && e.triggeredAt <= to
-    );
-
     // 按时间降序排序
-    allEvents.sort((a, b) => b.triggeredAt - a.triggeredAt);
-
-    return allEvents;
+    return this.eventStore.query({ from, to, order: 'desc' });
   }
 
   /**
@@ -1262,43 +1172,37 @@ export class AlertEngine implements IAlertEngine {
 
     const event = this.activeAlerts.get(id);
     if (!event) {
-      // 尝试从文件中查找
-      const now = Date.now();
-      const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
-      const dates = this.getDateRange(sevenDaysAgo, now);
-
-      for (const dateStr of dates) {
-        const events = await this.readEventsFile(dateStr);
-        const found = events.find((e) => e.id === id);
-        if (found) {
-          if (found.status === 'resolved') {
-            throw new Error(`Alert already resolved: ${id}`);
-          }
-          found.status = 'resolved';
-          found.resolvedAt = now;
-          await this.writeEventsFile(dateStr, events);
-
-          // 清除指纹缓存，允许同样的告警再次触发
-          const fingerprint = fingerprintCache.generateFingerprint(found);
-          fingerprintCache.delete(fingerprint);
-          logger.debug(`Fingerprint cleared for manually resolved alert (from file): ${fingerprint}`);
-
-          // 记录审计日志
-          await auditLogger.log({
-            action: 'alert_resolve',
-            actor: 'user',
-            details: {
-              trigger: 'manual',
-              metadata: {
-                eventId: id,
-                ruleId: found.ruleId,
-              },
+      // 尝试从存储中查找
+      const found = await this.eventStore.findById(id);
+      if (found) {
+        if (found.status === 'resolved') {
+          throw new Error(`Alert already resolved: ${id}`);
+        }
+        found.status = 'resolved';
+        found.resolvedAt = Date.now();
+        await this.eventStore.upsert(found);
+        this.emitAlertEvent(found, 'resolved');
+
+        // 清除指纹缓存，允许同样的告警再次触发
+        const fingerprint = fingerprintCache.generateFingerprint(found);
+        fingerprintCache.delete(fingerprint);
+        logger.debug(`Fingerprint cleared for manually resolved alert (from storage): ${fingerprint}`);
+
+        // 记录审计日志
+        await auditLogger.log({
+          action: 'alert_resolve',
+          actor: 'user',
+          details: {
+            trigger: 'manual',
+            metadata: {
+              eventId: id,
+              ruleId: found.ruleId,
             },
-          });
+          },
+        });
 
-          logger.info(`Alert manually resolved: ${id}`);
-          return;
-        }
+        logger.info(`Alert manually resolved: ${id}`);
+        return;
       }
 
       throw new Error(`Alert not found: ${id}`);
@@ -1310,6 +1214,7 @@ export class AlertEngine implements IAlertEngine {
 
     await this.saveEvent(event);
     this.activeAlerts.delete(id);
+    this.emitAlertEvent(event, 'resolved');
 
     // 清除指纹缓存，允许同样的告警再次触发
     const fingerprint = fingerprintCache.generateFingerprint(event);
@@ -1351,20 +1256,8 @@ export class AlertEngine implements IAlertEngine {
       return activeEvent;
     }
 
-    // 从文件中查找
-    const now = Date.now();
-    const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
-    const dates = this.getDateRange(thirtyDaysAgo, now);
-
-    for (const dateStr of dates) {
-      const events = await this.readEventsFile(dateStr);
-      const found = events.find((e) => e.id === id);
-      if (found) {
-        return found;
-      }
-    }
-
-    return null;
+    // 从存储中查找
+    return this.eventStore.findById(id);
   }
 
   /**
@@ -1385,6 +1278,39 @@ export class AlertEngine implements IAlertEngine {
     };
   }
 
+  // ==================== 告警状态推送 ====================
+
+  /**
+   * 注册告警状态变化处理器
+   * 在告警触发或恢复后调用
+   */
+  onAlertEvent(handler: (event: AlertEvent, action: 'triggered' | 'resolved') => void): void {
+    this.alertEventHandlers.push(handler);
+  }
+
+  /**
+   * 移除告警状态变化处理器
+   */
+  offAlertEvent(handler: (event: AlertEvent, action: 'triggered' | 'resolved') => void): void {
+    const index = this.alertEventHandlers.indexOf(handler);
+    if (index !== -1) {
+      this.alertEventHandlers.splice(index, 1);
+    }
+  }
+
+  /**
+   * 通知所有告警状态变化处理器
+   */
+  private emitAlertEvent(event: AlertEvent, action: 'triggered' | 'resolved'): void {
+    for (const handler of this.alertEventHandlers) {
+      try {
+        handler(event, action);
+      } catch (error) {
+        logger.error('Alert event handler error:', error);
+      }
+    }
+  }
+
   // ==================== 预处理事件处理 ====================
 
   /**
@@ -23,7 +23,7 @@ import {
   IAlertPreprocessor,
   EventSource,
 } from '../../types/ai-ops';
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
 import { logger } from '../../utils/logger';
 
 /**
@@ -524,19 +524,19 @@ export class AlertPreprocessor implements IAlertPreprocessor {
     }
 
     // Check if connected
-    if (!routerosClient.isConnected()) {
+    if (!getRouterOSClient().isConnected()) {
       return null;
     }
 
     try {
       // Get system identity
-      const identityResult = await routerosClient.print<{ name: string }>(
+      const identityResult = await getRouterOSClient().print<{ name: string }>(
         '/system/identity'
       );
       const hostname = identityResult[0]?.name || 'unknown';
 
       // Get system resource info
-      const resourceResult = await routerosClient.print<{
+      const resourceResult = await getRouterOSClient().print<{
         'board-name'?: string;
         version?: string;
         'architecture-name'?: string;
@@ -544,7 +544,7 @@ export class AlertPreprocessor implements IAlertPreprocessor {
       const resource = resourceResult[0] || {};
 
       // Get connection config for IP
-      const config = routerosClient.getConfig();
+      const config = getRouterOSClient().getConfig();
       const ip = config?.host || 'unknown';
 
       this.deviceInfoCache = {
@@ -11,12 +11,15 @@
  * - 7.1: 仅查看配置快照页面时不产生审计记录
  * - 7.3: 区分只读操作和写入操作
  * - 7.4: 仅在写入操作时记录审计日志
+ *
+ * 在已登录的 API 请求中记录时，自动附加当前操作用户（AuditLog.user）
  */
 
-import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { AuditLog, AuditLogQueryOptions, IAuditLogger } from '../../types/ai-ops';
+import { authService } from '../authService';
+import { createTimeSeriesStore } from '../storage';
 import { logger } from '../../utils/logger';
 
 const AUDIT_DIR = path.join(process.cwd(), 'data', 'ai-ops', 'audit');
@@ -48,34 +51,16 @@ export function isReadOnlyAction(action: string): boolean {
   return READ_ONLY_ACTIONS.includes(action as ReadOnlyAction);
 }
 
-/**
- * 获取日期字符串 (YYYY-MM-DD) - 使用 UTC 时间
- */
-function getDateString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * 获取日期文件路径
- */
-function getDateFilePath(dateStr: string): string {
-  return path.join(AUDIT_DIR, `${dateStr}.json`);
-}
-
-/**
- * 解析日期字符串为时间戳范围
- */
-function parseDateRange(dateStr: string): { start: number; end: number } {
-  const date = new Date(dateStr);
-  const start = date.getTime();
-  const end = start + 24 * 60 * 60 * 1000 - 1; // 当天最后一毫秒
-  return { start, end };
-}
-
 export class AuditLogger implements IAuditLogger {
   private cleanupIntervalId: NodeJS.Timeout | null = null;
   private initialized = false;
+  private store = createTimeSeriesStore<AuditLog>({
+    name: 'audit_logs',
+    dir: AUDIT_DIR,
+    timeField: 'timestamp',
+    idField: 'id',
+    indexes: ['action', 'actor', 'user.username'],
+  });
 
   /**
    * 初始化审计日志服务
@@ -84,8 +69,6 @@ export class AuditLogger implements IAuditLogger {
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    await this.ensureAuditDir();
-    
     // 启动时立即清理过期日志
     const deletedCount = await this.cleanup();
     if (deletedCount > 0) {
@@ -121,93 +104,6 @@ export class AuditLogger implements IAuditLogger {
     logger.info('Audit logger stopped');
   }
 
-  /**
-   * 确保审计日志目录存在
-   */
-  private async ensureAuditDir(): Promise<void> {
-    try {
-      await fs.access(AUDIT_DIR);
-    } catch {
-      await fs.mkdir(AUDIT_DIR, { recursive: true });
-      logger.info(`Created audit log directory: ${AUDIT_DIR}`);
-    }
-  }
-
-  /**
-   * 读取指定日期的日志文件
-   */
-  private async readDateFile(dateStr: string): Promise<AuditLog[]> {
-    const filePath = getDateFilePath(dateStr);
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as AuditLog[];
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      logger.error(`Failed to read audit log file ${dateStr}:`, error);
-      // 文件损坏时返回空数组
-      return [];
-    }
-  }
-
-  /**
-   * 写入指定日期的日志文件
-   */
-  private async writeDateFile(dateStr: string, logs: AuditLog[]): Promise<void> {
-    const filePath = getDateFilePath(dateStr);
-    await fs.writeFile(filePath, JSON.stringify(logs, null, 2), 'utf-8');
-  }
-
-  /**
-   * 获取日期范围内的所有日期字符串 (使用 UTC 时间)
-   */
-  private getDateRange(from: number, to: number): string[] {
-    const dates: string[] = [];
-    
-    // 使用 UTC 时间计算日期范围
-    const fromDate = new Date(from);
-    const toDate = new Date(to);
-    
-    // 获取 UTC 日期的开始
-    const currentDate = new Date(Date.UTC(
-      fromDate.getUTCFullYear(),
-      fromDate.getUTCMonth(),
-      fromDate.getUTCDate()
-    ));
-    
-    // 获取 UTC 日期的结束
-    const endDate = new Date(Date.UTC(
-      toDate.getUTCFullYear(),
-      toDate.getUTCMonth(),
-      toDate.getUTCDate(),
-      23, 59, 59, 999
-    ));
-
-    while (currentDate <= endDate) {
-      dates.push(getDateString(currentDate.getTime()));
-      currentDate.setUTCDate(currentDate.getUTCDate() + 1);
-    }
-
-    return dates;
-  }
-
-  /**
-   * 列出所有审计日志文件
-   */
-  private async listAuditFiles(): Promise<string[]> {
-    try {
-      await this.ensureAuditDir();
-      const files = await fs.readdir(AUDIT_DIR);
-      return files
-        .filter((f) => f.endsWith('.json') && f !== '.gitkeep')
-        .map((f) => f.replace('.json', ''))
-        .sort();
-    } catch {
-      return [];
-    }
-  }
-
   /**
    * 记录审计日志
    * 只读操作（如查看快照、查看配置）不会被记录
@@ -222,21 +118,20 @@ export class AuditLogger implements IAuditLogger {
       return null;
     }
 
-    await this.ensureAuditDir();
-
     const timestamp = Date.now();
+    const currentUser = authService.getCurrentUser();
     const auditLog: AuditLog = {
       id: uuidv4(),
       timestamp,
       ...entry,
     };
+    if (!auditLog.user && currentUser) {
+      auditLog.user = { id: currentUser.id, username: currentUser.username };
+    }
 
-    const dateStr = getDateString(timestamp);
-    const logs = await this.readDateFile(dateStr);
-    logs.push(auditLog);
-    await this.writeDateFile(dateStr, logs);
+    await this.store.insert(auditLog);
 
-    logger.debug(`Audit log recorded: ${auditLog.action} by ${auditLog.actor}`);
+    logger.debug(`Audit log recorded: ${auditLog.action} by ${auditLog.user?.username || auditLog.actor}`);
     return auditLog;
   }
 
@@ -246,68 +141,23 @@ export class AuditLogger implements IAuditLogger {
    * @returns 匹配的审计日志列表
    */
   async query(options: AuditLogQueryOptions = {}): Promise<AuditLog[]> {
-    await this.ensureAuditDir();
-
-    const { from, to, action, actor, limit } = options;
+    const { from, to, action, actor, username, limit } = options;
 
     logger.info(`Querying audit logs with options: from=${from ? new Date(from).toISOString() : 'undefined'}, to=${to ? new Date(to).toISOString() : 'undefined'}, action=${action}, limit=${limit}`);
 
-    // 确定要查询的日期范围
-    let datesToQuery: string[];
-    if (from !== undefined && to !== undefined) {
-      datesToQuery = this.getDateRange(from, to);
-    } else if (from !== undefined) {
-      datesToQuery = this.getDateRange(from, Date.now());
-    } else if (to !== undefined) {
-      // 默认从 90 天前开始
-      const defaultFrom = to - DEFAULT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
-      datesToQuery = this.getDateRange(defaultFrom, to);
-    } else {
-      // 查询所有文件
-      datesToQuery = await this.listAuditFiles();
-    }
-
-    logger.info(`Dates to query: ${datesToQuery.join(', ')}`);
-
-    // 收集所有匹配的日志
-    let allLogs: AuditLog[] = [];
-
-    for (const dateStr of datesToQuery) {
-      const logs = await this.readDateFile(dateStr);
-      logger.info(`Read ${logs.length} logs from ${dateStr}`);
-      allLogs = allLogs.concat(logs);
-    }
-
-    logger.info(`Total logs before filtering: ${allLogs.length}`);
-
-    // 应用过滤条件
-    let filteredLogs = allLogs;
-
-    if (from !== undefined) {
-      filteredLogs = filteredLogs.filter((log) => log.timestamp >= from);
-    }
-
-    if (to !== undefined) {
-      filteredLogs = filteredLogs.filter((log) => log.timestamp <= to);
-    }
-
+    const where: Record<string, string> = {};
     if (action !== undefined) {
-      filteredLogs = filteredLogs.filter((log) => log.action === action);
+      where.action = action;
     }
-
     if (actor !== undefined) {
-      filteredLogs = filteredLogs.filter((log) => log.actor === actor);
+      where.actor = actor;
     }
-
-    // 按时间戳降序排序（最新的在前）
-    filteredLogs.sort((a, b) => b.timestamp - a.timestamp);
-
-    // 应用限制
-    if (limit !== undefined && limit > 0) {
-      filteredLogs = filteredLogs.slice(0, limit);
+    if (username !== undefined) {
+      where['user.username'] = username;
     }
 
-    return filteredLogs;
+    // 按时间戳降序排序（最新的在前）
+    return this.store.query({ from, to, where, order: 'desc', limit });
   }
 
   /**
@@ -316,32 +166,11 @@ export class AuditLogger implements IAuditLogger {
    * @returns 删除的记录数
    */
   async cleanup(retentionDays: number = DEFAULT_RETENTION_DAYS): Promise<number> {
-    await this.ensureAuditDir();
-
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
     cutoffDate.setHours(0, 0, 0, 0);
-    const cutoffDateStr = getDateString(cutoffDate.getTime());
-
-    const files = await this.listAuditFiles();
-    let deletedCount = 0;
 
-    for (const dateStr of files) {
-      if (dateStr < cutoffDateStr) {
-        const filePath = getDateFilePath(dateStr);
-        try {
-          // 先读取文件获取记录数
-          const logs = await this.readDateFile(dateStr);
-          deletedCount += logs.length;
-
-          // 删除文件
-          await fs.unlink(filePath);
-          logger.info(`Deleted expired audit log file: ${dateStr} (${logs.length} records)`);
-        } catch (error) {
-          logger.error(`Failed to delete audit log file ${dateStr}:`, error);
-        }
-      }
-    }
+    const deletedCount = await this.store.deleteBefore(cutoffDate.getTime());
 
     if (deletedCount > 0) {
       logger.info(`Audit log cleanup completed: ${deletedCount} records deleted`);
@@ -34,7 +34,7 @@ import {
   RiskLevel,
 } from '../../types/ai-ops';
 import { logger } from '../../utils/logger';
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
 import { auditLogger } from './auditLogger';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
@@ -218,13 +218,13 @@ export class ConfigSnapshotService implements IConfigSnapshotService {
    * 从 RouterOS 导出配置
    */
   private async exportConfig(): Promise<string> {
-    if (!routerosClient.isConnected()) {
+    if (!getRouterOSClient().isConnected()) {
       throw new Error('RouterOS not connected');
     }
 
     try {
       // 使用 /export 命令导出配置
-      const response = await routerosClient.executeRaw('/export');
+      const response = await getRouterOSClient().executeRaw('/export');
       
       if (Array.isArray(response) && response.length > 0) {
         // 响应可能是数组形式
@@ -276,7 +276,7 @@ export class ConfigSnapshotService implements IConfigSnapshotService {
 
     for (const configPath of configPaths) {
       try {
-        const response = await routerosClient.print<Record<string, unknown>>(configPath);
+        const response = await getRouterOSClient().print<Record<string, unknown>>(configPath);
         if (response && response.length > 0) {
           parts.push(`# ${configPath}`);
           for (const item of response) {
@@ -306,7 +306,7 @@ export class ConfigSnapshotService implements IConfigSnapshotService {
    */
   private async getRouterMetadata(): Promise<{ routerVersion?: string; routerModel?: string }> {
     try {
-      const resources = await routerosClient.print<Record<string, string>>('/system/resource');
+      const resources = await getRouterOSClient().print<Record<string, string>>('/system/resource');
       if (resources && resources.length > 0) {
         const resource = resources[0];
         return {
@@ -509,7 +509,7 @@ export class ConfigSnapshotService implements IConfigSnapshotService {
       return { success: false, message: `Snapshot not found: ${id}` };
     }
 
-    if (!routerosClient.isConnected()) {
+    if (!getRouterOSClient().isConnected()) {
       return { success: false, message: 'RouterOS not connected' };
     }
 
@@ -556,7 +556,7 @@ export class ConfigSnapshotService implements IConfigSnapshotService {
           // 转换为 API 格式并执行
           const { apiCommand, params } = this.convertToApiFormat(line);
           if (apiCommand) {
-            await routerosClient.executeRaw(apiCommand, params);
+            await getRouterOSClient().executeRaw(apiCommand, params);
             successCount++;
           }
         } catch (error) {
@@ -38,27 +38,13 @@ import { logger } from '../../utils/logger';
 import { auditLogger } from './auditLogger';
 import { notificationService } from './notificationService';
 import { remediationAdvisor } from './remediationAdvisor';
+import { createTimeSeriesStore } from '../storage';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
 const DECISIONS_DIR = path.join(DATA_DIR, 'decisions');
 const RULES_FILE = path.join(DECISIONS_DIR, 'rules.json');
 const HISTORY_DIR = path.join(DECISIONS_DIR, 'history');
 
-/**
- * Get date string (YYYY-MM-DD)
- */
-function getDateString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * Get decision history file path for a date
- */
-function getHistoryFilePath(dateStr: string): string {
-  return path.join(HISTORY_DIR, `${dateStr}.json`);
-}
-
 
 /**
  * Default decision factors
@@ -192,6 +178,13 @@ export class DecisionEngine implements IDecisionEngine {
   private rules: DecisionRule[] = [];
   private factors: Map<string, DecisionFactor> = new Map();
   private decisionCache: Map<string, Decision> = new Map();
+  private historyStore = createTimeSeriesStore<Decision>({
+    name: 'decision_history',
+    dir: HISTORY_DIR,
+    timeField: 'timestamp',
+    idField: 'id',
+    indexes: ['alertId', 'action'],
+  });
 
   constructor() {
     // Register default factors
@@ -206,7 +199,6 @@ export class DecisionEngine implements IDecisionEngine {
   private async ensureDataDirs(): Promise<void> {
     try {
       await fs.mkdir(DECISIONS_DIR, { recursive: true });
-      await fs.mkdir(HISTORY_DIR, { recursive: true });
     } catch (error) {
       logger.error('Failed to create decision directories:', error);
     }
@@ -252,47 +244,11 @@ export class DecisionEngine implements IDecisionEngine {
     await fs.writeFile(RULES_FILE, JSON.stringify(this.rules, null, 2), 'utf-8');
   }
 
-  /**
-   * Read decision history for a date
-   */
-  private async readHistoryFile(dateStr: string): Promise<Decision[]> {
-    const filePath = getHistoryFilePath(dateStr);
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as Decision[];
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      logger.error(`Failed to read decision history ${dateStr}:`, error);
-      return [];
-    }
-  }
-
-  /**
-   * Write decision history for a date
-   */
-  private async writeHistoryFile(dateStr: string, decisions: Decision[]): Promise<void> {
-    await this.ensureDataDirs();
-    const filePath = getHistoryFilePath(dateStr);
-    await fs.writeFile(filePath, JSON.stringify(decisions, null, 2), 'utf-8');
-  }
-
   /**
    * Save a decision to history
    */
   private async saveDecision(decision: Decision): Promise<void> {
-    const dateStr = getDateString(decision.timestamp);
-    const decisions = await this.readHistoryFile(dateStr);
-    
-    const existingIndex = decisions.findIndex((d) => d.id === decision.id);
-    if (existingIndex >= 0) {
-      decisions[existingIndex] = decision;
-    } else {
-      decisions.push(decision);
-    }
-    
-    await this.writeHistoryFile(dateStr, decisions);
+    await this.historyStore.upsert(decision);
     this.decisionCache.set(decision.id, decision);
   }
 
@@ -985,39 +941,12 @@ export class DecisionEngine implements IDecisionEngine {
   async getDecisionHistory(alertId?: string, limit: number = 100): Promise<Decision[]> {
     await this.initialize();
 
-    // List all history files
-    let files: string[];
-    try {
-      files = await fs.readdir(HISTORY_DIR);
-      files = files
-        .filter((f) => f.endsWith('.json'))
-        .map((f) => f.replace('.json', ''))
-        .sort()
-        .reverse(); // Most recent first
-    } catch {
-      return [];
-    }
-
-    // Collect decisions
-    let allDecisions: Decision[] = [];
-
-    for (const dateStr of files) {
-      if (allDecisions.length >= limit) break;
-
-      const decisions = await this.readHistoryFile(dateStr);
-      allDecisions = allDecisions.concat(decisions);
-    }
-
-    // Filter by alertId if provided
-    if (alertId) {
-      allDecisions = allDecisions.filter((d) => d.alertId === alertId);
-    }
-
-    // Sort by timestamp (descending)
-    allDecisions.sort((a, b) => b.timestamp - a.timestamp);
-
-    // Apply limit
-    return allDecisions.slice(0, limit);
+    // Most recent first
+    return this.historyStore.query({
+      where: alertId ? { alertId } : undefined,
+      order: 'desc',
+      limit,
+    });
   }
 
   /**
@@ -1029,9 +958,8 @@ export class DecisionEngine implements IDecisionEngine {
       return this.decisionCache.get(id) || null;
     }
 
-    // Search in history files
-    const decisions = await this.getDecisionHistory(undefined, 1000);
-    return decisions.find((d) => d.id === id) || null;
+    // Search in history
+    return this.historyStore.findById(id);
   }
 
   /**
@@ -1099,37 +1027,13 @@ export class DecisionEngine implements IDecisionEngine {
    * Cleanup old decision history
    */
   async cleanup(retentionDays: number = 90): Promise<number> {
-    await this.ensureDataDirs();
-
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
     cutoffDate.setHours(0, 0, 0, 0);
-    const cutoffDateStr = getDateString(cutoffDate.getTime());
 
-    let files: string[];
-    try {
-      files = await fs.readdir(HISTORY_DIR);
-      files = files
-        .filter((f) => f.endsWith('.json'))
-        .map((f) => f.replace('.json', ''));
-    } catch {
-      return 0;
-    }
-
-    let deletedCount = 0;
-
-    for (const dateStr of files) {
-      if (dateStr < cutoffDateStr) {
-        const filePath = getHistoryFilePath(dateStr);
-        try {
-          const decisions = await this.readHistoryFile(dateStr);
-          deletedCount += decisions.length;
-          await fs.unlink(filePath);
-          logger.info(`Deleted expired decision history: ${dateStr} (${decisions.length} records)`);
-        } catch (error) {
-          logger.error(`Failed to delete decision history ${dateStr}:`, error);
-        }
-      }
+    const deletedCount = await this.historyStore.deleteBefore(cutoffDate.getTime());
+    if (deletedCount > 0) {
+      logger.info(`Deleted ${deletedCount} expired decision history records`);
     }
 
     return deletedCount;
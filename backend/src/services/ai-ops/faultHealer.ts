@@ -34,28 +34,14 @@ import { logger } from '../../utils/logger';
 import { auditLogger } from './auditLogger';
 import { notificationService } from './notificationService';
 import { configSnapshotService } from './configSnapshotService';
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
+import { createTimeSeriesStore } from '../storage';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
 const PATTERNS_DIR = path.join(DATA_DIR, 'patterns');
 const PATTERNS_FILE = path.join(PATTERNS_DIR, 'patterns.json');
 const REMEDIATIONS_DIR = path.join(DATA_DIR, 'remediations');
 
-/**
- * 获取日期字符串 (YYYY-MM-DD)
- */
-function getDateString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * 获取修复执行记录文件路径
- */
-function getRemediationsFilePath(dateStr: string): string {
-  return path.join(REMEDIATIONS_DIR, `${dateStr}.json`);
-}
-
 /**
  * 内置故障模式定义
  */
@@ -120,6 +106,13 @@ const BUILTIN_PATTERNS: Omit<FaultPattern, 'id' | 'createdAt' | 'updatedAt'>[] =
 export class FaultHealer implements IFaultHealer {
   private patterns: FaultPattern[] = [];
   private initialized = false;
+  private remediationStore = createTimeSeriesStore<RemediationExecution>({
+    name: 'remediations',
+    dir: REMEDIATIONS_DIR,
+    timeField: 'startedAt',
+    idField: 'id',
+    indexes: ['patternId', 'status'],
+  });
 
   /**
    * 确保数据目录存在
@@ -127,7 +120,6 @@ export class FaultHealer implements IFaultHealer {
   private async ensureDataDir(): Promise<void> {
     try {
       await fs.mkdir(PATTERNS_DIR, { recursive: true });
-      await fs.mkdir(REMEDIATIONS_DIR, { recursive: true });
     } catch (error) {
       logger.error('Failed to create fault healer directories:', error);
     }
@@ -203,50 +195,11 @@ export class FaultHealer implements IFaultHealer {
     }
   }
 
-  /**
-   * 读取指定日期的修复执行记录
-   */
-  private async readRemediationsFile(dateStr: string): Promise<RemediationExecution[]> {
-    const filePath = getRemediationsFilePath(dateStr);
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as RemediationExecution[];
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      logger.error(`Failed to read remediations file ${dateStr}:`, error);
-      return [];
-    }
-  }
-
-  /**
-   * 写入修复执行记录
-   */
-  private async writeRemediationsFile(
-    dateStr: string,
-    remediations: RemediationExecution[]
-  ): Promise<void> {
-    await this.ensureDataDir();
-    const filePath = getRemediationsFilePath(dateStr);
-    await fs.writeFile(filePath, JSON.stringify(remediations, null, 2), 'utf-8');
-  }
-
   /**
    * 保存修复执行记录
    */
   private async saveRemediation(remediation: RemediationExecution): Promise<void> {
-    const dateStr = getDateString(remediation.startedAt);
-    const remediations = await this.readRemediationsFile(dateStr);
-
-    const existingIndex = remediations.findIndex((r) => r.id === remediation.id);
-    if (existingIndex >= 0) {
-      remediations[existingIndex] = remediation;
-    } else {
-      remediations.push(remediation);
-    }
-
-    await this.writeRemediationsFile(dateStr, remediations);
+    await this.remediationStore.upsert(remediation);
   }
 
   // ==================== 故障模式管理 ====================
@@ -502,7 +455,7 @@ export class FaultHealer implements IFaultHealer {
           continue;
         }
 
-        const response = await routerosClient.executeRaw(apiCommand, params);
+        const response = await getRouterOSClient().executeRaw(apiCommand, params);
 
         if (response !== null && response !== undefined) {
           if (Array.isArray(response) && response.length > 0) {
@@ -716,7 +669,7 @@ export class FaultHealer implements IFaultHealer {
     // 执行修复脚本（Requirements 7.6）
     try {
       // 检查 RouterOS 连接
-      if (!routerosClient.isConnected()) {
+      if (!getRouterOSClient().isConnected()) {
         throw new Error('RouterOS not connected');
       }
 
@@ -957,27 +910,9 @@ export class FaultHealer implements IFaultHealer {
   async getRemediationHistory(limit?: number): Promise<RemediationExecution[]> {
     await this.initialize();
 
-    // 获取最近 30 天的日期
-    const now = Date.now();
-    const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
-    const dates = this.getDateRange(thirtyDaysAgo, now);
-
-    let allRemediations: RemediationExecution[] = [];
-
-    for (const dateStr of dates) {
-      const remediations = await this.readRemediationsFile(dateStr);
-      allRemediations = allRemediations.concat(remediations);
-    }
-
-    // 按时间降序排序
-    allRemediations.sort((a, b) => b.startedAt - a.startedAt);
-
-    // 应用限制
-    if (limit && limit > 0) {
-      allRemediations = allRemediations.slice(0, limit);
-    }
-
-    return allRemediations;
+    // 最近 30 天的记录，按时间降序排序
+    const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    return this.remediationStore.query({ from: thirtyDaysAgo, order: 'desc', limit });
   }
 
   /**
@@ -986,38 +921,7 @@ export class FaultHealer implements IFaultHealer {
   async getRemediationById(id: string): Promise<RemediationExecution | null> {
     await this.initialize();
 
-    // 搜索最近 30 天的记录
-    const now = Date.now();
-    const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
-    const dates = this.getDateRange(thirtyDaysAgo, now);
-
-    for (const dateStr of dates) {
-      const remediations = await this.readRemediationsFile(dateStr);
-      const found = remediations.find((r) => r.id === id);
-      if (found) {
-        return found;
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * 获取日期范围内的所有日期字符串
-   */
-  private getDateRange(from: number, to: number): string[] {
-    const dates: string[] = [];
-    const current = new Date(from);
-    current.setHours(0, 0, 0, 0);
-    const endDate = new Date(to);
-    endDate.setHours(23, 59, 59, 999);
-
-    while (current <= endDate) {
-      dates.push(getDateString(current.getTime()));
-      current.setDate(current.getDate() + 1);
-    }
-
-    return dates;
+    return this.remediationStore.findById(id);
   }
 
   /**
@@ -1033,18 +937,7 @@ export class FaultHealer implements IFaultHealer {
     failed: number;
     skipped: number;
   }> {
-    const dates = this.getDateRange(from, to);
-    let allRemediations: RemediationExecution[] = [];
-
-    for (const dateStr of dates) {
-      const remediations = await this.readRemediationsFile(dateStr);
-      allRemediations = allRemediations.concat(remediations);
-    }
-
-    // 过滤指定模式的记录
-    const patternRemediations = allRemediations.filter(
-      (r) => r.patternId === patternId && r.startedAt >= from && r.startedAt <= to
-    );
+    const patternRemediations = await this.remediationStore.query({ from, to, where: { patternId } });
 
     return {
       total: patternRemediations.length,
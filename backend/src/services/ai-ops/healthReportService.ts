@@ -28,6 +28,7 @@ import { alertEngine } from './alertEngine';
 import { configSnapshotService } from './configSnapshotService';
 import { notificationService } from './notificationService';
 import { scheduler } from './scheduler';
+import { firewallAnalyzer } from '../firewall';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
 const REPORTS_DIR = path.join(DATA_DIR, 'reports');
@@ -361,7 +362,8 @@ export class HealthReportService implements IHealthReportService {
   private generateAIAnalysis(
     metrics: HealthReport['metrics'],
     alerts: HealthReport['alerts'],
-    interfaces: HealthReport['interfaces']
+    interfaces: HealthReport['interfaces'],
+    firewallRisks: string[] = []
   ): HealthReport['aiAnalysis'] {
     const risks: string[] = [];
     const recommendations: string[] = [];
@@ -422,6 +424,12 @@ export class HealthReportService implements IHealthReportService {
       recommendations.push('建议检查网络连接和接口配置');
     }
 
+    // 防火墙规则分析
+    if (firewallRisks.length > 0) {
+      risks.push(...firewallRisks);
+      recommendations.push('建议在防火墙页面查看规则分析结果，清理无效或重复的规则');
+    }
+
     // 如果没有风险，添加正面评价
     if (risks.length === 0) {
       trends.push('系统运行状态良好，无明显风险');
@@ -436,6 +444,19 @@ export class HealthReportService implements IHealthReportService {
   }
 
 
+  /**
+   * 分析防火墙规则集并汇总为风险描述
+   * 设备未连接或读取失败时跳过，不影响报告生成
+   */
+  private async getFirewallRisks(): Promise<string[]> {
+    try {
+      return firewallAnalyzer.summarizeRisks(await firewallAnalyzer.analyze());
+    } catch (error) {
+      logger.warn('Skipping firewall analysis in health report:', error);
+      return [];
+    }
+  }
+
   // ==================== 报告生成 ====================
 
   /**
@@ -462,8 +483,11 @@ export class HealthReportService implements IHealthReportService {
     const score = this.calculateHealthScore(metrics, alerts.total);
     const overallHealth = this.determineHealthStatus(score);
 
+    // 防火墙规则分析
+    const firewallRisks = await this.getFirewallRisks();
+
     // 生成 AI 分析
-    const aiAnalysis = this.generateAIAnalysis(metrics, alerts, interfaces);
+    const aiAnalysis = this.generateAIAnalysis(metrics, alerts, interfaces, firewallRisks);
 
     // 创建报告
     const report: HealthReport = {
@@ -13,6 +13,9 @@
  * - 1.8: 保留最近 7 天的历史数据
  * - 1.9: 自动清理过期数据
  * - 1.10: 采集错误时记录日志并在下一周期重试
+ *
+ * 另外每 5 分钟采样一次防火墙规则（Filter、NAT、Mangle、Raw）的命中计数器，
+ * 存储每条规则的命中增量，用于规则命中趋势和未使用规则报告
  */
 
 import fs from 'fs/promises';
@@ -24,8 +27,24 @@ import {
   SystemMetrics,
   InterfaceMetrics,
 } from '../../types/ai-ops';
-import { routerosClient } from '../routerosClient';
+import {
+  FirewallRule,
+  FirewallRuleCounter,
+  FirewallRuleHitDelta,
+  FirewallRuleHitHistory,
+  FirewallTable,
+  UnusedFirewallRuleReport,
+} from '../../types/firewall';
+import { getRouterOSClient } from '../routerosClientPool';
 import { logger } from '../../utils/logger';
+import { createTimeSeriesStore } from '../storage';
+import {
+  bucketRuleHits,
+  computeRuleHitDeltas,
+  findUnusedRules,
+  FIREWALL_TABLE_PATHS,
+  RULE_COUNTER_TABLES,
+} from '../firewall';
 
 // 告警评估回调类型
 type AlertEvaluationCallback = (metrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] }) => Promise<void>;
@@ -34,6 +53,8 @@ const METRICS_DIR = path.join(process.cwd(), 'data', 'ai-ops', 'metrics');
 const SYSTEM_METRICS_DIR = path.join(METRICS_DIR, 'system');
 const INTERFACE_METRICS_DIR = path.join(METRICS_DIR, 'interfaces');
 const TRAFFIC_METRICS_DIR = path.join(METRICS_DIR, 'traffic');
+const RULE_HITS_DIR = path.join(METRICS_DIR, 'firewall-rules');
+const RULE_COUNTERS_FILE = path.join(RULE_HITS_DIR, 'last-counters.json');
 const CONFIG_FILE = path.join(process.cwd(), 'data', 'ai-ops', 'metrics-config.json');
 
 const DEFAULT_CONFIG: MetricsCollectorConfig = {
@@ -46,28 +67,9 @@ const DEFAULT_CONFIG: MetricsCollectorConfig = {
 const TRAFFIC_COLLECTION_INTERVAL_MS = 10000; // 10 seconds
 const TRAFFIC_MAX_INTERFACES = 50; // Maximum interfaces to track
 
-/**
- * 获取日期字符串 (YYYY-MM-DD)
- */
-function getDateString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * 获取系统指标文件路径
- */
-function getSystemMetricsFilePath(dateStr: string): string {
-  return path.join(SYSTEM_METRICS_DIR, `${dateStr}.json`);
-}
-
-/**
- * 获取接口指标文件路径
- */
-function getInterfaceMetricsFilePath(dateStr: string): string {
-  return path.join(INTERFACE_METRICS_DIR, `${dateStr}.json`);
-}
-
+// Firewall rule counter collection configuration
+const RULE_COUNTER_COLLECTION_INTERVAL_MS = 300000; // 5 minutes
+const RULE_HITS_RETENTION_DAYS = 90; // 未使用规则报告最多统计 90 天
 
 /**
  * 存储的系统指标数据点
@@ -85,6 +87,14 @@ interface StoredInterfaceMetrics {
   interfaces: InterfaceMetrics[];
 }
 
+/**
+ * 存储的流量速率数据点（每 10 秒一条，包含本轮所有接口的速率）
+ */
+interface StoredTrafficRates {
+  timestamp: number;
+  interfaces: { name: string; rxRate: number; txRate: number }[];
+}
+
 /**
  * 流量速率数据点
  */
@@ -111,6 +121,7 @@ export class MetricsCollector implements IMetricsCollector {
   private config: MetricsCollectorConfig = DEFAULT_CONFIG;
   private intervalId: NodeJS.Timeout | null = null;
   private trafficIntervalId: NodeJS.Timeout | null = null;
+  private ruleCounterIntervalId: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
   private latestMetrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] } | null = null;
   private consecutiveErrors: number = 0;
@@ -119,17 +130,46 @@ export class MetricsCollector implements IMetricsCollector {
   // Traffic rate tracking (in-memory for fast access)
   private trafficHistory: Map<string, InterfaceTrafficHistory> = new Map();
   
+  // 规则计数器的最近一次采样值（键为 table:id），首次使用时从文件加载
+  private ruleCounters: Record<string, FirewallRuleCounter> | null = null;
+
   // 告警评估回调
   private alertEvaluationCallback: AlertEvaluationCallback | null = null;
 
+  // 指标与流量速率数据点处理器（用于实时推送）
+  private metricsHandlers: Array<(metrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] }) => void> = [];
+  private trafficPointHandlers: Array<(points: Record<string, TrafficRatePoint>) => void> = [];
+
+  // 系统指标与接口指标存储
+  private systemStore = createTimeSeriesStore<StoredSystemMetrics>({
+    name: 'system_metrics',
+    dir: SYSTEM_METRICS_DIR,
+    timeField: 'timestamp',
+  });
+  private interfaceStore = createTimeSeriesStore<StoredInterfaceMetrics>({
+    name: 'interface_metrics',
+    dir: INTERFACE_METRICS_DIR,
+    timeField: 'timestamp',
+  });
+  private trafficStore = createTimeSeriesStore<StoredTrafficRates>({
+    name: 'traffic_rates',
+    dir: TRAFFIC_METRICS_DIR,
+    timeField: 'timestamp',
+  });
+  private ruleHitStore = createTimeSeriesStore<FirewallRuleHitDelta>({
+    name: 'firewall_rule_hits',
+    dir: RULE_HITS_DIR,
+    timeField: 'timestamp',
+    indexes: ['table'],
+  });
+
   /**
    * 确保目录存在
    */
   private async ensureDirectories(): Promise<void> {
     try {
-      await fs.mkdir(SYSTEM_METRICS_DIR, { recursive: true });
-      await fs.mkdir(INTERFACE_METRICS_DIR, { recursive: true });
       await fs.mkdir(TRAFFIC_METRICS_DIR, { recursive: true });
+      await fs.mkdir(RULE_HITS_DIR, { recursive: true });
     } catch (error) {
       logger.error('Failed to create metrics directories:', error);
     }
@@ -167,63 +207,12 @@ export class MetricsCollector implements IMetricsCollector {
     return { ...this.config };
   }
 
-  /**
-   * 读取指定日期的系统指标文件
-   */
-  private async readSystemMetricsFile(dateStr: string): Promise<StoredSystemMetrics[]> {
-    const filePath = getSystemMetricsFilePath(dateStr);
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as StoredSystemMetrics[];
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      logger.error(`Failed to read system metrics file ${dateStr}:`, error);
-      return [];
-    }
-  }
-
-  /**
-   * 写入系统指标文件
-   */
-  private async writeSystemMetricsFile(dateStr: string, data: StoredSystemMetrics[]): Promise<void> {
-    const filePath = getSystemMetricsFilePath(dateStr);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
-  }
-
-  /**
-   * 读取指定日期的接口指标文件
-   */
-  private async readInterfaceMetricsFile(dateStr: string): Promise<StoredInterfaceMetrics[]> {
-    const filePath = getInterfaceMetricsFilePath(dateStr);
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data) as StoredInterfaceMetrics[];
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
-      logger.error(`Failed to read interface metrics file ${dateStr}:`, error);
-      return [];
-    }
-  }
-
-  /**
-   * 写入接口指标文件
-   */
-  private async writeInterfaceMetricsFile(dateStr: string, data: StoredInterfaceMetrics[]): Promise<void> {
-    const filePath = getInterfaceMetricsFilePath(dateStr);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
-  }
-
-
   /**
    * 从 RouterOS 采集系统指标
    */
   private async collectSystemMetrics(): Promise<SystemMetrics> {
     // 获取系统资源信息
-    const resources = await routerosClient.print<{
+    const resources = await getRouterOSClient().print<{
       'cpu-load': string;
       'free-memory': string;
       'total-memory': string;
@@ -315,7 +304,7 @@ export class MetricsCollector implements IMetricsCollector {
    */
   private async collectInterfaceMetrics(): Promise<InterfaceMetrics[]> {
     // 获取接口列表
-    const interfaces = await routerosClient.print<{
+    const interfaces = await getRouterOSClient().print<{
       name: string;
       running: string;
       disabled: string;
@@ -352,19 +341,14 @@ export class MetricsCollector implements IMetricsCollector {
     interfaces: InterfaceMetrics[]
   ): Promise<void> {
     const timestamp = Date.now();
-    const dateStr = getDateString(timestamp);
 
     // 存储系统指标
-    const systemData = await this.readSystemMetricsFile(dateStr);
-    systemData.push({ timestamp, metrics: system });
-    await this.writeSystemMetricsFile(dateStr, systemData);
+    await this.systemStore.insert({ timestamp, metrics: system });
 
     // 存储接口指标
-    const interfaceData = await this.readInterfaceMetricsFile(dateStr);
-    interfaceData.push({ timestamp, interfaces });
-    await this.writeInterfaceMetricsFile(dateStr, interfaceData);
+    await this.interfaceStore.insert({ timestamp, interfaces });
 
-    logger.debug(`Metrics stored for ${dateStr}`);
+    logger.debug(`Metrics stored at ${new Date(timestamp).toISOString()}`);
   }
 
   /**
@@ -373,7 +357,7 @@ export class MetricsCollector implements IMetricsCollector {
   private async doCollect(): Promise<void> {
     try {
       // 检查 RouterOS 连接
-      if (!routerosClient.isConnected()) {
+      if (!getRouterOSClient().isConnected()) {
         logger.warn('RouterOS not connected, skipping metrics collection');
         this.consecutiveErrors++;
         return;
@@ -385,6 +369,14 @@ export class MetricsCollector implements IMetricsCollector {
       // 更新最新指标缓存
       this.latestMetrics = { system, interfaces };
 
+      for (const handler of this.metricsHandlers) {
+        try {
+          handler(this.latestMetrics);
+        } catch (error) {
+          logger.error('Metrics handler error:', error);
+        }
+      }
+
       // 持久化存储
       await this.storeMetrics(system, interfaces);
 
@@ -441,6 +433,9 @@ export class MetricsCollector implements IMetricsCollector {
         // 启动流量速率采集（更频繁，10秒一次）
         this.startTrafficCollection();
 
+        // 启动防火墙规则计数器采样（5分钟一次）
+        this.startRuleCounterCollection();
+
         this.isRunning = true;
         logger.info(
           `MetricsCollector started with interval ${this.config.intervalMs}ms, traffic collection every ${TRAFFIC_COLLECTION_INTERVAL_MS}ms`
@@ -449,6 +444,7 @@ export class MetricsCollector implements IMetricsCollector {
         // 启动时清理过期数据
         this.cleanupExpiredData();
         this.cleanupExpiredTrafficData();
+        this.cleanupExpiredRuleHits().catch((error) => logger.error('Failed to cleanup expired firewall rule hits:', error));
       });
     });
   }
@@ -465,6 +461,10 @@ export class MetricsCollector implements IMetricsCollector {
       clearInterval(this.trafficIntervalId);
       this.trafficIntervalId = null;
     }
+    if (this.ruleCounterIntervalId) {
+      clearInterval(this.ruleCounterIntervalId);
+      this.ruleCounterIntervalId = null;
+    }
     // 保存字节快照
     this.saveLastBytesSnapshot();
     this.isRunning = false;
@@ -498,14 +498,17 @@ export class MetricsCollector implements IMetricsCollector {
       return this.latestMetrics;
     }
 
-    // 否则从文件读取最新数据
-    const today = getDateString(Date.now());
-    const systemData = await this.readSystemMetricsFile(today);
-    const interfaceData = await this.readInterfaceMetricsFile(today);
+    // 否则从存储读取今天的最新数据
+    const todayStart = new Date();
+    todayStart.setUTCHours(0, 0, 0, 0);
+    const [systemData, interfaceData] = await Promise.all([
+      this.systemStore.query({ from: todayStart.getTime(), order: 'desc', limit: 1 }),
+      this.interfaceStore.query({ from: todayStart.getTime(), order: 'desc', limit: 1 }),
+    ]);
 
     if (systemData.length > 0 && interfaceData.length > 0) {
-      const latestSystem = systemData[systemData.length - 1];
-      const latestInterface = interfaceData[interfaceData.length - 1];
+      const latestSystem = systemData[0];
+      const latestInterface = interfaceData[0];
 
       this.latestMetrics = {
         system: latestSystem.metrics,
@@ -529,165 +532,69 @@ export class MetricsCollector implements IMetricsCollector {
     await this.ensureDirectories();
 
     const points: MetricPoint[] = [];
-    const dates = this.getDateRange(from, to);
 
-    // 判断是系统指标还是接口指标
+    // 判断是系统指标还是接口指标（查询结果已按时间戳升序排列）
     if (metric.startsWith('interface:')) {
       const interfaceName = metric.substring('interface:'.length);
-      
-      for (const dateStr of dates) {
-        const data = await this.readInterfaceMetricsFile(dateStr);
-        
-        for (const entry of data) {
-          if (entry.timestamp >= from && entry.timestamp <= to) {
-            const iface = entry.interfaces.find((i) => i.name === interfaceName);
-            if (iface) {
-              // 返回接口流量作为值
-              points.push({
-                timestamp: entry.timestamp,
-                value: iface.rxBytes + iface.txBytes,
-                labels: {
-                  name: iface.name,
-                  status: iface.status,
-                  rxBytes: String(iface.rxBytes),
-                  txBytes: String(iface.txBytes),
-                },
-              });
-            }
-          }
+      const data = await this.interfaceStore.query({ from, to });
+
+      for (const entry of data) {
+        const iface = entry.interfaces.find((i) => i.name === interfaceName);
+        if (iface) {
+          // 返回接口流量作为值
+          points.push({
+            timestamp: entry.timestamp,
+            value: iface.rxBytes + iface.txBytes,
+            labels: {
+              name: iface.name,
+              status: iface.status,
+              rxBytes: String(iface.rxBytes),
+              txBytes: String(iface.txBytes),
+            },
+          });
         }
       }
     } else {
       // 系统指标
-      for (const dateStr of dates) {
-        const data = await this.readSystemMetricsFile(dateStr);
-        
-        for (const entry of data) {
-          if (entry.timestamp >= from && entry.timestamp <= to) {
-            let value: number;
-            
-            switch (metric) {
-              case 'cpu':
-                value = entry.metrics.cpu.usage;
-                break;
-              case 'memory':
-                value = entry.metrics.memory.usage;
-                break;
-              case 'disk':
-                value = entry.metrics.disk.usage;
-                break;
-              default:
-                continue;
-            }
-            
-            points.push({
-              timestamp: entry.timestamp,
-              value,
-            });
-          }
+      const data = await this.systemStore.query({ from, to });
+
+      for (const entry of data) {
+        let value: number;
+
+        switch (metric) {
+          case 'cpu':
+            value = entry.metrics.cpu.usage;
+            break;
+          case 'memory':
+            value = entry.metrics.memory.usage;
+            break;
+          case 'disk':
+            value = entry.metrics.disk.usage;
+            break;
+          default:
+            continue;
         }
+
+        points.push({
+          timestamp: entry.timestamp,
+          value,
+        });
       }
     }
 
-    // 按时间戳排序
-    points.sort((a, b) => a.timestamp - b.timestamp);
-
     return points;
   }
 
-  /**
-   * 获取日期范围内的所有日期字符串 (使用 UTC 时间)
-   */
-  private getDateRange(from: number, to: number): string[] {
-    const dates: string[] = [];
-    
-    // 使用 UTC 时间计算日期范围
-    const fromDate = new Date(from);
-    const toDate = new Date(to);
-    
-    // 获取 UTC 日期的开始
-    const currentDate = new Date(Date.UTC(
-      fromDate.getUTCFullYear(),
-      fromDate.getUTCMonth(),
-      fromDate.getUTCDate()
-    ));
-    
-    // 获取 UTC 日期的结束
-    const endDate = new Date(Date.UTC(
-      toDate.getUTCFullYear(),
-      toDate.getUTCMonth(),
-      toDate.getUTCDate(),
-      23, 59, 59, 999
-    ));
-
-    while (currentDate <= endDate) {
-      dates.push(getDateString(currentDate.getTime()));
-      currentDate.setUTCDate(currentDate.getUTCDate() + 1);
-    }
-
-    return dates;
-  }
-
-  /**
-   * 列出所有指标文件
-   */
-  private async listMetricsFiles(dir: string): Promise<string[]> {
-    try {
-      const files = await fs.readdir(dir);
-      return files
-        .filter((f) => f.endsWith('.json') && f !== '.gitkeep')
-        .map((f) => f.replace('.json', ''))
-        .sort();
-    } catch {
-      return [];
-    }
-  }
-
   /**
    * 清理过期数据
    */
   async cleanupExpiredData(): Promise<{ systemDeleted: number; interfaceDeleted: number }> {
-    await this.ensureDirectories();
-
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
     cutoffDate.setHours(0, 0, 0, 0);
-    const cutoffDateStr = getDateString(cutoffDate.getTime());
 
-    let systemDeleted = 0;
-    let interfaceDeleted = 0;
-
-    // 清理系统指标
-    const systemFiles = await this.listMetricsFiles(SYSTEM_METRICS_DIR);
-    for (const dateStr of systemFiles) {
-      if (dateStr < cutoffDateStr) {
-        const filePath = getSystemMetricsFilePath(dateStr);
-        try {
-          const data = await this.readSystemMetricsFile(dateStr);
-          systemDeleted += data.length;
-          await fs.unlink(filePath);
-          logger.info(`Deleted expired system metrics file: ${dateStr}`);
-        } catch (error) {
-          logger.error(`Failed to delete system metrics file ${dateStr}:`, error);
-        }
-      }
-    }
-
-    // 清理接口指标
-    const interfaceFiles = await this.listMetricsFiles(INTERFACE_METRICS_DIR);
-    for (const dateStr of interfaceFiles) {
-      if (dateStr < cutoffDateStr) {
-        const filePath = getInterfaceMetricsFilePath(dateStr);
-        try {
-          const data = await this.readInterfaceMetricsFile(dateStr);
-          interfaceDeleted += data.length;
-          await fs.unlink(filePath);
-          logger.info(`Deleted expired interface metrics file: ${dateStr}`);
-        } catch (error) {
-          logger.error(`Failed to delete interface metrics file ${dateStr}:`, error);
-        }
-      }
-    }
+    const systemDeleted = await this.systemStore.deleteBefore(cutoffDate.getTime());
+    const interfaceDeleted = await this.interfaceStore.deleteBefore(cutoffDate.getTime());
 
     if (systemDeleted > 0 || interfaceDeleted > 0) {
       logger.info(
@@ -702,36 +609,8 @@ export class MetricsCollector implements IMetricsCollector {
    * 获取指定日期范围内的系统指标
    */
   async getSystemMetricsHistory(from: number, to: number): Promise<StoredSystemMetrics[]> {
-    await this.ensureDirectories();
-
-    const results: StoredSystemMetrics[] = [];
-    const dates = this.getDateRange(from, to);
-
-    logger.info(`getSystemMetricsHistory: from=${new Date(from).toISOString()}, to=${new Date(to).toISOString()}`);
-    logger.info(`getSystemMetricsHistory: dates to query: ${dates.join(', ')}`);
-
-    for (const dateStr of dates) {
-      const data = await this.readSystemMetricsFile(dateStr);
-      logger.info(`getSystemMetricsHistory: read ${data.length} records from ${dateStr}`);
-      
-      let matchedCount = 0;
-      for (const entry of data) {
-        if (entry.timestamp >= from && entry.timestamp <= to) {
-          results.push(entry);
-          matchedCount++;
-        }
-      }
-      logger.info(`getSystemMetricsHistory: ${matchedCount} records matched time range from ${dateStr}`);
-      
-      if (data.length > 0 && matchedCount === 0) {
-        // 输出第一条和最后一条记录的时间戳，帮助调试
-        logger.info(`getSystemMetricsHistory: first record timestamp: ${data[0].timestamp} (${new Date(data[0].timestamp).toISOString()})`);
-        logger.info(`getSystemMetricsHistory: last record timestamp: ${data[data.length - 1].timestamp} (${new Date(data[data.length - 1].timestamp).toISOString()})`);
-      }
-    }
-
-    results.sort((a, b) => a.timestamp - b.timestamp);
-    logger.info(`getSystemMetricsHistory: total ${results.length} records found`);
+    const results = await this.systemStore.query({ from, to });
+    logger.info(`getSystemMetricsHistory: from=${new Date(from).toISOString()}, to=${new Date(to).toISOString()}, ${results.length} records found`);
     return results;
   }
 
@@ -739,22 +618,7 @@ export class MetricsCollector implements IMetricsCollector {
    * 获取指定日期范围内的接口指标
    */
   async getInterfaceMetricsHistory(from: number, to: number): Promise<StoredInterfaceMetrics[]> {
-    await this.ensureDirectories();
-
-    const results: StoredInterfaceMetrics[] = [];
-    const dates = this.getDateRange(from, to);
-
-    for (const dateStr of dates) {
-      const data = await this.readInterfaceMetricsFile(dateStr);
-      for (const entry of data) {
-        if (entry.timestamp >= from && entry.timestamp <= to) {
-          results.push(entry);
-        }
-      }
-    }
-
-    results.sort((a, b) => a.timestamp - b.timestamp);
-    return results;
+    return this.interfaceStore.query({ from, to });
   }
 
   /**
@@ -773,8 +637,8 @@ export class MetricsCollector implements IMetricsCollector {
     // 加载上次的字节快照
     this.loadLastBytesSnapshot();
 
-    // 从文件加载最近 1 小时的历史数据到内存（解决重启后数据不显示的问题）
-    this.loadTrafficHistoryFromFile();
+    // 从存储加载最近 1 小时的历史数据到内存（解决重启后数据不显示的问题）
+    this.loadRecentTrafficHistory();
 
     // 立即执行一次
     this.collectTrafficRates();
@@ -788,72 +652,41 @@ export class MetricsCollector implements IMetricsCollector {
   }
 
   /**
-   * 从文件加载最近 1 小时的流量历史数据到内存
+   * 从存储加载最近 1 小时的流量历史数据到内存
    * 解决服务重启后流量图表不显示的问题
    */
-  private async loadTrafficHistoryFromFile(): Promise<void> {
+  private async loadRecentTrafficHistory(): Promise<void> {
     try {
       const now = Date.now();
-      const oneHourAgo = now - 3600000;
-      const dates = this.getDateRange(oneHourAgo, now);
-      
+      const entries = await this.trafficStore.query({ from: now - 3600000, to: now });
+
       let loadedCount = 0;
-      
-      for (const dateStr of dates) {
-        const filePath = path.join(TRAFFIC_METRICS_DIR, `${dateStr}.json`);
-        
-        try {
-          const content = await fs.readFile(filePath, 'utf-8');
-          const data = JSON.parse(content) as Array<{
-            timestamp: number;
-            interfaces: { name: string; rxRate: number; txRate: number }[];
-          }>;
-
-          for (const entry of data) {
-            // 只加载最近 1 小时的数据
-            if (entry.timestamp >= oneHourAgo && entry.timestamp <= now) {
-              for (const iface of entry.interfaces) {
-                let history = this.trafficHistory.get(iface.name);
-                if (!history) {
-                  history = {
-                    name: iface.name,
-                    points: [],
-                    lastBytes: null,
-                  };
-                  this.trafficHistory.set(iface.name, history);
-                }
-                
-                // 添加历史数据点（避免重复）
-                const exists = history.points.some(p => p.timestamp === entry.timestamp);
-                if (!exists) {
-                  history.points.push({
-                    timestamp: entry.timestamp,
-                    rxRate: iface.rxRate,
-                    txRate: iface.txRate,
-                  });
-                  loadedCount++;
-                }
-              }
-            }
-          }
-        } catch (error) {
-          // 文件不存在或读取失败，跳过
-          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-            logger.debug(`Failed to load traffic history from ${dateStr}:`, error);
+      for (const entry of entries) {
+        for (const iface of entry.interfaces) {
+          let history = this.trafficHistory.get(iface.name);
+          if (!history) {
+            history = {
+              name: iface.name,
+              points: [],
+              lastBytes: null,
+            };
+            this.trafficHistory.set(iface.name, history);
           }
-        }
-      }
 
-      // 对每个接口的数据点按时间排序
-      for (const history of this.trafficHistory.values()) {
-        history.points.sort((a, b) => a.timestamp - b.timestamp);
+          history.points.push({
+            timestamp: entry.timestamp,
+            rxRate: iface.rxRate,
+            txRate: iface.txRate,
+          });
+          loadedCount++;
+        }
       }
 
       if (loadedCount > 0) {
-        logger.info(`Loaded ${loadedCount} traffic history points from file for ${this.trafficHistory.size} interfaces`);
+        logger.info(`Loaded ${loadedCount} traffic history points for ${this.trafficHistory.size} interfaces`);
       }
     } catch (error) {
-      logger.error('Failed to load traffic history from file:', error);
+      logger.error('Failed to load traffic history:', error);
     }
   }
 
@@ -862,11 +695,11 @@ export class MetricsCollector implements IMetricsCollector {
    */
   private async collectTrafficRates(): Promise<void> {
     try {
-      if (!routerosClient.isConnected()) {
+      if (!getRouterOSClient().isConnected()) {
         return;
       }
 
-      const interfaces = await routerosClient.print<{
+      const interfaces = await getRouterOSClient().print<{
         name: string;
         'rx-byte': string;
         'tx-byte': string;
@@ -877,7 +710,6 @@ export class MetricsCollector implements IMetricsCollector {
       }
 
       const now = Date.now();
-      const dateStr = getDateString(now);
       const trafficPoints: { name: string; rxRate: number; txRate: number }[] = [];
 
       for (const iface of interfaces) {
@@ -947,7 +779,8 @@ export class MetricsCollector implements IMetricsCollector {
 
       // 持久化存储流量数据
       if (trafficPoints.length > 0) {
-        await this.appendTrafficData(dateStr, now, trafficPoints);
+        this.emitTrafficPoints(now, trafficPoints);
+        await this.appendTrafficData(now, trafficPoints);
       }
 
       // 保存字节快照（用于重启恢复）
@@ -962,31 +795,39 @@ export class MetricsCollector implements IMetricsCollector {
   }
 
   /**
-   * 追加流量数据到日期文件
+   * 将本轮采集的速率数据点通知给所有处理器
    */
-  private async appendTrafficData(
-    dateStr: string,
+  private emitTrafficPoints(
     timestamp: number,
     points: { name: string; rxRate: number; txRate: number }[]
-  ): Promise<void> {
-    const filePath = path.join(TRAFFIC_METRICS_DIR, `${dateStr}.json`);
-    
-    try {
-      let data: Array<{ timestamp: number; interfaces: { name: string; rxRate: number; txRate: number }[] }> = [];
-      
+  ): void {
+    if (this.trafficPointHandlers.length === 0) {
+      return;
+    }
+
+    const byInterface: Record<string, TrafficRatePoint> = {};
+    for (const point of points) {
+      byInterface[point.name] = { timestamp, rxRate: point.rxRate, txRate: point.txRate };
+    }
+
+    for (const handler of this.trafficPointHandlers) {
       try {
-        const content = await fs.readFile(filePath, 'utf-8');
-        data = JSON.parse(content);
-      } catch {
-        // 文件不存在，使用空数组
+        handler(byInterface);
+      } catch (error) {
+        logger.error('Traffic point handler error:', error);
       }
+    }
+  }
 
-      data.push({
-        timestamp,
-        interfaces: points,
-      });
-
-      await fs.writeFile(filePath, JSON.stringify(data), 'utf-8');
+  /**
+   * 追加本轮采集的流量数据
+   */
+  private async appendTrafficData(
+    timestamp: number,
+    points: { name: string; rxRate: number; txRate: number }[]
+  ): Promise<void> {
+    try {
+      await this.trafficStore.insert({ timestamp, interfaces: points });
     } catch (error) {
       logger.error('Failed to append traffic data:', error);
     }
@@ -1092,47 +933,31 @@ export class MetricsCollector implements IMetricsCollector {
   }
 
   /**
-   * 获取历史流量数据（从文件读取，支持 7 天）
+   * 获取历史流量数据（从存储读取，支持 7 天）
    * @param interfaceName 接口名称
    * @param from 开始时间戳
    * @param to 结束时间戳
    */
-  async getTrafficHistoryFromFile(
+  async getStoredTrafficHistory(
     interfaceName: string,
     from: number,
     to: number
   ): Promise<TrafficRatePoint[]> {
-    const dates = this.getDateRange(from, to);
+    const entries = await this.trafficStore.query({ from, to });
     const result: TrafficRatePoint[] = [];
 
-    for (const dateStr of dates) {
-      const filePath = path.join(TRAFFIC_METRICS_DIR, `${dateStr}.json`);
-      
-      try {
-        const content = await fs.readFile(filePath, 'utf-8');
-        const data = JSON.parse(content) as Array<{
-          timestamp: number;
-          interfaces: { name: string; rxRate: number; txRate: number }[];
-        }>;
-
-        for (const entry of data) {
-          if (entry.timestamp >= from && entry.timestamp <= to) {
-            const iface = entry.interfaces.find(i => i.name === interfaceName);
-            if (iface) {
-              result.push({
-                timestamp: entry.timestamp,
-                rxRate: iface.rxRate,
-                txRate: iface.txRate,
-              });
-            }
-          }
-        }
-      } catch {
-        // 文件不存在，跳过
+    for (const entry of entries) {
+      const iface = entry.interfaces.find(i => i.name === interfaceName);
+      if (iface) {
+        result.push({
+          timestamp: entry.timestamp,
+          rxRate: iface.rxRate,
+          txRate: iface.txRate,
+        });
       }
     }
 
-    return result.sort((a, b) => a.timestamp - b.timestamp);
+    return result;
   }
 
   /**
@@ -1145,27 +970,18 @@ export class MetricsCollector implements IMetricsCollector {
   }
 
   /**
-   * 清理过期的流量数据文件
+   * 清理过期的流量数据
    */
   async cleanupExpiredTrafficData(): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
-    const cutoffDateStr = getDateString(cutoffDate.getTime());
+    cutoffDate.setHours(0, 0, 0, 0);
 
     let deletedCount = 0;
-
     try {
-      const files = await fs.readdir(TRAFFIC_METRICS_DIR);
-      
-      for (const file of files) {
-        if (file.endsWith('.json') && file !== 'last-bytes.json') {
-          const dateStr = file.replace('.json', '');
-          if (dateStr < cutoffDateStr) {
-            await fs.unlink(path.join(TRAFFIC_METRICS_DIR, file));
-            deletedCount++;
-            logger.info(`Deleted expired traffic data file: ${file}`);
-          }
-        }
+      deletedCount = await this.trafficStore.deleteBefore(cutoffDate.getTime());
+      if (deletedCount > 0) {
+        logger.info(`Traffic data cleanup completed: ${deletedCount} records deleted`);
       }
     } catch (error) {
       logger.error('Failed to cleanup expired traffic data:', error);
@@ -1174,6 +990,118 @@ export class MetricsCollector implements IMetricsCollector {
     return deletedCount;
   }
 
+  // ==================== 防火墙规则命中计数 ====================
+
+  /**
+   * 启动防火墙规则计数器采样
+   * 定时任务不在设备上下文中，只采样默认设备
+   */
+  private startRuleCounterCollection(): void {
+    this.collectRuleCounters().catch((error) => logger.error('Failed to collect firewall rule counters:', error));
+
+    this.ruleCounterIntervalId = setInterval(() => {
+      this.collectRuleCounters().catch((error) => logger.error('Failed to collect firewall rule counters:', error));
+    }, RULE_COUNTER_COLLECTION_INTERVAL_MS);
+
+    logger.info('Firewall rule counter collection started');
+  }
+
+  /**
+   * 读取各规则表的当前规则
+   */
+  private async fetchCounterTables(): Promise<Partial<Record<FirewallTable, FirewallRule[]>>> {
+    const rules: Partial<Record<FirewallTable, FirewallRule[]>> = {};
+    for (const table of RULE_COUNTER_TABLES) {
+      rules[table] = await getRouterOSClient().print<FirewallRule>(FIREWALL_TABLE_PATHS[table]);
+    }
+    return rules;
+  }
+
+  /**
+   * 加载规则计数器的最近一次采样值
+   */
+  private async loadRuleCounters(): Promise<Record<string, FirewallRuleCounter>> {
+    if (this.ruleCounters) {
+      return this.ruleCounters;
+    }
+
+    try {
+      const content = await fs.readFile(RULE_COUNTERS_FILE, 'utf-8');
+      this.ruleCounters = JSON.parse(content) as Record<string, FirewallRuleCounter>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load firewall rule counters:', error);
+      }
+      this.ruleCounters = {};
+    }
+    return this.ruleCounters;
+  }
+
+  /**
+   * 采样一次规则计数器，存储有命中的规则增量
+   */
+  async collectRuleCounters(): Promise<FirewallRuleHitDelta[]> {
+    try {
+      if (!getRouterOSClient().isConnected()) {
+        return [];
+      }
+
+      const previous = await this.loadRuleCounters();
+      const rules = await this.fetchCounterTables();
+      const { deltas, counters } = computeRuleHitDeltas(previous, rules, Date.now());
+
+      if (deltas.length > 0) {
+        await this.ruleHitStore.insertMany(deltas);
+      }
+
+      this.ruleCounters = counters;
+      await this.ensureDirectories();
+      await fs.writeFile(RULE_COUNTERS_FILE, JSON.stringify(counters), 'utf-8');
+
+      logger.debug(`Firewall rule counters sampled: ${deltas.length} rules hit`);
+      return deltas;
+    } catch (error) {
+      logger.debug('Firewall rule counter collection error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取规则表中每条规则的命中历史
+   * @param buckets 将时间范围等分的段数
+   */
+  async getRuleHitHistory(table: FirewallTable, from: number, to: number, buckets: number): Promise<FirewallRuleHitHistory> {
+    const deltas = await this.ruleHitStore.query({ from, to, where: { table } });
+    return bucketRuleHits(deltas, table, from, to, buckets);
+  }
+
+  /**
+   * 获取最近 days 天内没有任何命中的规则
+   */
+  async getUnusedRules(days: number): Promise<UnusedFirewallRuleReport> {
+    const to = Date.now();
+    const from = to - days * 24 * 60 * 60 * 1000;
+    const [rules, deltas, counters] = await Promise.all([
+      this.fetchCounterTables(),
+      this.ruleHitStore.query({ from, to }),
+      this.loadRuleCounters(),
+    ]);
+
+    return { days, from, to, ...findUnusedRules(rules, deltas, counters, from) };
+  }
+
+  /**
+   * 清理过期的规则命中记录
+   */
+  async cleanupExpiredRuleHits(): Promise<number> {
+    const cutoff = Date.now() - RULE_HITS_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const deleted = await this.ruleHitStore.deleteBefore(cutoff);
+    if (deleted > 0) {
+      logger.info(`Firewall rule hits cleanup completed: ${deleted} records deleted`);
+    }
+    return deleted;
+  }
+
   /**
    * 注册告警评估回调
    * 每次采集完指标后会调用此回调进行告警评估
@@ -1191,6 +1119,42 @@ export class MetricsCollector implements IMetricsCollector {
     this.alertEvaluationCallback = null;
     logger.info('Alert evaluation callback unregistered');
   }
+
+  /**
+   * 注册指标处理器
+   * 每次采集完系统和接口指标后调用
+   */
+  onMetrics(handler: (metrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] }) => void): void {
+    this.metricsHandlers.push(handler);
+  }
+
+  /**
+   * 移除指标处理器
+   */
+  offMetrics(handler: (metrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] }) => void): void {
+    const index = this.metricsHandlers.indexOf(handler);
+    if (index !== -1) {
+      this.metricsHandlers.splice(index, 1);
+    }
+  }
+
+  /**
+   * 注册流量速率数据点处理器
+   * 每次流量采集后以 { 接口名: 数据点 } 的形式调用
+   */
+  onTrafficPoints(handler: (points: Record<string, TrafficRatePoint>) => void): void {
+    this.trafficPointHandlers.push(handler);
+  }
+
+  /**
+   * 移除流量速率数据点处理器
+   */
+  offTrafficPoints(handler: (points: Record<string, TrafficRatePoint>) => void): void {
+    const index = this.trafficPointHandlers.indexOf(handler);
+    if (index !== -1) {
+      this.trafficPointHandlers.splice(index, 1);
+    }
+  }
 }
 
 // 导出单例实例
@@ -10,6 +10,9 @@
  * - 8.5: 支持测试发送功能
  * - 8.6: 支持为不同告警级别配置不同的通知渠道
  * - 8.7: 通知发送失败时记录失败日志并支持重试
+ *
+ * SMTP 密码和 Webhook 认证类请求头（Authorization、Token、Key 等）经 secretStore 加密后保存，
+ * 内存中为明文；API 响应使用 maskChannel() 掩码，更新时提交掩码表示保留原值
  */
 
 import fs from 'fs/promises';
@@ -25,7 +28,9 @@ import {
   WebhookConfig,
   EmailConfig,
   ChannelType,
+  NotificationChannelConfig,
 } from '../../types/ai-ops';
+import { secretStore } from '../secretStore';
 import { logger } from '../../utils/logger';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
@@ -64,9 +69,76 @@ export function formatBeijingTime(
   return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
 }
 
+// 需要加密保存的 Webhook 请求头
+const SECRET_HEADER_PATTERN = /authorization|token|secret|key|cookie|signature|password/i;
+
+/**
+ * 对渠道配置中的敏感值逐个转换（加密、解密、掩码），返回新的渠道对象
+ */
+function mapChannelSecrets(
+  channel: NotificationChannel,
+  transform: (value: string, label: string) => string
+): NotificationChannel {
+  const label = `notification channel ${channel.name}`;
+  if (channel.type === 'email') {
+    const config = channel.config as EmailConfig;
+    if (!config.smtp?.auth?.pass) return channel;
+    return {
+      ...channel,
+      config: {
+        ...config,
+        smtp: { ...config.smtp, auth: { ...config.smtp.auth, pass: transform(config.smtp.auth.pass, label) } },
+      },
+    };
+  }
+  if (channel.type === 'webhook') {
+    const config = channel.config as WebhookConfig;
+    if (!config.headers) return channel;
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers)) {
+      headers[name] = SECRET_HEADER_PATTERN.test(name) && value ? transform(value, `${label} header ${name}`) : value;
+    }
+    return { ...channel, config: { ...config, headers } };
+  }
+  return channel;
+}
+
+/**
+ * 更新时提交的掩码替换为原值
+ */
+function restoreMaskedSecrets(
+  config: NotificationChannelConfig,
+  existing: NotificationChannelConfig
+): NotificationChannelConfig {
+  const email = config as EmailConfig;
+  const existingEmail = existing as EmailConfig;
+  if (email.smtp?.auth && secretStore.isMasked(email.smtp.auth.pass)) {
+    return {
+      ...email,
+      smtp: { ...email.smtp, auth: { ...email.smtp.auth, pass: existingEmail.smtp?.auth?.pass ?? '' } },
+    };
+  }
+
+  const webhook = config as WebhookConfig;
+  const existingHeaders = (existing as WebhookConfig).headers || {};
+  if (webhook.headers && Object.values(webhook.headers).some((value) => secretStore.isMasked(value))) {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(webhook.headers)) {
+      headers[name] = secretStore.isMasked(value) ? existingHeaders[name] ?? '' : value;
+    }
+    return { ...webhook, headers };
+  }
+  return config;
+}
+
 // Web Push 订阅存储（内存中，实际应用中应持久化）
 const webPushSubscriptions: Map<string, unknown[]> = new Map();
 
+/**
+ * Web Push 通知内容
+ */
+export type WebPushNotification = Omit<Notification, 'id' | 'channelId' | 'status' | 'retryCount'>;
+
 /**
  * 获取日期字符串 (YYYY-MM-DD)
  */
@@ -107,6 +179,9 @@ export class NotificationService implements INotificationService {
   private channels: NotificationChannel[] = [];
   private initialized = false;
 
+  // Web Push 通知处理器（用于实时推送）
+  private webPushHandlers: Array<(channelId: string, notification: WebPushNotification) => void> = [];
+
   /**
    * 确保数据目录存在
    */
@@ -141,7 +216,9 @@ export class NotificationService implements INotificationService {
   private async loadChannels(): Promise<void> {
     try {
       const data = await fs.readFile(CHANNELS_FILE, 'utf-8');
-      this.channels = JSON.parse(data) as NotificationChannel[];
+      this.channels = (JSON.parse(data) as NotificationChannel[]).map((channel) =>
+        mapChannelSecrets(channel, (value, label) => secretStore.unseal(value, label))
+      );
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         this.channels = [];
@@ -158,7 +235,50 @@ export class NotificationService implements INotificationService {
    */
   private async saveChannels(): Promise<void> {
     await this.ensureDataDir();
-    await fs.writeFile(CHANNELS_FILE, JSON.stringify(this.channels, null, 2), 'utf-8');
+    const stored = this.channels.map((channel) => mapChannelSecrets(channel, (value) => secretStore.seal(value)));
+    await fs.writeFile(CHANNELS_FILE, JSON.stringify(stored, null, 2), 'utf-8');
+  }
+
+  /**
+   * 用当前密钥重新加密保存的敏感值（明文、旧密钥加密）
+   * @returns 重新加密的数量
+   */
+  async reencryptSecrets(): Promise<number> {
+    await this.initialize();
+    let stored: NotificationChannel[];
+    try {
+      stored = JSON.parse(await fs.readFile(CHANNELS_FILE, 'utf-8')) as NotificationChannel[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    // 无法解密的值在内存中仍为密文，保存时原样保留，不计入
+    let count = 0;
+    for (const channel of stored) {
+      mapChannelSecrets(channel, (value) => {
+        if (secretStore.needsReencrypt(value)) {
+          try {
+            secretStore.decrypt(value);
+            count++;
+          } catch {
+            // 已在加载时记录
+          }
+        }
+        return value;
+      });
+    }
+    if (count > 0) {
+      await this.saveChannels();
+    }
+    return count;
+  }
+
+  /**
+   * 返回敏感值已掩码的渠道（用于 API 响应）
+   */
+  maskChannel(channel: NotificationChannel): NotificationChannel {
+    return mapChannelSecrets(channel, (value) => secretStore.mask(value));
   }
 
   /**
@@ -251,6 +371,9 @@ export class NotificationService implements INotificationService {
       ...channel,
       ...updates,
     };
+    if (updates.config) {
+      updatedChannel.config = restoreMaskedSecrets(updates.config, channel.config);
+    }
 
     this.channels[index] = updatedChannel;
     await this.saveChannels();
@@ -456,9 +579,35 @@ export class NotificationService implements INotificationService {
     });
     webPushSubscriptions.set(`pending_${channel.id}`, pendingNotifications);
 
+    // 同时通过实时推送通道下发给在线的浏览器
+    for (const handler of this.webPushHandlers) {
+      try {
+        handler(channel.id, notification);
+      } catch (error) {
+        logger.error('Web Push handler error:', error);
+      }
+    }
+
     logger.debug(`Web Push notification queued for channel: ${channel.name}`);
   }
 
+  /**
+   * 注册 Web Push 通知处理器
+   */
+  onWebPush(handler: (channelId: string, notification: WebPushNotification) => void): void {
+    this.webPushHandlers.push(handler);
+  }
+
+  /**
+   * 移除 Web Push 通知处理器
+   */
+  offWebPush(handler: (channelId: string, notification: WebPushNotification) => void): void {
+    const index = this.webPushHandlers.indexOf(handler);
+    if (index !== -1) {
+      this.webPushHandlers.splice(index, 1);
+    }
+  }
+
   /**
    * 获取待推送的 Web Push 通知（供前端轮询）
    */
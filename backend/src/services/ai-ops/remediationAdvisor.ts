@@ -27,7 +27,7 @@ import {
   StepVerification,
 } from '../../types/ai-ops';
 import { logger } from '../../utils/logger';
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
 import { aiAnalyzer } from './aiAnalyzer';
 import { auditLogger } from './auditLogger';
 import { configSnapshotService } from './configSnapshotService';
@@ -956,7 +956,7 @@ export class RemediationAdvisor implements IRemediationAdvisor {
    */
   private async executeRouterOSCommand(command: string): Promise<unknown> {
     // Check if connected
-    if (!routerosClient.isConnected()) {
+    if (!getRouterOSClient().isConnected()) {
       throw new Error('Not connected to RouterOS');
     }
 
@@ -974,12 +974,12 @@ export class RemediationAdvisor implements IRemediationAdvisor {
     // Handle print commands
     if (cleanCommand.includes('/print')) {
       const basePath = cleanCommand.replace('/print', '').replace(/\s+.*$/, '');
-      return await routerosClient.print(basePath);
+      return await getRouterOSClient().print(basePath);
     }
 
     // Handle other commands
     try {
-      return await routerosClient.executeRaw(cleanCommand);
+      return await getRouterOSClient().executeRaw(cleanCommand);
     } catch (error) {
       // Some commands don't return data but succeed
       logger.debug(`Command execution result:`, error);
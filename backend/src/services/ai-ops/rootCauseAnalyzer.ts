@@ -29,7 +29,6 @@ import {
 } from '../../types/ai-ops';
 import { logger } from '../../utils/logger';
 import { aiAnalyzer } from './aiAnalyzer';
-import { routerosClient } from '../routerosClient';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops');
 const ANALYSIS_DIR = path.join(DATA_DIR, 'analysis');
@@ -23,6 +23,7 @@ import {
   ISyslogReceiver,
 } from '../../types/ai-ops';
 import { logger } from '../../utils/logger';
+import { createTimeSeriesStore } from '../storage';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'ai-ops', 'enhancement', 'syslog');
 const CONFIG_FILE = path.join(DATA_DIR, 'config.json');
@@ -80,14 +81,6 @@ function mapSyslogSeverityToAlertSeverity(syslogSeverity: number): AlertSeverity
   }
 }
 
-/**
- * 获取日期字符串 (YYYY-MM-DD)
- */
-function getDateString(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toISOString().split('T')[0];
-}
-
 /**
  * 默认配置
  */
@@ -102,6 +95,13 @@ export class SyslogReceiver implements ISyslogReceiver {
   private running = false;
   private messageHandlers: Array<(event: SyslogEvent) => void> = [];
   private initialized = false;
+  private eventStore = createTimeSeriesStore<SyslogEvent>({
+    name: 'syslog_events',
+    dir: EVENTS_DIR,
+    timeField: 'timestamp',
+    idField: 'id',
+    indexes: ['severity', 'category'],
+  });
 
   /**
    * 确保数据目录存在
@@ -109,7 +109,6 @@ export class SyslogReceiver implements ISyslogReceiver {
   private async ensureDataDir(): Promise<void> {
     try {
       await fs.mkdir(DATA_DIR, { recursive: true });
-      await fs.mkdir(EVENTS_DIR, { recursive: true });
     } catch (error) {
       logger.error('Failed to create syslog directories:', error);
     }
@@ -410,23 +409,11 @@ export class SyslogReceiver implements ISyslogReceiver {
   }
 
   /**
-   * 保存 Syslog 事件到文件
+   * 保存 Syslog 事件
    */
   private async saveEvent(event: SyslogEvent): Promise<void> {
-    const dateStr = getDateString(event.timestamp);
-    const filePath = path.join(EVENTS_DIR, `${dateStr}.json`);
-
     try {
-      let events: SyslogEvent[] = [];
-      try {
-        const data = await fs.readFile(filePath, 'utf-8');
-        events = JSON.parse(data);
-      } catch {
-        // 文件不存在，使用空数组
-      }
-
-      events.push(event);
-      await fs.writeFile(filePath, JSON.stringify(events, null, 2), 'utf-8');
+      await this.eventStore.insert(event);
     } catch (error) {
       logger.error('Failed to save syslog event:', error);
     }
@@ -598,55 +585,8 @@ export class SyslogReceiver implements ISyslogReceiver {
     const toTime = to || now;
     const maxLimit = limit || 1000;
 
-    const events: SyslogEvent[] = [];
-    const dates = this.getDateRange(fromTime, toTime);
-
-    for (const dateStr of dates) {
-      const filePath = path.join(EVENTS_DIR, `${dateStr}.json`);
-      try {
-        const data = await fs.readFile(filePath, 'utf-8');
-        const dayEvents = JSON.parse(data) as SyslogEvent[];
-        
-        for (const event of dayEvents) {
-          if (event.timestamp >= fromTime && event.timestamp <= toTime) {
-            events.push(event);
-          }
-        }
-      } catch {
-        // 文件不存在，跳过
-      }
-
-      if (events.length >= maxLimit) {
-        break;
-      }
-    }
-
     // 按时间倒序排列，取最新的
-    events.sort((a, b) => b.timestamp - a.timestamp);
-    return events.slice(0, maxLimit);
-  }
-
-  /**
-   * 获取日期范围内的所有日期字符串
-   */
-  private getDateRange(from: number, to: number): string[] {
-    const dates: string[] = [];
-    const fromDate = new Date(from);
-    const toDate = new Date(to);
-
-    const currentDate = new Date(
-      Date.UTC(fromDate.getUTCFullYear(), fromDate.getUTCMonth(), fromDate.getUTCDate())
-    );
-    const endDate = new Date(
-      Date.UTC(toDate.getUTCFullYear(), toDate.getUTCMonth(), toDate.getUTCDate(), 23, 59, 59, 999)
-    );
-
-    while (currentDate <= endDate) {
-      dates.push(getDateString(currentDate.getTime()));
-      currentDate.setUTCDate(currentDate.getUTCDate() + 1);
-    }
-
-    return dates;
+    return this.eventStore.query({ from: fromTime, to: toTime, order: 'desc', limit: maxLimit });
   }
 
   /**
@@ -4,7 +4,7 @@
  * 管理 AI 提供商的 API 配置，包括：
  * - CRUD 操作（创建、读取、更新、删除）
  * - 默认提供商管理
- * - API Key 加密存储和掩码显示
+ * - API Key 加密存储（secretStore）和掩码显示
  *
  * Requirements: 1.1, 1.4, 1.5, 1.6, 1.7
  */
@@ -21,8 +21,9 @@ import {
   AIAgentData,
   AIAgentSettings,
   AIProvider,
+  ICryptoService,
 } from '../../types/ai';
-import { CryptoService, cryptoService } from './cryptoService';
+import { secretStore } from '../secretStore';
 import { logger } from '../../utils/logger';
 
 /**
@@ -55,14 +56,14 @@ const DEFAULT_AI_DATA: AIAgentData = {
  * 提供 API 配置的完整 CRUD 功能和默认提供商管理
  */
 export class APIConfigService implements IAPIConfigService {
-  private readonly crypto: CryptoService;
+  private readonly crypto: ICryptoService;
 
   /**
    * 创建 APIConfigService 实例
-   * @param cryptoService 加密服务实例（可选，默认使用全局单例）
+   * @param cryptoServiceInstance 加密服务实例（可选，默认使用 secretStore）
    */
-  constructor(cryptoServiceInstance?: CryptoService) {
-    this.crypto = cryptoServiceInstance || cryptoService;
+  constructor(cryptoServiceInstance?: ICryptoService) {
+    this.crypto = cryptoServiceInstance || secretStore;
   }
 
   /**
@@ -413,6 +414,33 @@ export class APIConfigService implements IAPIConfigService {
     return this.crypto.decrypt(config.apiKey);
   }
 
+  /**
+   * 用当前密钥重新加密保存的 API Key（旧版密文、旧密钥加密）
+   *
+   * @returns 重新加密的数量
+   */
+  async reencryptSecrets(): Promise<number> {
+    const data = await this.loadData();
+    let count = 0;
+
+    data.apiConfigs = data.apiConfigs.map(config => {
+      if (!secretStore.needsReencrypt(config.apiKey)) return config;
+      try {
+        const apiKey = secretStore.reencrypt(config.apiKey);
+        count++;
+        return { ...config, apiKey };
+      } catch (error) {
+        logger.error(`Failed to re-encrypt API key of config ${config.id}:`, error);
+        return config;
+      }
+    });
+
+    if (count > 0) {
+      await this.saveData(data);
+    }
+    return count;
+  }
+
   /**
    * 根据提供商类型获取配置列表
    *
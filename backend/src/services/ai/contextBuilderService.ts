@@ -9,7 +9,7 @@
  * - 脱敏处理敏感信息
  */
 
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
 import {
   IContextBuilder,
   RouterOSContext,
@@ -225,8 +225,8 @@ export class ContextBuilderService implements IContextBuilder {
    * 获取连接状态
    */
   private getConnectionStatus(): RouterOSConnectionContext {
-    const connected = routerosClient.isConnected();
-    const config = routerosClient.getConfig();
+    const connected = getRouterOSClient().isConnected();
+    const config = getRouterOSClient().getConfig();
 
     return {
       connected,
@@ -240,11 +240,11 @@ export class ContextBuilderService implements IContextBuilder {
   private async getSystemInfo(): Promise<RouterOSSystemInfo | undefined> {
     try {
       // 获取系统资源
-      const resources = await routerosClient.print<SystemResource>('/system/resource');
+      const resources = await getRouterOSClient().print<SystemResource>('/system/resource');
       const resource = resources?.[0];
 
       // 获取系统身份
-      const identities = await routerosClient.print<SystemIdentity>('/system/identity');
+      const identities = await getRouterOSClient().print<SystemIdentity>('/system/identity');
       const identity = identities?.[0];
 
       if (!resource) {
@@ -274,12 +274,12 @@ export class ContextBuilderService implements IContextBuilder {
       throw new Error(`Unknown config section: ${section}`);
     }
 
-    if (!routerosClient.isConnected()) {
+    if (!getRouterOSClient().isConnected()) {
       throw new Error('Not connected to RouterOS');
     }
 
     try {
-      const data = await routerosClient.print(path);
+      const data = await getRouterOSClient().print(path);
       // 对获取的配置进行脱敏处理
       return this.sanitizeConfig(data);
     } catch (error) {
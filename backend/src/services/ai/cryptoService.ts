@@ -4,6 +4,8 @@
  * 使用 AES-256 加密算法对 API Keys 进行加密存储
  * 实现 ICryptoService 接口
  *
+ * 新写入的敏感信息统一由 secretStore 加密，本服务用于读取和迁移旧版 API Key 密文
+ *
  * Requirements: 1.3, 6.1
  */
 
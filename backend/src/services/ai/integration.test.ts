@@ -18,6 +18,11 @@ import { AIProvider } from '../../types/ai';
 function createTestApp(): Application {
   const app = express();
   app.use(express.json());
+  // 模拟已登录的管理员（认证中间件不在本测试范围内）
+  app.use((req, _res, next) => {
+    req.user = { id: 'test-admin', username: 'admin', role: 'admin', createdAt: 0, updatedAt: 0 };
+    next();
+  });
   app.use('/api/ai', aiRoutes);
   return app;
 }
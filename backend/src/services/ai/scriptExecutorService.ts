@@ -29,7 +29,7 @@ import {
   AIAgentData,
   AIAgentSettings,
 } from '../../types/ai';
-import { routerosClient } from '../routerosClient';
+import { getRouterOSClient } from '../routerosClientPool';
 import { logger } from '../../utils/logger';
 
 /**
@@ -164,7 +164,7 @@ export class ScriptExecutorService implements IScriptExecutor {
     }
 
     // 检查连接状态
-    if (!routerosClient.isConnected()) {
+    if (!getRouterOSClient().isConnected()) {
       return {
         success: false,
         error: '未连接到 RouterOS 设备',
@@ -226,7 +226,7 @@ export class ScriptExecutorService implements IScriptExecutor {
     logger.info(`Executing: ${apiCommand}, params: ${JSON.stringify(params)}`);
     
     // 直接透传到设备
-    const response = await routerosClient.executeRaw(apiCommand, params);
+    const response = await getRouterOSClient().executeRaw(apiCommand, params);
     
     // 格式化输出
     if (response === null || response === undefined) {
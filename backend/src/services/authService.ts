@@ -0,0 +1,414 @@
+/**
+ * Auth Service
+ * 管理本地用户账户（scrypt 哈希密码）及登录会话
+ *
+ * - 用户持久化到 data/users.json
+ * - 会话令牌保存在内存中，服务重启后需要重新登录
+ * - 首次启动且无用户时创建 admin 账户，密码取自 ADMIN_PASSWORD 环境变量，
+ *   未设置时随机生成并写入日志
+ * - 已认证请求在 runWithUser() 上下文中处理，getCurrentUser() 返回当前操作用户
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  User,
+  UserRole,
+  SafeUser,
+  Session,
+  LoginResult,
+  CreateUserInput,
+  UpdateUserInput,
+} from '../types';
+import { logger } from '../utils/logger';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+
+const DEFAULT_ADMIN_USERNAME = 'admin';
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * 角色权限等级，高等级包含低等级的全部权限
+ */
+export const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+/**
+ * 判断角色是否满足要求的最低角色
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+}
+
+/**
+ * 会话有效期（小时），默认 24 小时
+ */
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+export class AuthService {
+  private users: User[] = [];
+  private sessions: Map<string, Session> = new Map();
+  private context = new AsyncLocalStorage<SafeUser>();
+  private initialized = false;
+
+  /**
+   * 确保数据目录存在
+   */
+  private async ensureDataDir(): Promise<void> {
+    try {
+      await fs.access(DATA_DIR);
+    } catch {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      logger.info(`Created data directory: ${DATA_DIR}`);
+    }
+  }
+
+  /**
+   * 初始化服务，加载用户并在需要时创建初始管理员
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await this.ensureDataDir();
+    try {
+      const data = await fs.readFile(USERS_FILE, 'utf-8');
+      // 角色功能之前创建的用户没有 role 字段，按管理员处理以保持原有权限
+      this.users = (JSON.parse(data) as User[]).map((u) => ({ ...u, role: u.role || 'admin' }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load users:', error);
+      }
+      this.users = [];
+    }
+    this.initialized = true;
+
+    if (this.users.length === 0) {
+      const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+      await this.createUser({ username: DEFAULT_ADMIN_USERNAME, password, role: 'admin' });
+      if (!process.env.ADMIN_PASSWORD) {
+        logger.warn(`Created initial user "${DEFAULT_ADMIN_USERNAME}" with password: ${password}`);
+      } else {
+        logger.info(`Created initial user "${DEFAULT_ADMIN_USERNAME}"`);
+      }
+    }
+  }
+
+  /**
+   * 保存用户列表
+   */
+  private async save(): Promise<void> {
+    await this.ensureDataDir();
+    await fs.writeFile(USERS_FILE, JSON.stringify(this.users, null, 2), 'utf-8');
+  }
+
+  /**
+   * 计算密码哈希
+   */
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  /**
+   * 校验密码（常量时间比较）
+   */
+  private async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [salt, expected] = passwordHash.split(':');
+    if (!salt || !expected) return false;
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    return expectedBuffer.length === hash.length && crypto.timingSafeEqual(hash, expectedBuffer);
+  }
+
+  /**
+   * 校验角色
+   */
+  private validateRole(role: string): asserts role is UserRole {
+    if (!Object.prototype.hasOwnProperty.call(ROLE_LEVELS, role)) {
+      throw new Error(`无效的角色: ${role}`);
+    }
+  }
+
+  /**
+   * 检查是否为最后一个管理员
+   */
+  private isLastAdmin(user: User): boolean {
+    return user.role === 'admin' && this.users.filter((u) => u.role === 'admin').length === 1;
+  }
+
+  /**
+   * 校验密码强度
+   */
+  private validatePassword(password: string): void {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`密码长度不能少于 ${MIN_PASSWORD_LENGTH} 位`);
+    }
+  }
+
+  /**
+   * 去除密码哈希
+   */
+  toSafeUser(user: User): SafeUser {
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      lastLoginAt: user.lastLoginAt,
+    };
+  }
+
+  // ==================== 登录会话 ====================
+
+  /**
+   * 用户登录，成功时返回会话令牌
+   */
+  async login(username: string, password: string): Promise<LoginResult> {
+    await this.initialize();
+
+    const user = this.users.find((u) => u.username === username);
+    if (!user || !(await this.verifyPassword(password || '', user.passwordHash))) {
+      throw new Error('用户名或密码错误');
+    }
+
+    this.purgeExpiredSessions();
+
+    const now = Date.now();
+    const session: Session = {
+      token: crypto.randomBytes(32).toString('hex'),
+      userId: user.id,
+      createdAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    };
+    this.sessions.set(session.token, session);
+
+    user.lastLoginAt = now;
+    await this.save();
+    logger.info(`User logged in: ${user.username}`);
+
+    return { token: session.token, expiresAt: session.expiresAt, user: this.toSafeUser(user) };
+  }
+
+  /**
+   * 注销会话
+   */
+  logout(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  /**
+   * 校验会话令牌，返回对应用户
+   */
+  async validateSession(token: string): Promise<SafeUser | null> {
+    await this.initialize();
+
+    const session = this.sessions.get(token);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+
+    const user = this.users.find((u) => u.id === session.userId);
+    if (!user) {
+      this.sessions.delete(token);
+      return null;
+    }
+    return this.toSafeUser(user);
+  }
+
+  /**
+   * 清理过期会话
+   */
+  private purgeExpiredSessions(): void {
+    const now = Date.now();
+    for (const [token, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(token);
+      }
+    }
+  }
+
+  /**
+   * 注销指定用户的所有会话
+   */
+  private revokeUserSessions(userId: string, exceptToken?: string): void {
+    for (const [token, session] of this.sessions) {
+      if (session.userId === userId && token !== exceptToken) {
+        this.sessions.delete(token);
+      }
+    }
+  }
+
+  /**
+   * 在指定用户的上下文中执行函数
+   * 函数内（包括其后续异步调用）getCurrentUser() 返回该用户
+   */
+  runWithUser<T>(user: SafeUser, fn: () => T): T {
+    return this.context.run(user, fn);
+  }
+
+  /**
+   * 获取当前请求的操作用户，后台任务中返回 undefined
+   */
+  getCurrentUser(): SafeUser | undefined {
+    return this.context.getStore();
+  }
+
+  // ==================== 用户管理 ====================
+
+  /**
+   * 获取所有用户
+   */
+  async getUsers(): Promise<SafeUser[]> {
+    await this.initialize();
+    return this.users.map((u) => this.toSafeUser(u));
+  }
+
+  /**
+   * 根据 ID 获取用户
+   */
+  async getUserById(id: string): Promise<SafeUser | null> {
+    await this.initialize();
+    const user = this.users.find((u) => u.id === id);
+    return user ? this.toSafeUser(user) : null;
+  }
+
+  /**
+   * 创建用户
+   */
+  async createUser(input: CreateUserInput): Promise<SafeUser> {
+    await this.initialize();
+
+    if (!input.username) {
+      throw new Error('缺少必填字段：username');
+    }
+    this.validatePassword(input.password);
+    const role = input.role || 'viewer';
+    this.validateRole(role);
+    if (this.users.some((u) => u.username === input.username)) {
+      throw new Error(`用户名已存在: ${input.username}`);
+    }
+
+    const now = Date.now();
+    const user: User = {
+      id: uuidv4(),
+      username: input.username,
+      role,
+      passwordHash: await this.hashPassword(input.password),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.users.push(user);
+    await this.save();
+    logger.info(`Created user: ${user.username}`);
+    return this.toSafeUser(user);
+  }
+
+  /**
+   * 更新用户
+   * 修改密码后该用户的已有会话全部失效
+   */
+  async updateUser(id: string, updates: UpdateUserInput): Promise<SafeUser> {
+    await this.initialize();
+
+    const user = this.users.find((u) => u.id === id);
+    if (!user) {
+      throw new Error(`用户不存在: ${id}`);
+    }
+
+    if (updates.username && updates.username !== user.username) {
+      if (this.users.some((u) => u.username === updates.username)) {
+        throw new Error(`用户名已存在: ${updates.username}`);
+      }
+      user.username = updates.username;
+    }
+
+    if (updates.role && updates.role !== user.role) {
+      this.validateRole(updates.role);
+      if (this.isLastAdmin(user)) {
+        throw new Error('不能修改最后一个管理员的角色');
+      }
+      user.role = updates.role;
+    }
+
+    if (updates.password) {
+      this.validatePassword(updates.password);
+      user.passwordHash = await this.hashPassword(updates.password);
+      this.revokeUserSessions(user.id);
+    }
+
+    user.updatedAt = Date.now();
+    await this.save();
+    logger.info(`Updated user: ${user.username}`);
+    return this.toSafeUser(user);
+  }
+
+  /**
+   * 修改当前用户密码（需验证原密码），保留当前会话
+   */
+  async changePassword(
+    id: string,
+    currentPassword: string,
+    newPassword: string,
+    currentToken?: string
+  ): Promise<void> {
+    await this.initialize();
+
+    const user = this.users.find((u) => u.id === id);
+    if (!user) {
+      throw new Error(`用户不存在: ${id}`);
+    }
+    if (!(await this.verifyPassword(currentPassword || '', user.passwordHash))) {
+      throw new Error('原密码错误');
+    }
+
+    this.validatePassword(newPassword);
+    user.passwordHash = await this.hashPassword(newPassword);
+    user.updatedAt = Date.now();
+    this.revokeUserSessions(user.id, currentToken);
+    await this.save();
+    logger.info(`Password changed for user: ${user.username}`);
+  }
+
+  /**
+   * 删除用户（不允许删除最后一个管理员）
+   */
+  async deleteUser(id: string): Promise<void> {
+    await this.initialize();
+
+    const index = this.users.findIndex((u) => u.id === id);
+    if (index === -1) {
+      throw new Error(`用户不存在: ${id}`);
+    }
+    if (this.isLastAdmin(this.users[index])) {
+      throw new Error('不能删除最后一个管理员');
+    }
+
+    const [removed] = this.users.splice(index, 1);
+    this.revokeUserSessions(removed.id);
+    await this.save();
+    logger.info(`Deleted user: ${removed.username}`);
+  }
+}
+
+// 导出单例实例
+export const authService = new AuthService();
@@ -0,0 +1,148 @@
+/**
+ * 备份服务测试
+ *
+ * 验证敏感字段处理、合并规则和归档校验
+ */
+
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../types';
+import { BackupService, stripSecrets, restoreSecrets, mergeValues } from './backupService';
+
+jest.mock('./ai-ops', () => ({
+  auditLogger: { log: jest.fn() },
+}));
+
+jest.mock('./storage', () => ({
+  getSqliteFile: () => 'data/ai-ops/storage.db',
+  getTimeSeriesStores: () => [
+    { collection: { name: 'audit_logs', dir: 'data/ai-ops/audit', timeField: 'timestamp', idField: 'id' } },
+    { collection: { name: 'system_metrics', dir: 'data/ai-ops/metrics/system', timeField: 'timestamp' } },
+  ],
+}));
+
+function createArchive(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    options: { includeHistory: true, includeSecrets: true },
+    files: [{ path: 'ai-ops/alerts/rules.json', encoding: 'json', content: [] }],
+    history: { audit_logs: [{ id: 'a1', timestamp: 1 }], system_metrics: [{ timestamp: 2 }] },
+    ...overrides,
+  };
+}
+
+describe('secrets', () => {
+  it('should strip secret fields recursively', () => {
+    const value = {
+      host: '192.168.88.1',
+      password: 'secret',
+      smtp: { auth: { user: 'ops', pass: 'secret' } },
+      devices: [{ id: 'd1', config: { username: 'admin', password: 'secret' } }],
+    };
+
+    expect(stripSecrets(value)).toEqual({
+      host: '192.168.88.1',
+      smtp: { auth: { user: 'ops' } },
+      devices: [{ id: 'd1', config: { username: 'admin' } }],
+    });
+  });
+
+  it('should restore secret fields from current data by id', () => {
+    const incoming = [
+      { id: 'd1', config: { host: '10.0.0.1' } },
+      { id: 'd2', config: { host: '10.0.0.2' } },
+    ];
+    const current = [{ id: 'd1', config: { host: '10.0.0.9', password: 'secret' } }];
+
+    expect(restoreSecrets(incoming, current)).toEqual([
+      { id: 'd1', config: { host: '10.0.0.1', password: 'secret' } },
+      { id: 'd2', config: { host: '10.0.0.2' } },
+    ]);
+  });
+
+  it('should treat encrypted values as secrets', () => {
+    const token = 'enc:v1:0a1b2c3d:aXY=:dGFn:ZGF0YQ==';
+    const channel = { id: 'c1', config: { url: 'https://hooks.example.com', headers: { Authorization: token, 'X-Env': 'prod' } } };
+
+    const stripped = stripSecrets([channel]);
+    expect(stripped).toEqual([{ id: 'c1', config: { url: 'https://hooks.example.com', headers: { 'X-Env': 'prod' } } }]);
+    expect(restoreSecrets(stripped, [channel])).toEqual([channel]);
+  });
+});
+
+describe('mergeValues', () => {
+  it('should merge id lists with archive items taking precedence', () => {
+    const current = [
+      { id: 'r1', name: 'old' },
+      { id: 'r2', name: 'local' },
+    ];
+    const incoming = [
+      { id: 'r1', name: 'new' },
+      { id: 'r3', name: 'added' },
+    ];
+
+    expect(mergeValues(current, incoming)).toEqual([
+      { id: 'r1', name: 'new' },
+      { id: 'r2', name: 'local' },
+      { id: 'r3', name: 'added' },
+    ]);
+  });
+
+  it('should merge objects by key and replace other values', () => {
+    expect(mergeValues({ a: 1, nested: { b: 2, c: 3 }, list: [1] }, { nested: { b: 4 }, list: [2] })).toEqual({
+      a: 1,
+      nested: { b: 4, c: 3 },
+      list: [2],
+    });
+  });
+});
+
+describe('validateArchive', () => {
+  const service = new BackupService();
+
+  it('should accept a valid archive and summarize it', () => {
+    const result = service.validateArchive(createArchive());
+
+    expect(result.valid).toBe(true);
+    expect(result.summary?.files).toEqual(['ai-ops/alerts/rules.json']);
+    expect(result.summary?.historyRecords).toEqual({ audit_logs: 1, system_metrics: 1 });
+  });
+
+  it('should reject unknown formats and newer versions', () => {
+    expect(service.validateArchive({ format: 'other' }).valid).toBe(false);
+
+    const result = service.validateArchive(createArchive({ version: BACKUP_VERSION + 1 }));
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('高于当前支持的版本');
+  });
+
+  it('should reject unsafe or reserved file paths', () => {
+    for (const filePath of ['../etc/passwd', '/etc/passwd', 'ai-ops/../../x.json', 'ai-ops/storage.db']) {
+      const result = service.validateArchive(
+        createArchive({ files: [{ path: filePath, encoding: 'utf8', content: '' }] })
+      );
+      expect(result.valid).toBe(false);
+    }
+  });
+
+  it('should reject history records without time or id', () => {
+    const result = service.validateArchive(
+      createArchive({ history: { audit_logs: [{ id: 'a1' }, { timestamp: 1 }] } })
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('2 条记录');
+  });
+
+  it('should warn about unknown collections and missing secrets', () => {
+    const result = service.validateArchive(
+      createArchive({
+        options: { includeHistory: true, includeSecrets: false },
+        history: { unknown_events: [] },
+      })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(2);
+  });
+});
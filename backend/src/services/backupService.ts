@@ -0,0 +1,537 @@
+/**
+ * Backup Service
+ * 将应用状态导出为单个带版本号的归档，以及从归档恢复，用于迁移到新主机
+ *
+ * - 配置：data 目录下的文件（连接与设备配置、AI 配置、用户账户、告警规则、通知渠道、故障模式、
+ *   决策规则、维护窗口、已知问题、调度任务、配置快照等）
+ * - 历史（可选）：时序存储中的告警事件、审计日志、决策历史、修复记录、Syslog 事件和指标，
+ *   以及分析结果、通知记录、执行记录、健康报告、反馈和流量数据等历史文件
+ * - 敏感信息（可选）：密码、密码哈希和 API Key 字段以及其他加密保存的值；不含敏感信息的归档
+ *   不导出用户账户和加密密钥文件，导入时保留当前的敏感字段值。包含敏感信息的归档带有加密密钥文件，
+ *   以便在新主机上解密（使用 SECRET_KEY 环境变量时需在新主机上配置相同的值）
+ *
+ * 导入后各服务在内存中缓存的配置需要重启服务才能生效
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupArchive,
+  BackupFile,
+  BackupOptions,
+  BackupValidationResult,
+  RestoreMode,
+  RestoreResult,
+} from '../types';
+import { auditLogger } from './ai-ops';
+import { getTimeSeriesStores, getSqliteFile, TimeSeriesStore } from './storage';
+import { secretStore } from './secretStore';
+import { logger } from '../utils/logger';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+/**
+ * 仅在包含敏感信息的归档中导出的文件：用户账户（离不开密码哈希）和加密密钥
+ */
+const SECRET_FILES = new Set(['users.json', 'secret-keys.json']);
+
+/**
+ * 历史文件所在目录（相对于 data 目录）
+ */
+const HISTORY_PREFIXES = [
+  'ai-ops/analysis/',
+  'ai-ops/notifications/',
+  'ai-ops/scheduler/executions/',
+  'ai-ops/remediations/plans/',
+  'ai-ops/remediations/executions/',
+  'ai-ops/reports/',
+  'ai-ops/feedback/',
+  'ai-ops/filters/feedback/',
+  'ai-ops/metrics/traffic/',
+];
+
+/**
+ * 敏感字段名
+ */
+const SECRET_KEYS = new Set(['password', 'passwordHash', 'apiKey', 'pass']);
+
+const DATE_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}\.json$/;
+
+type JsonObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 是否为带 id 的对象列表
+ */
+function isIdList(value: unknown): value is JsonObject[] {
+  return Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === 'string');
+}
+
+/**
+ * 是否为敏感字段：按字段名，或值为加密保存的敏感信息
+ */
+function isSecretEntry(key: string, value: unknown): boolean {
+  return SECRET_KEYS.has(key) || secretStore.isEncrypted(value);
+}
+
+/**
+ * 移除敏感字段
+ */
+export function stripSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripSecrets);
+  }
+  if (isPlainObject(value)) {
+    const result: JsonObject = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (!isSecretEntry(key, item)) {
+        result[key] = stripSecrets(item);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * 从当前数据补回归档中缺少的敏感字段（列表按 id 对应）
+ */
+export function restoreSecrets(value: unknown, current: unknown): unknown {
+  if (isIdList(value) && isIdList(current)) {
+    const currentById = new Map(current.map((item) => [item.id, item]));
+    return value.map((item) => restoreSecrets(item, currentById.get(item.id as string)));
+  }
+  if (isPlainObject(value) && isPlainObject(current)) {
+    const result: JsonObject = { ...value };
+    for (const [key, item] of Object.entries(current)) {
+      if (isSecretEntry(key, item) && !(key in result)) {
+        result[key] = item;
+      } else if (key in result) {
+        result[key] = restoreSecrets(result[key], item);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * 合并当前数据与归档数据：带 id 的列表按 id 合并，对象按键合并，其他值以归档为准
+ */
+export function mergeValues(current: unknown, incoming: unknown): unknown {
+  if (isIdList(current) && isIdList(incoming)) {
+    const incomingById = new Map(incoming.map((item) => [item.id, item]));
+    const merged = current.map((item) => incomingById.get(item.id as string) || item);
+    const currentIds = new Set(current.map((item) => item.id));
+    return merged.concat(incoming.filter((item) => !currentIds.has(item.id)));
+  }
+  if (isPlainObject(current) && isPlainObject(incoming)) {
+    const result: JsonObject = { ...current };
+    for (const [key, item] of Object.entries(incoming)) {
+      result[key] = key in current ? mergeValues(current[key], item) : item;
+    }
+    return result;
+  }
+  return incoming;
+}
+
+export class BackupService {
+  /**
+   * 导出归档（gzip 压缩的 JSON）
+   */
+  async exportArchive(options: BackupOptions): Promise<Buffer> {
+    const archive = await this.createArchive(options);
+    const buffer = await gzip(Buffer.from(JSON.stringify(archive), 'utf-8'));
+
+    await auditLogger.log({
+      action: 'backup_export',
+      actor: 'user',
+      details: {
+        trigger: 'manual',
+        metadata: { ...options, files: archive.files.length, size: buffer.length },
+      },
+    });
+
+    logger.info(`Backup exported: ${archive.files.length} files, ${buffer.length} bytes`);
+    return buffer;
+  }
+
+  /**
+   * 生成归档内容
+   */
+  async createArchive(options: BackupOptions): Promise<BackupArchive> {
+    const files: BackupFile[] = [];
+
+    for (const relativePath of await this.listDataFiles()) {
+      if (!options.includeHistory && this.isHistoryPath(relativePath)) continue;
+      if (!options.includeSecrets && SECRET_FILES.has(relativePath)) continue;
+
+      const file = await this.readDataFile(relativePath);
+      if (!options.includeSecrets && file.encoding === 'json') {
+        file.content = stripSecrets(file.content);
+      }
+      files.push(file);
+    }
+
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      options,
+      files,
+    };
+
+    if (options.includeHistory) {
+      archive.history = {};
+      for (const store of getTimeSeriesStores()) {
+        const records = await store.query();
+        archive.history[store.collection.name] = options.includeSecrets
+          ? records
+          : (stripSecrets(records) as unknown[]);
+      }
+    }
+
+    return archive;
+  }
+
+  /**
+   * 解析上传的归档（支持 gzip 压缩或未压缩的 JSON）
+   */
+  async parseArchive(data: Buffer): Promise<unknown> {
+    try {
+      const isGzip = data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+      const text = (isGzip ? await gunzip(data) : data).toString('utf-8');
+      return JSON.parse(text);
+    } catch (error) {
+      logger.warn('Failed to parse backup archive:', error);
+      throw new Error('无法解析备份文件，请确认文件完整且为本系统导出的备份');
+    }
+  }
+
+  /**
+   * 校验归档
+   */
+  validateArchive(archive: unknown): BackupValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!isPlainObject(archive) || archive.format !== BACKUP_FORMAT) {
+      return { valid: false, errors: ['不是有效的备份文件'], warnings };
+    }
+
+    const version = archive.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      errors.push('备份文件版本无效');
+    } else if (version > BACKUP_VERSION) {
+      errors.push(`备份文件版本 ${version} 高于当前支持的版本 ${BACKUP_VERSION}，请先升级本系统`);
+    }
+
+    const options = archive.options;
+    if (
+      !isPlainObject(options) ||
+      typeof options.includeHistory !== 'boolean' ||
+      typeof options.includeSecrets !== 'boolean'
+    ) {
+      errors.push('备份选项无效');
+    }
+
+    const filePaths: string[] = [];
+    if (!Array.isArray(archive.files)) {
+      errors.push('备份文件列表无效');
+    } else {
+      for (const file of archive.files) {
+        if (!isPlainObject(file) || typeof file.path !== 'string') {
+          errors.push('备份中包含无效的文件条目');
+          continue;
+        }
+        const error = this.validateFile(file as unknown as BackupFile);
+        if (error) {
+          errors.push(error);
+        } else if (filePaths.includes(file.path)) {
+          errors.push(`文件重复: ${file.path}`);
+        } else {
+          filePaths.push(file.path);
+        }
+      }
+    }
+
+    const historyRecords: Record<string, number> = {};
+    if (archive.history !== undefined) {
+      if (!isPlainObject(archive.history)) {
+        errors.push('历史记录格式无效');
+      } else {
+        const stores = new Map(getTimeSeriesStores().map((s) => [s.collection.name, s]));
+        for (const [name, records] of Object.entries(archive.history)) {
+          const store = stores.get(name);
+          if (!store) {
+            warnings.push(`未知的历史记录集合 ${name}，将被忽略`);
+            continue;
+          }
+          if (!Array.isArray(records)) {
+            errors.push(`历史记录集合 ${name} 格式无效`);
+            continue;
+          }
+          const invalid = records.filter((record) => !this.isValidRecord(store, record)).length;
+          if (invalid > 0) {
+            errors.push(`历史记录集合 ${name} 中有 ${invalid} 条记录缺少时间或 ID 字段`);
+          }
+          historyRecords[name] = records.length;
+        }
+      }
+    }
+
+    if (isPlainObject(options) && options.includeSecrets === false) {
+      warnings.push('备份不包含敏感信息：不会导入用户账户，密码和 API Key 保留当前值');
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors, warnings };
+    }
+
+    const valid = archive as unknown as BackupArchive;
+    return {
+      valid: true,
+      errors,
+      warnings,
+      summary: {
+        version: valid.version,
+        createdAt: valid.createdAt,
+        options: valid.options,
+        files: filePaths,
+        historyRecords,
+      },
+    };
+  }
+
+  /**
+   * 从归档恢复
+   * @param archive 已解析的归档
+   * @param mode 合并或替换
+   */
+  async restore(archive: unknown, mode: RestoreMode): Promise<RestoreResult> {
+    const validation = this.validateArchive(archive);
+    if (!validation.valid) {
+      throw new Error(validation.errors.join('；'));
+    }
+
+    const { options, files, history } = archive as BackupArchive;
+    const result: RestoreResult = {
+      mode,
+      filesWritten: 0,
+      filesRemoved: 0,
+      historyRecords: 0,
+      warnings: validation.warnings,
+      restartRequired: false,
+    };
+
+    const incoming = files.filter((file) => options.includeSecrets || !SECRET_FILES.has(file.path));
+
+    // 先读取将被覆盖的文件的当前内容，用于合并和补回敏感字段
+    const current: Map<string, unknown> = new Map();
+    for (const file of incoming) {
+      if (file.encoding !== 'json') continue;
+      const existing = await this.readDataFile(file.path).catch(() => null);
+      if (existing && existing.encoding === 'json') {
+        current.set(file.path, existing.content);
+      }
+    }
+
+    if (mode === 'replace') {
+      for (const relativePath of await this.listDataFiles()) {
+        if (!options.includeHistory && this.isHistoryPath(relativePath)) continue;
+        if (!options.includeSecrets && SECRET_FILES.has(relativePath)) continue;
+        await fs.unlink(path.join(DATA_DIR, relativePath));
+        result.filesRemoved++;
+      }
+    }
+
+    for (const file of incoming) {
+      let content = file.content;
+      if (file.encoding === 'json' && current.has(file.path)) {
+        const existing = current.get(file.path);
+        if (mode === 'merge') {
+          content = mergeValues(existing, content);
+        }
+        if (!options.includeSecrets) {
+          content = restoreSecrets(content, existing);
+        }
+      }
+      await this.writeDataFile({ ...file, content });
+      result.filesWritten++;
+    }
+
+    if (options.includeHistory && history) {
+      for (const store of getTimeSeriesStores()) {
+        const records = history[store.collection.name];
+        if (!records) continue;
+        result.historyRecords += await this.restoreHistory(store, records, mode);
+      }
+    }
+
+    result.restartRequired = result.filesWritten > 0 || result.filesRemoved > 0;
+    // 合并后的密钥文件包含归档中的密钥，立即用于解密
+    secretStore.reload();
+
+    await auditLogger.log({
+      action: 'backup_restore',
+      actor: 'user',
+      details: {
+        trigger: 'manual',
+        metadata: {
+          mode,
+          createdAt: (archive as BackupArchive).createdAt,
+          filesWritten: result.filesWritten,
+          filesRemoved: result.filesRemoved,
+          historyRecords: result.historyRecords,
+        },
+      },
+    });
+
+    logger.info(
+      `Backup restored (${mode}): ${result.filesWritten} files written, ${result.filesRemoved} removed, ` +
+        `${result.historyRecords} history records`
+    );
+    return result;
+  }
+
+  /**
+   * 恢复一个集合的历史记录，返回写入数量
+   * 合并时带 id 的集合按 id 覆盖，无 id 的集合（指标）只追加晚于现有最新记录的数据
+   */
+  private async restoreHistory(store: TimeSeriesStore<unknown>, records: unknown[], mode: RestoreMode): Promise<number> {
+    const { idField, timeField } = store.collection;
+    const getTime = (record: unknown) => Number((record as JsonObject)[timeField]);
+
+    if (mode === 'replace') {
+      await store.clear();
+      await store.insertMany(records);
+      return records.length;
+    }
+
+    if (idField) {
+      await store.upsertMany(records);
+      return records.length;
+    }
+
+    const [latest] = await store.query({ order: 'desc', limit: 1 });
+    const newer = latest ? records.filter((record) => getTime(record) > getTime(latest)) : records;
+    await store.insertMany(newer);
+    return newer.length;
+  }
+
+  /**
+   * 校验单个文件条目，返回错误信息
+   */
+  private validateFile(file: BackupFile): string | null {
+    const normalized = path.posix.normalize(file.path);
+    if (
+      !file.path ||
+      normalized !== file.path ||
+      path.posix.isAbsolute(file.path) ||
+      file.path.startsWith('../') ||
+      file.path.includes('\\') ||
+      this.isExcluded(file.path)
+    ) {
+      return `文件路径无效: ${file.path}`;
+    }
+    if (file.encoding !== 'json' && file.encoding !== 'utf8') {
+      return `文件编码无效: ${file.path}`;
+    }
+    if (file.encoding === 'utf8' && typeof file.content !== 'string') {
+      return `文件内容无效: ${file.path}`;
+    }
+    return null;
+  }
+
+  private isValidRecord(store: TimeSeriesStore<unknown>, record: unknown): boolean {
+    const { idField, timeField } = store.collection;
+    return (
+      isPlainObject(record) &&
+      Number.isFinite(Number(record[timeField])) &&
+      (!idField || typeof record[idField] === 'string')
+    );
+  }
+
+  /**
+   * 列出 data 目录下属于应用状态的文件（相对路径，使用 / 分隔）
+   */
+  private async listDataFiles(): Promise<string[]> {
+    const results: string[] = [];
+
+    const walk = async (dir: string, prefix: string): Promise<void> => {
+      let entries: import('fs').Dirent[];
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const relativePath = `${prefix}${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${relativePath}/`);
+        } else if (entry.isFile() && !this.isExcluded(relativePath)) {
+          results.push(relativePath);
+        }
+      }
+    };
+
+    await walk(DATA_DIR, '');
+    return results.sort();
+  }
+
+  /**
+   * 不属于归档文件的路径：SQLite 数据库、时序存储的日期文件（通过存储接口导出）和占位文件
+   */
+  private isExcluded(relativePath: string): boolean {
+    const name = path.posix.basename(relativePath);
+    if (name === '.gitkeep') {
+      return true;
+    }
+
+    const sqliteFile = path.relative(DATA_DIR, getSqliteFile()).split(path.sep).join('/');
+    if (relativePath.startsWith(sqliteFile)) {
+      return true;
+    }
+
+    if (DATE_FILE_PATTERN.test(name)) {
+      const dir = path.join(DATA_DIR, path.posix.dirname(relativePath));
+      return getTimeSeriesStores().some((store) => path.resolve(store.collection.dir) === path.resolve(dir));
+    }
+    return false;
+  }
+
+  private isHistoryPath(relativePath: string): boolean {
+    return HISTORY_PREFIXES.some((prefix) => relativePath.startsWith(prefix));
+  }
+
+  private async readDataFile(relativePath: string): Promise<BackupFile> {
+    const text = await fs.readFile(path.join(DATA_DIR, relativePath), 'utf-8');
+    if (relativePath.endsWith('.json')) {
+      try {
+        return { path: relativePath, encoding: 'json', content: JSON.parse(text) };
+      } catch {
+        // 损坏的 JSON 文件按原文保存
+      }
+    }
+    return { path: relativePath, encoding: 'utf8', content: text };
+  }
+
+  private async writeDataFile(file: BackupFile): Promise<void> {
+    const filePath = path.join(DATA_DIR, file.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const text = file.encoding === 'json' ? JSON.stringify(file.content, null, 2) : (file.content as string);
+    await fs.writeFile(filePath, text, 'utf-8');
+  }
+}
+
+// 导出单例实例
+export const backupService = new BackupService();
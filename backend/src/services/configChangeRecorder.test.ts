@@ -0,0 +1,181 @@
+/**
+ * 配置修改审计测试
+ *
+ * 通过模拟 RouterOS 服务器完整执行修改请求，验证审计记录中的路径、条目 ID 和修改前后状态
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { routerosClient } from './routerosClient';
+import { configChangeRecorder, maskParams, maskState } from './configChangeRecorder';
+import { auditLogger } from './ai-ops/auditLogger';
+import { MockRouterOSServer } from './mockRouterOS';
+import { auditConfigChanges } from '../middleware/configAudit';
+import firewallRoutes from '../routes/firewallRoutes';
+import interfaceRoutes from '../routes/interfaceRoutes';
+import { AuditConfigChange } from '../types';
+
+jest.mock('./ai-ops/auditLogger', () => ({
+  auditLogger: { log: jest.fn().mockResolvedValue(null) },
+}));
+
+const log = auditLogger.log as jest.Mock;
+
+/**
+ * 等待响应结束后的异步审计写入完成
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('configChangeRecorder', () => {
+  it('should mask sensitive values', () => {
+    expect(maskState({ name: 'vpn', password: 'hunter2', 'ipsec-secret': '' })).toEqual({
+      name: 'vpn',
+      password: '***',
+      'ipsec-secret': '',
+    });
+    expect(maskParams(['=.id=*1', '=password=hunter2', '=user=admin'])).toEqual([
+      '=.id=*1',
+      '=password=***',
+      '=user=admin',
+    ]);
+  });
+
+  it('should ignore changes outside a recording context', () => {
+    const changes: AuditConfigChange[] = [];
+    configChangeRecorder.record({ operation: 'remove', path: '/ip/address', id: '*1', before: null, after: null });
+    configChangeRecorder.run(changes, () => undefined);
+
+    expect(configChangeRecorder.isRecording()).toBe(false);
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('auditConfigChanges', () => {
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    log.mockClear();
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/firewall', auditConfigChanges, firewallRoutes);
+    app.use('/api/interfaces', auditConfigChanges, interfaceRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  const loggedChanges = (): AuditConfigChange[] => log.mock.calls.map(([entry]) => entry.details.change);
+
+  it('should record add, set and remove with before and after state', async () => {
+    const created = await request(app)
+      .post('/api/firewall/nat')
+      .send({ chain: 'dstnat', action: 'dst-nat', 'to-addresses': '192.168.88.10', comment: 'web' });
+    const id = created.body.data['.id'];
+    await request(app).patch(`/api/firewall/nat/${encodeURIComponent(id)}`).send({ comment: 'web server' });
+    await request(app).delete(`/api/firewall/nat/${encodeURIComponent(id)}`);
+    await flush();
+
+    expect(loggedChanges()).toEqual([
+      expect.objectContaining({ operation: 'add', path: '/ip/firewall/nat', id, before: null }),
+      expect.objectContaining({
+        operation: 'set',
+        path: '/ip/firewall/nat',
+        id,
+        before: expect.objectContaining({ comment: 'web' }),
+        after: expect.objectContaining({ comment: 'web server' }),
+      }),
+      expect.objectContaining({
+        operation: 'remove',
+        id,
+        before: expect.objectContaining({ comment: 'web server' }),
+        after: null,
+      }),
+    ]);
+    expect(loggedChanges()[0].after).toEqual(expect.objectContaining({ comment: 'web', chain: 'dstnat' }));
+    expect(log.mock.calls[0][0]).toEqual(
+      expect.objectContaining({
+        action: 'api_change',
+        actor: 'user',
+        details: expect.objectContaining({ trigger: 'POST /api/firewall/nat', metadata: { deviceId: 'default', statusCode: 200 } }),
+      })
+    );
+  });
+
+  it('should record disable with the changed state', async () => {
+    const [ether5] = server.state.getRecords('/interface').filter((item) => item.name === 'ether5');
+    const id = String(ether5['.id']);
+
+    await request(app).post(`/api/interfaces/${encodeURIComponent(id)}/disable`);
+    await flush();
+
+    expect(loggedChanges()).toEqual([
+      expect.objectContaining({
+        operation: 'disable',
+        path: '/interface',
+        id,
+        before: expect.objectContaining({ disabled: 'false' }),
+        after: expect.objectContaining({ disabled: 'true' }),
+      }),
+    ]);
+  });
+
+  it('should record moves with the destination', async () => {
+    const [masquerade] = server.state.getRecords('/ip/firewall/nat');
+    const destination = String(masquerade['.id']);
+    const created = await routerosClient.add<Record<string, string>>('/ip/firewall/nat', {
+      chain: 'dstnat',
+      action: 'dst-nat',
+      comment: 'web',
+    });
+
+    await request(app).post(`/api/firewall/nat/${encodeURIComponent(created['.id'])}/move`).send({ destination });
+    await flush();
+
+    expect(loggedChanges()).toEqual([
+      expect.objectContaining({
+        operation: 'move',
+        path: '/ip/firewall/nat',
+        id: created['.id'],
+        destination,
+        before: expect.objectContaining({ comment: 'web' }),
+      }),
+    ]);
+    expect(log.mock.calls[0][0].details.result).toBe(`move /ip/firewall/nat ${created['.id']}`);
+    expect(server.state.getRecords('/ip/firewall/nat')[0].comment).toBe('web');
+  });
+
+  it('should record bulk address list deletes as a single change', async () => {
+    const ids: string[] = [];
+    for (const address of ['1.1.1.1', '2.2.2.2']) {
+      ids.push((await routerosClient.add<Record<string, string>>('/ip/firewall/address-list', { list: 'blocked', address }))['.id']);
+    }
+
+    await request(app).post('/api/firewall/address-list/delete').send({ ids: [...ids, '*FFFF'] });
+    await flush();
+
+    expect(loggedChanges()).toEqual([
+      {
+        operation: 'bulk',
+        path: '/ip/firewall/address-list',
+        summary: expect.objectContaining({ action: 'delete', deleted: 2, failed: [expect.objectContaining({ id: '*FFFF' })] }),
+        before: null,
+        after: null,
+      },
+    ]);
+  });
+
+  it('should not record read requests or failed changes', async () => {
+    await request(app).get('/api/firewall/nat');
+    await request(app).delete('/api/firewall/nat/*FFFF');
+    await flush();
+
+    expect(log).not.toHaveBeenCalled();
+  });
+});
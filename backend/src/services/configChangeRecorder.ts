@@ -0,0 +1,110 @@
+/**
+ * Config Change Recorder
+ * 收集 REST API 修改请求处理过程中对设备配置的修改，供审计日志使用
+ *
+ * - auditConfigChanges 中间件在 run() 上下文中处理修改请求
+ * - RouterOSClient 的 add/set/remove/enable/disable 以及命令执行在上下文中时，
+ *   读取条目修改前后的状态并调用 record() 记录
+ * - 后台任务（指标采集、AI-Ops 修复等）不在上下文中，不做额外读取也不记录
+ * - 批量操作（如地址列表导入）在 suppress() 中逐条修改，完成后调用 record() 记录一条汇总
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditConfigChange } from '../types';
+
+/**
+ * 不修改配置的命令（最后一段），在上下文中执行时不记录
+ */
+const READ_ONLY_COMMANDS = new Set([
+  'print',
+  'getall',
+  'export',
+  'monitor',
+  'monitor-traffic',
+  'ping',
+  'traceroute',
+  'torch',
+  'listen',
+]);
+
+/**
+ * 需要隐藏值的属性（密码、预共享密钥等）
+ */
+const SENSITIVE_KEY = /password|secret|passphrase|private-key|pre-?shared-key|psk/i;
+const MASK = '***';
+
+/**
+ * 判断命令是否只读
+ */
+export function isReadOnlyCommand(command: string): boolean {
+  const name = command.substring(command.lastIndexOf('/') + 1);
+  return READ_ONLY_COMMANDS.has(name);
+}
+
+/**
+ * 是否为需要隐藏值的属性（密码、预共享密钥等）
+ */
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY.test(key);
+}
+
+/**
+ * 隐藏条目状态中的密码等敏感值
+ */
+export function maskState(state: Record<string, unknown> | null): Record<string, unknown> | null {
+  if (!state) return null;
+  return Object.fromEntries(
+    Object.entries(state).map(([key, value]) => [key, isSensitiveKey(key) && value !== '' ? MASK : value])
+  );
+}
+
+/**
+ * 隐藏命令参数（=key=value）中的密码等敏感值
+ */
+export function maskParams(params: string[]): string[] {
+  return params.map((param) => {
+    const separator = param.indexOf('=', 1);
+    if (!param.startsWith('=') || separator === -1) return param;
+    return isSensitiveKey(param.substring(1, separator)) ? `${param.substring(0, separator + 1)}${MASK}` : param;
+  });
+}
+
+export class ConfigChangeRecorder {
+  private context = new AsyncLocalStorage<AuditConfigChange[]>();
+
+  /**
+   * 在记录上下文中执行函数，函数内（包括其后续异步调用）的修改追加到 changes
+   */
+  run<T>(changes: AuditConfigChange[], fn: () => T): T {
+    return this.context.run(changes, fn);
+  }
+
+  /**
+   * 在记录上下文之外执行函数：函数内的修改不读取前后状态、不逐条记录
+   */
+  suppress<T>(fn: () => T): T {
+    return this.context.exit(fn);
+  }
+
+  /**
+   * 当前是否处于记录上下文中
+   */
+  isRecording(): boolean {
+    return this.context.getStore() !== undefined;
+  }
+
+  /**
+   * 记录一项修改（不在上下文中时忽略），敏感值在记录前隐藏
+   */
+  record(change: AuditConfigChange): void {
+    this.context.getStore()?.push({
+      ...change,
+      ...(change.params ? { params: maskParams(change.params) } : {}),
+      before: maskState(change.before),
+      after: maskState(change.after),
+    });
+  }
+}
+
+// 导出单例实例
+export const configChangeRecorder = new ConfigChangeRecorder();
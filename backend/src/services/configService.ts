@@ -1,11 +1,12 @@
 /**
  * Config Service
- * 处理连接配置的持久化存储
+ * 处理连接配置的持久化存储，密码经 secretStore 加密后保存
  */
 
 import fs from 'fs/promises';
 import path from 'path';
 import { RouterOSConfig } from '../types';
+import { secretStore } from './secretStore';
 import { logger } from '../utils/logger';
 
 const CONFIG_DIR = path.join(process.cwd(), 'data');
@@ -34,7 +35,7 @@ export class ConfigService {
       const data = await fs.readFile(CONFIG_FILE, 'utf-8');
       const config = JSON.parse(data) as RouterOSConfig;
       logger.info('Loaded connection config from file');
-      return config;
+      return { ...config, password: secretStore.unseal(config.password, 'connection password') };
     } catch (error) {
       // 文件不存在是正常情况
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -53,7 +54,7 @@ export class ConfigService {
   async saveConfig(config: RouterOSConfig): Promise<void> {
     try {
       await this.ensureConfigDir();
-      const data = JSON.stringify(config, null, 2);
+      const data = JSON.stringify({ ...config, password: secretStore.seal(config.password) }, null, 2);
       await fs.writeFile(CONFIG_FILE, data, 'utf-8');
       logger.info('Saved connection config to file');
     } catch (error) {
@@ -62,6 +63,26 @@ export class ConfigService {
     }
   }
 
+  /**
+   * 用当前密钥重新加密保存的密码（明文、旧密钥加密）
+   * @returns 重新加密的数量
+   */
+  async reencryptSecrets(): Promise<number> {
+    let stored: RouterOSConfig;
+    try {
+      stored = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8')) as RouterOSConfig;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+    if (!secretStore.needsReencrypt(stored.password)) return 0;
+
+    const config = await this.loadConfig();
+    if (!config || secretStore.isEncrypted(config.password)) return 0;
+    await this.saveConfig(config);
+    return 1;
+  }
+
   /**
    * 删除保存的配置
    */
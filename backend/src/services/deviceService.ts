@@ -0,0 +1,216 @@
+/**
+ * Device Service
+ * 管理受管 RouterOS 设备清单的持久化存储，设备密码经 secretStore 加密后保存
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Device, CreateDeviceInput, UpdateDeviceInput } from '../types';
+import { getDefaultPort } from './routerosTransport';
+import { secretStore } from './secretStore';
+import { logger } from '../utils/logger';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const DEVICES_FILE = path.join(DATA_DIR, 'devices.json');
+
+export class DeviceService {
+  private devices: Device[] = [];
+  private initialized = false;
+
+  /**
+   * 确保数据目录存在
+   */
+  private async ensureDataDir(): Promise<void> {
+    try {
+      await fs.access(DATA_DIR);
+    } catch {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+      logger.info(`Created data directory: ${DATA_DIR}`);
+    }
+  }
+
+  /**
+   * 初始化服务，加载设备清单
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await this.ensureDataDir();
+    try {
+      const data = await fs.readFile(DEVICES_FILE, 'utf-8');
+      this.devices = (JSON.parse(data) as Device[]).map((device) => ({
+        ...device,
+        config: {
+          ...device.config,
+          password: secretStore.unseal(device.config.password, `password of device ${device.name}`),
+        },
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load devices:', error);
+      }
+      this.devices = [];
+    }
+    this.initialized = true;
+  }
+
+  /**
+   * 保存设备清单
+   */
+  private async save(): Promise<void> {
+    await this.ensureDataDir();
+    const stored = this.devices.map((device) => ({
+      ...device,
+      config: { ...device.config, password: secretStore.seal(device.config.password) },
+    }));
+    await fs.writeFile(DEVICES_FILE, JSON.stringify(stored, null, 2), 'utf-8');
+  }
+
+  /**
+   * 用当前密钥重新加密保存的设备密码（明文、旧密钥加密）
+   * @returns 重新加密的数量
+   */
+  async reencryptSecrets(): Promise<number> {
+    await this.initialize();
+    let stored: Device[];
+    try {
+      stored = JSON.parse(await fs.readFile(DEVICES_FILE, 'utf-8')) as Device[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    // 无法解密的密码在内存中仍为密文，保存时原样保留
+    const count = stored.filter((device) => {
+      const current = this.devices.find((d) => d.id === device.id);
+      return (
+        secretStore.needsReencrypt(device.config.password) &&
+        current !== undefined &&
+        !secretStore.isEncrypted(current.config.password)
+      );
+    }).length;
+    if (count > 0) {
+      await this.save();
+    }
+    return count;
+  }
+
+  /**
+   * 设置连接配置默认值 - API 端口 8728 (普通) / 8729 (SSL)，REST 端口 80 / 443
+   */
+  private normalizeConfig(config: Device['config']): Device['config'] {
+    const useTLS = config.useTLS === true;
+    const protocol = config.protocol === 'rest' ? 'rest' : 'api';
+    return {
+      ...config,
+      useTLS,
+      protocol,
+      port: config.port || getDefaultPort(protocol, useTLS),
+    };
+  }
+
+  /**
+   * 获取所有设备
+   */
+  async getDevices(): Promise<Device[]> {
+    await this.initialize();
+    return [...this.devices];
+  }
+
+  /**
+   * 根据 ID 获取设备
+   */
+  async getDeviceById(id: string): Promise<Device | null> {
+    await this.initialize();
+    return this.devices.find((d) => d.id === id) || null;
+  }
+
+  /**
+   * 添加设备
+   */
+  async createDevice(input: CreateDeviceInput): Promise<Device> {
+    await this.initialize();
+
+    if (!input.name || !input.config?.host || !input.config.username || !input.config.password) {
+      throw new Error('缺少必填字段：name, host, username, password');
+    }
+    if (this.devices.some((d) => d.name === input.name)) {
+      throw new Error(`设备名称已存在: ${input.name}`);
+    }
+
+    const now = Date.now();
+    const device: Device = {
+      id: uuidv4(),
+      name: input.name,
+      description: input.description,
+      config: this.normalizeConfig(input.config),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.devices.push(device);
+    await this.save();
+    logger.info(`Created device: ${device.name} (${device.config.host})`);
+    return device;
+  }
+
+  /**
+   * 更新设备
+   * 未提供 password 时保留原密码
+   */
+  async updateDevice(id: string, updates: UpdateDeviceInput): Promise<Device> {
+    await this.initialize();
+
+    const index = this.devices.findIndex((d) => d.id === id);
+    if (index === -1) {
+      throw new Error(`设备不存在: ${id}`);
+    }
+
+    const existing = this.devices[index];
+    if (updates.name && updates.name !== existing.name && this.devices.some((d) => d.name === updates.name)) {
+      throw new Error(`设备名称已存在: ${updates.name}`);
+    }
+
+    const config = updates.config
+      ? this.normalizeConfig({
+          ...existing.config,
+          ...updates.config,
+          password: updates.config.password || existing.config.password,
+        })
+      : existing.config;
+
+    const updated: Device = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      config,
+      createdAt: existing.createdAt,
+      updatedAt: Date.now(),
+    };
+
+    this.devices[index] = updated;
+    await this.save();
+    logger.info(`Updated device: ${updated.name}`);
+    return updated;
+  }
+
+  /**
+   * 删除设备
+   */
+  async deleteDevice(id: string): Promise<void> {
+    await this.initialize();
+
+    const index = this.devices.findIndex((d) => d.id === id);
+    if (index === -1) {
+      throw new Error(`设备不存在: ${id}`);
+    }
+
+    const [removed] = this.devices.splice(index, 1);
+    await this.save();
+    logger.info(`Deleted device: ${removed.name}`);
+  }
+}
+
+// 导出单例实例
+export const deviceService = new DeviceService();
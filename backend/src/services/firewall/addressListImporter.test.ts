@@ -0,0 +1,209 @@
+/**
+ * 地址列表批量导入测试
+ */
+
+import { addressListImporter, normalizeListAddress, parseAddressListContent } from './addressListImporter';
+import { routerosClient } from '../routerosClient';
+import { MockRouterOSServer } from '../mockRouterOS';
+import { configChangeRecorder } from '../configChangeRecorder';
+import { AddressListImportProgress, AuditConfigChange } from '../../types';
+
+const ADDRESS_LIST_PATH = '/ip/firewall/address-list';
+
+describe('addressListImporter', () => {
+  it('should normalize addresses, networks, ranges and host names', () => {
+    expect(normalizeListAddress('1.2.3.4/32')).toBe('1.2.3.4');
+    expect(normalizeListAddress('10.1.2.3/8')).toBe('10.0.0.0/8');
+    expect(normalizeListAddress(' 10.0.0.1-10.0.0.9 ')).toBe('10.0.0.1-10.0.0.9');
+    expect(normalizeListAddress('Example.COM')).toBe('example.com');
+    expect(normalizeListAddress('2001:db8::/32')).toBeNull();
+    expect(normalizeListAddress('300.1.1.1')).toBeNull();
+  });
+
+  it('should parse plain text with comments and remove duplicates', () => {
+    const { entries, invalid } = parseAddressListContent(
+      '# blocklist\n1.2.3.0/24 ; SBL123\n5.6.7.8 # scanner\n\n1.2.3.0/24\nnot-an-address\n',
+      'auto',
+      '1d'
+    );
+
+    expect(entries).toEqual([
+      { address: '1.2.3.0/24', timeout: '1d' },
+      { address: '5.6.7.8', timeout: '1d' },
+    ]);
+    expect(invalid).toEqual([{ line: 6, value: 'not-an-address', error: expect.any(String) }]);
+  });
+
+  it('should parse CSV with a header and per-entry timeout', () => {
+    const { entries, invalid } = parseAddressListContent(
+      'comment,address,timeout\nnas,192.168.88.10,\nvpn,"10.8.0.0/24",12h\nbad,1.1.1.1,soon\n',
+      'auto',
+      '1d'
+    );
+
+    expect(entries).toEqual([
+      { address: '192.168.88.10', timeout: '1d', comment: 'nas' },
+      { address: '10.8.0.0/24', timeout: '12h', comment: 'vpn' },
+    ]);
+    expect(invalid).toEqual([{ line: 4, value: '1.1.1.1', error: '无效的超时时间：soon' }]);
+  });
+
+  it('should parse JSON strings and objects and report malformed JSON', () => {
+    expect(parseAddressListContent('["1.1.1.1", {"address": "8.8.8.8", "timeout": "00:30:00"}, 42]')).toEqual({
+      entries: [{ address: '1.1.1.1' }, { address: '8.8.8.8', timeout: '00:30:00' }],
+      invalid: [{ line: 3, value: '42', error: expect.any(String) }],
+    });
+    expect(parseAddressListContent('[1.1.1.1', 'json').invalid[0]).toMatchObject({ line: 0 });
+  });
+
+  describe('with device', () => {
+    let server: MockRouterOSServer;
+
+    beforeEach(async () => {
+      server = new MockRouterOSServer();
+      const port = await server.start();
+      await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+      for (const address of ['1.1.1.1', '2.2.2.0/24']) {
+        await routerosClient.add(ADDRESS_LIST_PATH, { list: 'blocked', address });
+      }
+    });
+
+    afterEach(async () => {
+      await routerosClient.disconnect();
+      await server.stop();
+    });
+
+    const listAddresses = (list: string) =>
+      server.state
+        .getRecords(ADDRESS_LIST_PATH)
+        .filter((entry) => entry.list === list)
+        .map((entry) => entry.address);
+
+    it('should only remove missing addresses in sync mode', async () => {
+      const request = { list: 'blocked', content: '1.1.1.1/32\n3.3.3.3\n' };
+
+      const merge = await addressListImporter.preview(request);
+      expect(merge.added.map((entry) => entry.address)).toEqual(['3.3.3.3']);
+      expect(merge.unchanged.map((entry) => entry.address)).toEqual(['1.1.1.1']);
+      expect(merge.removed).toEqual([]);
+
+      const sync = await addressListImporter.preview({ ...request, mode: 'sync' });
+      expect(sync.removed).toEqual([expect.objectContaining({ address: '2.2.2.0/24', id: expect.any(String) })]);
+    });
+
+    it('should apply the diff in batches and report progress', async () => {
+      const content = Array.from({ length: 60 }, (_, i) => `10.0.${i}.0/24`).join('\n');
+      const progress: AddressListImportProgress[] = [];
+
+      const result = await addressListImporter.apply(
+        { list: 'blocked', content: `${content}\n1.1.1.1`, mode: 'sync', timeout: '7d' },
+        (item) => progress.push(item)
+      );
+
+      // 1.1.1.1 原为永久条目，导入后带超时，需要更新
+      expect(result).toEqual({ list: 'blocked', added: 60, removed: 1, updated: 1, unchanged: 0, failed: [] });
+      // 新增和更新全部完成后才开始删除
+      expect(progress.map((item) => item.done)).toEqual([50, 61, 62]);
+      expect(progress[1]).toEqual(expect.objectContaining({ added: 60, updated: 1, removed: 0 }));
+      expect(progress[2]).toEqual({ done: 62, total: 62, added: 60, removed: 1, updated: 1, failed: 0 });
+      expect(listAddresses('blocked')).toHaveLength(61);
+      expect(listAddresses('blocked')).not.toContain('2.2.2.0/24');
+      expect(listAddresses('trusted')).toEqual(['192.168.88.0/24']);
+      expect(server.state.getRecords(ADDRESS_LIST_PATH).find((entry) => entry.address === '10.0.5.0/24')).toEqual(
+        expect.objectContaining({ timeout: '7d' })
+      );
+    });
+
+    it('should only start removing after every add has finished', async () => {
+      const calls: string[] = [];
+      const add = routerosClient.add.bind(routerosClient);
+      const remove = routerosClient.remove.bind(routerosClient);
+      const addSpy = jest.spyOn(routerosClient, 'add').mockImplementation(async (path, data) => {
+        calls.push(`add ${data.address}`);
+        // 新增较慢时删除也不能提前开始
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return add(path, data);
+      });
+      const removeSpy = jest.spyOn(routerosClient, 'remove').mockImplementation(async (path, id) => {
+        calls.push(`remove ${id}`);
+        return remove(path, id);
+      });
+
+      const content = Array.from({ length: 55 }, (_, i) => `10.1.${i}.0/24`).join('\n');
+      await addressListImporter.apply({ list: 'blocked', content, mode: 'sync' });
+      addSpy.mockRestore();
+      removeSpy.mockRestore();
+
+      const firstRemove = calls.findIndex((call) => call.startsWith('remove'));
+      expect(calls.filter((call) => call.startsWith('add'))).toHaveLength(55);
+      expect(calls.slice(firstRemove).every((call) => call.startsWith('remove'))).toBe(true);
+      expect(listAddresses('blocked')).toHaveLength(55);
+    });
+
+    it('should remove duplicate copies of an address in sync mode', async () => {
+      await routerosClient.add(ADDRESS_LIST_PATH, { list: 'blocked', address: '1.1.1.1', comment: 'copy' });
+      await routerosClient.add(ADDRESS_LIST_PATH, { list: 'blocked', address: '2.2.2.0/24' });
+
+      const merge = await addressListImporter.preview({ list: 'blocked', content: '1.1.1.1\n' });
+      expect(merge.removed).toEqual([]);
+
+      const request = { list: 'blocked', content: '1.1.1.1\n2.2.2.0/24\n', mode: 'sync' as const };
+      const diff = await addressListImporter.preview(request);
+      expect(diff.unchanged.map((entry) => entry.address)).toEqual(['1.1.1.1', '2.2.2.0/24']);
+      expect(diff.removed).toEqual([
+        expect.objectContaining({ address: '1.1.1.1', comment: 'copy' }),
+        expect.objectContaining({ address: '2.2.2.0/24' }),
+      ]);
+
+      const result = await addressListImporter.apply(request);
+      expect(result).toMatchObject({ removed: 2, failed: [] });
+      expect(listAddresses('blocked')).toEqual(['1.1.1.1', '2.2.2.0/24']);
+    });
+
+    it('should update existing addresses whose timeout or comment changed', async () => {
+      await routerosClient.add(ADDRESS_LIST_PATH, { list: 'blocked', address: '3.3.3.3', timeout: '1d', comment: 'temp' });
+      const request = {
+        list: 'blocked',
+        content: 'address,timeout,comment\n1.1.1.1,,scanner\n2.2.2.0/24,,\n3.3.3.3,,\n',
+      };
+
+      const diff = await addressListImporter.preview(request);
+      expect(diff.changed).toEqual([
+        expect.objectContaining({ address: '1.1.1.1', comment: 'scanner', previous: {} }),
+        expect.objectContaining({ address: '3.3.3.3', previous: { timeout: '1d', comment: 'temp' } }),
+      ]);
+      expect(diff.unchanged.map((entry) => entry.address)).toEqual(['2.2.2.0/24']);
+
+      const result = await addressListImporter.apply(request);
+      expect(result).toMatchObject({ added: 0, updated: 2, unchanged: 1, failed: [] });
+      const records = server.state.getRecords(ADDRESS_LIST_PATH);
+      expect(records.find((entry) => entry.address === '1.1.1.1')).toEqual(expect.objectContaining({ comment: 'scanner' }));
+      const renewed = records.filter((entry) => entry.address === '3.3.3.3');
+      expect(renewed).toHaveLength(1);
+      expect(renewed[0].timeout).toBeUndefined();
+      expect(renewed[0].comment).toBe('temp');
+    });
+
+    it('should record a single summarized change instead of one per entry', async () => {
+      const changes: AuditConfigChange[] = [];
+      const getById = jest.spyOn(routerosClient, 'getById');
+
+      await configChangeRecorder.run(changes, () =>
+        addressListImporter.apply({ list: 'blocked', content: '1.1.1.1\n4.4.4.4\n5.5.5.5\n', mode: 'sync' })
+      );
+
+      // 只有 add 读取新建的条目，删除前不再读取条目状态
+      expect(getById).toHaveBeenCalledTimes(2);
+      getById.mockRestore();
+      expect(changes).toEqual([
+        {
+          operation: 'bulk',
+          path: ADDRESS_LIST_PATH,
+          summary: expect.objectContaining({ action: 'import', list: 'blocked', added: 2, updated: 0, removed: 1 }),
+          before: null,
+          after: null,
+        },
+      ]);
+    });
+  });
+});
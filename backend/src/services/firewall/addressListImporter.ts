@@ -0,0 +1,353 @@
+/**
+ * Address List Importer
+ * 地址列表批量导入与同步
+ *
+ * - 解析纯文本、CSV 或 JSON 格式的地址，规范化后去重（1.2.3.4/32 → 1.2.3.4，10.1.2.3/8 → 10.0.0.0/8）
+ * - 与设备上同名地址列表比较，得到新增、删除（仅 sync 模式）、超时或备注需要更新和不变的地址
+ * - 分批执行新增、更新和删除，每批完成后回调进度；单个地址失败不影响其他地址
+ * - 逐条修改不做审计记录，完成后记录一条汇总
+ */
+
+import { getRouterOSClient } from '../routerosClientPool';
+import { configChangeRecorder } from '../configChangeRecorder';
+import { logger } from '../../utils/logger';
+import {
+  AddressListChangedEntry,
+  AddressListDiff,
+  AddressListImportEntry,
+  AddressListImportFormat,
+  AddressListImportInvalid,
+  AddressListImportProgress,
+  AddressListImportRequest,
+  AddressListImportResult,
+} from '../../types';
+import { formatIPv4, parseAddress } from './ruleMatcher';
+
+const ADDRESS_LIST_PATH = '/ip/firewall/address-list';
+
+// 每批并发执行的操作数
+const BATCH_SIZE = 50;
+
+// RouterOS 地址列表也可以使用域名，由设备解析
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+// RouterOS 时间格式：1w2d3h4m5s 或 1d12:00:00
+const TIMEOUT_PATTERN = /^(?=.)(\d+w)?(\d+d)?(\d+h)?(\d+m)?(\d+s)?$|^(\d+d)?\d{1,2}:\d{2}:\d{2}$/;
+
+/**
+ * 校验 RouterOS 超时时间格式
+ */
+export function isValidTimeout(timeout: string): boolean {
+  return TIMEOUT_PATTERN.test(timeout);
+}
+
+/**
+ * 规范化地址列表中的地址（IPv4 地址、CIDR、区间或域名）
+ * @returns 无效地址时为 null
+ */
+export function normalizeListAddress(value: string): string | null {
+  const address = value.trim();
+  if (HOSTNAME_PATTERN.test(address)) {
+    return address.toLowerCase();
+  }
+
+  const range = parseAddress(address);
+  if (!range || range.version !== 4) return null;
+  if (address.includes('-')) {
+    return `${formatIPv4(range.start)}-${formatIPv4(range.end)}`;
+  }
+  const prefix = address.includes('/') ? Number(address.split('/')[1]) : 32;
+  return prefix === 32 ? formatIPv4(range.start) : `${formatIPv4(range.start)}/${prefix}`;
+}
+
+interface RawEntry extends AddressListImportEntry {
+  line: number;
+}
+
+function detectFormat(content: string): Exclude<AddressListImportFormat, 'auto'> {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[')) return 'json';
+  const firstLine = trimmed.split(/\r?\n/).find((line) => line.trim() && !line.trim().startsWith('#'));
+  return firstLine && firstLine.includes(',') ? 'csv' : 'text';
+}
+
+function parseText(content: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    // 常见黑名单格式：1.2.3.0/24 ; SBL123 或 1.2.3.4 # comment
+    const [address] = line.split(/[#;]/)[0].trim().split(/\s+/);
+    if (address) entries.push({ line: index + 1, address });
+  });
+  return entries;
+}
+
+function parseCsv(content: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+  let columns = ['address', 'timeout', 'comment'];
+  let first = true;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const cells = line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+    if (first && cells.some((cell) => cell.toLowerCase() === 'address')) {
+      columns = cells.map((cell) => cell.toLowerCase());
+      first = false;
+      return;
+    }
+    first = false;
+
+    const row = Object.fromEntries(columns.map((column, i) => [column, cells[i] || '']));
+    entries.push({
+      line: index + 1,
+      address: row.address,
+      ...(row.timeout ? { timeout: row.timeout } : {}),
+      ...(row.comment ? { comment: row.comment } : {}),
+    });
+  });
+  return entries;
+}
+
+function parseJson(content: string, invalid: AddressListImportInvalid[]): RawEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    invalid.push({ line: 0, value: '', error: `JSON 格式错误：${error instanceof Error ? error.message : String(error)}` });
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    invalid.push({ line: 0, value: '', error: 'JSON 内容必须是数组' });
+    return [];
+  }
+
+  const entries: RawEntry[] = [];
+  data.forEach((item, index) => {
+    if (typeof item === 'string') {
+      entries.push({ line: index + 1, address: item });
+    } else if (item && typeof item === 'object' && typeof item.address === 'string') {
+      entries.push({
+        line: index + 1,
+        address: item.address,
+        ...(item.timeout ? { timeout: String(item.timeout) } : {}),
+        ...(item.comment ? { comment: String(item.comment) } : {}),
+      });
+    } else {
+      invalid.push({ line: index + 1, value: JSON.stringify(item), error: '条目必须是地址字符串或包含 address 的对象' });
+    }
+  });
+  return entries;
+}
+
+/**
+ * 解析导入内容
+ * @param defaultTimeout 未单独指定 timeout 的条目使用的超时
+ */
+export function parseAddressListContent(
+  content: string,
+  format: AddressListImportFormat = 'auto',
+  defaultTimeout?: string
+): { entries: AddressListImportEntry[]; invalid: AddressListImportInvalid[] } {
+  const invalid: AddressListImportInvalid[] = [];
+  const actualFormat = format === 'auto' ? detectFormat(content) : format;
+  const raw =
+    actualFormat === 'json' ? parseJson(content, invalid) : actualFormat === 'csv' ? parseCsv(content) : parseText(content);
+
+  const entries = new Map<string, AddressListImportEntry>();
+  for (const item of raw) {
+    const address = normalizeListAddress(item.address);
+    const timeout = item.timeout || defaultTimeout;
+    if (!address) {
+      invalid.push({ line: item.line, value: item.address, error: '无效的 IPv4 地址、网段或域名' });
+    } else if (timeout && !isValidTimeout(timeout)) {
+      invalid.push({ line: item.line, value: item.address, error: `无效的超时时间：${timeout}` });
+    } else if (!entries.has(address)) {
+      entries.set(address, {
+        address,
+        ...(timeout ? { timeout } : {}),
+        ...(item.comment ? { comment: item.comment } : {}),
+      });
+    }
+  }
+
+  return { entries: [...entries.values()], invalid };
+}
+
+/**
+ * 比较导入条目与设备上的同地址条目，需要更新时返回设备上的超时和备注
+ * - 导入条目带备注且与设备上不同
+ * - 永久条目导入后带超时，或带超时的条目导入后为永久
+ * 两边都带超时时不比较超时（设备上显示的是剩余时间）；导入条目不带备注时保留设备上的备注
+ */
+function diffEntry(entry: AddressListImportEntry, existing: Record<string, string>): AddressListChangedEntry['previous'] | null {
+  const timeout = existing.timeout || undefined;
+  const comment = existing.comment || undefined;
+  const commentChanged = entry.comment !== undefined && entry.comment !== comment;
+  const timeoutChanged = !entry.timeout !== !timeout;
+  if (!commentChanged && !timeoutChanged) return null;
+  return { ...(timeout ? { timeout } : {}), ...(comment ? { comment } : {}) };
+}
+
+export class AddressListImporter {
+  /**
+   * 计算导入内容与设备上地址列表的差异
+   */
+  async preview(request: AddressListImportRequest): Promise<AddressListDiff> {
+    const mode = request.mode || 'merge';
+    const { entries, invalid } = parseAddressListContent(request.content, request.format, request.timeout);
+
+    const existing = (await getRouterOSClient().print<Record<string, string>>(ADDRESS_LIST_PATH)).filter(
+      (entry) => entry.list === request.list
+    );
+    // 同一地址有多条时以第一条为准，其余重复条目在同步模式下删除
+    const existingByAddress = new Map<string, Record<string, string>>();
+    const duplicates: Array<[string, Record<string, string>]> = [];
+    for (const entry of existing) {
+      const address = normalizeListAddress(entry.address) || entry.address;
+      if (existingByAddress.has(address)) {
+        duplicates.push([address, entry]);
+      } else {
+        existingByAddress.set(address, entry);
+      }
+    }
+    const imported = new Set(entries.map((entry) => entry.address));
+    const changed: AddressListChangedEntry[] = [];
+    const unchanged: AddressListImportEntry[] = [];
+    for (const entry of entries) {
+      const current = existingByAddress.get(entry.address);
+      if (!current) continue;
+      const previous = diffEntry(entry, current);
+      if (previous) {
+        changed.push({ ...entry, id: current['.id'], previous });
+      } else {
+        unchanged.push(entry);
+      }
+    }
+
+    return {
+      list: request.list,
+      mode,
+      added: entries.filter((entry) => !existingByAddress.has(entry.address)),
+      removed:
+        mode === 'sync'
+          ? [...[...existingByAddress.entries()].filter(([address]) => !imported.has(address)), ...duplicates]
+              .map(([address, entry]) => ({
+                id: entry['.id'],
+                address,
+                ...(entry.timeout ? { timeout: entry.timeout } : {}),
+                ...(entry.comment ? { comment: entry.comment } : {}),
+              }))
+          : [],
+      changed,
+      unchanged,
+      invalid,
+    };
+  }
+
+  /**
+   * 按差异分批新增、更新、删除地址：全部新增和更新完成后再删除，避免同步白名单时出现空窗
+   * @param onProgress 每批完成后回调
+   */
+  async apply(
+    request: AddressListImportRequest,
+    onProgress?: (progress: AddressListImportProgress) => void
+  ): Promise<AddressListImportResult> {
+    const diff = await this.preview(request);
+    const client = getRouterOSClient();
+    const failed: AddressListImportResult['failed'] = [];
+    const progress: AddressListImportProgress = {
+      done: 0,
+      total: diff.added.length + diff.changed.length + diff.removed.length,
+      added: 0,
+      removed: 0,
+      updated: 0,
+      failed: 0,
+    };
+
+    const updates: Array<() => Promise<void>> = [
+      ...diff.added.map((entry) => async () => {
+        try {
+          await client.add(ADDRESS_LIST_PATH, { list: request.list, ...entry });
+          progress.added++;
+        } catch (error) {
+          failed.push({ address: entry.address, operation: 'add', error: error instanceof Error ? error.message : String(error) });
+        }
+      }),
+      ...diff.changed.map((entry) => async () => {
+        try {
+          if (entry.previous.timeout && !entry.timeout) {
+            // 带超时的动态条目不能通过 set 改为永久，删除后重新添加
+            const comment = entry.comment ?? entry.previous.comment;
+            await client.remove(ADDRESS_LIST_PATH, entry.id);
+            await client.add(ADDRESS_LIST_PATH, { list: request.list, address: entry.address, ...(comment ? { comment } : {}) });
+          } else {
+            await client.set(ADDRESS_LIST_PATH, entry.id, {
+              ...(entry.timeout && !entry.previous.timeout ? { timeout: entry.timeout } : {}),
+              ...(entry.comment !== undefined ? { comment: entry.comment } : {}),
+            });
+          }
+          progress.updated++;
+        } catch (error) {
+          failed.push({ address: entry.address, operation: 'update', error: error instanceof Error ? error.message : String(error) });
+        }
+      }),
+    ];
+    const removals: Array<() => Promise<void>> = diff.removed.map((entry) => async () => {
+      try {
+        await client.remove(ADDRESS_LIST_PATH, entry.id);
+        progress.removed++;
+      } catch (error) {
+        failed.push({ address: entry.address, operation: 'remove', error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    const runBatches = async (operations: Array<() => Promise<void>>) => {
+      for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+        const batch = operations.slice(i, i + BATCH_SIZE);
+        await Promise.all(batch.map((operation) => operation()));
+        progress.done += batch.length;
+        progress.failed = failed.length;
+        onProgress?.({ ...progress });
+      }
+    };
+
+    await configChangeRecorder.suppress(async () => {
+      await runBatches(updates);
+      await runBatches(removals);
+    });
+
+    logger.info(
+      `Imported address list ${request.list}: ${progress.added} added, ${progress.updated} updated, ` +
+        `${progress.removed} removed, ${failed.length} failed`
+    );
+
+    const result: AddressListImportResult = {
+      list: request.list,
+      added: progress.added,
+      removed: progress.removed,
+      updated: progress.updated,
+      unchanged: diff.unchanged.length,
+      failed,
+    };
+    if (progress.total > 0) {
+      configChangeRecorder.record({
+        operation: 'bulk',
+        path: ADDRESS_LIST_PATH,
+        summary: {
+          action: 'import',
+          list: request.list,
+          mode: diff.mode,
+          added: progress.added,
+          updated: progress.updated,
+          removed: progress.removed,
+          unchanged: diff.unchanged.length,
+          failed,
+        },
+        before: null,
+        after: null,
+      });
+    }
+    return result;
+  }
+}
+
+export const addressListImporter = new AddressListImporter();
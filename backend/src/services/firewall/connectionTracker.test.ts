@@ -0,0 +1,99 @@
+/**
+ * 连接跟踪表查询与汇总测试
+ */
+
+import { connectionMatches, connectionTracker, splitEndpoint, summarizeConnections } from './connectionTracker';
+import { routerosClient } from '../routerosClient';
+import { MockRouterOSServer } from '../mockRouterOS';
+import { FirewallConnection } from '../../types';
+
+const connection = (
+  id: string,
+  protocol: string,
+  src: string,
+  dst: string,
+  bytes: number,
+  extra: Record<string, string> = {}
+): FirewallConnection => ({
+  '.id': id,
+  protocol,
+  'src-address': src,
+  'dst-address': dst,
+  'orig-bytes': String(bytes),
+  'repl-bytes': String(bytes),
+  ...extra,
+});
+
+const CONNECTIONS = [
+  connection('*1', 'tcp', '192.168.88.10:50000', '1.1.1.1:443', 1000, { 'tcp-state': 'established' }),
+  connection('*2', 'tcp', '192.168.88.10:50001', '1.1.1.1:443', 3000, { 'tcp-state': 'established', 'connection-mark': 'nas' }),
+  connection('*3', 'udp', '192.168.88.20:40000', '8.8.8.8:53', 50),
+  connection('*4', 'icmp', '192.168.88.20', '8.8.8.8', 10),
+  connection('*5', 'tcp', '10.0.0.5:51000', '192.168.88.10:22', 500, { 'tcp-state': 'time-wait' }),
+];
+
+describe('connectionTracker', () => {
+  it('should split endpoints with and without ports', () => {
+    expect(splitEndpoint('192.168.88.10:443')).toEqual(['192.168.88.10', '443']);
+    expect(splitEndpoint('8.8.8.8')).toEqual(['8.8.8.8', undefined]);
+  });
+
+  it('should filter by address range, fragment, protocol, state and connection mark', () => {
+    const ids = (filter: Parameters<typeof connectionMatches>[1]) =>
+      CONNECTIONS.filter((item) => connectionMatches(item, filter)).map((item) => item['.id']);
+
+    expect(ids({ src: '192.168.88.0/24' })).toEqual(['*1', '*2', '*3', '*4']);
+    expect(ids({ dst: ':443' })).toEqual(['*1', '*2']);
+    expect(ids({ dst: '192.168.88.10' })).toEqual(['*5']);
+    expect(ids({ protocol: 'TCP', state: 'established' })).toEqual(['*1', '*2']);
+    expect(ids({ connectionMark: 'nas' })).toEqual(['*2']);
+  });
+
+  it('should aggregate protocols, top sources, destinations and ports by traffic', () => {
+    const summary = summarizeConnections(CONNECTIONS, 2);
+
+    expect(summary.protocols).toEqual([
+      { key: 'tcp', connections: 3, bytes: 9000 },
+      { key: 'udp', connections: 1, bytes: 100 },
+      { key: 'icmp', connections: 1, bytes: 20 },
+    ]);
+    expect(summary.topSources).toEqual([
+      { key: '192.168.88.10', connections: 2, bytes: 8000 },
+      { key: '10.0.0.5', connections: 1, bytes: 1000 },
+    ]);
+    expect(summary.topDestinations[0]).toEqual({ key: '1.1.1.1', connections: 2, bytes: 8000 });
+    expect(summary.topPorts).toEqual([
+      { key: 'tcp/443', connections: 2, bytes: 8000 },
+      { key: 'tcp/22', connections: 1, bytes: 1000 },
+    ]);
+  });
+
+  describe('query', () => {
+    let server: MockRouterOSServer;
+
+    beforeEach(async () => {
+      server = new MockRouterOSServer();
+      const port = await server.start();
+      await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+      for (const item of CONNECTIONS) {
+        const values = Object.fromEntries(Object.entries(item).filter(([key]) => key !== '.id'));
+        await routerosClient.add('/ip/firewall/connection', values);
+      }
+    });
+
+    afterEach(async () => {
+      await routerosClient.disconnect();
+      await server.stop();
+    });
+
+    it('should return matching connections by traffic with a limit and summarize all matches', async () => {
+      const result = await connectionTracker.query({ protocol: 'tcp' }, 2);
+
+      expect(result.total).toBe(5);
+      expect(result.matched).toBe(3);
+      expect(result.connections.map((item) => item['dst-address'])).toEqual(['1.1.1.1:443', '1.1.1.1:443']);
+      expect(result.connections[0]['orig-bytes']).toBe('3000');
+      expect(result.summary.protocols).toEqual([{ key: 'tcp', connections: 3, bytes: 9000 }]);
+    });
+  });
+});
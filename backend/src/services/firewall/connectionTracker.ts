@@ -0,0 +1,129 @@
+/**
+ * Connection Tracker
+ * 连接跟踪表查询与汇总
+ *
+ * 读取 /ip/firewall/connection，按源/目标地址、协议、TCP 状态和连接标记过滤，
+ * 汇总各协议的连接数与流量，以及流量最大的源地址、目标地址和目标端口
+ */
+
+import { getRouterOSClient } from '../routerosClientPool';
+import {
+  ConnectionAggregate,
+  ConnectionFilter,
+  ConnectionTrackingResult,
+  ConnectionTrackingSummary,
+  FirewallConnection,
+} from '../../types';
+import { addressInRange, parseAddress } from './ruleMatcher';
+
+export const CONNECTION_PATH = '/ip/firewall/connection';
+
+const DEFAULT_LIMIT = 500;
+const DEFAULT_TOP = 10;
+
+/**
+ * 拆分连接端点，192.168.88.10:443 → ['192.168.88.10', '443']
+ * 没有端口的协议（如 icmp）只有地址
+ */
+export function splitEndpoint(endpoint: string | undefined): [string, string | undefined] {
+  if (!endpoint) return ['', undefined];
+  const match = /^(.+):(\d+)$/.exec(endpoint);
+  return match ? [match[1], match[2]] : [endpoint, undefined];
+}
+
+/**
+ * 连接的双向字节数之和
+ */
+export function connectionBytes(connection: FirewallConnection): number {
+  return (Number(connection['orig-bytes']) || 0) + (Number(connection['repl-bytes']) || 0);
+}
+
+// 可解析为地址、CIDR 或区间时按范围匹配，否则按片段匹配（如 192.168.88.）
+function endpointMatches(endpoint: string | undefined, pattern: string): boolean {
+  const [address] = splitEndpoint(endpoint);
+  if (parseAddress(pattern)) {
+    return addressInRange(address, pattern);
+  }
+  return !!endpoint && endpoint.includes(pattern);
+}
+
+/**
+ * 连接是否符合过滤条件
+ */
+export function connectionMatches(connection: FirewallConnection, filter: ConnectionFilter): boolean {
+  if (filter.src && !endpointMatches(connection['src-address'], filter.src)) return false;
+  if (filter.dst && !endpointMatches(connection['dst-address'], filter.dst)) return false;
+  if (filter.protocol && connection.protocol !== filter.protocol.toLowerCase()) return false;
+  if (filter.state && connection['tcp-state'] !== filter.state) return false;
+  if (filter.connectionMark && connection['connection-mark'] !== filter.connectionMark) return false;
+  return true;
+}
+
+/**
+ * 汇总连接（按流量降序，流量相同时按连接数降序）
+ * @param top 源地址、目标地址和端口各保留的条数
+ */
+export function summarizeConnections(connections: FirewallConnection[], top = DEFAULT_TOP): ConnectionTrackingSummary {
+  const protocols = new Map<string, ConnectionAggregate>();
+  const sources = new Map<string, ConnectionAggregate>();
+  const destinations = new Map<string, ConnectionAggregate>();
+  const ports = new Map<string, ConnectionAggregate>();
+
+  const count = (groups: Map<string, ConnectionAggregate>, key: string, bytes: number) => {
+    const aggregate = groups.get(key) || { key, connections: 0, bytes: 0 };
+    aggregate.connections++;
+    aggregate.bytes += bytes;
+    groups.set(key, aggregate);
+  };
+
+  for (const connection of connections) {
+    const bytes = connectionBytes(connection);
+    const protocol = connection.protocol || 'unknown';
+    const [srcAddress] = splitEndpoint(connection['src-address']);
+    const [dstAddress, dstPort] = splitEndpoint(connection['dst-address']);
+
+    count(protocols, protocol, bytes);
+    count(sources, srcAddress, bytes);
+    count(destinations, dstAddress, bytes);
+    if (dstPort) {
+      count(ports, `${protocol}/${dstPort}`, bytes);
+    }
+  }
+
+  const sorted = (groups: Map<string, ConnectionAggregate>) =>
+    [...groups.values()].sort((a, b) => b.bytes - a.bytes || b.connections - a.connections);
+
+  return {
+    protocols: sorted(protocols),
+    topSources: sorted(sources).slice(0, top),
+    topDestinations: sorted(destinations).slice(0, top),
+    topPorts: sorted(ports).slice(0, top),
+  };
+}
+
+export class ConnectionTracker {
+  /**
+   * 查询连接跟踪表
+   * @param limit 返回的连接条数上限（按流量降序），汇总不受影响
+   * @param top 汇总中各排行保留的条数
+   */
+  async query(
+    filter: ConnectionFilter = {},
+    limit = DEFAULT_LIMIT,
+    top = DEFAULT_TOP
+  ): Promise<ConnectionTrackingResult> {
+    const connections = await getRouterOSClient().print<FirewallConnection>(CONNECTION_PATH);
+    const matched = connections
+      .filter((connection) => connectionMatches(connection, filter))
+      .sort((a, b) => connectionBytes(b) - connectionBytes(a));
+
+    return {
+      total: connections.length,
+      matched: matched.length,
+      connections: matched.slice(0, limit),
+      summary: summarizeConnections(matched, top),
+    };
+  }
+}
+
+export const connectionTracker = new ConnectionTracker();
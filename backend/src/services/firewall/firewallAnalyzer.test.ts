@@ -0,0 +1,125 @@
+/**
+ * 防火墙规则集分析测试
+ */
+
+import { analyzeFirewallRules, FirewallAnalysisInput, firewallAnalyzer } from './firewallAnalyzer';
+import { ruleCovers, valueCovers } from './ruleMatcher';
+import { FirewallRule } from '../../types';
+
+const rule = (id: string, values: Record<string, string>): FirewallRule => ({
+  '.id': id,
+  chain: 'forward',
+  disabled: 'false',
+  ...values,
+});
+
+const input = (rules: FirewallAnalysisInput['rules']): FirewallAnalysisInput => ({
+  rules,
+  addressLists: ['trusted'],
+  ipv6AddressLists: [],
+  interfaces: ['ether1', 'bridge'],
+  interfaceLists: ['WAN', 'LAN'],
+});
+
+describe('ruleMatcher', () => {
+  it('should compare addresses, ports and sets by containment', () => {
+    expect(valueCovers('src-address', '192.168.0.0/16', '192.168.88.0/24')).toBe(true);
+    expect(valueCovers('src-address', '192.168.88.0/24', '192.168.0.0/16')).toBe(false);
+    expect(valueCovers('dst-address', '10.0.0.0/8', '10.1.1.1-10.1.1.9')).toBe(true);
+    expect(valueCovers('dst-address', '2001:db8::/32', '2001:db8:1::/48')).toBe(true);
+    expect(valueCovers('dst-address', '!10.0.0.0/8', '10.1.1.1')).toBe(false);
+    expect(valueCovers('dst-port', '1-1024', '22,80,443')).toBe(true);
+    expect(valueCovers('dst-port', '80,443', '80-443')).toBe(false);
+    expect(valueCovers('connection-state', 'established,related', 'established')).toBe(true);
+    expect(valueCovers('protocol', 'tcp', 'udp')).toBe(false);
+  });
+
+  it('should require the inner rule to carry every outer matcher', () => {
+    const broad = rule('*1', { action: 'drop', protocol: 'tcp' });
+    const narrow = rule('*2', { action: 'accept', protocol: 'tcp', 'dst-port': '22', comment: 'ssh' });
+
+    expect(ruleCovers(broad, narrow)).toBe(true);
+    expect(ruleCovers(narrow, broad)).toBe(false);
+    expect(ruleCovers(rule('*3', { action: 'drop' }), narrow)).toBe(true);
+  });
+});
+
+describe('analyzeFirewallRules', () => {
+  it('should report shadowed rules and duplicates within a chain', () => {
+    const report = analyzeFirewallRules(
+      input({
+        filter: [
+          rule('*1', { action: 'drop', 'in-interface-list': 'WAN' }),
+          rule('*2', { action: 'accept', 'in-interface-list': 'WAN', protocol: 'tcp', 'dst-port': '443' }),
+          rule('*3', { action: 'log', protocol: 'udp' }),
+          rule('*4', { action: 'log', protocol: 'udp', comment: 'copy' }),
+          rule('*5', { chain: 'input', action: 'accept', protocol: 'tcp', 'dst-port': '443' }),
+          rule('*6', { action: 'accept', 'in-interface-list': 'WAN', disabled: 'true', comment: 'old' }),
+        ],
+      })
+    );
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'shadowed', ruleId: '*2', position: 2, relatedRuleId: '*1', relatedPosition: 1 }),
+      expect.objectContaining({ type: 'duplicate', ruleId: '*4', relatedRuleId: '*3' }),
+    ]);
+    expect(report.ruleCounts).toEqual({ filter: 6 });
+  });
+
+  it('should not treat non-terminal actions or mangle passthrough rules as shadowing', () => {
+    const report = analyzeFirewallRules(
+      input({
+        nat: [
+          rule('*1', { chain: 'srcnat', action: 'passthrough' }),
+          rule('*2', { chain: 'srcnat', action: 'masquerade', 'out-interface-list': 'WAN' }),
+        ],
+        mangle: [
+          rule('*3', { chain: 'prerouting', action: 'mark-connection', 'new-connection-mark': 'a', passthrough: 'true' }),
+          rule('*4', { chain: 'prerouting', action: 'mark-connection', 'new-connection-mark': 'b', protocol: 'tcp' }),
+          rule('*5', { chain: 'forward', action: 'mark-packet', 'new-packet-mark': 'c', passthrough: 'false' }),
+          rule('*6', { chain: 'forward', action: 'mark-packet', 'new-packet-mark': 'd', protocol: 'udp' }),
+        ],
+      })
+    );
+
+    expect(report.issues).toEqual([expect.objectContaining({ type: 'shadowed', table: 'mangle', ruleId: '*6' })]);
+  });
+
+  it('should report missing references and disabled rules without comments', () => {
+    const report = analyzeFirewallRules(
+      input({
+        filter: [
+          rule('*1', { action: 'add-src-to-address-list', 'address-list': 'scanners', protocol: 'tcp', 'dst-port': '23' }),
+          rule('*2', { action: 'drop', 'src-address-list': 'scanners' }),
+          rule('*3', { action: 'drop', 'src-address-list': '!blocked', 'in-interface': 'ether9' }),
+          rule('*4', { action: 'accept', 'out-interface-list': 'DMZ', disabled: 'true' }),
+          rule('*5', { action: 'accept', 'in-interface-list': 'all', dynamic: 'true', disabled: 'true' }),
+        ],
+      })
+    );
+
+    expect(report.issues.map((issue) => [issue.type, issue.ruleId, issue.reference])).toEqual([
+      ['missing-address-list', '*3', 'blocked'],
+      ['missing-interface', '*3', 'ether9'],
+      ['missing-interface-list', '*4', 'DMZ'],
+      ['disabled-no-comment', '*4', undefined],
+    ]);
+    expect(report.issues[3].severity).toBe('info');
+  });
+
+  it('should summarize issues as health report risks', () => {
+    const report = analyzeFirewallRules(
+      input({
+        filter: [
+          rule('*1', { action: 'drop' }),
+          rule('*2', { action: 'accept', 'in-interface': 'ether9' }),
+        ],
+      })
+    );
+
+    expect(firewallAnalyzer.summarizeRisks(report)).toEqual([
+      '防火墙存在 1 条被更早规则遮蔽、永远不会匹配的规则',
+      '防火墙规则中有 1 处引用了不存在的地址列表、接口或接口列表',
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Firewall Analyzer
+ * 防火墙规则集静态分析
+ *
+ * 分析 Filter、NAT、Mangle、Raw 以及 IPv6 Filter 规则，报告：
+ * - 被同一 Chain 中更早、范围更大的终止规则遮蔽而永远不会匹配的规则
+ * - 与更早规则完全相同的重复规则
+ * - 引用不存在的地址列表、接口或接口列表的规则
+ * - 已禁用且没有备注的规则
+ *
+ * 动态规则（dynamic=true）由 RouterOS 自动生成，不参与分析
+ */
+
+import { getRouterOSClient } from '../routerosClientPool';
+import { logger } from '../../utils/logger';
+import {
+  FirewallAnalysisIssue,
+  FirewallAnalysisReport,
+  FirewallIssueType,
+  FirewallRule,
+  FirewallTable,
+} from '../../types';
+import { isRuleActive, isTerminalAction, isTrue, ruleCovers, ruleSignature, stripNegation } from './ruleMatcher';
+
+/**
+ * 各规则表的 RouterOS 路径
+ */
+export const FIREWALL_TABLE_PATHS: Record<FirewallTable, string> = {
+  filter: '/ip/firewall/filter',
+  nat: '/ip/firewall/nat',
+  mangle: '/ip/firewall/mangle',
+  raw: '/ip/firewall/raw',
+  'ipv6-filter': '/ipv6/firewall/filter',
+};
+
+export const FIREWALL_TABLES = Object.keys(FIREWALL_TABLE_PATHS) as FirewallTable[];
+
+const TABLE_LABELS: Record<FirewallTable, string> = {
+  filter: 'Filter',
+  nat: 'NAT',
+  mangle: 'Mangle',
+  raw: 'Raw',
+  'ipv6-filter': 'IPv6 Filter',
+};
+
+// RouterOS 内置的接口列表
+const BUILTIN_INTERFACE_LISTS = ['all', 'none', 'dynamic', 'static'];
+
+/**
+ * 分析所需的设备配置
+ */
+export interface FirewallAnalysisInput {
+  rules: Partial<Record<FirewallTable, FirewallRule[]>>;
+  addressLists: string[];       // IPv4 地址列表名称
+  ipv6AddressLists: string[];   // IPv6 地址列表名称
+  interfaces: string[];
+  interfaceLists: string[];
+}
+
+/**
+ * 分析规则集（不访问设备）
+ */
+export function analyzeFirewallRules(input: FirewallAnalysisInput): FirewallAnalysisReport {
+  const issues: FirewallAnalysisIssue[] = [];
+  const ruleCounts: Partial<Record<FirewallTable, number>> = {};
+
+  for (const table of FIREWALL_TABLES) {
+    const rules = input.rules[table];
+    if (!rules) continue;
+    ruleCounts[table] = rules.length;
+
+    // 规则添加到的地址列表在运行时动态创建，视为存在
+    const family: FirewallTable[] = table === 'ipv6-filter' ? ['ipv6-filter'] : ['filter', 'nat', 'mangle', 'raw'];
+    const addressLists = new Set(table === 'ipv6-filter' ? input.ipv6AddressLists : input.addressLists);
+    for (const other of family) {
+      for (const rule of input.rules[other] || []) {
+        if (rule['address-list']) addressLists.add(rule['address-list']);
+      }
+    }
+
+    issues.push(
+      ...analyzeTable(table, rules, {
+        addressLists,
+        interfaces: new Set(input.interfaces),
+        interfaceLists: new Set([...BUILTIN_INTERFACE_LISTS, ...input.interfaceLists]),
+      })
+    );
+  }
+
+  return { analyzedAt: Date.now(), ruleCounts, issues };
+}
+
+/**
+ * 分析单个规则表
+ */
+function analyzeTable(
+  table: FirewallTable,
+  rules: FirewallRule[],
+  references: { addressLists: Set<string>; interfaces: Set<string>; interfaceLists: Set<string> }
+): FirewallAnalysisIssue[] {
+  const issues: FirewallAnalysisIssue[] = [];
+  const label = TABLE_LABELS[table];
+  const positions = new Map<string, number>();
+  const chainCounters = new Map<string, number>();
+  for (const rule of rules) {
+    const position = (chainCounters.get(rule.chain) || 0) + 1;
+    chainCounters.set(rule.chain, position);
+    positions.set(rule['.id'], position);
+  }
+
+  const issue = (
+    type: FirewallIssueType,
+    rule: FirewallRule,
+    message: string,
+    extra: Partial<FirewallAnalysisIssue> = {}
+  ): FirewallAnalysisIssue => ({
+    type,
+    severity: type === 'disabled-no-comment' ? 'info' : 'warning',
+    table,
+    ruleId: rule['.id'],
+    chain: rule.chain,
+    position: positions.get(rule['.id']) || 0,
+    ...extra,
+    message,
+  });
+
+  const staticRules = rules.filter((rule) => !isTrue(rule.dynamic));
+  staticRules.forEach((rule, index) => {
+    const name = `${label} ${rule.chain} #${positions.get(rule['.id'])}`;
+
+    if (isRuleActive(rule)) {
+      const earlier = staticRules
+        .slice(0, index)
+        .filter((other) => other.chain === rule.chain && isRuleActive(other));
+      const signature = ruleSignature(rule);
+      const duplicate = earlier.find((other) => ruleSignature(other) === signature);
+      const shadowing = duplicate ? undefined : earlier.find((other) => isTerminalAction(table, other) && ruleCovers(other, rule));
+      const related = duplicate || shadowing;
+      if (related) {
+        const relatedPosition = positions.get(related['.id']);
+        issues.push(
+          issue(
+            duplicate ? 'duplicate' : 'shadowed',
+            rule,
+            duplicate
+              ? `${name} 与 #${relatedPosition} 完全相同`
+              : `${name} 被 #${relatedPosition}（${related.action || 'accept'}）遮蔽，永远不会匹配`,
+            { relatedRuleId: related['.id'], relatedPosition }
+          )
+        );
+      }
+    }
+
+    for (const key of ['src-address-list', 'dst-address-list']) {
+      const value = rule[key];
+      if (!value) continue;
+      const [list] = stripNegation(value);
+      if (!references.addressLists.has(list)) {
+        issues.push(issue('missing-address-list', rule, `${name} 引用的地址列表 ${list} 不存在`, { reference: list }));
+      }
+    }
+    for (const key of ['in-interface', 'out-interface']) {
+      const value = rule[key];
+      if (!value) continue;
+      const [iface] = stripNegation(value);
+      if (!references.interfaces.has(iface)) {
+        issues.push(issue('missing-interface', rule, `${name} 引用的接口 ${iface} 不存在`, { reference: iface }));
+      }
+    }
+    for (const key of ['in-interface-list', 'out-interface-list']) {
+      const value = rule[key];
+      if (!value) continue;
+      const [list] = stripNegation(value);
+      if (!references.interfaceLists.has(list)) {
+        issues.push(issue('missing-interface-list', rule, `${name} 引用的接口列表 ${list} 不存在`, { reference: list }));
+      }
+    }
+
+    if (isTrue(rule.disabled) && !rule.comment) {
+      issues.push(issue('disabled-no-comment', rule, `${name} 已禁用且没有备注`));
+    }
+  });
+
+  return issues;
+}
+
+export class FirewallAnalyzer {
+  /**
+   * 读取设备配置并分析规则集
+   * @param tables 要分析的规则表，默认全部；设备未启用 IPv6 时跳过 IPv6 Filter
+   */
+  async analyze(tables: FirewallTable[] = FIREWALL_TABLES): Promise<FirewallAnalysisReport> {
+    const client = getRouterOSClient();
+    const print = (path: string) => client.print<Record<string, string>>(path);
+    const printIPv6 = (path: string) =>
+      print(path).catch((error) => {
+        logger.debug(`Skipping ${path}:`, error);
+        return null;
+      });
+
+    const rules: FirewallAnalysisInput['rules'] = {};
+    for (const table of tables) {
+      const result = table === 'ipv6-filter' ? await printIPv6(FIREWALL_TABLE_PATHS[table]) : await print(FIREWALL_TABLE_PATHS[table]);
+      if (result) rules[table] = result as FirewallRule[];
+    }
+
+    const [addressLists, ipv6AddressLists, interfaces, interfaceLists] = await Promise.all([
+      print('/ip/firewall/address-list'),
+      rules['ipv6-filter'] ? printIPv6('/ipv6/firewall/address-list') : Promise.resolve(null),
+      print('/interface'),
+      print('/interface/list'),
+    ]);
+
+    return analyzeFirewallRules({
+      rules,
+      addressLists: addressLists.map((entry) => entry.list),
+      ipv6AddressLists: (ipv6AddressLists || []).map((entry) => entry.list),
+      interfaces: interfaces.map((item) => item.name),
+      interfaceLists: interfaceLists.map((item) => item.name),
+    });
+  }
+
+  /**
+   * 将分析结果汇总为健康报告中的风险描述
+   */
+  summarizeRisks(report: FirewallAnalysisReport): string[] {
+    const count = (...types: FirewallIssueType[]) => report.issues.filter((item) => types.includes(item.type)).length;
+    const risks: string[] = [];
+
+    const shadowed = count('shadowed');
+    if (shadowed > 0) {
+      risks.push(`防火墙存在 ${shadowed} 条被更早规则遮蔽、永远不会匹配的规则`);
+    }
+    const duplicates = count('duplicate');
+    if (duplicates > 0) {
+      risks.push(`防火墙存在 ${duplicates} 条重复规则`);
+    }
+    const missing = count('missing-address-list', 'missing-interface', 'missing-interface-list');
+    if (missing > 0) {
+      risks.push(`防火墙规则中有 ${missing} 处引用了不存在的地址列表、接口或接口列表`);
+    }
+    const undocumented = count('disabled-no-comment');
+    if (undocumented > 0) {
+      risks.push(`防火墙存在 ${undocumented} 条已禁用且没有备注的规则`);
+    }
+    return risks;
+  }
+}
+
+export const firewallAnalyzer = new FirewallAnalyzer();
@@ -0,0 +1,264 @@
+/**
+ * 防火墙规则模板测试
+ */
+
+import { FIREWALL_TEMPLATES, firewallTemplateService, renderFirewallTemplate } from './firewallTemplates';
+import { routerosClient } from '../routerosClient';
+import { MockRouterOSServer } from '../mockRouterOS';
+import { FirewallTemplate } from '../../types';
+
+const FILTER_PATH = '/ip/firewall/filter';
+const NAT_PATH = '/ip/firewall/nat';
+const ADDRESS_LIST_PATH = '/ip/firewall/address-list';
+
+const template = (id: string) => FIREWALL_TEMPLATES.find((item) => item.id === id) as FirewallTemplate;
+
+describe('firewallTemplates', () => {
+  it('should substitute parameters and expand management addresses', () => {
+    const { rules, errors } = renderFirewallTemplate(template('site-baseline'), {
+      wanInterface: 'pppoe-out1',
+      lanSubnet: '10.10.0.0/24',
+      managementAddresses: '203.0.113.5, 198.51.100.0/24',
+    });
+
+    expect(errors).toEqual([]);
+    expect(rules.filter((rule) => rule.table === 'address-list').map((rule) => rule.properties.address)).toEqual([
+      '203.0.113.5',
+      '198.51.100.0/24',
+    ]);
+    expect(rules).toContainEqual({
+      table: 'filter',
+      properties: expect.objectContaining({ chain: 'input', action: 'drop', 'in-interface': 'pppoe-out1' }),
+      position: 'top',
+    });
+    expect(rules[rules.length - 1].position).toBe('bottom');
+    expect(rules[rules.length - 1].properties).toEqual(
+      expect.objectContaining({ action: 'masquerade', 'src-address': '10.10.0.0/24', 'out-interface': 'pppoe-out1' })
+    );
+    expect(JSON.stringify(rules)).not.toContain('{{');
+  });
+
+  it('should use defaults and skip optional rules without a value', () => {
+    const { rules, errors } = renderFirewallTemplate(template('site-baseline'), {});
+
+    expect(errors).toEqual([]);
+    expect(rules.some((rule) => rule.table === 'address-list')).toBe(false);
+    expect(rules.some((rule) => rule.properties['src-address-list'] === 'mgmt')).toBe(false);
+    expect(rules[rules.length - 1].properties['out-interface']).toBe('ether1');
+  });
+
+  it('should normalize addresses in parameters', () => {
+    const { parameters, rules } = renderFirewallTemplate(template('site-baseline'), {
+      lanSubnet: '192.168.88.1/24',
+      managementAddresses: '203.0.113.5/32, 198.51.100.7/24, 203.0.113.5',
+    });
+
+    expect(parameters.lanSubnet).toBe('192.168.88.0/24');
+    expect(parameters.managementAddresses).toBe('203.0.113.5,198.51.100.0/24');
+    expect(rules.filter((rule) => rule.table === 'address-list').map((rule) => rule.properties.address)).toEqual([
+      '203.0.113.5',
+      '198.51.100.0/24',
+    ]);
+  });
+
+  it('should report invalid parameters without rendering rules', () => {
+    const { rules, errors } = renderFirewallTemplate(template('site-baseline'), {
+      wanInterface: 'ether1 ether2',
+      lanSubnet: '192.168.88.1',
+      managementAddresses: '1.2.3.4,example',
+    });
+
+    expect(rules).toEqual([]);
+    expect(errors).toHaveLength(3);
+    expect(errors[2]).toContain('example');
+    expect(renderFirewallTemplate(template('lan-masquerade'), { wanInterface: '' }).errors).toEqual(['缺少参数：WAN 接口']);
+  });
+
+  describe('with device', () => {
+    let server: MockRouterOSServer;
+
+    beforeEach(async () => {
+      server = new MockRouterOSServer();
+      const port = await server.start();
+      await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await routerosClient.disconnect();
+      await server.stop();
+    });
+
+    it('should leave out rules that already exist on the device', async () => {
+      const preview = await firewallTemplateService.preview(template('site-baseline'), { wanInterface: 'ether1' });
+
+      // defconf 已有的 established/invalid/ICMP 规则不重复添加（备注不同也视为相同）
+      expect(preview.existing.map((rule) => rule.properties.comment)).toEqual([
+        'template: accept established,related,untracked',
+        'template: drop invalid',
+        'template: accept ICMP',
+        'template: accept established,related,untracked',
+        'template: drop invalid',
+      ]);
+      expect(preview.rules.map((rule) => rule.table)).toEqual(['filter', 'filter', 'nat']);
+    });
+
+    it('should add all rules when every rule succeeds', async () => {
+      const preview = await firewallTemplateService.preview(template('site-baseline'), {
+        wanInterface: 'ether1',
+        managementAddresses: '203.0.113.5',
+      });
+      const result = await firewallTemplateService.apply(preview);
+
+      expect(result.applied).toBe(true);
+      expect(result.added).toHaveLength(preview.rules.length);
+      expect(server.state.getRecords(ADDRESS_LIST_PATH)).toContainEqual(
+        expect.objectContaining({ list: 'mgmt', address: '203.0.113.5' })
+      );
+      expect(server.state.getRecords(NAT_PATH)).toHaveLength(2);
+    });
+
+    it('should find nothing to add when the same template is applied again', async () => {
+      const parameters = { wanInterface: 'ether1', lanSubnet: '192.168.88.1/24', managementAddresses: '203.0.113.5/32' };
+      await firewallTemplateService.apply(await firewallTemplateService.preview(template('site-baseline'), parameters));
+
+      const preview = await firewallTemplateService.preview(template('site-baseline'), parameters);
+
+      expect(preview.rules).toEqual([]);
+      expect(preview.existing.map((rule) => rule.properties.comment)).toContain('template: management');
+    });
+
+    const chainComments = (chain: string) =>
+      server.state
+        .getRecords(FILTER_PATH)
+        .filter((rule) => rule.chain === chain)
+        .map((rule) => rule.comment);
+
+    it('should insert new rules after the existing rules of the template in a defconf chain', async () => {
+      const preview = await firewallTemplateService.preview(template('site-baseline'), {
+        wanInterface: 'ether1',
+        managementAddresses: '203.0.113.5',
+      });
+      await firewallTemplateService.apply(preview);
+
+      // 丢弃 WAN 入站的规则不能插到放行 established/related 之前，否则路由器自身的 DNS、NTP 等回包被丢弃
+      expect(chainComments('input')).toEqual([
+        'defconf: accept established,related,untracked',
+        'defconf: drop invalid',
+        'defconf: accept ICMP',
+        'template: accept management',
+        'template: drop input from WAN',
+        'defconf: drop all not coming from LAN',
+      ]);
+      expect(chainComments('forward')).toEqual([
+        'defconf: fasttrack',
+        'defconf: accept established,related, untracked',
+        'defconf: drop invalid',
+        'template: drop WAN not DSTNATed',
+        'defconf: drop all from WAN not DSTNATed',
+      ]);
+      expect(server.state.getRecords(NAT_PATH).slice(-1)[0].comment).toBe('template: masquerade LAN');
+    });
+
+    it('should keep the order when the template is applied again with another WAN interface', async () => {
+      await firewallTemplateService.apply(await firewallTemplateService.preview(template('site-baseline'), { wanInterface: 'ether1' }));
+      await firewallTemplateService.apply(await firewallTemplateService.preview(template('site-baseline'), { wanInterface: 'ether2' }));
+
+      const input = server.state.getRecords(FILTER_PATH).filter((rule) => rule.chain === 'input');
+      expect(input.map((rule) => rule['in-interface'] || rule.comment)).toEqual([
+        'defconf: accept established,related,untracked',
+        'defconf: drop invalid',
+        'defconf: accept ICMP',
+        'ether2',
+        'ether1',
+        'defconf: drop all not coming from LAN',
+      ]);
+    });
+
+    it('should insert before the next existing rule of the template, or at the top of the chain', async () => {
+      const [established] = server.state.getRecords(FILTER_PATH);
+      await routerosClient.remove(FILTER_PATH, String(established['.id']));
+      const invalid = server.state.getRecords(FILTER_PATH).find((rule) => rule.comment === 'defconf: drop invalid');
+
+      const preview = await firewallTemplateService.preview(template('site-baseline'), { wanInterface: 'ether1' });
+      expect(preview.rules[0]).toEqual(
+        expect.objectContaining({ placeBefore: invalid?.['.id'], properties: expect.objectContaining({ chain: 'input' }) })
+      );
+      await firewallTemplateService.apply(preview);
+      expect(chainComments('input').slice(0, 2)).toEqual(['template: accept established,related,untracked', 'defconf: drop invalid']);
+
+      // 链中没有模板中的其他规则时插入到链首
+      await routerosClient.add('/ip/firewall/raw', { chain: 'prerouting', action: 'accept', protocol: 'udp' });
+      const [firstPrerouting] = server.state.getRecords('/ip/firewall/raw');
+      const bogon = await firewallTemplateService.preview(template('bogon-filter'), { wanInterface: 'ether1' });
+      expect(bogon.rules.find((rule) => rule.table === 'raw')?.placeBefore).toBe(firstPrerouting['.id']);
+    });
+
+    it('should roll back a rule that was added but could not be read back', async () => {
+      const filterBefore = server.state.getRecords(FILTER_PATH).length;
+      const add = routerosClient.add.bind(routerosClient);
+      const getById = routerosClient.getById.bind(routerosClient);
+      jest.spyOn(routerosClient, 'getById').mockImplementation(async (path, id) => {
+        if (path === FILTER_PATH) throw new Error('timeout');
+        return getById(path, id);
+      });
+      jest.spyOn(routerosClient, 'add').mockImplementation(async (path, data) => {
+        if (path === NAT_PATH) throw new Error('failure: out-interface not found');
+        return add(path, data);
+      });
+
+      const preview = await firewallTemplateService.preview(template('site-baseline'), { wanInterface: 'ether1' });
+      const result = await firewallTemplateService.apply(preview);
+
+      expect(result.added.map((entry) => entry.table)).toEqual(['filter', 'filter']);
+      expect(result.rolledBack).toBe(2);
+      expect(server.state.getRecords(FILTER_PATH)).toHaveLength(filterBefore);
+    });
+
+    it('should fail and roll back when the device does not return the new rule id', async () => {
+      const add = routerosClient.add.bind(routerosClient);
+      jest.spyOn(routerosClient, 'add').mockImplementation(async (path, data) => {
+        if (path === NAT_PATH) {
+          await add(path, data);
+          return {};
+        }
+        return add(path, data);
+      });
+
+      const preview = await firewallTemplateService.preview(template('site-baseline'), { wanInterface: 'ether1' });
+      const result = await firewallTemplateService.apply(preview);
+
+      expect(result.applied).toBe(false);
+      expect(result.failed?.error).toContain('无法回滚');
+      expect(result.rolledBack).toBe(preview.rules.length - 1);
+    });
+
+    it('should remove added rules when a rule fails', async () => {
+      const filterBefore = server.state.getRecords(FILTER_PATH).length;
+      const add = routerosClient.add.bind(routerosClient);
+      jest.spyOn(routerosClient, 'add').mockImplementation(async (path, data) => {
+        if (path === NAT_PATH) {
+          throw new Error('failure: out-interface not found');
+        }
+        return add(path, data);
+      });
+
+      const preview = await firewallTemplateService.preview(template('site-baseline'), {
+        wanInterface: 'ether1',
+        managementAddresses: '203.0.113.5',
+      });
+      const result = await firewallTemplateService.apply(preview);
+
+      expect(result.applied).toBe(false);
+      expect(result.failed).toEqual({
+        index: preview.rules.length - 1,
+        rule: preview.rules[preview.rules.length - 1],
+        error: 'failure: out-interface not found',
+      });
+      expect(result.rolledBack).toBe(preview.rules.length - 1);
+      expect(result.rollbackErrors).toEqual([]);
+      expect(server.state.getRecords(FILTER_PATH)).toHaveLength(filterBefore);
+      expect(server.state.getRecords(ADDRESS_LIST_PATH).some((entry) => entry.list === 'mgmt')).toBe(false);
+    });
+  });
+});
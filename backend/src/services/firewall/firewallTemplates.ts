@@ -0,0 +1,452 @@
+/**
+ * Firewall Templates
+ * 防火墙规则模板：新站点的基线规则（丢弃 invalid、放行 established/related、保护 input、默认 masquerade、bogon 列表）
+ *
+ * - 模板中的规则属性使用 {{参数名}} 引用参数（WAN 接口、LAN 网段、管理地址等）
+ * - 预览时校验参数并替换为最终要添加的规则（地址规范化为网络地址，去掉 /32），设备上已存在的相同规则不再重复添加
+ * - 规则默认插入到所在链的最前面（保持模板中的顺序），标记为 bottom 的规则（如 masquerade）添加到链末尾
+ * - 按顺序添加规则，任一规则失败时删除本次已添加的规则（回滚）；配置快照由调用方在应用前创建
+ */
+
+import { getRouterOSClient } from '../routerosClientPool';
+import { logger } from '../../utils/logger';
+import {
+  FirewallTemplate,
+  FirewallTemplateApplyResult,
+  FirewallTemplateParameter,
+  FirewallTemplatePreview,
+  FirewallTemplateRenderedRule,
+  FirewallTemplateRule,
+  FirewallTemplateTable,
+} from '../../types';
+import { parseAddress } from './ruleMatcher';
+import { normalizeListAddress } from './addressListImporter';
+
+/**
+ * 模板规则表对应的 RouterOS 路径
+ */
+export const TEMPLATE_TABLE_PATHS: Record<FirewallTemplateTable, string> = {
+  filter: '/ip/firewall/filter',
+  nat: '/ip/firewall/nat',
+  mangle: '/ip/firewall/mangle',
+  raw: '/ip/firewall/raw',
+  'address-list': '/ip/firewall/address-list',
+};
+
+// 值为地址的规则属性，比较前规范化
+const ADDRESS_PROPERTIES = new Set(['address', 'src-address', 'dst-address']);
+
+// 不应出现在公网入口的 IPv4 地址（RFC 6890 特殊用途地址）
+const BOGON_NETWORKS = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.0.2.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '198.51.100.0/24',
+  '203.0.113.0/24',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+];
+
+const WAN_INTERFACE: FirewallTemplateParameter = {
+  name: 'wanInterface',
+  label: 'WAN 接口',
+  type: 'interface',
+  required: true,
+  default: 'ether1',
+  description: '连接上游的接口名称（如 ether1、pppoe-out1），不支持接口列表',
+};
+
+const LAN_SUBNET: FirewallTemplateParameter = {
+  name: 'lanSubnet',
+  label: 'LAN 网段',
+  type: 'cidr',
+  required: true,
+  default: '192.168.88.0/24',
+};
+
+const MANAGEMENT_ADDRESSES: FirewallTemplateParameter = {
+  name: 'managementAddresses',
+  label: '管理地址',
+  type: 'addresses',
+  required: false,
+  description: '允许从 WAN 访问路由器的地址，逗号分隔，加入 mgmt 地址列表',
+};
+
+const MASQUERADE_RULE: FirewallTemplateRule = {
+  table: 'nat',
+  position: 'bottom',
+  properties: {
+    chain: 'srcnat',
+    action: 'masquerade',
+    'src-address': '{{lanSubnet}}',
+    'out-interface': '{{wanInterface}}',
+    comment: 'template: masquerade LAN',
+  },
+};
+
+/**
+ * 内置模板
+ */
+export const FIREWALL_TEMPLATES: FirewallTemplate[] = [
+  {
+    id: 'site-baseline',
+    name: '站点基线',
+    description: '丢弃 invalid、放行 established/related、只允许管理地址从 WAN 访问路由器、丢弃未经 dstnat 的 WAN 新连接，并为 LAN 添加 masquerade',
+    parameters: [WAN_INTERFACE, LAN_SUBNET, MANAGEMENT_ADDRESSES],
+    rules: [
+      {
+        table: 'address-list',
+        forEach: 'managementAddresses',
+        properties: { list: 'mgmt', address: '{{item}}', comment: 'template: management' },
+      },
+      {
+        table: 'filter',
+        properties: {
+          chain: 'input',
+          action: 'accept',
+          'connection-state': 'established,related,untracked',
+          comment: 'template: accept established,related,untracked',
+        },
+      },
+      {
+        table: 'filter',
+        properties: { chain: 'input', action: 'drop', 'connection-state': 'invalid', comment: 'template: drop invalid' },
+      },
+      {
+        table: 'filter',
+        properties: { chain: 'input', action: 'accept', protocol: 'icmp', comment: 'template: accept ICMP' },
+      },
+      {
+        table: 'filter',
+        when: 'managementAddresses',
+        properties: { chain: 'input', action: 'accept', 'src-address-list': 'mgmt', comment: 'template: accept management' },
+      },
+      {
+        table: 'filter',
+        properties: { chain: 'input', action: 'drop', 'in-interface': '{{wanInterface}}', comment: 'template: drop input from WAN' },
+      },
+      {
+        table: 'filter',
+        properties: {
+          chain: 'forward',
+          action: 'accept',
+          'connection-state': 'established,related,untracked',
+          comment: 'template: accept established,related,untracked',
+        },
+      },
+      {
+        table: 'filter',
+        properties: { chain: 'forward', action: 'drop', 'connection-state': 'invalid', comment: 'template: drop invalid' },
+      },
+      {
+        table: 'filter',
+        properties: {
+          chain: 'forward',
+          action: 'drop',
+          'connection-state': 'new',
+          'connection-nat-state': '!dstnat',
+          'in-interface': '{{wanInterface}}',
+          comment: 'template: drop WAN not DSTNATed',
+        },
+      },
+      MASQUERADE_RULE,
+    ],
+  },
+  {
+    id: 'lan-masquerade',
+    name: '默认 masquerade',
+    description: 'LAN 网段经 WAN 接口访问外网时进行源地址转换',
+    parameters: [WAN_INTERFACE, LAN_SUBNET],
+    rules: [MASQUERADE_RULE],
+  },
+  {
+    id: 'bogon-filter',
+    name: 'Bogon 过滤',
+    description: '在连接跟踪之前丢弃 WAN 接口上源地址为保留地址的数据包；上游（如光猫）使用私有地址时请勿使用',
+    parameters: [WAN_INTERFACE],
+    rules: [
+      ...BOGON_NETWORKS.map((address): FirewallTemplateRule => ({
+        table: 'address-list',
+        properties: { list: 'bogons', address, comment: 'template: bogon' },
+      })),
+      {
+        table: 'raw',
+        properties: {
+          chain: 'prerouting',
+          action: 'drop',
+          'in-interface': '{{wanInterface}}',
+          'src-address-list': 'bogons',
+          comment: 'template: drop bogons from WAN',
+        },
+      },
+    ],
+  },
+];
+
+/**
+ * 拆分 addresses 类型参数
+ */
+function splitAddresses(value: string): string[] {
+  return value
+    .split(/[,\s]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 规范化 cidr、addresses 类型的参数值（网络地址、去掉 /32、去重），与设备上的显示一致
+ */
+function normalizeParameter(parameter: FirewallTemplateParameter, value: string): string {
+  switch (parameter.type) {
+    case 'interface':
+      return value;
+    case 'cidr':
+      return normalizeListAddress(value) || value;
+    case 'addresses':
+      return [...new Set(splitAddresses(value).map((item) => normalizeListAddress(item) || item))].join(',');
+  }
+}
+
+/**
+ * 校验参数值，返回错误信息
+ */
+function validateParameter(parameter: FirewallTemplateParameter, value: string): string | null {
+  switch (parameter.type) {
+    case 'interface':
+      return /^[^\s,]+$/.test(value) ? null : `${parameter.label} 必须是接口名称`;
+    case 'cidr': {
+      const range = value.includes('/') ? parseAddress(value) : null;
+      return range && range.version === 4 ? null : `${parameter.label} 必须是 IPv4 网段，如 192.168.88.0/24`;
+    }
+    case 'addresses': {
+      const invalid = splitAddresses(value).filter((item) => parseAddress(item)?.version !== 4);
+      return invalid.length === 0 ? null : `${parameter.label} 中的地址无效：${invalid.join('、')}`;
+    }
+  }
+}
+
+/**
+ * 将模板规则中的参数替换为参数值
+ * @returns 替换后的规则与参数错误；有错误时不返回规则
+ */
+export function renderFirewallTemplate(
+  template: FirewallTemplate,
+  input: Record<string, unknown>
+): { parameters: Record<string, string>; rules: FirewallTemplateRenderedRule[]; errors: string[] } {
+  const parameters: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const parameter of template.parameters) {
+    const raw = input[parameter.name];
+    const value = typeof raw === 'string' ? raw.trim() : (parameter.default ?? '');
+    if (!value) {
+      if (parameter.required) errors.push(`缺少参数：${parameter.label}`);
+      parameters[parameter.name] = '';
+      continue;
+    }
+    const error = validateParameter(parameter, value);
+    if (error) errors.push(error);
+    parameters[parameter.name] = error ? value : normalizeParameter(parameter, value);
+  }
+
+  if (errors.length > 0) {
+    return { parameters, rules: [], errors };
+  }
+
+  const substitute = (properties: Record<string, string>, item?: string) =>
+    Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [
+        key,
+        value.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => (name === 'item' ? item ?? '' : parameters[name] ?? '')),
+      ])
+    );
+
+  const rules: FirewallTemplateRenderedRule[] = [];
+  for (const rule of template.rules) {
+    if (rule.when && !parameters[rule.when]) continue;
+    const position = rule.table === 'address-list' ? {} : { position: rule.position || 'top' };
+    if (rule.forEach) {
+      for (const item of splitAddresses(parameters[rule.forEach] || '')) {
+        rules.push({ table: rule.table, properties: substitute(rule.properties, item), ...position });
+      }
+    } else {
+      rules.push({ table: rule.table, properties: substitute(rule.properties), ...position });
+    }
+  }
+
+  return { parameters, rules, errors };
+}
+
+/**
+ * 查找设备上相同的规则（除备注外，模板规则中的全部属性都相同；地址按规范化后比较）
+ */
+function findSameRule(
+  records: Array<Record<string, unknown>>,
+  rule: FirewallTemplateRenderedRule
+): Record<string, unknown> | undefined {
+  return records.find((record) =>
+    Object.entries(rule.properties).every(([key, value]) => {
+      if (key === 'comment') return true;
+      const current = String(record[key] ?? '');
+      return (ADDRESS_PROPERTIES.has(key) ? normalizeListAddress(current) || current : current) === value;
+    })
+  );
+}
+
+/**
+ * 是否可以作为 place-before 的目标（动态规则不能）
+ */
+function isPlaceable(record: Record<string, unknown>): boolean {
+  return String(record.dynamic) !== 'true';
+}
+
+/**
+ * 链中第一条可以作为插入位置的规则
+ */
+function firstRuleOfChain(records: Array<Record<string, unknown>>, chain: string): string | undefined {
+  const record = records.find((item) => item.chain === chain && isPlaceable(item));
+  return record ? String(record['.id']) : undefined;
+}
+
+/**
+ * 紧跟在指定规则之后、可以作为插入位置的规则；指定规则已是最后一条时返回 undefined（添加到末尾）
+ */
+function ruleAfter(records: Array<Record<string, unknown>>, record: Record<string, unknown>): string | undefined {
+  const next = records.slice(records.indexOf(record) + 1).find(isPlaceable);
+  return next ? String(next['.id']) : undefined;
+}
+
+export class FirewallTemplateService {
+  /**
+   * 获取全部模板
+   */
+  getTemplates(): FirewallTemplate[] {
+    return FIREWALL_TEMPLATES;
+  }
+
+  /**
+   * 获取模板
+   */
+  getTemplate(id: string): FirewallTemplate | undefined {
+    return FIREWALL_TEMPLATES.find((template) => template.id === id);
+  }
+
+  /**
+   * 预览模板：校验参数、替换为最终规则，排除设备上已存在的相同规则，并确定规则的插入位置
+   * position 为 top 的规则紧跟同一条链中上一条模板规则，没有上一条时插入到后一条已存在的模板规则之前，都没有时插入到链首
+   */
+  async preview(template: FirewallTemplate, input: Record<string, unknown>): Promise<FirewallTemplatePreview> {
+    const { parameters, rules, errors } = renderFirewallTemplate(template, input);
+    const preview: FirewallTemplatePreview = { templateId: template.id, parameters, rules: [], existing: [], errors };
+    if (errors.length > 0) {
+      return preview;
+    }
+
+    const client = getRouterOSClient();
+    const tables = [...new Set(rules.map((rule) => rule.table))];
+    const records = await Promise.all(
+      tables.map((table) => client.print<Record<string, unknown>>(TEMPLATE_TABLE_PATHS[table]))
+    );
+    const recordsByTable = new Map(tables.map((table, index) => [table, records[index]]));
+
+    const matches = rules.map((rule) => findSameRule(recordsByTable.get(rule.table) || [], rule));
+    const sameChain = (a: FirewallTemplateRenderedRule, b: FirewallTemplateRenderedRule) =>
+      a.table === b.table && a.position === 'top' && b.position === 'top' && a.properties.chain === b.properties.chain;
+
+    // 每条链中上一条模板规则之后的插入位置。新规则紧跟在上一条模板规则之后：上一条已存在时插入到其对应规则的下一条之前，
+    // 上一条也是新规则时插入到同一位置（按顺序添加，因此保持模板中的顺序）
+    const anchors = new Map<string, { placeBefore?: string }>();
+    for (const [index, rule] of rules.entries()) {
+      const tableRecords = recordsByTable.get(rule.table) || [];
+      const chainKey = `${rule.table}:${rule.properties.chain}`;
+      const match = matches[index];
+      if (match) {
+        preview.existing.push(rule);
+        if (rule.position === 'top') anchors.set(chainKey, { placeBefore: ruleAfter(tableRecords, match) });
+        continue;
+      }
+      if (rule.position !== 'top') {
+        preview.rules.push(rule);
+        continue;
+      }
+
+      let anchor = anchors.get(chainKey);
+      if (!anchor) {
+        // 链中没有上一条模板规则：插入到后面第一条已存在的模板规则之前，都不存在时插入到链首
+        const nextIndex = rules.findIndex(
+          (other, otherIndex) => otherIndex > index && sameChain(rule, other) && matches[otherIndex] && isPlaceable(matches[otherIndex]!)
+        );
+        anchor = {
+          placeBefore:
+            nextIndex >= 0 ? String(matches[nextIndex]!['.id']) : firstRuleOfChain(tableRecords, rule.properties.chain),
+        };
+        anchors.set(chainKey, anchor);
+      }
+      preview.rules.push(anchor.placeBefore ? { ...rule, placeBefore: anchor.placeBefore } : rule);
+    }
+    return preview;
+  }
+
+  /**
+   * 按顺序添加预览中的规则，任一规则失败时按相反顺序删除已添加的规则
+   * 设备未返回新规则的 ID 时视为失败：该规则无法回滚，错误信息中提示手动检查
+   */
+  async apply(preview: FirewallTemplatePreview): Promise<FirewallTemplateApplyResult> {
+    const client = getRouterOSClient();
+    const result: FirewallTemplateApplyResult = {
+      templateId: preview.templateId,
+      applied: false,
+      added: [],
+      rolledBack: 0,
+      rollbackErrors: [],
+    };
+
+    for (const [index, rule] of preview.rules.entries()) {
+      try {
+        const created = await client.add<Record<string, string>>(TEMPLATE_TABLE_PATHS[rule.table], {
+          ...rule.properties,
+          ...(rule.placeBefore ? { 'place-before': rule.placeBefore } : {}),
+        });
+        // add 读取不到新规则（返回为空或读取出错）时返回原始响应，ID 在 ret 中
+        const id = created['.id'] || created.ret;
+        if (!id) {
+          throw new Error('设备未返回新规则的 ID，该规则可能已添加但无法回滚，请手动检查');
+        }
+        result.added.push({ table: rule.table, id });
+      } catch (error) {
+        result.failed = { index, rule, error: error instanceof Error ? error.message : String(error) };
+        break;
+      }
+    }
+
+    if (!result.failed) {
+      result.applied = true;
+      logger.info(`Applied firewall template ${preview.templateId}: ${result.added.length} rules added`);
+      return result;
+    }
+
+    for (const entry of [...result.added].reverse()) {
+      try {
+        await client.remove(TEMPLATE_TABLE_PATHS[entry.table], entry.id);
+        result.rolledBack++;
+      } catch (error) {
+        result.rollbackErrors.push({ ...entry, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    logger.warn(
+      `Firewall template ${preview.templateId} failed at rule ${result.failed.index + 1}: ${result.failed.error}, ` +
+        `${result.rolledBack} rules rolled back, ${result.rollbackErrors.length} rollback errors`
+    );
+    return result;
+  }
+}
+
+export const firewallTemplateService = new FirewallTemplateService();
@@ -0,0 +1,52 @@
+/**
+ * 防火墙服务导出
+ */
+
+export * from './ruleMatcher';
+export {
+  FirewallAnalyzer,
+  firewallAnalyzer,
+  analyzeFirewallRules,
+  FirewallAnalysisInput,
+  FIREWALL_TABLE_PATHS,
+  FIREWALL_TABLES,
+} from './firewallAnalyzer';
+export { PacketSimulator, packetSimulator, simulatePacket, PacketSimulationInput } from './packetSimulator';
+export {
+  ConnectionTracker,
+  connectionTracker,
+  CONNECTION_PATH,
+  splitEndpoint,
+  connectionBytes,
+  connectionMatches,
+  summarizeConnections,
+} from './connectionTracker';
+export {
+  AddressListImporter,
+  addressListImporter,
+  isValidTimeout,
+  normalizeListAddress,
+  parseAddressListContent,
+} from './addressListImporter';
+export {
+  RULE_COUNTER_TABLES,
+  ruleCounterKey,
+  computeRuleHitDeltas,
+  bucketRuleHits,
+  findUnusedRules,
+} from './ruleUsage';
+export {
+  FILTER_ACTIONS,
+  RAW_ACTIONS,
+  MANGLE_MARK_FIELDS,
+  MANGLE_ROUTING_CHAINS,
+  validateFilterRule,
+  validateMangleRule,
+} from './ruleValidation';
+export {
+  FirewallTemplateService,
+  firewallTemplateService,
+  FIREWALL_TEMPLATES,
+  TEMPLATE_TABLE_PATHS,
+  renderFirewallTemplate,
+} from './firewallTemplates';
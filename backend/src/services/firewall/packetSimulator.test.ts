@@ -0,0 +1,197 @@
+/**
+ * 数据包路径模拟测试
+ */
+
+import { PacketSimulationInput, simulatePacket } from './packetSimulator';
+import { FirewallRule } from '../../types';
+
+const rule = (id: string, chain: string, values: Record<string, string>): FirewallRule => ({
+  '.id': id,
+  chain,
+  disabled: 'false',
+  ...values,
+});
+
+// 与 RouterOS 默认配置类似的规则集，外加一条发往 NAS 的端口转发
+const input = (filterRules: FirewallRule[] = []): PacketSimulationInput => ({
+  rules: {
+    filter: [
+      rule('*1', 'input', { action: 'accept', 'connection-state': 'established,related,untracked' }),
+      rule('*2', 'input', { action: 'drop', 'connection-state': 'invalid' }),
+      rule('*3', 'input', { action: 'accept', protocol: 'icmp' }),
+      ...filterRules,
+      rule('*4', 'input', { action: 'drop', 'in-interface-list': '!LAN' }),
+      rule('*5', 'forward', { action: 'fasttrack-connection', 'connection-state': 'established,related' }),
+      rule('*6', 'forward', { action: 'accept', 'connection-state': 'established,related,untracked' }),
+      rule('*7', 'forward', { action: 'drop', 'connection-state': 'invalid' }),
+      rule('*8', 'forward', {
+        action: 'drop',
+        'connection-state': 'new',
+        'connection-nat-state': '!dstnat',
+        'in-interface-list': 'WAN',
+      }),
+      rule('*9', 'forward', { action: 'jump', 'jump-target': 'blocklist' }),
+      rule('*10', 'blocklist', { action: 'drop', 'src-address-list': 'blocked', comment: 'blocked sources' }),
+      rule('*11', 'blocklist', { action: 'return' }),
+    ],
+    nat: [
+      rule('*20', 'srcnat', { action: 'masquerade', 'out-interface-list': 'WAN', 'ipsec-policy': 'out,none' }),
+      rule('*21', 'dstnat', {
+        action: 'dst-nat',
+        'in-interface': 'ether1',
+        protocol: 'tcp',
+        'dst-port': '443',
+        'to-addresses': '192.168.88.10',
+        'to-ports': '8443',
+      }),
+    ],
+    mangle: [
+      rule('*30', 'forward', {
+        action: 'mark-connection',
+        'new-connection-mark': 'nas',
+        'dst-address': '192.168.88.10',
+        passthrough: 'yes',
+      }),
+    ],
+  },
+  addressLists: [{ list: 'blocked', address: '198.51.100.0/24' }],
+  interfaceListMembers: [
+    { list: 'WAN', interface: 'ether1' },
+    { list: 'LAN', interface: 'bridge' },
+  ],
+  routerAddresses: [
+    { address: '203.0.113.2/24', interface: 'ether1' },
+    { address: '192.168.88.1/24', interface: 'bridge' },
+  ],
+});
+
+describe('simulatePacket', () => {
+  it('should follow dstnat to a forwarded destination and accept at the end of the chain', () => {
+    const result = simulatePacket(
+      {
+        inInterface: 'ether1',
+        outInterface: 'bridge',
+        srcAddress: '1.2.3.4',
+        srcPort: 50000,
+        dstAddress: '203.0.113.2',
+        dstPort: 443,
+        protocol: 'tcp',
+      },
+      input()
+    );
+
+    expect(result.path).toBe('forward');
+    expect(result.verdict).toBe('accept');
+    expect(result.translated).toEqual({ srcAddress: '1.2.3.4', srcPort: 50000, dstAddress: '192.168.88.10', dstPort: 8443 });
+    expect(result.marks).toEqual({ connectionMark: 'nas' });
+    expect(result.steps.map((step) => `${step.table}/${step.chain}`)).toEqual([
+      'mangle/prerouting',
+      'nat/dstnat',
+      'mangle/forward',
+      'filter/forward',
+      'mangle/postrouting',
+      'nat/srcnat',
+    ]);
+    expect(result.steps[1].decision).toMatchObject({ ruleId: '*21', position: 1, action: 'dst-nat' });
+    expect(result.steps[3].matches.map((match) => match.ruleId)).toEqual(['*9', '*11']);
+    expect(result.steps[3].decision).toBeUndefined();
+  });
+
+  it('should drop sources in a referenced address list inside a jump chain', () => {
+    const result = simulatePacket(
+      {
+        inInterface: 'ether1',
+        outInterface: 'bridge',
+        srcAddress: '198.51.100.7',
+        dstAddress: '203.0.113.2',
+        dstPort: 443,
+        protocol: '6',
+      },
+      input()
+    );
+
+    expect(result.verdict).toBe('drop');
+    expect(result.steps).toHaveLength(4);
+    expect(result.steps[3].decision).toEqual({
+      ruleId: '*10',
+      chain: 'blocklist',
+      position: 1,
+      action: 'drop',
+      comment: 'blocked sources',
+    });
+  });
+
+  it('should deliver packets for router addresses to the input chain', () => {
+    const result = simulatePacket(
+      { inInterface: 'ether1', srcAddress: '1.2.3.4', dstAddress: '203.0.113.2', dstPort: 80, protocol: 'tcp' },
+      input()
+    );
+
+    expect(result.path).toBe('input');
+    expect(result.verdict).toBe('drop');
+    expect(result.steps.pop()?.decision).toMatchObject({ ruleId: '*4', position: 4 });
+  });
+
+  it('should masquerade forwarded traffic leaving through the WAN list', () => {
+    const result = simulatePacket(
+      {
+        inInterface: 'bridge',
+        outInterface: 'ether1',
+        srcAddress: '192.168.88.20',
+        srcPort: 40000,
+        dstAddress: '8.8.8.8',
+        dstPort: 53,
+        protocol: 'udp',
+      },
+      input()
+    );
+
+    expect(result.verdict).toBe('accept');
+    expect(result.translated.srcAddress).toBe('203.0.113.2');
+    expect(result.steps[5].decision).toMatchObject({ ruleId: '*20', action: 'masquerade' });
+  });
+
+  it('should skip NAT for established connections', () => {
+    const result = simulatePacket(
+      {
+        inInterface: 'ether1',
+        outInterface: 'bridge',
+        srcAddress: '1.2.3.4',
+        dstAddress: '192.168.88.10',
+        dstPort: 8443,
+        protocol: 'tcp',
+        connectionState: 'established',
+      },
+      input()
+    );
+
+    expect(result.steps[1]).toMatchObject({ table: 'nat', chain: 'dstnat', skipped: expect.any(String) });
+    expect(result.steps[3].matches.map((match) => match.ruleId)).toEqual(['*5', '*6']);
+    expect(result.steps[3].decision?.ruleId).toBe('*6');
+  });
+
+  it('should treat unsupported matchers as not matching and explain why', () => {
+    const result = simulatePacket(
+      { inInterface: 'ether1', srcAddress: '1.2.3.4', dstAddress: '203.0.113.2', dstPort: 22, protocol: 'tcp' },
+      input([rule('*40', 'input', { action: 'accept', protocol: 'tcp', 'dst-port': '22', 'tcp-flags': 'syn' })])
+    );
+
+    expect(result.verdict).toBe('drop');
+    expect(result.notes).toEqual(['filter input #4 包含无法模拟的匹配条件 tcp-flags，视为不匹配']);
+  });
+
+  it('should treat packets without an input interface as router output', () => {
+    const result = simulatePacket(
+      { outInterface: 'ether1', srcAddress: '203.0.113.2', dstAddress: '8.8.8.8', protocol: 'icmp' },
+      input()
+    );
+
+    expect(result.path).toBe('output');
+    expect(result.steps.map((step) => `${step.table}/${step.chain}`)).toEqual([
+      'mangle/output',
+      'filter/output',
+      'mangle/postrouting',
+      'nat/srcnat',
+    ]);
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Packet Simulator
+ * 数据包路径模拟
+ *
+ * 按 RouterOS 的处理顺序依次执行内置 chain：
+ * - input:   mangle prerouting → nat dstnat → mangle input → filter input
+ * - forward: mangle prerouting → nat dstnat → mangle forward → filter forward → mangle postrouting → nat srcnat
+ * - output:  mangle output → filter output → mangle postrouting → nat srcnat
+ *
+ * 没有入接口的数据包视为路由器自身发出；dstnat 之后目标地址是路由器自身地址时走 input，否则走 forward
+ * 只有 connection-state=new 的数据包经过 NAT，其他状态沿用连接建立时的地址转换
+ * 无法模拟的匹配条件（tcp-flags、limit 等）视为不匹配，并在结果中说明
+ */
+
+import { getRouterOSClient } from '../routerosClientPool';
+import {
+  FirewallRule,
+  PacketPath,
+  PacketSimulationMatch,
+  PacketSimulationResult,
+  PacketSimulationStep,
+  SimulatedConnectionState,
+  SimulatedPacket,
+} from '../../types';
+import {
+  addressInRange,
+  formatIPv4,
+  getMatchers,
+  isRuleActive,
+  isTerminalAction,
+  isTrue,
+  parseAddress,
+  portInRanges,
+  stripNegation,
+} from './ruleMatcher';
+
+type SimulatedTable = PacketSimulationStep['table'];
+
+/**
+ * 模拟所需的设备配置（已排除禁用的地址列表条目、接口列表成员和 IP 地址）
+ */
+export interface PacketSimulationInput {
+  rules: Record<SimulatedTable, FirewallRule[]>;
+  addressLists: Array<{ list: string; address: string }>;
+  interfaceListMembers: Array<{ list: string; interface: string }>;
+  routerAddresses: Array<{ address: string; interface: string }>;   // address 带前缀长度，如 192.168.88.1/24
+}
+
+// 各路径在 dstnat 之后经过的内置 chain
+const PATH_CHAINS: Record<PacketPath, Array<[SimulatedTable, string]>> = {
+  input: [['mangle', 'input'], ['filter', 'input']],
+  forward: [['mangle', 'forward'], ['filter', 'forward'], ['mangle', 'postrouting'], ['nat', 'srcnat']],
+  output: [['mangle', 'output'], ['filter', 'output'], ['mangle', 'postrouting'], ['nat', 'srcnat']],
+};
+
+const PORT_PROTOCOLS = ['tcp', 'udp', 'udp-lite', 'sctp', 'dccp'];
+
+const PROTOCOL_NUMBERS: Record<string, string> = {
+  '1': 'icmp',
+  '6': 'tcp',
+  '17': 'udp',
+  '33': 'dccp',
+  '47': 'gre',
+  '50': 'ipsec-esp',
+  '51': 'ipsec-ah',
+  '132': 'sctp',
+  '136': 'udp-lite',
+};
+
+const DROP_ACTIONS = ['drop', 'reject', 'tarpit'];
+const NAT_ACTIONS = ['dst-nat', 'src-nat', 'netmap', 'same', 'endpoint-independent-nat'];
+const MANGLE_MARKS: Record<string, ['connectionMark' | 'packetMark' | 'routingMark', string]> = {
+  'mark-connection': ['connectionMark', 'new-connection-mark'],
+  'mark-packet': ['packetMark', 'new-packet-mark'],
+  'mark-routing': ['routingMark', 'new-routing-mark'],
+};
+
+// 防止 jump 循环
+const MAX_JUMP_DEPTH = 16;
+
+function normalizeProtocol(protocol: string): string {
+  const value = protocol.trim().toLowerCase();
+  return PROTOCOL_NUMBERS[value] || value;
+}
+
+// to-addresses / to-ports 取第一个地址或端口
+function firstAddress(value: string): string {
+  return value.split('-')[0].split('/')[0];
+}
+
+function firstPort(value: string): number | undefined {
+  const port = parseInt(value.split(/[-,]/)[0], 10);
+  return Number.isNaN(port) ? undefined : port;
+}
+
+/**
+ * 单次模拟的状态
+ */
+class PacketSimulation {
+  private readonly packet: SimulatedPacket & { connectionState: SimulatedConnectionState };
+  private readonly marks: PacketSimulationResult['marks'] = {};
+  private readonly natState = new Set<string>();
+  private readonly addressLists = new Map<string, string[]>();
+  private readonly interfaceLists = new Map<string, string[]>();
+  private readonly positions = new Map<string, number>();
+  private readonly notes: string[] = [];
+  private builtinChain = '';
+  private redirected = false;
+
+  constructor(packet: SimulatedPacket, private readonly input: PacketSimulationInput) {
+    const protocol = normalizeProtocol(packet.protocol);
+    const hasPorts = PORT_PROTOCOLS.includes(protocol);
+    this.packet = {
+      ...packet,
+      protocol,
+      srcPort: hasPorts ? packet.srcPort : undefined,
+      dstPort: hasPorts ? packet.dstPort : undefined,
+      connectionState: packet.connectionState || 'new',
+    };
+
+    for (const entry of input.addressLists) {
+      this.addressLists.set(entry.list, [...(this.addressLists.get(entry.list) || []), entry.address]);
+    }
+    for (const member of input.interfaceListMembers) {
+      this.interfaceLists.set(member.list, [...(this.interfaceLists.get(member.list) || []), member.interface]);
+    }
+    for (const rules of Object.values(input.rules)) {
+      const counters = new Map<string, number>();
+      for (const rule of rules) {
+        const position = (counters.get(rule.chain) || 0) + 1;
+        counters.set(rule.chain, position);
+        this.positions.set(rule['.id'], position);
+      }
+    }
+  }
+
+  run(): PacketSimulationResult {
+    const original = {
+      srcAddress: this.packet.srcAddress,
+      srcPort: this.packet.srcPort,
+      dstAddress: this.packet.dstAddress,
+      dstPort: this.packet.dstPort,
+    };
+    const steps: PacketSimulationStep[] = [];
+    let verdict: PacketSimulationResult['verdict'] = 'accept';
+
+    // 执行内置 chain，数据包被丢弃时返回 false
+    const runStep = (table: SimulatedTable, chain: string): boolean => {
+      if (table === 'nat' && this.packet.connectionState !== 'new') {
+        steps.push({ table, chain, matches: [], skipped: 'NAT 只处理新连接的第一个数据包' });
+        return true;
+      }
+      const matches: PacketSimulationMatch[] = [];
+      this.builtinChain = chain;
+      const decision = this.runChain(table, chain, matches, 0);
+      steps.push({ table, chain, matches, ...(decision ? { decision } : {}) });
+      if (decision && DROP_ACTIONS.includes(decision.action)) {
+        verdict = decision.action as PacketSimulationResult['verdict'];
+        return false;
+      }
+      return true;
+    };
+
+    let path: PacketPath = 'output';
+    let passed = true;
+    if (this.packet.inInterface) {
+      passed = runStep('mangle', 'prerouting') && runStep('nat', 'dstnat');
+      path = this.redirected || this.isLocalAddress(this.packet.dstAddress) ? 'input' : 'forward';
+    }
+    if (path === 'input') {
+      this.packet.outInterface = undefined;
+    } else if (path === 'forward' && !this.packet.outInterface) {
+      this.notes.push('未指定出接口，依赖出接口的规则不会匹配');
+    }
+    if (passed) {
+      for (const [table, chain] of PATH_CHAINS[path]) {
+        if (!runStep(table, chain)) break;
+      }
+    }
+
+    return {
+      path,
+      verdict,
+      original,
+      translated: {
+        srcAddress: this.packet.srcAddress,
+        srcPort: this.packet.srcPort,
+        dstAddress: this.packet.dstAddress,
+        dstPort: this.packet.dstPort,
+      },
+      marks: this.marks,
+      steps,
+      notes: this.notes,
+    };
+  }
+
+  /**
+   * 按顺序匹配 chain 中的规则
+   * @returns 终止匹配的规则；走到 chain 末尾或遇到 return 时为 undefined
+   */
+  private runChain(
+    table: SimulatedTable,
+    chain: string,
+    matches: PacketSimulationMatch[],
+    depth: number
+  ): PacketSimulationMatch | undefined {
+    const rules = this.input.rules[table].filter((rule) => rule.chain === chain && isRuleActive(rule));
+
+    for (const rule of rules) {
+      const position = this.positions.get(rule['.id']) || 0;
+      if (!this.ruleMatches(table, rule, position)) continue;
+
+      const action = rule.action || 'accept';
+      const match: PacketSimulationMatch = {
+        ruleId: rule['.id'],
+        chain,
+        position,
+        action,
+        ...(rule.comment ? { comment: rule.comment } : {}),
+      };
+      matches.push(match);
+
+      if (action === 'return') {
+        return undefined;
+      }
+      if (action === 'jump') {
+        const target = rule['jump-target'];
+        if (!target) continue;
+        if (depth >= MAX_JUMP_DEPTH) {
+          this.notes.push(`${table} ${chain} #${position} jump 层级过深，已停止模拟该 chain`);
+          return undefined;
+        }
+        const decision = this.runChain(table, target, matches, depth + 1);
+        if (decision) return decision;
+        continue;
+      }
+
+      this.applyAction(table, rule, action);
+      if (isTerminalAction(table, rule)) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 规则的全部匹配条件是否都满足
+   * 其余条件都满足但含有无法模拟的条件时记录说明，视为不匹配
+   */
+  private ruleMatches(table: SimulatedTable, rule: FirewallRule, position: number): boolean {
+    const unsupported: string[] = [];
+    for (const [key, value] of Object.entries(getMatchers(rule))) {
+      const [expected, negated] = stripNegation(value);
+      const result = this.matchCondition(key, expected);
+      if (result === null) {
+        unsupported.push(key);
+      } else if (result === negated) {
+        return false;
+      }
+    }
+    if (unsupported.length > 0) {
+      this.notes.push(`${table} ${rule.chain} #${position} 包含无法模拟的匹配条件 ${unsupported.join(', ')}，视为不匹配`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 单个（去掉取反前缀的）匹配条件是否满足
+   * @returns 无法模拟时为 null
+   */
+  private matchCondition(key: string, expected: string): boolean | null {
+    const packet = this.packet;
+    switch (key) {
+      case 'src-address':
+        return addressInRange(packet.srcAddress, expected);
+      case 'dst-address':
+        return addressInRange(packet.dstAddress, expected);
+      case 'src-address-list':
+        return this.inAddressList(packet.srcAddress, expected);
+      case 'dst-address-list':
+        return this.inAddressList(packet.dstAddress, expected);
+      case 'src-address-type':
+        return this.hasAddressType(packet.srcAddress, expected);
+      case 'dst-address-type':
+        return this.hasAddressType(packet.dstAddress, expected);
+      case 'protocol':
+        return normalizeProtocol(expected) === packet.protocol;
+      case 'src-port':
+        return packet.srcPort !== undefined && portInRanges(packet.srcPort, expected);
+      case 'dst-port':
+        return packet.dstPort !== undefined && portInRanges(packet.dstPort, expected);
+      case 'port':
+        return [packet.srcPort, packet.dstPort].some((port) => port !== undefined && portInRanges(port, expected));
+      case 'in-interface':
+        return this.interfaceMatches(packet.inInterface, expected);
+      case 'out-interface':
+        return this.interfaceMatches(packet.outInterface, expected);
+      case 'in-interface-list':
+        return this.inInterfaceList(packet.inInterface, expected);
+      case 'out-interface-list':
+        return this.inInterfaceList(packet.outInterface, expected);
+      case 'connection-state':
+        return expected.split(',').includes(packet.connectionState);
+      case 'connection-nat-state':
+        return expected.split(',').some((state) => this.natState.has(state));
+      case 'connection-mark':
+        return (this.marks.connectionMark || 'no-mark') === expected;
+      case 'packet-mark':
+        return (this.marks.packetMark || 'no-mark') === expected;
+      case 'routing-mark':
+        return (this.marks.routingMark || 'main') === expected;
+      case 'ipsec-policy':
+        // 模拟的数据包不经过 IPsec
+        return expected.endsWith(',none');
+      default:
+        return null;
+    }
+  }
+
+  private inAddressList(address: string, list: string): boolean {
+    return (this.addressLists.get(list) || []).some((entry) => addressInRange(address, entry));
+  }
+
+  private interfaceMatches(actual: string | undefined, expected: string): boolean {
+    if (!actual) return false;
+    // ether+ 匹配以 ether 开头的全部接口
+    return expected.endsWith('+') ? actual.startsWith(expected.slice(0, -1)) : actual === expected;
+  }
+
+  private inInterfaceList(actual: string | undefined, list: string): boolean | null {
+    if (!actual || list === 'none') return false;
+    if (list === 'all') return true;
+    if (list === 'dynamic' || list === 'static') return null;
+    return (this.interfaceLists.get(list) || []).includes(actual);
+  }
+
+  private isLocalAddress(address: string): boolean {
+    return (
+      addressInRange(address, '127.0.0.0/8') ||
+      this.input.routerAddresses.some((entry) => entry.address.split('/')[0] === address)
+    );
+  }
+
+  private hasAddressType(address: string, types: string): boolean {
+    const multicast = addressInRange(address, '224.0.0.0/4');
+    const value = parseAddress(address)?.start;
+    const broadcast =
+      address === '255.255.255.255' ||
+      this.input.routerAddresses.some((entry) => {
+        const network = parseAddress(entry.address);
+        const prefix = Number(entry.address.split('/')[1]);
+        return !!network && prefix < 31 && network.end === value;
+      });
+
+    return types.split(',').some((type) => {
+      switch (type) {
+        case 'local':
+          return this.isLocalAddress(address);
+        case 'broadcast':
+          return broadcast;
+        case 'multicast':
+          return multicast;
+        case 'unicast':
+          return !broadcast && !multicast;
+        default:
+          return false;
+      }
+    });
+  }
+
+  private interfaceAddress(iface: string | undefined): string | undefined {
+    const entry = this.input.routerAddresses.find((item) => item.interface === iface);
+    return entry?.address.split('/')[0];
+  }
+
+  /**
+   * 执行规则的 action 对数据包状态的影响
+   */
+  private applyAction(table: SimulatedTable, rule: FirewallRule, action: string): void {
+    const packet = this.packet;
+
+    if (action === 'add-src-to-address-list' || action === 'add-dst-to-address-list') {
+      const list = rule['address-list'];
+      if (list) {
+        const address = action === 'add-src-to-address-list' ? packet.srcAddress : packet.dstAddress;
+        this.addressLists.set(list, [...(this.addressLists.get(list) || []), address]);
+      }
+      return;
+    }
+
+    if (table === 'mangle' && MANGLE_MARKS[action]) {
+      const [mark, field] = MANGLE_MARKS[action];
+      if (rule[field]) this.marks[mark] = rule[field];
+      return;
+    }
+
+    if (table !== 'nat') return;
+
+    const toAddresses = rule['to-addresses'];
+    const toPort = rule['to-ports'] ? firstPort(rule['to-ports']) : undefined;
+
+    if (action === 'redirect') {
+      this.redirected = true;
+      packet.dstAddress = this.interfaceAddress(packet.inInterface) || packet.dstAddress;
+      packet.dstPort = toPort ?? packet.dstPort;
+      this.natState.add('dstnat');
+    } else if (action === 'masquerade') {
+      const address = this.interfaceAddress(packet.outInterface);
+      if (address) {
+        packet.srcAddress = address;
+      } else {
+        this.notes.push(`出接口 ${packet.outInterface || '(未指定)'} 没有 IP 地址，无法确定 masquerade 后的源地址`);
+      }
+      packet.srcPort = toPort ?? packet.srcPort;
+      this.natState.add('srcnat');
+    } else if (NAT_ACTIONS.includes(action)) {
+      const side = this.builtinChain === 'dstnat' ? 'dst' : 'src';
+      const addressKey = side === 'dst' ? 'dstAddress' : 'srcAddress';
+      const portKey = side === 'dst' ? 'dstPort' : 'srcPort';
+      if (toAddresses) {
+        packet[addressKey] = action === 'netmap' ? this.netmap(packet[addressKey], toAddresses) : firstAddress(toAddresses);
+      }
+      packet[portKey] = toPort ?? packet[portKey];
+      this.natState.add(side === 'dst' ? 'dstnat' : 'srcnat');
+    }
+  }
+
+  // netmap 保留主机位，一对一映射到目标网段
+  private netmap(address: string, toAddresses: string): string {
+    const source = parseAddress(address);
+    const target = parseAddress(toAddresses);
+    if (!source || !target || source.version !== 4 || target.version !== 4) {
+      return firstAddress(toAddresses);
+    }
+    const size = target.end - target.start + 1n;
+    return formatIPv4(target.start + (source.start % size));
+  }
+}
+
+/**
+ * 模拟数据包经过防火墙的路径（不访问设备）
+ */
+export function simulatePacket(packet: SimulatedPacket, input: PacketSimulationInput): PacketSimulationResult {
+  return new PacketSimulation(packet, input).run();
+}
+
+export class PacketSimulator {
+  /**
+   * 读取设备的 Filter、NAT、Mangle 规则及相关配置并模拟数据包路径
+   */
+  async simulate(packet: SimulatedPacket): Promise<PacketSimulationResult> {
+    const client = getRouterOSClient();
+    const print = (path: string) => client.print<Record<string, string>>(path);
+    const enabled = (items: Record<string, string>[]) => items.filter((item) => !isTrue(item.disabled));
+
+    const [filter, nat, mangle, addressLists, interfaceListMembers, routerAddresses] = await Promise.all([
+      print('/ip/firewall/filter'),
+      print('/ip/firewall/nat'),
+      print('/ip/firewall/mangle'),
+      print('/ip/firewall/address-list'),
+      print('/interface/list/member'),
+      print('/ip/address'),
+    ]);
+
+    return simulatePacket(packet, {
+      rules: {
+        filter: filter as FirewallRule[],
+        nat: nat as FirewallRule[],
+        mangle: mangle as FirewallRule[],
+      },
+      addressLists: enabled(addressLists).map((entry) => ({ list: entry.list, address: entry.address })),
+      interfaceListMembers: enabled(interfaceListMembers).map((member) => ({
+        list: member.list,
+        interface: member.interface,
+      })),
+      routerAddresses: enabled(routerAddresses).map((entry) => ({ address: entry.address, interface: entry.interface })),
+    });
+  }
+}
+
+export const packetSimulator = new PacketSimulator();
@@ -0,0 +1,278 @@
+/**
+ * Firewall Rule Matcher
+ * 防火墙规则匹配条件的解析与比较
+ *
+ * - 地址（192.168.1.0/24、10.0.0.1-10.0.0.9、2001:db8::/32）解析为数值区间
+ * - 端口（80,443,1000-2000）解析为区间列表
+ * - 逗号分隔的集合（connection-state 等）按集合比较
+ * - 以 ! 开头的取反条件只与完全相同的条件比较
+ */
+
+import { FirewallRule, FirewallTable } from '../../types';
+
+/**
+ * 不属于匹配条件的属性（条目元数据、计数器和 action 参数）
+ */
+const NON_MATCHER_KEYS = new Set([
+  '.id',
+  '.nextid',
+  '.about',
+  'chain',
+  'action',
+  'comment',
+  'disabled',
+  'dynamic',
+  'invalid',
+  'bytes',
+  'packets',
+  'log',
+  'log-prefix',
+  'jump-target',
+  'reject-with',
+  'address-list',
+  'address-list-timeout',
+  'to-addresses',
+  'to-ports',
+  'new-connection-mark',
+  'new-packet-mark',
+  'new-routing-mark',
+  'new-dscp',
+  'new-priority',
+  'new-mss',
+  'new-ttl',
+  'new-dst-address',
+  'new-src-address',
+  'passthrough',
+  'hw-offload',
+  'route-dst',
+  'sniff-id',
+  'sniff-target',
+  'sniff-target-port',
+]);
+
+const ADDRESS_KEYS = new Set(['src-address', 'dst-address']);
+const PORT_KEYS = new Set(['src-port', 'dst-port', 'port']);
+const SET_KEYS = new Set(['connection-state', 'connection-nat-state']);
+
+/**
+ * 匹配成功后不再继续匹配同一 Chain 后续规则的 action
+ */
+const TERMINAL_ACTIONS: Record<FirewallTable, string[]> = {
+  filter: ['accept', 'drop', 'reject', 'tarpit'],
+  'ipv6-filter': ['accept', 'drop', 'reject', 'tarpit'],
+  nat: ['accept', 'masquerade', 'src-nat', 'dst-nat', 'netmap', 'redirect', 'same', 'endpoint-independent-nat'],
+  mangle: ['accept', 'drop'],
+  raw: ['accept', 'drop'],
+};
+
+/**
+ * 规则属性是否为布尔真值（RouterOS 返回 true/yes）
+ */
+export function isTrue(value: string | undefined): boolean {
+  return value === 'true' || value === 'yes';
+}
+
+/**
+ * 规则是否生效（未禁用且未失效）
+ */
+export function isRuleActive(rule: FirewallRule): boolean {
+  return !isTrue(rule.disabled) && !isTrue(rule.invalid);
+}
+
+/**
+ * 规则匹配后是否终止当前 Chain 的匹配
+ * Mangle 的标记类 action 在 passthrough=no 时同样终止匹配
+ */
+export function isTerminalAction(table: FirewallTable, rule: FirewallRule): boolean {
+  const action = rule.action || 'accept';
+  if (TERMINAL_ACTIONS[table].includes(action)) {
+    return true;
+  }
+  return table === 'mangle' && rule.passthrough !== undefined && !isTrue(rule.passthrough);
+}
+
+/**
+ * 取出规则的匹配条件（忽略空值）
+ */
+export function getMatchers(rule: FirewallRule): Record<string, string> {
+  const matchers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rule)) {
+    if (!NON_MATCHER_KEYS.has(key) && value !== undefined && value !== '') {
+      matchers[key] = value;
+    }
+  }
+  return matchers;
+}
+
+/**
+ * 去掉取反前缀
+ * @returns [名称, 是否取反]
+ */
+export function stripNegation(value: string): [string, boolean] {
+  return value.startsWith('!') ? [value.substring(1), true] : [value, false];
+}
+
+// ==================== 地址 ====================
+
+/**
+ * 地址区间（IPv4 与 IPv6 分别比较）
+ */
+export interface AddressRange {
+  version: 4 | 6;
+  start: bigint;
+  end: bigint;
+}
+
+function parseIPv4(address: string): bigint | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) + BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(address: string): bigint | null {
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    value = (value << 16n) + BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+function parseIP(address: string): { version: 4 | 6; value: bigint } | null {
+  if (address.includes(':')) {
+    const value = parseIPv6(address);
+    return value === null ? null : { version: 6, value };
+  }
+  const value = parseIPv4(address);
+  return value === null ? null : { version: 4, value };
+}
+
+/**
+ * IPv4 数值转为点分十进制
+ */
+export function formatIPv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map((shift) => ((value >> shift) & 255n).toString()).join('.');
+}
+
+/**
+ * 解析地址条件：单个地址、CIDR 或 a-b 区间
+ */
+export function parseAddress(value: string): AddressRange | null {
+  const rangeParts = value.split('-');
+  if (rangeParts.length === 2) {
+    const start = parseIP(rangeParts[0]);
+    const end = parseIP(rangeParts[1]);
+    if (!start || !end || start.version !== end.version) return null;
+    return { version: start.version, start: start.value, end: end.value };
+  }
+
+  const [address, prefix] = value.split('/');
+  const ip = parseIP(address);
+  if (!ip) return null;
+  const bits = ip.version === 4 ? 32 : 128;
+  const length = prefix === undefined ? bits : Number(prefix);
+  if (!Number.isInteger(length) || length < 0 || length > bits) return null;
+  const hostBits = BigInt(bits - length);
+  const start = (ip.value >> hostBits) << hostBits;
+  return { version: ip.version, start, end: start + (1n << hostBits) - 1n };
+}
+
+/**
+ * 地址（或地址区间）是否在地址区间内
+ */
+export function addressInRange(address: string, range: string): boolean {
+  const inner = parseAddress(address);
+  const outer = parseAddress(range);
+  return !!inner && !!outer && inner.version === outer.version && inner.start >= outer.start && inner.end <= outer.end;
+}
+
+// ==================== 端口 ====================
+
+/**
+ * 解析端口条件：80、80,443、1000-2000
+ */
+export function parsePorts(value: string): Array<[number, number]> | null {
+  const ranges: Array<[number, number]> = [];
+  for (const part of value.split(',')) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part.trim());
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    ranges.push([Math.min(start, end), Math.max(start, end)]);
+  }
+  return ranges;
+}
+
+/**
+ * 端口是否在端口条件内
+ */
+export function portInRanges(port: number, value: string): boolean {
+  const ranges = parsePorts(value);
+  return !!ranges && ranges.some(([start, end]) => port >= start && port <= end);
+}
+
+function portsCover(outer: string, inner: string): boolean {
+  const outerRanges = parsePorts(outer);
+  const innerRanges = parsePorts(inner);
+  if (!outerRanges || !innerRanges) return outer === inner;
+  return innerRanges.every(([start, end]) =>
+    outerRanges.some(([outerStart, outerEnd]) => start >= outerStart && end <= outerEnd)
+  );
+}
+
+// ==================== 规则比较 ====================
+
+/**
+ * 外层条件是否包含内层条件可能匹配的全部流量
+ */
+export function valueCovers(key: string, outer: string, inner: string): boolean {
+  if (outer === inner) return true;
+  if (outer.startsWith('!') || inner.startsWith('!')) return false;
+
+  if (ADDRESS_KEYS.has(key)) {
+    return addressInRange(inner, outer);
+  }
+  if (PORT_KEYS.has(key)) {
+    return portsCover(outer, inner);
+  }
+  if (SET_KEYS.has(key)) {
+    const outerSet = new Set(outer.split(','));
+    return inner.split(',').every((item) => outerSet.has(item));
+  }
+  return false;
+}
+
+/**
+ * 规则 outer 是否匹配规则 inner 可能匹配的全部流量
+ * inner 必须带有 outer 的每一个匹配条件，且条件范围不超出 outer
+ */
+export function ruleCovers(outer: FirewallRule, inner: FirewallRule): boolean {
+  const innerMatchers = getMatchers(inner);
+  return Object.entries(getMatchers(outer)).every(
+    ([key, value]) => innerMatchers[key] !== undefined && valueCovers(key, value, innerMatchers[key])
+  );
+}
+
+/**
+ * 规则签名（chain、action、匹配条件和 action 参数，不含 ID、备注、计数器和状态）
+ * 签名相同的规则效果完全相同
+ */
+export function ruleSignature(rule: FirewallRule): string {
+  const ignored = new Set(['.id', '.nextid', '.about', 'comment', 'disabled', 'dynamic', 'invalid', 'bytes', 'packets']);
+  const entries = Object.entries(rule)
+    .filter(([key, value]) => !ignored.has(key) && value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
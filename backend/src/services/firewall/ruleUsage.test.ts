@@ -0,0 +1,91 @@
+/**
+ * 规则命中增量计算、汇总与未使用规则检测测试
+ */
+
+import { bucketRuleHits, computeRuleHitDeltas, findUnusedRules } from './ruleUsage';
+import { FirewallRule, FirewallRuleHitDelta } from '../../types';
+
+const HOUR = 60 * 60 * 1000;
+
+const rule = (id: string, packets: number, extra: Record<string, string> = {}): FirewallRule => ({
+  '.id': id,
+  chain: 'forward',
+  action: 'accept',
+  packets: String(packets),
+  bytes: String(packets * 100),
+  ...extra,
+});
+
+describe('ruleUsage', () => {
+  it('should record a baseline on the first sample and deltas afterwards', () => {
+    const first = computeRuleHitDeltas({}, { filter: [rule('*1', 10), rule('*2', 5)] }, 1000);
+    expect(first.deltas).toEqual([]);
+    expect(first.counters['filter:*1']).toEqual({ bytes: 1000, packets: 10, firstSeen: 1000, timestamp: 1000 });
+
+    const second = computeRuleHitDeltas(
+      first.counters,
+      { filter: [rule('*1', 25), rule('*2', 5)], nat: [rule('*1', 3)] },
+      2000
+    );
+    expect(second.deltas).toEqual([{ timestamp: 2000, table: 'filter', ruleId: '*1', bytes: 1500, packets: 15 }]);
+    expect(second.counters['filter:*1']).toEqual({ bytes: 2500, packets: 25, firstSeen: 1000, timestamp: 2000 });
+    expect(second.counters['nat:*1'].firstSeen).toBe(2000);
+  });
+
+  it('should treat decreased counters as a reset and drop deleted rules', () => {
+    const previous = computeRuleHitDeltas({}, { filter: [rule('*1', 50), rule('*2', 7)] }, 1000).counters;
+    const { deltas, counters } = computeRuleHitDeltas(previous, { filter: [rule('*1', 4)] }, 2000);
+
+    expect(deltas).toEqual([{ timestamp: 2000, table: 'filter', ruleId: '*1', bytes: 400, packets: 4 }]);
+    expect(Object.keys(counters)).toEqual(['filter:*1']);
+  });
+
+  it('should sum deltas of one table into equal time buckets', () => {
+    const deltas: FirewallRuleHitDelta[] = [
+      { timestamp: 0, table: 'filter', ruleId: '*1', bytes: 100, packets: 1 },
+      { timestamp: HOUR / 2, table: 'filter', ruleId: '*1', bytes: 200, packets: 2 },
+      { timestamp: 3 * HOUR, table: 'filter', ruleId: '*1', bytes: 300, packets: 3 },
+      { timestamp: HOUR, table: 'filter', ruleId: '*2', bytes: 50, packets: 5 },
+      { timestamp: HOUR, table: 'nat', ruleId: '*1', bytes: 999, packets: 9 },
+    ];
+
+    const history = bucketRuleHits(deltas, 'filter', 0, 3 * HOUR, 3);
+
+    expect(history.bucketMs).toBe(HOUR);
+    expect(history.rules['*1']).toEqual({ packets: [3, 0, 3], bytes: [300, 0, 300] });
+    expect(history.rules['*2'].packets).toEqual([0, 5, 0]);
+    expect(Object.keys(history.rules)).toEqual(['*1', '*2']);
+  });
+
+  it('should list rules without hits and count recently added rules as pending', () => {
+    const rules = {
+      filter: [
+        rule('*1', 0, { comment: 'old allow' }),
+        rule('*2', 0),
+        rule('*3', 0, { dynamic: 'true' }),
+        rule('*4', 0, { disabled: 'true' }),
+        rule('*5', 0),
+      ],
+      raw: [rule('*1', 0, { chain: 'prerouting', action: 'notrack' })],
+    };
+    const counters = {
+      'filter:*1': { bytes: 0, packets: 0, firstSeen: 0, timestamp: 10 * HOUR },
+      'filter:*2': { bytes: 0, packets: 0, firstSeen: 0, timestamp: 10 * HOUR },
+      'filter:*3': { bytes: 0, packets: 0, firstSeen: 0, timestamp: 10 * HOUR },
+      'filter:*4': { bytes: 0, packets: 0, firstSeen: 0, timestamp: 10 * HOUR },
+      'raw:*1': { bytes: 0, packets: 0, firstSeen: 8 * HOUR, timestamp: 10 * HOUR },
+    };
+    const deltas: FirewallRuleHitDelta[] = [
+      { timestamp: 6 * HOUR, table: 'filter', ruleId: '*2', bytes: 100, packets: 1 },
+      { timestamp: HOUR, table: 'filter', ruleId: '*4', bytes: 100, packets: 1 },
+    ];
+
+    const result = findUnusedRules(rules, deltas, counters, 5 * HOUR);
+
+    expect(result.rules).toEqual([
+      { table: 'filter', ruleId: '*1', chain: 'forward', action: 'accept', comment: 'old allow', disabled: false, firstSeen: 0 },
+      { table: 'filter', ruleId: '*4', chain: 'forward', action: 'accept', disabled: true, firstSeen: 0 },
+    ]);
+    expect(result.pending).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Rule Usage
+ * 防火墙规则命中计数的增量计算与汇总
+ *
+ * 由 metricsCollector 周期性读取 Filter、NAT、Mangle、Raw 规则的 bytes/packets 计数器，
+ * 与上次采样比较得到每条规则的命中增量；这里只包含不访问设备的计算：
+ * - 计算两次采样之间的增量（计数器被重置时以当前值作为增量）
+ * - 按时间段汇总增量，用于规则列表中的趋势图
+ * - 找出一段时间内没有任何命中的规则，作为清理候选
+ */
+
+import {
+  FirewallRule,
+  FirewallRuleCounter,
+  FirewallRuleHitDelta,
+  FirewallRuleHitHistory,
+  FirewallTable,
+  UnusedFirewallRule,
+} from '../../types';
+import { isTrue } from './ruleMatcher';
+
+/**
+ * 采样命中计数的规则表
+ */
+export const RULE_COUNTER_TABLES: FirewallTable[] = ['filter', 'nat', 'mangle', 'raw'];
+
+/**
+ * 规则计数器的键（规则 ID 只在同一规则表内唯一）
+ */
+export function ruleCounterKey(table: FirewallTable, ruleId: string): string {
+  return `${table}:${ruleId}`;
+}
+
+/**
+ * 比较本次与上次采样的计数器，得到有命中的规则增量和新的计数器
+ * 首次采样到的规则只记录基准值；已删除规则的计数器不再保留
+ */
+export function computeRuleHitDeltas(
+  previous: Record<string, FirewallRuleCounter>,
+  rules: Partial<Record<FirewallTable, FirewallRule[]>>,
+  timestamp: number
+): { deltas: FirewallRuleHitDelta[]; counters: Record<string, FirewallRuleCounter> } {
+  const deltas: FirewallRuleHitDelta[] = [];
+  const counters: Record<string, FirewallRuleCounter> = {};
+
+  for (const [table, tableRules] of Object.entries(rules) as Array<[FirewallTable, FirewallRule[]]>) {
+    for (const rule of tableRules) {
+      const key = ruleCounterKey(table, rule['.id']);
+      const bytes = Number(rule.bytes) || 0;
+      const packets = Number(rule.packets) || 0;
+      const last = previous[key];
+
+      if (last) {
+        // 计数器变小说明被重置（重启或 reset-counters），重置后的计数全部算作新增
+        const reset = bytes < last.bytes || packets < last.packets;
+        const delta = reset ? { bytes, packets } : { bytes: bytes - last.bytes, packets: packets - last.packets };
+        if (delta.bytes > 0 || delta.packets > 0) {
+          deltas.push({ timestamp, table, ruleId: rule['.id'], ...delta });
+        }
+      }
+
+      counters[key] = { bytes, packets, firstSeen: last?.firstSeen ?? timestamp, timestamp };
+    }
+  }
+
+  return { deltas, counters };
+}
+
+/**
+ * 按时间段汇总每条规则的命中增量
+ * @param buckets 时间段数量，[from, to] 等分
+ */
+export function bucketRuleHits(
+  deltas: FirewallRuleHitDelta[],
+  table: FirewallTable,
+  from: number,
+  to: number,
+  buckets: number
+): FirewallRuleHitHistory {
+  const bucketMs = Math.max(1, Math.ceil((to - from) / buckets));
+  const rules: FirewallRuleHitHistory['rules'] = {};
+
+  for (const delta of deltas) {
+    if (delta.table !== table || delta.timestamp < from || delta.timestamp > to) continue;
+    if (!rules[delta.ruleId]) {
+      rules[delta.ruleId] = { packets: new Array(buckets).fill(0), bytes: new Array(buckets).fill(0) };
+    }
+    const series = rules[delta.ruleId];
+    const index = Math.min(buckets - 1, Math.floor((delta.timestamp - from) / bucketMs));
+    series.packets[index] += delta.packets;
+    series.bytes[index] += delta.bytes;
+  }
+
+  return { table, from, to, bucketMs, rules };
+}
+
+/**
+ * 找出自 from 起没有任何命中的规则
+ * 首次采样晚于 from 的规则观察时间不足，只计入 pending；动态规则由 RouterOS 生成，不参与统计
+ */
+export function findUnusedRules(
+  rules: Partial<Record<FirewallTable, FirewallRule[]>>,
+  deltas: FirewallRuleHitDelta[],
+  counters: Record<string, FirewallRuleCounter>,
+  from: number
+): { rules: UnusedFirewallRule[]; pending: number } {
+  const hit = new Set(deltas.filter((delta) => delta.timestamp >= from).map((delta) => ruleCounterKey(delta.table, delta.ruleId)));
+  const unused: UnusedFirewallRule[] = [];
+  let pending = 0;
+
+  for (const [table, tableRules] of Object.entries(rules) as Array<[FirewallTable, FirewallRule[]]>) {
+    for (const rule of tableRules) {
+      const key = ruleCounterKey(table, rule['.id']);
+      const counter = counters[key];
+      if (isTrue(rule.dynamic) || !counter || hit.has(key)) continue;
+
+      if (counter.firstSeen > from) {
+        pending++;
+        continue;
+      }
+      unused.push({
+        table,
+        ruleId: rule['.id'],
+        chain: rule.chain,
+        ...(rule.action ? { action: rule.action } : {}),
+        ...(rule.comment ? { comment: rule.comment } : {}),
+        disabled: isTrue(rule.disabled),
+        firstSeen: counter.firstSeen,
+      });
+    }
+  }
+
+  return { rules: unused, pending };
+}
@@ -0,0 +1,92 @@
+/**
+ * Rule Validation
+ * 防火墙规则参数校验，IPv4 与 IPv6 规则表共用
+ */
+
+/**
+ * Filter 规则支持的 action
+ */
+export const FILTER_ACTIONS = [
+  'accept',
+  'drop',
+  'reject',
+  'jump',
+  'return',
+  'log',
+  'passthrough',
+  'fasttrack-connection',
+  'tarpit',
+  'add-src-to-address-list',
+  'add-dst-to-address-list',
+];
+
+/**
+ * Raw 规则支持的 action
+ */
+export const RAW_ACTIONS = [
+  'accept',
+  'drop',
+  'jump',
+  'return',
+  'log',
+  'passthrough',
+  'notrack',
+  'add-src-to-address-list',
+  'add-dst-to-address-list',
+];
+
+/**
+ * Mangle 标记类 action 对应的标记属性
+ */
+export const MANGLE_MARK_FIELDS: Record<string, string> = {
+  'mark-connection': 'new-connection-mark',
+  'mark-packet': 'new-packet-mark',
+  'mark-routing': 'new-routing-mark',
+};
+
+/**
+ * mark-routing 只能用于路由决策之前的 chain
+ */
+export const MANGLE_ROUTING_CHAINS = ['prerouting', 'output'];
+
+/**
+ * 校验 Filter（或 Raw）规则的 action 和 jump-target，返回错误信息
+ * @param creating 创建时 jump 必须指定 jump-target，更新时可沿用规则原有的值
+ * @param actions 规则表支持的 action
+ */
+export function validateFilterRule(
+  data: Record<string, unknown>,
+  creating: boolean,
+  actions: string[] = FILTER_ACTIONS
+): string | null {
+  if (data.action === undefined) {
+    return null;
+  }
+  if (typeof data.action !== 'string' || !actions.includes(data.action)) {
+    return `action 参数无效，必须是 ${actions.join('、')} 之一`;
+  }
+  if (data.action === 'jump' && (creating ? !data['jump-target'] : data['jump-target'] === '')) {
+    return 'action 为 jump 时必须指定 jump-target';
+  }
+  return null;
+}
+
+/**
+ * 校验 Mangle 标记类规则的标记名称和 chain，返回错误信息
+ * 更新时未提交的 action/chain 使用规则原有的值
+ */
+export function validateMangleRule(data: Record<string, unknown>, existing?: Record<string, unknown>): string | null {
+  const action = data.action ?? existing?.action;
+  const chain = data.chain ?? existing?.chain;
+  const markField = typeof action === 'string' ? MANGLE_MARK_FIELDS[action] : undefined;
+  if (!markField) {
+    return null;
+  }
+  if (!(data[markField] ?? existing?.[markField])) {
+    return `action 为 ${action} 时必须指定 ${markField}`;
+  }
+  if (action === 'mark-routing' && typeof chain === 'string' && !MANGLE_ROUTING_CHAINS.includes(chain)) {
+    return `mark-routing 只能用于 ${MANGLE_ROUTING_CHAINS.join('、')} chain`;
+  }
+  return null;
+}
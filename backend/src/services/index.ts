@@ -3,3 +3,7 @@
  */
 export { RouterOSClient, routerosClient } from './routerosClient';
 export { ConfigService, configService } from './configService';
+export { DeviceService, deviceService } from './deviceService';
+export { RouterOSClientPool, routerosClientPool, getRouterOSClient, DEFAULT_DEVICE_ID } from './routerosClientPool';
+export { AuthService, authService } from './authService';
+export { RealtimeService, realtimeService } from './realtimeService';
@@ -0,0 +1,72 @@
+/**
+ * Prometheus 指标导出测试
+ */
+
+import { formatMetrics, MetricsExporter } from './metricsExporter';
+
+jest.mock('./ai-ops', () => ({
+  metricsCollector: {
+    getLatest: jest.fn().mockResolvedValue({
+      system: {
+        cpu: { usage: 12 },
+        memory: { total: 1000, used: 250, free: 750, usage: 25 },
+        disk: { total: 2000, used: 500, free: 1500, usage: 25 },
+        uptime: 3600,
+      },
+      interfaces: [
+        { name: 'ether1', status: 'up', rxBytes: 10, txBytes: 20, rxPackets: 1, txPackets: 2, rxErrors: 0, txErrors: 0 },
+      ],
+    }),
+    getAvailableTrafficInterfaces: () => ['ether1'],
+    getTrafficHistory: () => [{ timestamp: 1, rxRate: 100, txRate: 50 }],
+    isServiceRunning: () => true,
+  },
+  alertEngine: {
+    getActiveAlerts: jest.fn().mockResolvedValue([{ severity: 'critical' }, { severity: 'critical' }, { severity: 'info' }]),
+  },
+  alertPipeline: {
+    getDetailedStats: () => ({ processed: 5, filtered: 1, deduplicated: 1, analyzed: 3, decided: 3, errors: 0 }),
+  },
+}));
+
+jest.mock('./routerosClientPool', () => ({
+  routerosClientPool: { getDeviceIds: () => ['default'], isConnected: () => true },
+}));
+
+jest.mock('./realtimeService', () => ({
+  realtimeService: { getClientCount: () => 2 },
+}));
+
+describe('formatMetrics', () => {
+  it('should format families with escaped labels and skip empty families', () => {
+    const text = formatMetrics([
+      {
+        name: 'test_metric',
+        help: 'A test metric.',
+        type: 'gauge',
+        samples: [{ labels: { name: 'a "quoted"\\name' }, value: 1.5 }],
+      },
+      { name: 'empty_metric', help: 'Empty.', type: 'counter', samples: [] },
+    ]);
+
+    expect(text).toBe(
+      '# HELP test_metric A test metric.\n# TYPE test_metric gauge\ntest_metric{name="a \\"quoted\\"\\\\name"} 1.5\n'
+    );
+  });
+});
+
+describe('MetricsExporter', () => {
+  it('should export router, alert, pipeline and backend metrics', async () => {
+    const text = await new MetricsExporter().render();
+
+    expect(text).toContain('routeros_cpu_usage_percent 12');
+    expect(text).toContain('# TYPE routeros_interface_receive_bytes_total counter');
+    expect(text).toContain('routeros_interface_receive_bytes_total{interface="ether1"} 10');
+    expect(text).toContain('routeros_interface_receive_rate_bytes{interface="ether1"} 100');
+    expect(text).toContain('routeros_web_manager_active_alerts{severity="critical"} 2');
+    expect(text).toContain('routeros_web_manager_active_alerts{severity="emergency"} 0');
+    expect(text).toContain('routeros_web_manager_alert_pipeline_events_total{stage="processed"} 5');
+    expect(text).toContain('routeros_web_manager_device_connected{device="default"} 1');
+    expect(text).toContain('routeros_web_manager_up 1');
+  });
+});
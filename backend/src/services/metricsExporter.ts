@@ -0,0 +1,245 @@
+/**
+ * Metrics Exporter
+ * 以 Prometheus 文本格式（text/plain; version=0.0.4）导出指标，供 Prometheus/Grafana 抓取
+ *
+ * - routeros_*: 默认设备的系统资源、接口状态、流量计数和速率（来自 metricsCollector 的最近一次采集）
+ * - routeros_web_manager_*: 活动告警数、告警处理流水线统计、设备连接状态和后端进程自身的运行状况
+ */
+
+import { metricsCollector, alertEngine, alertPipeline } from './ai-ops';
+import { routerosClientPool } from './routerosClientPool';
+import { realtimeService } from './realtimeService';
+import { AlertSeverity } from '../types';
+import { logger } from '../utils/logger';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type MetricType = 'gauge' | 'counter';
+
+interface Sample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Sample[];
+}
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical', 'emergency'];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * 按 Prometheus 文本格式输出指标
+ */
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    if (family.samples.length === 0) continue;
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      const labels = Object.entries(sample.labels || {})
+        .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+        .join(',');
+      lines.push(`${family.name}${labels ? `{${labels}}` : ''} ${formatValue(sample.value)}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export class MetricsExporter {
+  /**
+   * 采集全部指标并生成文本
+   */
+  async render(): Promise<string> {
+    const families = [
+      ...(await this.collectRouterMetrics()),
+      ...(await this.collectAlertMetrics()),
+      ...this.collectPipelineMetrics(),
+      ...this.collectBackendMetrics(),
+    ];
+    return formatMetrics(families);
+  }
+
+  /**
+   * 设备指标（最近一次采集结果，尚无采集数据时不输出）
+   */
+  private async collectRouterMetrics(): Promise<MetricFamily[]> {
+    let latest: Awaited<ReturnType<typeof metricsCollector.getLatest>> = null;
+    try {
+      latest = await metricsCollector.getLatest();
+    } catch (error) {
+      logger.warn('Failed to read latest metrics for export:', error);
+    }
+    if (!latest) {
+      return [];
+    }
+
+    const { system, interfaces } = latest;
+    const gauge = (name: string, help: string, value: number): MetricFamily => ({
+      name,
+      help,
+      type: 'gauge',
+      samples: [{ value }],
+    });
+    const perInterface = (
+      name: string,
+      help: string,
+      type: MetricType,
+      getValue: (iface: (typeof interfaces)[number]) => number
+    ): MetricFamily => ({
+      name,
+      help,
+      type,
+      samples: interfaces.map((iface) => ({ labels: { interface: iface.name }, value: getValue(iface) })),
+    });
+
+    const rates: MetricFamily[] = [
+      { name: 'routeros_interface_receive_rate_bytes', help: 'Latest interface receive rate in bytes per second.', type: 'gauge', samples: [] },
+      { name: 'routeros_interface_transmit_rate_bytes', help: 'Latest interface transmit rate in bytes per second.', type: 'gauge', samples: [] },
+    ];
+    for (const name of metricsCollector.getAvailableTrafficInterfaces()) {
+      const points = metricsCollector.getTrafficHistory(name);
+      const point = points[points.length - 1];
+      if (!point) continue;
+      rates[0].samples.push({ labels: { interface: name }, value: point.rxRate });
+      rates[1].samples.push({ labels: { interface: name }, value: point.txRate });
+    }
+
+    return [
+      gauge('routeros_cpu_usage_percent', 'CPU load in percent.', system.cpu.usage),
+      gauge('routeros_memory_total_bytes', 'Total memory in bytes.', system.memory.total),
+      gauge('routeros_memory_used_bytes', 'Used memory in bytes.', system.memory.used),
+      gauge('routeros_memory_usage_percent', 'Memory usage in percent.', system.memory.usage),
+      gauge('routeros_disk_total_bytes', 'Total disk space in bytes.', system.disk.total),
+      gauge('routeros_disk_used_bytes', 'Used disk space in bytes.', system.disk.used),
+      gauge('routeros_disk_usage_percent', 'Disk usage in percent.', system.disk.usage),
+      gauge('routeros_uptime_seconds', 'Router uptime in seconds.', system.uptime),
+      perInterface('routeros_interface_up', 'Whether the interface is running (1) or not (0).', 'gauge', (i) =>
+        i.status === 'up' ? 1 : 0
+      ),
+      perInterface('routeros_interface_receive_bytes_total', 'Bytes received on the interface.', 'counter', (i) => i.rxBytes),
+      perInterface('routeros_interface_transmit_bytes_total', 'Bytes transmitted on the interface.', 'counter', (i) => i.txBytes),
+      perInterface('routeros_interface_receive_packets_total', 'Packets received on the interface.', 'counter', (i) => i.rxPackets),
+      perInterface('routeros_interface_transmit_packets_total', 'Packets transmitted on the interface.', 'counter', (i) => i.txPackets),
+      perInterface('routeros_interface_receive_errors_total', 'Receive errors on the interface.', 'counter', (i) => i.rxErrors),
+      perInterface('routeros_interface_transmit_errors_total', 'Transmit errors on the interface.', 'counter', (i) => i.txErrors),
+      ...rates,
+    ];
+  }
+
+  /**
+   * 活动告警数（按严重级别）
+   */
+  private async collectAlertMetrics(): Promise<MetricFamily[]> {
+    const counts: Record<string, number> = Object.fromEntries(SEVERITIES.map((severity) => [severity, 0]));
+    try {
+      for (const alert of await alertEngine.getActiveAlerts()) {
+        counts[alert.severity] = (counts[alert.severity] || 0) + 1;
+      }
+    } catch (error) {
+      logger.warn('Failed to read active alerts for export:', error);
+      return [];
+    }
+
+    return [
+      {
+        name: 'routeros_web_manager_active_alerts',
+        help: 'Number of active alerts by severity.',
+        type: 'gauge',
+        samples: Object.entries(counts).map(([severity, value]) => ({ labels: { severity }, value })),
+      },
+    ];
+  }
+
+  /**
+   * 告警处理流水线统计（进程启动或重置统计后的累计值）
+   */
+  private collectPipelineMetrics(): MetricFamily[] {
+    const stats = alertPipeline.getDetailedStats();
+    return [
+      {
+        name: 'routeros_web_manager_alert_pipeline_events_total',
+        help: 'Events handled by each alert pipeline stage.',
+        type: 'counter',
+        samples: Object.entries(stats).map(([stage, value]) => ({ labels: { stage }, value })),
+      },
+    ];
+  }
+
+  /**
+   * 后端进程自身的运行状况
+   */
+  private collectBackendMetrics(): MetricFamily[] {
+    const memory = process.memoryUsage();
+    return [
+      {
+        name: 'routeros_web_manager_up',
+        help: 'Whether the backend is up.',
+        type: 'gauge',
+        samples: [{ value: 1 }],
+      },
+      {
+        name: 'routeros_web_manager_info',
+        help: 'Backend runtime information.',
+        type: 'gauge',
+        samples: [{ labels: { node_version: process.version }, value: 1 }],
+      },
+      {
+        name: 'routeros_web_manager_process_uptime_seconds',
+        help: 'Backend process uptime in seconds.',
+        type: 'gauge',
+        samples: [{ value: Math.round(process.uptime()) }],
+      },
+      {
+        name: 'routeros_web_manager_process_resident_memory_bytes',
+        help: 'Backend resident memory size in bytes.',
+        type: 'gauge',
+        samples: [{ value: memory.rss }],
+      },
+      {
+        name: 'routeros_web_manager_process_heap_used_bytes',
+        help: 'Backend V8 heap used in bytes.',
+        type: 'gauge',
+        samples: [{ value: memory.heapUsed }],
+      },
+      {
+        name: 'routeros_web_manager_device_connected',
+        help: 'Whether the backend is connected to the device (1) or not (0).',
+        type: 'gauge',
+        samples: routerosClientPool.getDeviceIds().map((device) => ({
+          labels: { device },
+          value: routerosClientPool.isConnected(device) ? 1 : 0,
+        })),
+      },
+      {
+        name: 'routeros_web_manager_metrics_collector_running',
+        help: 'Whether the metrics collector is running.',
+        type: 'gauge',
+        samples: [{ value: metricsCollector.isServiceRunning() ? 1 : 0 }],
+      },
+      {
+        name: 'routeros_web_manager_realtime_clients',
+        help: 'Number of connected server-sent event clients.',
+        type: 'gauge',
+        samples: [{ value: realtimeService.getClientCount() }],
+      },
+    ];
+  }
+}
+
+// 导出单例实例
+export const metricsExporter = new MetricsExporter();
@@ -0,0 +1,210 @@
+/**
+ * 模拟 RouterOS 默认种子数据
+ * 一台 RouterOS v7 家用网关：ether1 为 WAN（DHCP 客户端），ether2-ether5 加入 bridge 作为 LAN，
+ * 带默认防火墙规则、NAT 伪装和 DHCP 服务
+ */
+
+import { MockRouterOSFixture } from './mockRouterOSState';
+
+const ethernet = (index: number, extra: Record<string, string | boolean> = {}) => ({
+  name: `ether${index}`,
+  'default-name': `ether${index}`,
+  type: 'ether',
+  mtu: '1500',
+  'actual-mtu': '1500',
+  'mac-address': `48:8F:5A:00:00:0${index}`,
+  running: index <= 3,
+  disabled: false,
+  'rx-byte': 0,
+  'tx-byte': 0,
+  'rx-packet': 0,
+  'tx-packet': 0,
+  'rx-error': 0,
+  'tx-error': 0,
+  ...extra,
+});
+
+export const DEFAULT_FIXTURE: MockRouterOSFixture = {
+  menus: {
+    '/system/identity': { name: 'MikroTik-Demo' },
+    '/system/resource': {
+      uptime: '3d4h12m5s',
+      version: '7.14.3 (stable)',
+      'build-time': '2024-04-17 12:47:58',
+      'factory-software': '7.1',
+      'free-memory': 786432000,
+      'total-memory': 1073741824,
+      cpu: 'ARM64',
+      'cpu-count': 4,
+      'cpu-frequency': 1400,
+      'cpu-load': 8,
+      'free-hdd-space': 94371840,
+      'total-hdd-space': 134217728,
+      'architecture-name': 'arm64',
+      'board-name': 'hAP ax3',
+      platform: 'MikroTik',
+    },
+    '/system/routerboard': {
+      routerboard: true,
+      'board-name': 'hAP ax3',
+      model: 'C53UiG+5HPaxD2HPaxD',
+      'serial-number': 'HF00DEMO000',
+      'firmware-type': 'ipq6000',
+      'current-firmware': '7.14.3',
+      'upgrade-firmware': '7.14.3',
+    },
+    '/system/clock': { time: '12:00:00', date: '2024-05-01', 'time-zone-name': 'Asia/Shanghai' },
+    '/system/script': [
+      {
+        name: 'backup-config',
+        owner: 'admin',
+        policy: 'ftp,read,write,policy,test',
+        source: '/system backup save name=auto-backup',
+        'run-count': 0,
+      },
+    ],
+    '/system/scheduler': [
+      {
+        name: 'daily-backup',
+        'start-date': '2024-01-01',
+        'start-time': '03:00:00',
+        interval: '1d',
+        'on-event': 'backup-config',
+        policy: 'ftp,read,write,policy,test',
+        'run-count': 0,
+      },
+    ],
+    '/user': [{ name: 'admin', group: 'full', address: '', disabled: false }],
+    '/log': [
+      { time: '12:00:00', topics: 'system,info', message: 'router rebooted' },
+      { time: '12:00:05', topics: 'interface,info', message: 'ether1 link up (speed 1G, full duplex)' },
+      { time: '12:00:10', topics: 'dhcp,info', message: 'dhcp-client on ether1 got IP address 203.0.113.25' },
+    ],
+    '/file': [],
+
+    '/interface': [
+      ethernet(1, { comment: 'WAN' }),
+      ethernet(2),
+      ethernet(3),
+      ethernet(4),
+      ethernet(5),
+      {
+        name: 'bridge',
+        type: 'bridge',
+        mtu: 'auto',
+        'actual-mtu': '1500',
+        'mac-address': '48:8F:5A:00:00:02',
+        running: true,
+        disabled: false,
+        comment: 'LAN',
+        'rx-byte': 0,
+        'tx-byte': 0,
+        'rx-packet': 0,
+        'tx-packet': 0,
+        'rx-error': 0,
+        'tx-error': 0,
+      },
+    ],
+    '/interface/ethernet': [1, 2, 3, 4, 5].map((index) => ({
+      name: `ether${index}`,
+      'default-name': `ether${index}`,
+      'mac-address': `48:8F:5A:00:00:0${index}`,
+      speed: '1G-baseT-full',
+      disabled: false,
+    })),
+    '/interface/bridge': [{ name: 'bridge', 'protocol-mode': 'rstp', disabled: false, comment: 'LAN' }],
+    '/interface/bridge/port': [2, 3, 4, 5].map((index) => ({ bridge: 'bridge', interface: `ether${index}`, disabled: false })),
+    '/interface/vlan': [],
+    '/interface/veth': [],
+    '/interface/l2tp-client': [],
+    '/interface/pppoe-client': [],
+    '/interface/list': [
+      { name: 'WAN', comment: 'defconf' },
+      { name: 'LAN', comment: 'defconf' },
+    ],
+    '/interface/list/member': [
+      { list: 'WAN', interface: 'ether1', disabled: false },
+      { list: 'LAN', interface: 'bridge', disabled: false },
+    ],
+
+    '/ip/address': [
+      { address: '192.168.88.1/24', network: '192.168.88.0', interface: 'bridge', disabled: false, comment: 'defconf' },
+      { address: '203.0.113.25/24', network: '203.0.113.0', interface: 'ether1', disabled: false, dynamic: true },
+    ],
+    '/ip/route': [
+      { 'dst-address': '0.0.0.0/0', gateway: '203.0.113.1', distance: 1, 'routing-table': 'main', disabled: false, dynamic: true, active: true },
+      { 'dst-address': '192.168.88.0/24', gateway: 'bridge', distance: 0, 'routing-table': 'main', disabled: false, dynamic: true, active: true },
+    ],
+    '/ip/pool': [{ name: 'default-dhcp', ranges: '192.168.88.10-192.168.88.254' }],
+    '/ip/dhcp-client': [
+      { interface: 'ether1', 'add-default-route': 'yes', 'use-peer-dns': true, status: 'bound', address: '203.0.113.25/24', gateway: '203.0.113.1', disabled: false, comment: 'defconf' },
+    ],
+    '/ip/dhcp-server': [
+      { name: 'defconf', interface: 'bridge', 'address-pool': 'default-dhcp', 'lease-time': '30m', disabled: false },
+    ],
+    '/ip/dhcp-server/network': [
+      { address: '192.168.88.0/24', gateway: '192.168.88.1', 'dns-server': '192.168.88.1', comment: 'defconf' },
+    ],
+    '/ip/dhcp-server/lease': [
+      { address: '192.168.88.254', 'mac-address': 'AA:BB:CC:00:00:01', 'host-name': 'laptop', server: 'defconf', status: 'bound', dynamic: true, disabled: false },
+      { address: '192.168.88.253', 'mac-address': 'AA:BB:CC:00:00:02', 'host-name': 'nas', server: 'defconf', status: 'bound', dynamic: false, disabled: false, comment: 'NAS' },
+    ],
+    '/ip/arp': [
+      { address: '203.0.113.1', 'mac-address': '00:00:5E:00:01:01', interface: 'ether1', dynamic: true, complete: true },
+      { address: '192.168.88.254', 'mac-address': 'AA:BB:CC:00:00:01', interface: 'bridge', dynamic: true, complete: true },
+    ],
+    '/ip/dns': { servers: '', 'dynamic-servers': '203.0.113.53', 'allow-remote-requests': true, 'cache-size': '2048KiB' },
+    '/ip/socks': { enabled: false, port: 1080, version: 4 },
+    '/ip/service': [
+      { name: 'api', port: 8728, disabled: false },
+      { name: 'api-ssl', port: 8729, disabled: true },
+      { name: 'www', port: 80, disabled: false },
+      { name: 'www-ssl', port: 443, disabled: true },
+      { name: 'winbox', port: 8291, disabled: false },
+      { name: 'ssh', port: 22, disabled: false },
+    ],
+
+    '/ip/firewall/filter': [
+      { chain: 'input', action: 'accept', 'connection-state': 'established,related,untracked', comment: 'defconf: accept established,related,untracked', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'input', action: 'drop', 'connection-state': 'invalid', comment: 'defconf: drop invalid', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'input', action: 'accept', protocol: 'icmp', comment: 'defconf: accept ICMP', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'input', action: 'drop', 'in-interface-list': '!LAN', comment: 'defconf: drop all not coming from LAN', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'forward', action: 'fasttrack-connection', 'connection-state': 'established,related', 'hw-offload': true, comment: 'defconf: fasttrack', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'forward', action: 'accept', 'connection-state': 'established,related,untracked', comment: 'defconf: accept established,related, untracked', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'forward', action: 'drop', 'connection-state': 'invalid', comment: 'defconf: drop invalid', disabled: false, bytes: 0, packets: 0 },
+      { chain: 'forward', action: 'drop', 'connection-state': 'new', 'connection-nat-state': '!dstnat', 'in-interface-list': 'WAN', comment: 'defconf: drop all from WAN not DSTNATed', disabled: false, bytes: 0, packets: 0 },
+    ],
+    '/ip/firewall/nat': [
+      { chain: 'srcnat', action: 'masquerade', 'out-interface-list': 'WAN', 'ipsec-policy': 'out,none', comment: 'defconf: masquerade', disabled: false, bytes: 0, packets: 0 },
+    ],
+    '/ip/firewall/mangle': [],
+    '/ip/firewall/raw': [],
+    '/ip/firewall/address-list': [
+      { list: 'trusted', address: '192.168.88.0/24', comment: 'LAN', disabled: false, dynamic: false },
+    ],
+    '/ip/firewall/connection': [],
+
+    '/ipv6/address': [
+      { address: 'fe80::4a8f:5aff:fe00:2/64', interface: 'bridge', 'link-local': true, dynamic: true, disabled: false },
+    ],
+    '/ipv6/route': [],
+    '/ipv6/dhcp-client': [],
+    '/ipv6/nd': [{ interface: 'all', 'ra-interval': '3m20s-10m', 'advertise-dns': true, disabled: false, default: true }],
+    '/ipv6/neighbor': [],
+    '/ipv6/firewall/filter': [
+      { chain: 'input', action: 'accept', 'connection-state': 'established,related,untracked', comment: 'defconf: accept established,related,untracked', disabled: false },
+      { chain: 'input', action: 'drop', 'connection-state': 'invalid', comment: 'defconf: drop invalid', disabled: false },
+      { chain: 'input', action: 'accept', protocol: 'icmpv6', comment: 'defconf: accept ICMPv6', disabled: false },
+      { chain: 'input', action: 'drop', 'in-interface-list': '!LAN', comment: 'defconf: drop everything else not coming from LAN', disabled: false },
+    ],
+    '/ipv6/firewall/nat': [],
+    '/ipv6/firewall/mangle': [],
+    '/ipv6/firewall/raw': [],
+    '/ipv6/firewall/address-list': [],
+
+    '/container': [],
+    '/container/mounts': [],
+    '/container/envs': [],
+    '/container/config': { registry: 'https://registry-1.docker.io', tmpdir: 'tmp', 'ram-high': 0 },
+  },
+};
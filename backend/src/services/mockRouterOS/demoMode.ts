@@ -0,0 +1,49 @@
+/**
+ * 演示模式
+ * 设置 DEMO_MODE=true 时，启动进程内的模拟 RouterOS 并让默认设备连接到它，
+ * 无需真实设备即可体验全部功能
+ *
+ * - DEMO_FIXTURE: 种子数据文件（.json 或 .rsc），默认使用内置的演示数据
+ * - DEMO_ROUTEROS_PORT: 模拟设备监听端口，默认随机分配
+ */
+
+import { RouterOSConfig } from '../../types';
+import { MockRouterOSServer } from './mockRouterOSServer';
+import { loadFixture } from './fixture';
+import { logger } from '../../utils/logger';
+
+let demoServer: MockRouterOSServer | null = null;
+
+/**
+ * 是否启用演示模式
+ */
+export function isDemoMode(): boolean {
+  return (process.env.DEMO_MODE || '').toLowerCase() === 'true';
+}
+
+/**
+ * 启动演示设备，返回连接配置
+ */
+export async function startDemoRouter(): Promise<RouterOSConfig> {
+  if (!demoServer) {
+    const fixtureFile = process.env.DEMO_FIXTURE;
+    const fixture = fixtureFile ? await loadFixture(fixtureFile) : undefined;
+    demoServer = new MockRouterOSServer({ fixture, dynamic: true });
+    if (fixtureFile) {
+      logger.info(`Demo router seeded from ${fixtureFile}`);
+    }
+  }
+
+  const port = await demoServer.start(parseInt(process.env.DEMO_ROUTEROS_PORT || '0', 10));
+  return { host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false, protocol: 'api' };
+}
+
+/**
+ * 停止演示设备
+ */
+export async function stopDemoRouter(): Promise<void> {
+  if (demoServer) {
+    await demoServer.stop();
+    demoServer = null;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * 模拟 RouterOS 种子数据加载
+ *
+ * 支持两种格式：
+ * - JSON: { "menus": { "/interface": [ {...} ], "/system/identity": { "name": "..." } } }
+ * - .rsc: RouterOS /export 导出的脚本，支持 add、set（单例菜单）以及 set [ find key=value ]
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { MockFixtureValue, MockRouterOSFixture, normalizeMenuPath } from './mockRouterOSState';
+import { logger } from '../../utils/logger';
+
+type FixtureItem = Record<string, MockFixtureValue>;
+
+const VERBS = ['add', 'set'];
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', _: ' ' };
+
+/**
+ * 拆分一行脚本为词，引号内的内容作为一个词，[ ... ] 单独成词
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+  let hasToken = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '\\' && i + 1 < line.length) {
+        const next = line[++i];
+        current += ESCAPES[next] ?? next;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) tokens.push(current);
+      current = '';
+      hasToken = false;
+    } else if (char === '[' || char === ']') {
+      if (hasToken) tokens.push(current);
+      tokens.push(char);
+      current = '';
+      hasToken = false;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (hasToken) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * 将 key=value 形式的词转换为属性
+ */
+function toAttributes(tokens: string[]): FixtureItem {
+  const attributes: FixtureItem = {};
+  for (const token of tokens) {
+    const separator = token.indexOf('=');
+    if (separator > 0) {
+      attributes[token.substring(0, separator)] = token.substring(separator + 1);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * 合并以反斜杠结尾的续行，去除注释和空行
+ */
+function joinLines(text: string): string[] {
+  const lines: string[] = [];
+  let pending = '';
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!pending && (line === '' || line.startsWith('#'))) continue;
+    if (line.endsWith('\\')) {
+      pending += `${line.slice(0, -1)} `;
+      continue;
+    }
+    lines.push(pending + line);
+    pending = '';
+  }
+  if (pending) lines.push(pending);
+  return lines;
+}
+
+/**
+ * 解析 .rsc 脚本
+ */
+export function parseRsc(text: string): MockRouterOSFixture {
+  const menus: MockRouterOSFixture['menus'] = {};
+  let menu = '/';
+
+  for (const line of joinLines(text)) {
+    let tokens = tokenize(line);
+
+    if (tokens[0]?.startsWith('/')) {
+      const verbIndex = tokens.findIndex((token) => VERBS.includes(token));
+      const pathTokens = verbIndex === -1 ? tokens : tokens.slice(0, verbIndex);
+      menu = normalizeMenuPath(pathTokens.join(' '));
+      tokens = verbIndex === -1 ? [] : tokens.slice(verbIndex);
+    }
+    if (tokens.length === 0) continue;
+
+    const [verb, ...rest] = tokens;
+    if (verb === 'add') {
+      const list = Array.isArray(menus[menu]) ? (menus[menu] as FixtureItem[]) : [];
+      list.push(toAttributes(rest));
+      menus[menu] = list;
+    } else if (verb === 'set' && rest[0] === '[' && rest[1] === 'find') {
+      // set [ find default-name=ether1 ] name=wan：更新匹配的条目，不存在时新建
+      const end = rest.indexOf(']');
+      const where = toAttributes(rest.slice(2, end));
+      const values = toAttributes(rest.slice(end + 1));
+      const list = Array.isArray(menus[menu]) ? (menus[menu] as FixtureItem[]) : [];
+      const matched = list.filter((item) =>
+        Object.entries(where).every(([key, value]) => String(item[key]) === String(value))
+      );
+      if (matched.length > 0) {
+        matched.forEach((item) => Object.assign(item, values));
+      } else {
+        list.push({ ...where, ...values });
+      }
+      menus[menu] = list;
+    } else if (verb === 'set') {
+      const current = menus[menu];
+      menus[menu] = { ...(current && !Array.isArray(current) ? current : {}), ...toAttributes(rest) };
+    } else {
+      logger.debug(`Skipped unsupported rsc line: ${line}`);
+    }
+  }
+
+  return { menus };
+}
+
+/**
+ * 从文件加载种子数据（按扩展名识别 .json 或 .rsc）
+ */
+export async function loadFixture(file: string): Promise<MockRouterOSFixture> {
+  const text = await fs.readFile(file, 'utf-8');
+  if (path.extname(file).toLowerCase() === '.rsc') {
+    return parseRsc(text);
+  }
+
+  const parsed = JSON.parse(text) as MockRouterOSFixture;
+  if (!parsed || typeof parsed.menus !== 'object' || parsed.menus === null) {
+    throw new Error(`Invalid fixture file ${file}: missing "menus"`);
+  }
+  return parsed;
+}
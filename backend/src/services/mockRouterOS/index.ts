@@ -0,0 +1,23 @@
+/**
+ * 模拟 RouterOS 模块导出
+ */
+
+export {
+  MockRouterOSServer,
+  MockRouterOSServerOptions,
+  MockCommandHandler,
+} from './mockRouterOSServer';
+export {
+  MockRouterOSState,
+  MockRouterOSFixture,
+  MockFixtureValue,
+  MockRecord,
+  MockCommandResult,
+  MockRouterOSError,
+  normalizeMenuPath,
+} from './mockRouterOSState';
+export { MockStream, MockStreamContext, DEFAULT_STREAMS } from './mockStreams';
+export { DEFAULT_FIXTURE } from './defaultFixture';
+export { parseRsc, loadFixture } from './fixture';
+export { encodeSentence, SentenceDecoder } from './protocol';
+export { isDemoMode, startDemoRouter, stopDemoRouter } from './demoMode';
@@ -0,0 +1,167 @@
+/**
+ * 模拟 RouterOS API 服务器测试
+ *
+ * 使用真实的 node-routeros 连接和 RouterOSClient 访问进程内的模拟服务器，
+ * 并通过 HTTP 调用控制器，验证完整的请求路径
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { RouterOSClient, routerosClient } from '../routerosClient';
+import firewallRoutes from '../../routes/firewallRoutes';
+import interfaceRoutes from '../../routes/interfaceRoutes';
+import dashboardRoutes from '../../routes/dashboardRoutes';
+import { MockRouterOSServer, MockRouterOSState, parseRsc, encodeSentence, SentenceDecoder } from '.';
+
+describe('protocol', () => {
+  it('should round-trip sentences across chunk boundaries', () => {
+    const long = 'x'.repeat(200);
+    const data = Buffer.concat([
+      encodeSentence(['/interface/print', '?type=ether', '.tag=1']),
+      encodeSentence(['!re', `=comment=${long}`]),
+    ]);
+    const decoder = new SentenceDecoder();
+
+    const sentences = [
+      ...decoder.push(data.subarray(0, 7)),
+      ...decoder.push(data.subarray(7, 40)),
+      ...decoder.push(data.subarray(40)),
+    ];
+
+    expect(sentences).toEqual([
+      ['/interface/print', '?type=ether', '.tag=1'],
+      ['!re', `=comment=${long}`],
+    ]);
+  });
+});
+
+describe('MockRouterOSState', () => {
+  it('should load an rsc export', () => {
+    const state = new MockRouterOSState(
+      parseRsc(`# exported by RouterOS
+/interface ethernet
+set [ find default-name=ether1 ] comment=WAN
+/ip firewall nat
+add action=masquerade chain=srcnat comment="defconf: masquerade" \\
+    out-interface-list=WAN
+/system identity
+set name=lab-router
+`)
+    );
+
+    expect(state.getRecords('/interface/ethernet')).toEqual([
+      expect.objectContaining({ 'default-name': 'ether1', comment: 'WAN' }),
+    ]);
+    expect(state.getRecords('/ip/firewall/nat')).toEqual([
+      expect.objectContaining({ chain: 'srcnat', comment: 'defconf: masquerade', 'out-interface-list': 'WAN' }),
+    ]);
+    expect(state.getRecords('/system/identity')).toEqual([{ name: 'lab-router' }]);
+  });
+
+  it('should export a script that loads back into the same state', () => {
+    const state = new MockRouterOSState({
+      menus: {
+        '/ip/address': [{ address: '10.0.0.1/24', interface: 'ether2', comment: 'lab "net"' }],
+        '/system/identity': { name: 'lab router' },
+      },
+    });
+
+    const reloaded = new MockRouterOSState(parseRsc(state.exportScript()));
+
+    expect(reloaded.getRecords('/ip/address')).toEqual([
+      expect.objectContaining({ address: '10.0.0.1/24', comment: 'lab "net"' }),
+    ]);
+    expect(reloaded.getRecords('/system/identity')).toEqual([{ name: 'lab router' }]);
+  });
+});
+
+describe('MockRouterOSServer', () => {
+  let server: MockRouterOSServer;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer({ password: 'secret' });
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  const config = () => ({ host: '127.0.0.1', port, username: 'admin', password: 'secret', useTLS: false });
+
+  it('should reject invalid credentials', async () => {
+    const client = new RouterOSClient();
+    await expect(client.connect({ ...config(), password: 'wrong' })).rejects.toThrow();
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('should support print, add, set, enable, disable and remove through RouterOSClient', async () => {
+    await routerosClient.connect(config());
+
+    const resource = await routerosClient.print<Record<string, string>>('/system/resource');
+    expect(resource[0]['board-name']).toBe('hAP ax3');
+
+    const ethers = await routerosClient.print<Record<string, string>>('/interface', { type: 'ether' });
+    expect(ethers.map((item) => item.name)).toEqual(['ether1', 'ether2', 'ether3', 'ether4', 'ether5']);
+
+    const created = await routerosClient.add<Record<string, string>>('/ip/firewall/nat', {
+      chain: 'dstnat',
+      action: 'dst-nat',
+      'to-addresses': '192.168.88.10',
+      comment: 'web server',
+    });
+    expect(created['.id']).toMatch(/^\*[0-9A-F]+$/);
+    expect(created.disabled).toBe('false');
+
+    const updated = await routerosClient.set<Record<string, string>>('/ip/firewall/nat', created['.id'], {
+      'dst-port': '8080',
+      protocol: 'tcp',
+    });
+    expect(updated).toEqual(expect.objectContaining({ comment: 'web server', 'dst-port': '8080' }));
+
+    await routerosClient.disable('/ip/firewall/nat', created['.id']);
+    expect((await routerosClient.getById<Record<string, string>>('/ip/firewall/nat', created['.id']))?.disabled).toBe('true');
+    await routerosClient.enable('/ip/firewall/nat', created['.id']);
+    expect((await routerosClient.getById<Record<string, string>>('/ip/firewall/nat', created['.id']))?.disabled).toBe('false');
+
+    await routerosClient.remove('/ip/firewall/nat', created['.id']);
+    expect(await routerosClient.getById('/ip/firewall/nat', created['.id'])).toBeNull();
+    expect(server.state.getRecords('/ip/firewall/nat')).toHaveLength(1);
+  });
+
+  it('should return traps for unknown commands and items', async () => {
+    await routerosClient.connect(config());
+
+    await expect(routerosClient.executeRaw('/no/such/command')).rejects.toThrow();
+    await expect(routerosClient.remove('/ip/firewall/nat', '*FFFF')).rejects.toThrow();
+  });
+
+  it('should serve controller requests end-to-end', async () => {
+    await routerosClient.connect(config());
+    const app = express();
+    app.use(express.json());
+    app.use('/api/firewall', firewallRoutes);
+    app.use('/api/interfaces', interfaceRoutes);
+    app.use('/api/dashboard', dashboardRoutes);
+
+    const resource = await request(app).get('/api/dashboard/resource');
+    expect(resource.status).toBe(200);
+
+    const interfaces = await request(app).get('/api/interfaces');
+    expect(interfaces.body.data).toHaveLength(6);
+
+    const created = await request(app)
+      .post('/api/firewall/nat')
+      .send({ chain: 'srcnat', action: 'masquerade', 'out-interface': 'ether1' });
+    expect(created.body.success).toBe(true);
+
+    const nat = await request(app).get('/api/firewall/nat');
+    expect(nat.body.data).toHaveLength(2);
+
+    const id = created.body.data['.id'];
+    expect((await request(app).delete(`/api/firewall/nat/${encodeURIComponent(id)}`)).body.success).toBe(true);
+    expect(server.state.getRecords('/ip/firewall/nat')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * 模拟 RouterOS API 服务器
+ * 在进程内监听 TCP 端口，使用与 node-routeros 相同的 API 协议（8728），
+ * 用于开发、集成测试和演示模式，后端可以不连接真实设备完整运行
+ *
+ * - 登录：/login =name= =password=（6.43+ 明文登录方式）
+ * - 命令：由 MockRouterOSState 执行 print/add/set/remove/enable/disable 和 /export，
+ *   可通过 registerCommand 注册自定义命令（如 /system/reboot）
+ * - 持续输出命令：/interface/monitor-traffic、/ping、/log/print follow 等（见 mockStreams），
+ *   可通过 registerStream 注册，使用 /cancel =tag=... 停止
+ * - 响应：!re / !done / !trap，均带上请求的 .tag
+ */
+
+import net from 'net';
+import { SentenceDecoder, encodeSentence } from './protocol';
+import {
+  MockCommandResult,
+  MockRecord,
+  MockRouterOSFixture,
+  MockRouterOSState,
+  MockRouterOSError,
+  normalizeMenuPath,
+} from './mockRouterOSState';
+import { DEFAULT_FIXTURE } from './defaultFixture';
+import { DEFAULT_STREAMS, MockStream } from './mockStreams';
+import { logger } from '../../utils/logger';
+
+/**
+ * 自定义命令处理器
+ */
+export type MockCommandHandler = (
+  attributes: MockRecord,
+  queries: string[],
+  state: MockRouterOSState
+) => MockCommandResult | void;
+
+/**
+ * 服务器选项
+ */
+export interface MockRouterOSServerOptions {
+  /** 种子数据，默认使用内置的演示数据 */
+  fixture?: MockRouterOSFixture;
+  /** 登录用户名，默认 admin */
+  username?: string;
+  /** 登录密码，默认为空 */
+  password?: string;
+  /** 是否模拟变化的运行数据（接口流量、CPU 负载） */
+  dynamic?: boolean;
+}
+
+interface Session {
+  socket: net.Socket;
+  decoder: SentenceDecoder;
+  loggedIn: boolean;
+  /** 进行中的持续输出命令：tag -> 停止函数 */
+  streams: Map<string, () => void>;
+}
+
+export class MockRouterOSServer {
+  readonly state: MockRouterOSState;
+  private server: net.Server | null = null;
+  private sessions: Set<Session> = new Set();
+  private commands: Map<string, MockCommandHandler> = new Map();
+  private streams: Map<string, MockStream> = new Map();
+  private readonly username: string;
+  private readonly password: string;
+
+  constructor(options: MockRouterOSServerOptions = {}) {
+    this.state = new MockRouterOSState(options.fixture || DEFAULT_FIXTURE, options.dynamic || false);
+    this.username = options.username ?? 'admin';
+    this.password = options.password ?? '';
+
+    // 设备操作类命令默认直接返回成功
+    for (const command of ['/system/reboot', '/system/shutdown']) {
+      this.registerCommand(command, () => undefined);
+    }
+    for (const [command, stream] of Object.entries(DEFAULT_STREAMS)) {
+      this.registerStream(command, stream);
+    }
+  }
+
+  /**
+   * 注册自定义命令（优先于内置命令）
+   */
+  registerCommand(command: string, handler: MockCommandHandler): void {
+    this.commands.set(normalizeMenuPath(command), handler);
+  }
+
+  /**
+   * 注册持续输出命令（优先于自定义命令和内置命令）
+   */
+  registerStream(command: string, stream: MockStream): void {
+    this.streams.set(normalizeMenuPath(command), stream);
+  }
+
+  /**
+   * 开始监听
+   * @param port 端口，0 表示随机分配
+   * @param host 监听地址，默认仅本机
+   * @returns 实际监听的端口
+   */
+  start(port = 0, host = '127.0.0.1'): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.getPort());
+    }
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        const actualPort = this.getPort();
+        logger.info(`Mock RouterOS API server listening on ${host}:${actualPort}`);
+        resolve(actualPort);
+      });
+    });
+  }
+
+  /**
+   * 停止监听并断开所有连接
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    for (const session of this.sessions) {
+      session.socket.destroy();
+    }
+    this.sessions.clear();
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * 获取监听端口
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const session: Session = { socket, decoder: new SentenceDecoder(), loggedIn: false, streams: new Map() };
+    this.sessions.add(session);
+
+    socket.on('data', (data) => {
+      for (const sentence of session.decoder.push(data)) {
+        this.handleSentence(session, sentence);
+      }
+    });
+    socket.on('close', () => {
+      for (const cleanup of session.streams.values()) {
+        cleanup();
+      }
+      session.streams.clear();
+      this.sessions.delete(session);
+    });
+    socket.on('error', (error) => logger.debug('Mock RouterOS connection error:', error));
+  }
+
+  private handleSentence(session: Session, words: string[]): void {
+    const [command, ...params] = words;
+    const attributes: MockRecord = {};
+    const queries: string[] = [];
+    let tag: string | undefined;
+
+    for (const param of params) {
+      if (param.startsWith('.tag=')) {
+        tag = param.substring(5);
+      } else if (param.startsWith('?')) {
+        queries.push(param);
+      } else {
+        // =key=value 或 .proplist=a,b
+        const body = param.startsWith('=') ? param.substring(1) : param;
+        const separator = body.indexOf('=');
+        if (separator > 0) {
+          attributes[body.substring(0, separator)] = body.substring(separator + 1);
+        }
+      }
+    }
+
+    const reply = (type: string, values: MockRecord = {}, replyTag = tag) => {
+      const sentence = [type, ...Object.entries(values).map(([key, value]) => `=${key}=${value}`)];
+      if (replyTag !== undefined) sentence.push(`.tag=${replyTag}`);
+      if (!session.socket.destroyed) {
+        session.socket.write(encodeSentence(sentence));
+      }
+    };
+
+    if (command === '/login') {
+      if (attributes.name === this.username && (attributes.password ?? '') === this.password) {
+        session.loggedIn = true;
+        reply('!done');
+      } else {
+        reply('!trap', { message: 'invalid user name or password (6)' });
+        reply('!done');
+      }
+      return;
+    }
+
+    if (!session.loggedIn) {
+      reply('!fatal', { message: 'not logged in' });
+      session.socket.end();
+      return;
+    }
+
+    if (command === '/cancel') {
+      this.cancelStream(session, attributes.tag, reply);
+      return;
+    }
+
+    const stream = this.streams.get(normalizeMenuPath(command));
+    if (stream && (!stream.matches || stream.matches(attributes))) {
+      this.startStream(session, stream, command, attributes, queries, tag, reply);
+      return;
+    }
+
+    try {
+      const handler = this.commands.get(normalizeMenuPath(command));
+      const result = handler
+        ? handler(attributes, queries, this.state) || { replies: [] }
+        : this.state.execute(command, attributes, queries);
+
+      for (const record of result.replies) {
+        reply('!re', record);
+      }
+      reply('!done', result.ret !== undefined ? { ret: result.ret } : {});
+    } catch (error) {
+      if (!(error instanceof MockRouterOSError)) {
+        logger.warn(`Mock RouterOS command ${command} failed:`, error);
+      }
+      reply('!trap', { message: error instanceof Error ? error.message : String(error) });
+      reply('!done');
+    }
+  }
+
+  private startStream(
+    session: Session,
+    stream: MockStream,
+    command: string,
+    attributes: MockRecord,
+    queries: string[],
+    tag: string | undefined,
+    reply: (type: string, values?: MockRecord) => void
+  ): void {
+    // 没有 tag 的命令无法取消，按一次性命令处理：输出后立即结束
+    const key = tag ?? '';
+    let finished = false;
+    let cleanup: (() => void) | void;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      cleanup?.();
+      session.streams.delete(key);
+    };
+
+    try {
+      cleanup = stream.start({
+        attributes,
+        queries,
+        state: this.state,
+        emit: (records) => {
+          if (finished) return;
+          for (const record of records) {
+            reply('!re', record);
+          }
+        },
+        done: () => {
+          if (finished) return;
+          finish();
+          reply('!done');
+        },
+      });
+    } catch (error) {
+      finished = true;
+      if (!(error instanceof MockRouterOSError)) {
+        logger.warn(`Mock RouterOS stream ${command} failed:`, error);
+      }
+      reply('!trap', { message: error instanceof Error ? error.message : String(error) });
+      reply('!done');
+      return;
+    }
+
+    if (finished) {
+      cleanup?.();
+      return;
+    }
+    if (tag === undefined) {
+      finish();
+      reply('!done');
+      return;
+    }
+    session.streams.set(key, finish);
+  }
+
+  private cancelStream(
+    session: Session,
+    tag: string | undefined,
+    reply: (type: string, values?: MockRecord, replyTag?: string) => void
+  ): void {
+    const stop = tag !== undefined ? session.streams.get(tag) : undefined;
+    if (!stop) {
+      reply('!trap', { message: 'no such command' });
+      reply('!done');
+      return;
+    }
+
+    stop();
+    // 与真实设备一致：被取消的命令以 interrupted 错误结束
+    reply('!trap', { category: '2', message: 'interrupted' }, tag);
+    reply('!done', {}, tag);
+    reply('!done');
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * 模拟 RouterOS 的配置状态
+ *
+ * 按菜单路径保存条目：列表菜单（如 /ip/firewall/nat）的条目带 .id，
+ * 单例菜单（如 /system/identity）只有一组属性。所有属性值均为字符串，与 API 返回一致
+ *
+ * 支持的命令：print、add、set、remove、enable、disable、move，以及 /export
+ */
+
+/**
+ * 菜单条目
+ */
+export type MockRecord = Record<string, string>;
+
+/**
+ * 种子数据中的属性值（加载时转换为字符串）
+ */
+export type MockFixtureValue = string | number | boolean;
+
+/**
+ * 种子数据：菜单路径 -> 条目列表（列表菜单）或属性（单例菜单）
+ */
+export interface MockRouterOSFixture {
+  menus: Record<string, Array<Record<string, MockFixtureValue>> | Record<string, MockFixtureValue>>;
+}
+
+/**
+ * 命令执行结果
+ */
+export interface MockCommandResult {
+  /** print 返回的条目（!re） */
+  replies: MockRecord[];
+  /** !done 附带的返回值（add 返回新条目 ID，/export 返回脚本） */
+  ret?: string;
+}
+
+/**
+ * 命令执行失败（返回 !trap）
+ */
+export class MockRouterOSError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MockRouterOSError';
+  }
+}
+
+const LIST_COMMANDS = ['print', 'add', 'set', 'remove', 'enable', 'disable', 'move'];
+
+/**
+ * 规范化菜单路径：/ip firewall nat、ip/firewall/nat/ -> /ip/firewall/nat
+ */
+export function normalizeMenuPath(menuPath: string): string {
+  const parts = menuPath.split(/[\s/]+/).filter(Boolean);
+  return `/${parts.join('/')}`;
+}
+
+function toRecord(values: Record<string, MockFixtureValue>): MockRecord {
+  const record: MockRecord = {};
+  for (const [key, value] of Object.entries(values)) {
+    record[key] = String(value);
+  }
+  return record;
+}
+
+/**
+ * 导出脚本中的属性值（包含空白或特殊字符时加引号并转义）
+ */
+function formatValue(value: string): string {
+  if (value !== '' && /^[^\s"\\;$[\]{}=?]+$/.test(value)) {
+    return value;
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+/**
+ * 去掉命令中的定位参数（.id、numbers），只保留要写入的属性
+ */
+function writableValues(attributes: MockRecord): MockRecord {
+  const values: MockRecord = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (key !== '.id' && key !== 'numbers') {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+function formatAttributes(record: MockRecord): string {
+  return Object.entries(record)
+    .filter(([key]) => !key.startsWith('.'))
+    .map(([key, value]) => `${key}=${formatValue(value)}`)
+    .join(' ');
+}
+
+export class MockRouterOSState {
+  private lists: Map<string, MockRecord[]> = new Map();
+  private singletons: Map<string, MockRecord> = new Map();
+  private nextId = 1;
+  private lastRefresh = Date.now();
+
+  /**
+   * @param fixture 种子数据
+   * @param dynamic 是否模拟变化的运行数据（接口流量计数、CPU 负载），演示模式下开启
+   */
+  constructor(fixture?: MockRouterOSFixture, private readonly dynamic = false) {
+    if (fixture) {
+      this.load(fixture);
+    }
+  }
+
+  /**
+   * 加载种子数据（覆盖同名菜单）
+   */
+  load(fixture: MockRouterOSFixture): void {
+    for (const [menuPath, value] of Object.entries(fixture.menus)) {
+      const menu = normalizeMenuPath(menuPath);
+      if (Array.isArray(value)) {
+        this.singletons.delete(menu);
+        this.lists.set(
+          menu,
+          value.map((item) => {
+            const record = toRecord(item);
+            return { '.id': record['.id'] || this.generateId(), ...record };
+          })
+        );
+      } else {
+        this.lists.delete(menu);
+        this.singletons.set(menu, toRecord(value));
+      }
+    }
+  }
+
+  /**
+   * 列出全部菜单路径
+   */
+  getMenus(): string[] {
+    return [...this.lists.keys(), ...this.singletons.keys()].sort();
+  }
+
+  /**
+   * 读取菜单条目（返回副本；单例菜单返回单个条目的列表）
+   */
+  getRecords(menuPath: string): MockRecord[] {
+    const menu = normalizeMenuPath(menuPath);
+    const singleton = this.singletons.get(menu);
+    if (singleton) {
+      return [{ ...singleton }];
+    }
+    return (this.lists.get(menu) || []).map((record) => ({ ...record }));
+  }
+
+  /**
+   * 执行命令
+   * @param command 完整命令，如 /ip/firewall/nat/add
+   * @param attributes 命令属性（=key=value）
+   * @param queries 查询条件（?key=value）
+   */
+  execute(command: string, attributes: MockRecord = {}, queries: string[] = []): MockCommandResult {
+    const normalized = normalizeMenuPath(command);
+    if (normalized === '/export') {
+      return { replies: [], ret: this.exportScript() };
+    }
+
+    const index = normalized.lastIndexOf('/');
+    const menu = normalized.substring(0, index) || '/';
+    const action = normalized.substring(index + 1);
+
+    if (!LIST_COMMANDS.includes(action) || (!this.lists.has(menu) && !this.singletons.has(menu))) {
+      throw new MockRouterOSError('no such command or directory');
+    }
+
+    if (this.singletons.has(menu)) {
+      return this.executeSingleton(menu, action, attributes);
+    }
+
+    const records = this.lists.get(menu) as MockRecord[];
+    switch (action) {
+      case 'print':
+        return { replies: this.print(menu, records, attributes, queries) };
+      case 'add': {
+        // 指定 place-before 时插入到该条目之前，否则添加到末尾
+        const { 'place-before': placeBefore, ...values } = writableValues(attributes);
+        const index = placeBefore ? records.findIndex((record) => record['.id'] === placeBefore) : records.length;
+        if (index === -1) {
+          throw new MockRouterOSError('no such item');
+        }
+        const id = this.generateId();
+        records.splice(index, 0, { '.id': id, disabled: 'false', ...values });
+        return { replies: [], ret: id };
+      }
+      case 'set': {
+        const values = writableValues(attributes);
+        for (const record of this.findRecords(records, attributes)) {
+          Object.assign(record, values);
+        }
+        return { replies: [] };
+      }
+      case 'remove': {
+        const targets = new Set(this.findRecords(records, attributes));
+        this.lists.set(
+          menu,
+          records.filter((record) => !targets.has(record))
+        );
+        return { replies: [] };
+      }
+      case 'move': {
+        // 移动到 destination 之前，未指定时移动到末尾
+        const targets = this.findRecords(records, attributes);
+        const remaining = records.filter((record) => !targets.includes(record));
+        let index = remaining.length;
+        if (attributes.destination) {
+          const destination = remaining.find((record) => record['.id'] === attributes.destination);
+          if (!destination) {
+            throw new MockRouterOSError('no such item');
+          }
+          index = remaining.indexOf(destination);
+        }
+        remaining.splice(index, 0, ...targets);
+        this.lists.set(menu, remaining);
+        return { replies: [] };
+      }
+      default: {
+        const disabled = action === 'disable' ? 'true' : 'false';
+        for (const record of this.findRecords(records, attributes)) {
+          record.disabled = disabled;
+        }
+        return { replies: [] };
+      }
+    }
+  }
+
+  /**
+   * 生成与 /export 类似的配置脚本
+   */
+  exportScript(): string {
+    const lines: string[] = [`# ${new Date().toISOString()} by RouterOS (mock)`];
+    for (const menu of this.getMenus()) {
+      const header = menu.split('/').filter(Boolean).join(' ');
+      const singleton = this.singletons.get(menu);
+      const records = singleton ? [singleton] : this.lists.get(menu) || [];
+      if (records.length === 0) continue;
+
+      lines.push(`/${header}`);
+      for (const record of records) {
+        const attributes = formatAttributes(record);
+        lines.push(singleton ? `set ${attributes}` : `add ${attributes}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private executeSingleton(menu: string, action: string, attributes: MockRecord): MockCommandResult {
+    const record = this.singletons.get(menu) as MockRecord;
+    if (action === 'print') {
+      if (this.dynamic && menu === '/system/resource') {
+        this.refreshResource(record);
+      }
+      return { replies: [this.applyProplist({ ...record }, attributes)] };
+    }
+    if (action === 'set') {
+      Object.assign(record, writableValues(attributes));
+      return { replies: [] };
+    }
+    throw new MockRouterOSError('no such command');
+  }
+
+  private print(menu: string, records: MockRecord[], attributes: MockRecord, queries: string[]): MockRecord[] {
+    if (this.dynamic && menu === '/interface') {
+      this.refreshCounters(records);
+    }
+    const conditions = queries.map((query) => this.parseQuery(query));
+    return records
+      .filter((record) => conditions.every((matches) => matches(record)))
+      .map((record) => this.applyProplist({ ...record }, attributes));
+  }
+
+  /**
+   * 解析查询条件：?key=value、?key（存在）、?-key（不存在）、?<key=value、?>key=value
+   */
+  private parseQuery(query: string): (record: MockRecord) => boolean {
+    const body = query.substring(1);
+    if (body.startsWith('#')) {
+      throw new MockRouterOSError('unsupported query operation');
+    }
+    if (body.startsWith('-')) {
+      const key = body.substring(1);
+      return (record) => !(key in record);
+    }
+
+    const separator = body.indexOf('=');
+    if (separator === -1) {
+      return (record) => body in record;
+    }
+
+    const value = body.substring(separator + 1);
+    const key = body.substring(0, separator);
+    if (key.startsWith('<') || key.startsWith('>')) {
+      const field = key.substring(1);
+      const less = key.startsWith('<');
+      return (record) => {
+        const actual = Number(record[field]);
+        return field in record && (less ? actual < Number(value) : actual > Number(value));
+      };
+    }
+    return (record) => (record[key] ?? '') === value;
+  }
+
+  private applyProplist(record: MockRecord, attributes: MockRecord): MockRecord {
+    const proplist = attributes['.proplist'];
+    if (!proplist) return record;
+    const keys = new Set(proplist.split(','));
+    return Object.fromEntries(Object.entries(record).filter(([key]) => keys.has(key)));
+  }
+
+  /**
+   * 按 .id（或 numbers，支持逗号分隔的多个 ID）查找条目
+   */
+  private findRecords(records: MockRecord[], attributes: MockRecord): MockRecord[] {
+    const ids = (attributes['.id'] || attributes.numbers || '').split(',').filter(Boolean);
+    if (ids.length === 0) {
+      throw new MockRouterOSError('missing =.id=');
+    }
+    return ids.map((id) => {
+      const record = records.find((item) => item['.id'] === id || item.name === id);
+      if (!record) {
+        throw new MockRouterOSError('no such item');
+      }
+      return record;
+    });
+  }
+
+  private generateId(): string {
+    return `*${(this.nextId++).toString(16).toUpperCase()}`;
+  }
+
+  /**
+   * 按经过的时间累加运行中接口的流量计数
+   */
+  private refreshCounters(records: MockRecord[]): void {
+    const now = Date.now();
+    const seconds = (now - this.lastRefresh) / 1000;
+    this.lastRefresh = now;
+
+    for (const record of records) {
+      if (record.running !== 'true' || record.disabled === 'true') continue;
+      const rxBytes = Math.round(seconds * (50000 + Math.random() * 450000));
+      const txBytes = Math.round(seconds * (20000 + Math.random() * 180000));
+      record['rx-byte'] = String(Number(record['rx-byte'] || 0) + rxBytes);
+      record['tx-byte'] = String(Number(record['tx-byte'] || 0) + txBytes);
+      record['rx-packet'] = String(Number(record['rx-packet'] || 0) + Math.round(rxBytes / 800));
+      record['tx-packet'] = String(Number(record['tx-packet'] || 0) + Math.round(txBytes / 800));
+    }
+  }
+
+  private refreshResource(record: MockRecord): void {
+    record['cpu-load'] = String(Math.round(5 + Math.random() * 30));
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * 模拟 RouterOS 持续输出命令
+ *
+ * - /interface/monitor-traffic interface=ether1,ether2 [interval=1s] [once]：按间隔输出各接口速率，
+ *   多个接口时每轮输出带相同 .section 的一组记录
+ * - /ping address=... [count=N] [interval=1s]：逐次输出结果，达到 count 后结束
+ * - /log/print follow / follow-only：输出现有日志（follow-only 跳过），之后保持等待
+ *
+ * 命令通过 /cancel =tag=... 停止
+ */
+
+import { MockRecord, MockRouterOSError, MockRouterOSState } from './mockRouterOSState';
+
+/**
+ * 持续输出命令的执行上下文
+ */
+export interface MockStreamContext {
+  attributes: MockRecord;
+  queries: string[];
+  state: MockRouterOSState;
+  /** 输出一组记录 */
+  emit(records: MockRecord[]): void;
+  /** 命令正常结束 */
+  done(): void;
+}
+
+/**
+ * 持续输出命令
+ */
+export interface MockStream {
+  /** 是否按持续输出方式执行，默认总是；返回 false 时按普通命令执行 */
+  matches?: (attributes: MockRecord) => boolean;
+  /** 开始输出，返回停止时的清理函数 */
+  start(context: MockStreamContext): (() => void) | void;
+}
+
+/**
+ * 解析 interval 参数（1s、500ms、2），返回毫秒
+ */
+export function parseMockInterval(value: string | undefined, fallback = 1000): number {
+  const match = value?.match(/^(\d+(?:\.\d+)?)(ms|s)?$/);
+  if (!match) return fallback;
+  const number = parseFloat(match[1]);
+  return Math.max(10, match[2] === 'ms' ? number : number * 1000);
+}
+
+const monitorTraffic: MockStream = {
+  start({ attributes, state, emit, done }) {
+    const names = (attributes.interface || '').split(',').filter(Boolean);
+    if (names.length === 0) {
+      throw new MockRouterOSError('missing value of argument interface');
+    }
+    const interfaces = state.getRecords('/interface');
+    const unknown = names.find((name) => !interfaces.some((item) => item.name === name));
+    if (unknown) {
+      throw new MockRouterOSError(`input does not match any value of interface: ${unknown}`);
+    }
+
+    let section = 0;
+    const sample = () => {
+      const current = state.getRecords('/interface');
+      const records = names.map((name) => {
+        const item = current.find((record) => record.name === name);
+        const active = item?.running === 'true' && item.disabled !== 'true';
+        const rxBits = active ? Math.round((50000 + Math.random() * 450000) * 8) : 0;
+        const txBits = active ? Math.round((20000 + Math.random() * 180000) * 8) : 0;
+        const record: MockRecord = {
+          name,
+          'rx-packets-per-second': String(Math.round(rxBits / 6400)),
+          'rx-bits-per-second': String(rxBits),
+          'tx-packets-per-second': String(Math.round(txBits / 6400)),
+          'tx-bits-per-second': String(txBits),
+        };
+        return names.length > 1 ? { ...record, '.section': String(section) } : record;
+      });
+      section++;
+      emit(records);
+    };
+
+    sample();
+    if ('once' in attributes) {
+      done();
+      return;
+    }
+    const timer = setInterval(sample, parseMockInterval(attributes.interval));
+    return () => clearInterval(timer);
+  },
+};
+
+const ping: MockStream = {
+  start({ attributes, emit, done }) {
+    const host = attributes.address;
+    if (!host) {
+      throw new MockRouterOSError('missing value of argument address');
+    }
+    const count = attributes.count ? parseInt(attributes.count, 10) : Infinity;
+    let seq = 0;
+
+    const send = () => {
+      const time = 1 + Math.round(Math.random() * 20);
+      seq++;
+      emit([
+        {
+          seq: String(seq - 1),
+          host,
+          size: attributes.size || '56',
+          ttl: '64',
+          time: `${time}ms`,
+          sent: String(seq),
+          received: String(seq),
+          'packet-loss': '0',
+        },
+      ]);
+      if (seq >= count) {
+        clearInterval(timer);
+        done();
+      }
+    };
+
+    const timer = setInterval(send, parseMockInterval(attributes.interval));
+    send();
+    return () => clearInterval(timer);
+  },
+};
+
+const logFollow: MockStream = {
+  matches: (attributes) => 'follow' in attributes || 'follow-only' in attributes,
+  start({ attributes, state, emit }) {
+    if (!('follow-only' in attributes)) {
+      for (const record of state.getRecords('/log')) {
+        emit([record]);
+      }
+    }
+    // 保持等待，直到被取消
+  },
+};
+
+/**
+ * 内置的持续输出命令
+ */
+export const DEFAULT_STREAMS: Record<string, MockStream> = {
+  '/interface/monitor-traffic': monitorTraffic,
+  '/ping': ping,
+  '/log/print': logFollow,
+};
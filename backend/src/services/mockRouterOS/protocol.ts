@@ -0,0 +1,107 @@
+/**
+ * RouterOS API 协议编解码
+ *
+ * 每个句子（sentence）由若干词（word）组成，以长度为 0 的词结束；
+ * 每个词前有 1~5 字节的长度前缀：
+ * - 0x00-0x7F: 1 字节
+ * - 0x80-0x3FFF: 2 字节，最高位为 10
+ * - 0x4000-0x1FFFFF: 3 字节，最高位为 110
+ * - 0x200000-0xFFFFFFF: 4 字节，最高位为 1110
+ * - 更大: 0xF0 后接 4 字节长度
+ */
+
+/**
+ * 编码长度前缀
+ */
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  if (length < 0x4000) {
+    const value = length | 0x8000;
+    return Buffer.from([(value >> 8) & 0xff, value & 0xff]);
+  }
+  if (length < 0x200000) {
+    const value = length | 0xc00000;
+    return Buffer.from([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+  }
+  if (length < 0x10000000) {
+    const value = (length | 0xe0000000) >>> 0;
+    return Buffer.from([(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+  }
+  return Buffer.from([0xf0, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+}
+
+/**
+ * 编码句子
+ */
+export function encodeSentence(words: string[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const word of words) {
+    const encoded = Buffer.from(word, 'utf-8');
+    parts.push(encodeLength(encoded.length), encoded);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+/**
+ * 句子解码器：持续写入收到的数据，取出已完整接收的句子
+ */
+export class SentenceDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+  private words: string[] = [];
+
+  /**
+   * 写入数据，返回本次解析出的完整句子
+   */
+  push(data: Buffer): string[][] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, data]) : data;
+    const sentences: string[][] = [];
+
+    for (;;) {
+      const header = this.readLength();
+      if (!header) break;
+
+      const [prefixLength, length] = header;
+      if (this.buffer.length < prefixLength + length) break;
+
+      const word = this.buffer.subarray(prefixLength, prefixLength + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(prefixLength + length);
+
+      if (length === 0) {
+        if (this.words.length > 0) {
+          sentences.push(this.words);
+        }
+        this.words = [];
+      } else {
+        this.words.push(word);
+      }
+    }
+
+    return sentences;
+  }
+
+  /**
+   * 读取长度前缀，返回 [前缀字节数, 词长度]；数据不足时返回 null
+   */
+  private readLength(): [number, number] | null {
+    const buf = this.buffer;
+    if (buf.length === 0) return null;
+
+    const first = buf[0];
+    if ((first & 0x80) === 0x00) {
+      return [1, first];
+    }
+    if ((first & 0xc0) === 0x80) {
+      return buf.length < 2 ? null : [2, ((first & 0x3f) << 8) | buf[1]];
+    }
+    if ((first & 0xe0) === 0xc0) {
+      return buf.length < 3 ? null : [3, ((first & 0x1f) << 16) | (buf[1] << 8) | buf[2]];
+    }
+    if ((first & 0xf0) === 0xe0) {
+      return buf.length < 4 ? null : [4, (((first & 0x0f) << 24) | (buf[1] << 16) | (buf[2] << 8) | buf[3]) >>> 0];
+    }
+    return buf.length < 5 ? null : [5, ((buf[1] << 24) | (buf[2] << 16) | (buf[3] << 8) | buf[4]) >>> 0];
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * RealtimeService 测试
+ *
+ * 验证按主题和设备过滤推送、取消订阅以及写入失败时移除客户端
+ */
+
+import { RealtimeService, RealtimeSink } from './realtimeService';
+import { RealtimeMessage } from '../types';
+
+// 避免加载 AI-Ops 服务单例（其后台定时器会阻止 Jest 退出）
+jest.mock('./ai-ops', () => ({
+  metricsCollector: {
+    onMetrics: jest.fn(),
+    offMetrics: jest.fn(),
+    onTrafficPoints: jest.fn(),
+    offTrafficPoints: jest.fn(),
+  },
+  alertEngine: { onAlertEvent: jest.fn(), offAlertEvent: jest.fn() },
+  syslogReceiver: { onMessage: jest.fn(), offMessage: jest.fn() },
+  notificationService: { onWebPush: jest.fn(), offWebPush: jest.fn() },
+}));
+
+/**
+ * 记录写入内容的推送目标
+ */
+function createSink(): RealtimeSink & { messages: RealtimeMessage[] } {
+  const messages: RealtimeMessage[] = [];
+  const sink = {
+    messages,
+    write: jest.fn((chunk: string) => {
+      if (chunk.startsWith('data: ')) {
+        messages.push(JSON.parse(chunk.slice(6)));
+      }
+      return true;
+    }),
+    end: jest.fn(),
+  };
+  return sink as unknown as RealtimeSink & { messages: RealtimeMessage[] };
+}
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+
+  beforeEach(() => {
+    service = new RealtimeService();
+  });
+
+  it('should send ready message on subscribe', () => {
+    const sink = createSink();
+    service.subscribe(sink, ['traffic'], 'default');
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].topic).toBe('ready');
+    expect(sink.messages[0].data).toEqual({ topics: ['traffic'] });
+  });
+
+  it('should only deliver subscribed topics', () => {
+    const trafficSink = createSink();
+    const alertSink = createSink();
+    service.subscribe(trafficSink, ['traffic'], 'default');
+    service.subscribe(alertSink, ['alerts'], 'default');
+
+    service.publish('traffic', { ether1: { timestamp: 1, rxRate: 10, txRate: 20 } });
+
+    expect(trafficSink.messages.map((m) => m.topic)).toEqual(['ready', 'traffic']);
+    expect(alertSink.messages.map((m) => m.topic)).toEqual(['ready']);
+  });
+
+  it('should filter device-scoped messages by device', () => {
+    const defaultSink = createSink();
+    const otherSink = createSink();
+    service.subscribe(defaultSink, ['connection'], 'default');
+    service.subscribe(otherSink, ['connection'], 'router-2');
+
+    service.publish('connection', { connected: false }, 'router-2');
+
+    expect(defaultSink.messages).toHaveLength(1);
+    expect(otherSink.messages).toHaveLength(2);
+    expect(otherSink.messages[1].data).toEqual({ connected: false });
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const sink = createSink();
+    const id = service.subscribe(sink, ['syslog'], 'default');
+    service.unsubscribe(id);
+
+    service.publish('syslog', { message: 'test' });
+
+    expect(sink.messages).toHaveLength(1);
+    expect(service.getClientCount()).toBe(0);
+  });
+
+  it('should remove client when write fails', () => {
+    const sink = createSink();
+    service.subscribe(sink, ['alerts'], 'default');
+    (sink.write as jest.Mock).mockImplementation(() => {
+      throw new Error('socket closed');
+    });
+
+    service.publish('alerts', { action: 'triggered' });
+
+    expect(service.getClientCount()).toBe(0);
+  });
+});
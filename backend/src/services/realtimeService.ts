@@ -0,0 +1,256 @@
+/**
+ * Realtime Service
+ * 通过 SSE（Server-Sent Events）向前端推送实时数据，替代轮询
+ *
+ * - 每个客户端订阅一组主题，只接收所订阅主题的消息
+ * - connection、resource 主题按客户端所选设备过滤，其余主题来自默认设备的后台服务
+ * - resource 主题由本服务定期读取 /system/resource，每台设备只读取一次再分发给所有订阅者
+ * - 定期发送注释行心跳，防止代理或浏览器因空闲断开连接
+ */
+
+import { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  RealtimeMessage,
+  RealtimeTopic,
+  ConnectionStatus,
+  AlertEvent,
+  SyslogEvent,
+  SystemMetrics,
+  InterfaceMetrics,
+} from '../types';
+import { metricsCollector, alertEngine, syslogReceiver, notificationService } from './ai-ops';
+import { TrafficRatePoint } from './ai-ops/metricsCollector';
+import { WebPushNotification } from './ai-ops/notificationService';
+import { routerosClientPool, getRouterOSClient } from './routerosClientPool';
+import { logger } from '../utils/logger';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RESOURCE_INTERVAL_MS = 5000;
+const RESOURCE_PATH = '/system/resource';
+
+/**
+ * 推送目标（Express Response 满足此接口）
+ */
+export type RealtimeSink = Pick<Response, 'write' | 'end'>;
+
+interface RealtimeClient {
+  id: string;
+  deviceId: string;
+  topics: Set<RealtimeTopic>;
+  sink: RealtimeSink;
+}
+
+export class RealtimeService {
+  private clients: Map<string, RealtimeClient> = new Map();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private resourceTimer: NodeJS.Timeout | null = null;
+  private sampling = false;
+  private started = false;
+
+  private readonly handleMetrics = (metrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] }): void => {
+    this.publish('metrics', metrics);
+  };
+
+  private readonly handleTrafficPoints = (points: Record<string, TrafficRatePoint>): void => {
+    this.publish('traffic', points);
+  };
+
+  private readonly handleAlertEvent = (event: AlertEvent, action: 'triggered' | 'resolved'): void => {
+    this.publish('alerts', { action, event });
+  };
+
+  private readonly handleSyslogEvent = (event: SyslogEvent): void => {
+    this.publish('syslog', event);
+  };
+
+  private readonly handleStateChange = (deviceId: string, status: ConnectionStatus): void => {
+    this.publish('connection', status, deviceId);
+  };
+
+  private readonly handleWebPush = (channelId: string, notification: WebPushNotification): void => {
+    this.publish('notifications', { channelId, notification });
+  };
+
+  /**
+   * 注册各服务的事件处理器并启动心跳
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    metricsCollector.onMetrics(this.handleMetrics);
+    metricsCollector.onTrafficPoints(this.handleTrafficPoints);
+    alertEngine.onAlertEvent(this.handleAlertEvent);
+    syslogReceiver.onMessage(this.handleSyslogEvent);
+    routerosClientPool.onStateChange(this.handleStateChange);
+    notificationService.onWebPush(this.handleWebPush);
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+    this.resourceTimer = setInterval(() => this.sampleResources(), RESOURCE_INTERVAL_MS);
+    this.resourceTimer.unref();
+
+    logger.info('RealtimeService started');
+  }
+
+  /**
+   * 移除事件处理器并关闭所有客户端连接
+   */
+  stop(): void {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+
+    metricsCollector.offMetrics(this.handleMetrics);
+    metricsCollector.offTrafficPoints(this.handleTrafficPoints);
+    alertEngine.offAlertEvent(this.handleAlertEvent);
+    syslogReceiver.offMessage(this.handleSyslogEvent);
+    routerosClientPool.offStateChange(this.handleStateChange);
+    notificationService.offWebPush(this.handleWebPush);
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.resourceTimer) {
+      clearInterval(this.resourceTimer);
+      this.resourceTimer = null;
+    }
+
+    for (const client of this.clients.values()) {
+      try {
+        client.sink.end();
+      } catch {
+        // 连接可能已关闭
+      }
+    }
+    this.clients.clear();
+
+    logger.info('RealtimeService stopped');
+  }
+
+  /**
+   * 添加订阅客户端，返回客户端 ID
+   * @param sink 推送目标
+   * @param topics 订阅的主题
+   * @param deviceId 客户端所选设备（用于过滤 connection 主题）
+   */
+  subscribe(sink: RealtimeSink, topics: RealtimeTopic[], deviceId: string): string {
+    const client: RealtimeClient = { id: uuidv4(), deviceId, topics: new Set(topics), sink };
+    this.clients.set(client.id, client);
+    logger.debug(`Realtime client subscribed: ${client.id}, topics: ${topics.join(',')}, total: ${this.clients.size}`);
+
+    this.send(client, { topic: 'ready', data: { topics }, timestamp: Date.now() });
+    return client.id;
+  }
+
+  /**
+   * 移除订阅客户端
+   */
+  unsubscribe(id: string): void {
+    if (this.clients.delete(id)) {
+      logger.debug(`Realtime client unsubscribed: ${id}, total: ${this.clients.size}`);
+    }
+  }
+
+  /**
+   * 向订阅了指定主题的客户端推送数据
+   * @param deviceId 指定时只推送给选择了该设备的客户端
+   */
+  publish<T>(topic: RealtimeTopic, data: T, deviceId?: string): void {
+    const message: RealtimeMessage<T> = { topic, data, timestamp: Date.now() };
+
+    for (const client of this.clients.values()) {
+      if (!client.topics.has(topic)) continue;
+      if (deviceId && client.deviceId !== deviceId) continue;
+      this.send(client, message);
+    }
+  }
+
+  /**
+   * 向单个客户端推送数据（用于订阅时下发当前状态）
+   */
+  sendTo<T>(id: string, topic: RealtimeTopic, data: T): void {
+    const client = this.clients.get(id);
+    if (client && client.topics.has(topic)) {
+      this.send(client, { topic, data, timestamp: Date.now() });
+    }
+  }
+
+  /**
+   * 获取当前连接的客户端数量
+   */
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * 读取订阅了 resource 主题的各设备的系统资源并推送
+   */
+  private async sampleResources(): Promise<void> {
+    if (this.sampling) {
+      return;
+    }
+
+    const deviceIds = new Set<string>();
+    for (const client of this.clients.values()) {
+      if (client.topics.has('resource')) {
+        deviceIds.add(client.deviceId);
+      }
+    }
+    if (deviceIds.size === 0) {
+      return;
+    }
+
+    this.sampling = true;
+    try {
+      for (const deviceId of deviceIds) {
+        if (!routerosClientPool.isConnected(deviceId)) continue;
+        try {
+          const resources = await routerosClientPool.runWithDevice(deviceId, () =>
+            getRouterOSClient().print<Record<string, string>>(RESOURCE_PATH)
+          );
+          if (resources && resources.length > 0) {
+            this.publish('resource', resources[0], deviceId);
+          }
+        } catch (error) {
+          logger.debug(`Failed to sample system resource for device ${deviceId}:`, error);
+        }
+      }
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * 写入 SSE 消息，写入失败时移除客户端
+   */
+  private send(client: RealtimeClient, message: RealtimeMessage): void {
+    try {
+      client.sink.write(`data: ${JSON.stringify(message)}\n\n`);
+    } catch (error) {
+      logger.warn(`Failed to write realtime message to client ${client.id}:`, error);
+      this.unsubscribe(client.id);
+    }
+  }
+
+  /**
+   * 向所有客户端发送心跳注释行
+   */
+  private heartbeat(): void {
+    for (const client of this.clients.values()) {
+      try {
+        client.sink.write(': ping\n\n');
+      } catch {
+        this.unsubscribe(client.id);
+      }
+    }
+  }
+}
+
+// 导出单例实例
+export const realtimeService = new RealtimeService();
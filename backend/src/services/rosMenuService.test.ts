@@ -0,0 +1,181 @@
+/**
+ * 通用菜单浏览器测试
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { routerosClient } from './routerosClient';
+import { MockRouterOSServer } from './mockRouterOS';
+import { getMenuAllowlist, isAdminOnlyMenu, isMenuAllowed, parseMenuTarget } from './rosMenuService';
+import { UserRole } from '../types';
+import rosRoutes from '../routes/rosRoutes';
+
+describe('rosMenuService', () => {
+  afterEach(() => {
+    delete process.env.ROS_MENU_ALLOWLIST;
+  });
+
+  it('should parse menus, items and item actions', () => {
+    expect(parseMenuTarget('ip/dns')).toEqual({ path: '/ip/dns' });
+    expect(parseMenuTarget('/queue/simple/*1A')).toEqual({ path: '/queue/simple', id: '*1A' });
+    expect(parseMenuTarget('queue/simple/*1A/disable')).toEqual({ path: '/queue/simple', id: '*1A', action: 'disable' });
+    // enable 不跟在条目 ID 后时是菜单名的一部分
+    expect(parseMenuTarget('ip/service/enable')).toEqual({ path: '/ip/service/enable' });
+  });
+
+  it('should reject malformed paths', () => {
+    expect(() => parseMenuTarget('')).toThrow();
+    expect(() => parseMenuTarget('*1')).toThrow();
+    expect(() => parseMenuTarget('ip/address print')).toThrow();
+    expect(() => parseMenuTarget('ip/../user')).toThrow();
+  });
+
+  it('should match allowlist entries and their submenus', () => {
+    const allowlist = ['/ip/firewall', '/queue'];
+    expect(isMenuAllowed('/ip/firewall/filter', allowlist)).toBe(true);
+    expect(isMenuAllowed('/queue', allowlist)).toBe(true);
+    expect(isMenuAllowed('/ip/firewall-extra', allowlist)).toBe(false);
+    expect(isMenuAllowed('/user', allowlist)).toBe(false);
+  });
+
+  it('should keep script menus out of the default allowlist and require admin to change them', () => {
+    expect(isMenuAllowed('/system/script')).toBe(false);
+    expect(isMenuAllowed('/system/scheduler')).toBe(false);
+    expect(isAdminOnlyMenu('/system/script')).toBe(true);
+    expect(isAdminOnlyMenu('/ip/dhcp-server/lease')).toBe(true);
+    expect(isAdminOnlyMenu('/interface/vrrp')).toBe(true);
+    expect(isAdminOnlyMenu('/ip/hotspot/user/profile')).toBe(true);
+    expect(isAdminOnlyMenu('/ipv6/dhcp-client')).toBe(true);
+    expect(isAdminOnlyMenu('/ip/pool')).toBe(false);
+  });
+
+  it('should read the allowlist from ROS_MENU_ALLOWLIST', () => {
+    process.env.ROS_MENU_ALLOWLIST = ' /queue/ , ip/dns,';
+    expect(getMenuAllowlist()).toEqual(['/queue', '/ip/dns']);
+  });
+});
+
+describe('rosRoutes', () => {
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+    app = express();
+    app.use(express.json());
+    app.use('/api/ros', rosRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should print, add, set, disable and remove items of any allowed menu', async () => {
+    const leases = await request(app).get('/api/ros/ip/dhcp-server/lease').query({ 'host-name': 'nas' });
+    expect(leases.body.data).toEqual([expect.objectContaining({ address: '192.168.88.253' })]);
+
+    const created = await request(app).post('/api/ros/ip/pool').send({ name: 'guest', ranges: '10.10.0.10-10.10.0.200' });
+    expect(created.status).toBe(201);
+    const id = created.body.data['.id'];
+
+    const updated = await request(app).patch(`/api/ros/ip/pool/${id}`).send({ comment: 'guest wifi', '.id': '*0' });
+    expect(updated.body.data).toEqual(expect.objectContaining({ '.id': id, comment: 'guest wifi' }));
+
+    const disabled = await request(app).post(`/api/ros/interface/bridge/port/${server.state.getRecords('/interface/bridge/port')[0]['.id']}/disable`);
+    expect(disabled.body.data.disabled).toBe('true');
+
+    expect((await request(app).delete(`/api/ros/ip/pool/${id}`)).body.success).toBe(true);
+    expect(server.state.getRecords('/ip/pool')).toHaveLength(1);
+  });
+
+  it('should update singleton menus', async () => {
+    const response = await request(app).patch('/api/ros/ip/dns').send({ servers: '1.1.1.1' });
+    expect(response.body.data).toEqual(expect.objectContaining({ servers: '1.1.1.1' }));
+    expect(server.state.getRecords('/ip/dns')[0].servers).toBe('1.1.1.1');
+  });
+
+  it('should reject menus outside the allowlist and invalid requests', async () => {
+    expect((await request(app).get('/api/ros/user')).status).toBe(403);
+    expect((await request(app).post('/api/ros/system/reboot').send({})).status).toBe(403);
+    expect((await request(app).get('/api/ros/ip/address%20print')).status).toBe(400);
+    expect((await request(app).delete('/api/ros/ip/pool')).status).toBe(400);
+    expect((await request(app).post('/api/ros/ip/pool').send({ name: { nested: true } })).status).toBe(400);
+  });
+});
+
+describe('rosRoutes permissions', () => {
+  let server: MockRouterOSServer;
+  let role: UserRole;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+    process.env.ROS_MENU_ALLOWLIST = '/ip,/ipv6,/interface,/system/script,/system/scheduler';
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = { id: 'u1', username: 'tester', role, createdAt: 0, updatedAt: 0 };
+      next();
+    });
+    app.use('/api/ros', rosRoutes);
+  });
+
+  afterEach(async () => {
+    delete process.env.ROS_MENU_ALLOWLIST;
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should only let admins change script and scheduler menus', async () => {
+    role = 'operator';
+    const scriptId = server.state.getRecords('/system/script')[0]['.id'];
+    const scripts = server.state.getRecords('/system/script').length;
+
+    expect((await request(app).get('/api/ros/system/script')).status).toBe(200);
+    expect((await request(app).post('/api/ros/system/script').send({ name: 'x', source: '/system reboot' })).status).toBe(403);
+    expect((await request(app).patch(`/api/ros/system/script/${scriptId}`).send({ source: '/system reboot' })).status).toBe(403);
+    expect((await request(app).post('/api/ros/system/scheduler').send({ name: 'x', 'on-event': 'x' })).status).toBe(403);
+    expect((await request(app).delete(`/api/ros/system/script/${scriptId}`)).status).toBe(403);
+    expect((await request(app).post('/api/ros/ip/pool').send({ name: 'guest', ranges: '10.10.0.10-10.10.0.20' })).status).toBe(201);
+    expect(server.state.getRecords('/system/script')).toHaveLength(scripts);
+
+    role = 'admin';
+    expect((await request(app).patch(`/api/ros/system/script/${scriptId}`).send({ comment: 'reviewed' })).status).toBe(200);
+  });
+
+  it('should require admin to change menus whose properties run scripts', async () => {
+    role = 'operator';
+
+    expect((await request(app).post('/api/ros/interface/vrrp').send({ name: 'vrrp1', 'on-master': 'x' })).status).toBe(403);
+    expect((await request(app).post('/api/ros/ip/hotspot/user/profile').send({ name: 'p', 'on-login': 'x' })).status).toBe(403);
+    expect((await request(app).post('/api/ros/ipv6/dhcp-client').send({ interface: 'ether1', script: 'x' })).status).toBe(403);
+    expect(server.state.getRecords('/ipv6/dhcp-client')).toEqual([]);
+  });
+
+  it('should hide secrets from non-admins and reject filtering by them', async () => {
+    const created = await routerosClient.add<Record<string, string>>('/interface/l2tp-client', {
+      name: 'vpn',
+      user: 'branch',
+      password: 'hunter2',
+    });
+
+    for (const current of ['viewer', 'operator'] as UserRole[]) {
+      role = current;
+      const list = await request(app).get('/api/ros/interface/l2tp-client');
+      expect(list.body.data).toEqual([expect.objectContaining({ user: 'branch', password: '***' })]);
+      const item = await request(app).get(`/api/ros/interface/l2tp-client/${created['.id']}`);
+      expect(item.body.data.password).toBe('***');
+      expect((await request(app).get('/api/ros/interface/l2tp-client?password=hunter2')).status).toBe(403);
+    }
+
+    role = 'admin';
+    const list = await request(app).get('/api/ros/interface/l2tp-client?password=hunter2');
+    expect(list.body.data).toEqual([expect.objectContaining({ password: 'hunter2' })]);
+  });
+});
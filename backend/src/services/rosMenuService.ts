@@ -0,0 +1,131 @@
+/**
+ * RouterOS Menu Service
+ * 通用菜单浏览器（/api/ros/*）的路径解析和允许列表
+ *
+ * - 请求路径 /ip/dns、/queue/simple/*1A、/queue/simple/*1A/disable 分别解析为菜单、条目和条目操作
+ * - 只允许访问允许列表中的菜单及其子菜单，列表可通过 ROS_MENU_ALLOWLIST 环境变量
+ *   （逗号分隔）覆盖默认值
+ */
+
+/**
+ * 默认允许的菜单（包含其子菜单）
+ * 不包含用户、文件、软件包、脚本、计划任务和设备操作等高风险菜单
+ */
+export const DEFAULT_MENU_ALLOWLIST = [
+  '/interface',
+  '/ip',
+  '/ipv6',
+  '/routing',
+  '/queue',
+  '/ppp',
+  '/certificate',
+  '/snmp',
+  '/container',
+  '/system/identity',
+  '/system/clock',
+  '/system/ntp',
+  '/system/logging',
+  '/system/note',
+  '/tool/graphing',
+  '/tool/romon',
+];
+
+/**
+ * 修改时需要 admin 的菜单（包含其子菜单）
+ * 这些菜单的属性中可以写入在路由器上执行的脚本（source、on-event、up-script、lease-script、
+ * on-master、on-login、script 等），
+ * 或可以管理用户和文件、重置配置；即使通过 ROS_MENU_ALLOWLIST 放开，operator 也只能读取
+ */
+export const ADMIN_ONLY_MENUS = [
+  '/system/script',
+  '/system/scheduler',
+  '/system/reset-configuration',
+  '/system/package',
+  '/tool/netwatch',
+  '/tool/traffic-monitor',
+  '/ppp/profile',
+  '/interface/vrrp',
+  '/ip/dhcp-server',
+  '/ip/dhcp-client',
+  '/ip/hotspot/user/profile',
+  '/ipv6/dhcp-client',
+  '/user',
+  '/file',
+];
+
+/**
+ * 条目操作
+ */
+export type MenuItemAction = 'enable' | 'disable';
+
+/**
+ * 解析后的菜单请求
+ */
+export interface MenuTarget {
+  path: string;
+  id?: string;
+  action?: MenuItemAction;
+}
+
+const SEGMENT_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const ID_PATTERN = /^\*[0-9A-Fa-f]+$/;
+const ITEM_ACTIONS: MenuItemAction[] = ['enable', 'disable'];
+
+/**
+ * 规范化菜单路径：去除多余的斜杠和首尾空白，统一为 /a/b 形式
+ */
+export function normalizeMenuPath(path: string): string {
+  const segments = path.split('/').map((segment) => segment.trim()).filter(Boolean);
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * 读取允许列表
+ */
+export function getMenuAllowlist(): string[] {
+  const configured = process.env.ROS_MENU_ALLOWLIST;
+  const entries = configured ? configured.split(',') : DEFAULT_MENU_ALLOWLIST;
+  return entries.map(normalizeMenuPath).filter((entry) => entry !== '/');
+}
+
+/**
+ * 检查菜单是否在允许列表中（等于某一项或是其子菜单）
+ */
+export function isMenuAllowed(path: string, allowlist: string[] = getMenuAllowlist()): boolean {
+  return allowlist.some((entry) => path === entry || path.startsWith(`${entry}/`));
+}
+
+/**
+ * 检查修改菜单是否需要 admin
+ */
+export function isAdminOnlyMenu(path: string): boolean {
+  return isMenuAllowed(path, ADMIN_ONLY_MENUS);
+}
+
+/**
+ * 解析请求路径
+ * @throws Error 路径格式无效时
+ */
+export function parseMenuTarget(rawPath: string): MenuTarget {
+  const segments = rawPath.split('/').filter(Boolean);
+  let action: MenuItemAction | undefined;
+  let id: string | undefined;
+
+  const last = segments[segments.length - 1];
+  if (ITEM_ACTIONS.includes(last as MenuItemAction) && ID_PATTERN.test(segments[segments.length - 2] || '')) {
+    action = segments.pop() as MenuItemAction;
+  }
+  if (ID_PATTERN.test(segments[segments.length - 1] || '')) {
+    id = segments.pop();
+  }
+
+  if (segments.length === 0) {
+    throw new Error('缺少菜单路径');
+  }
+  const invalid = segments.find((segment) => !SEGMENT_PATTERN.test(segment));
+  if (invalid) {
+    throw new Error(`无效的菜单路径: ${invalid}`);
+  }
+
+  return { path: `/${segments.join('/')}`, id, action };
+}
@@ -0,0 +1,159 @@
+/**
+ * RouterOSClient 自动重连测试
+ *
+ * 使用模拟的 node-routeros 连接，验证意外断开后的指数退避重连、
+ * 状态事件以及手动断开后停止重连
+ */
+
+import { EventEmitter } from 'events';
+import { RouterOSClient } from './routerosClient';
+import { ConnectionStatus, RouterOSConfig } from '../types';
+
+// 模拟连接实例，connectResults 控制每次 connect() 的结果
+const mockInstances: MockRouterOSAPI[] = [];
+const connectResults: boolean[] = [];
+
+class MockRouterOSAPI extends EventEmitter {
+  connected = false;
+
+  constructor() {
+    super();
+    mockInstances.push(this);
+  }
+
+  async connect(): Promise<void> {
+    const ok = connectResults.length > 0 ? connectResults.shift() : true;
+    if (!ok) {
+      throw new Error('connect ECONNREFUSED');
+    }
+    this.connected = true;
+  }
+
+  async write(): Promise<unknown[]> {
+    return [{}];
+  }
+
+  close(): void {
+    this.connected = false;
+  }
+}
+
+jest.mock('node-routeros', () => ({
+  RouterOSAPI: jest.fn().mockImplementation(() => new MockRouterOSAPI()),
+  RosException: class RosException extends Error {},
+}));
+
+const config: RouterOSConfig = {
+  host: '192.168.88.1',
+  port: 8728,
+  username: 'admin',
+  password: 'secret',
+  useTLS: false,
+};
+
+/**
+ * 推进定时器并等待重连中的异步操作完成
+ */
+async function advance(ms: number): Promise<void> {
+  jest.advanceTimersByTime(ms);
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('RouterOSClient auto reconnect', () => {
+  let client: RouterOSClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockInstances.length = 0;
+    connectResults.length = 0;
+    client = new RouterOSClient();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('should reconnect with exponential backoff after connection loss', async () => {
+    await client.connect(config);
+    expect(client.getStatus().state).toBe('connected');
+
+    const states: ConnectionStatus[] = [];
+    client.on('stateChange', (status: ConnectionStatus) => states.push(status));
+
+    // 前两次重连失败，第三次成功
+    connectResults.push(false, false, true);
+    mockInstances[0].connected = false;
+    mockInstances[0].emit('close');
+
+    expect(client.getStatus().state).toBe('reconnecting');
+    expect(client.getStatus().retryCount).toBe(1);
+
+    await advance(2000);
+    expect(client.getStatus().state).toBe('reconnecting');
+    expect(client.getStatus().retryCount).toBe(2);
+    expect(client.getStatus().error).toBe('无法连接到 RouterOS，请检查网络和端口');
+
+    // 第二次退避为 4 秒
+    await advance(3999);
+    expect(client.getStatus().retryCount).toBe(2);
+    await advance(1);
+    expect(client.getStatus().retryCount).toBe(3);
+
+    await advance(8000);
+    const status = client.getStatus();
+    expect(status.state).toBe('connected');
+    expect(status.connected).toBe(true);
+    expect(status.retryCount).toBe(0);
+    expect(status.error).toBeUndefined();
+    expect(states.map((s) => s.state)).toEqual([
+      'disconnected',
+      'reconnecting',
+      'reconnecting',
+      'reconnecting',
+      'connected',
+    ]);
+  });
+
+  it('should not reconnect after manual disconnect', async () => {
+    await client.connect(config);
+    await client.disconnect();
+
+    expect(mockInstances[0].listenerCount('close')).toBe(0);
+    await advance(60000);
+    expect(mockInstances).toHaveLength(1);
+    expect(client.getStatus().state).toBe('disconnected');
+  });
+
+  it('should stop pending reconnect when disconnected during backoff', async () => {
+    await client.connect(config);
+    mockInstances[0].emit('close');
+    expect(client.getStatus().state).toBe('reconnecting');
+
+    await client.disconnect();
+    await advance(60000);
+    expect(mockInstances).toHaveLength(1);
+    expect(client.getStatus().state).toBe('disconnected');
+    expect(client.getStatus().nextRetryAt).toBeUndefined();
+  });
+
+  it('should not retry when manual connect fails', async () => {
+    connectResults.push(false);
+    await expect(client.connect(config)).rejects.toThrow('无法连接到 RouterOS');
+
+    await advance(60000);
+    expect(mockInstances).toHaveLength(1);
+    expect(client.getStatus().state).toBe('disconnected');
+  });
+
+  it('should keep retrying in background when initial connect fails', async () => {
+    connectResults.push(false, true);
+    await client.connectInBackground(config);
+    expect(client.getStatus().state).toBe('reconnecting');
+
+    await advance(2000);
+    expect(client.getStatus().state).toBe('connected');
+  });
+});
@@ -1,100 +1,256 @@
 /**
  * RouterOS API Client
- * 使用 node-routeros 库通过 RouterOS API 协议通信
- * 端口 8728 (普通) / 8729 (SSL)
+ * 通过可替换的底层通信（见 routerosTransport）与 RouterOS 交互：
+ * - api: node-routeros 二进制 API 协议，端口 8728 (普通) / 8729 (SSL)
+ * - rest: RouterOS v7 REST 接口，端口 80 (HTTP) / 443 (HTTPS)
+ * 两种协议使用相同的命令格式，控制器无需区分
+ *
+ * 连接意外断开（close/error 或命令执行时发现连接丢失）后，使用最近一次成功连接的
+ * 配置按指数退避自动重连；手动 disconnect() 会停止重连。
+ * 状态变化通过事件通知：
+ * - 'connected' / 'disconnected' / 'reconnecting'：对应状态的进入
+ * - 'stateChange'：任意状态变化，参数为 ConnectionStatus
+ *
+ * 持续输出的命令（monitor-traffic、torch、ping、follow、listen）通过 stream() 执行，
+ * 连接断开时所有进行中的流以错误结束
+ *
+ * 在 configChangeRecorder 上下文中（REST API 修改请求）执行的修改会读取条目修改前后的状态并记录，
+ * 用于审计日志
  */
 
-import { RouterOSAPI, RosException } from 'node-routeros';
-import { RouterOSConfig } from '../types';
+import { EventEmitter } from 'events';
+import { RosException } from 'node-routeros';
+import { RouterOSConfig, ConnectionState, ConnectionStatus } from '../types';
+import { RouterOSTransport, createTransport } from './routerosTransport';
+import { configChangeRecorder, isReadOnlyCommand } from './configChangeRecorder';
+import { RouterOSCommandStream } from './routerosCommandStream';
 import { logger } from '../utils/logger';
 
-export class RouterOSClient {
-  private api: RouterOSAPI | null = null;
+/**
+ * 自动重连退避参数
+ */
+const RECONNECT_INITIAL_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+const RECONNECT_BACKOFF_FACTOR = 2;
+
+export class RouterOSClient extends EventEmitter {
+  private api: RouterOSTransport | null = null;
   private config: RouterOSConfig | null = null;
   private connected: boolean = false;
+  private state: ConnectionState = 'disconnected';
+  private lastError: string | null = null;
+  private lastConnectedAt: Date | null = null;
+  private retryCount = 0;
+  private nextRetryAt: Date | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private streams: Set<RouterOSCommandStream> = new Set();
 
   /**
    * 建立与 RouterOS 的连接
+   * 手动连接失败时不会自动重试
    * @param config 连接配置
    * @returns 连接是否成功
    */
   async connect(config: RouterOSConfig): Promise<boolean> {
+    this.cancelReconnect();
+    this.retryCount = 0;
+    this.setState('connecting');
+
     try {
-      // 如果已有连接，先断开
-      if (this.api) {
-        try {
-          this.api.close();
-        } catch {
-          // 忽略
-        }
-      }
+      await this.establish(config);
+      return true;
+    } catch (error) {
+      this.config = null;
+      const errorMessage = this.parseError(error);
+      this.lastError = errorMessage;
+      this.setState('disconnected');
+      logger.error(`Failed to connect to RouterOS: ${errorMessage}`);
+      throw new Error(errorMessage);
+    }
+  }
 
-      // 创建 RouterOS API 客户端 - 不设置 timeout，使用网络自然超时
-      this.api = new RouterOSAPI({
-        host: config.host,
-        port: config.port,
-        user: config.username,
-        password: config.password,
-        tls: config.useTLS ? {
-          rejectUnauthorized: false,
-        } : undefined,
-        keepalive: true,
-      });
-
-      // 监听连接关闭事件
-      this.api.on('close', () => {
-        logger.warn('RouterOS connection closed');
-        this.connected = false;
-      });
-
-      this.api.on('error', (err) => {
-        logger.error('RouterOS connection error:', err);
-        this.connected = false;
-      });
+  /**
+   * 后台连接：首次连接失败时进入自动重连流程（用于启动时恢复保存的连接）
+   * @param config 连接配置
+   */
+  async connectInBackground(config: RouterOSConfig): Promise<void> {
+    this.cancelReconnect();
+    this.retryCount = 0;
+    this.setState('connecting');
 
+    try {
+      await this.establish(config);
+    } catch (error) {
+      this.config = config;
+      this.lastError = this.parseError(error);
+      logger.warn(`Initial connection to ${config.host} failed: ${this.lastError}`);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * 建立底层连接并做连通性测试，成功后记录配置
+   */
+  private async establish(config: RouterOSConfig): Promise<void> {
+    // 如果已有连接，先断开
+    this.closeApi();
+
+    // 按配置的协议创建底层通信实例
+    const api = createTransport(config);
+    this.api = api;
+
+    // 监听连接关闭事件（忽略已被替换的旧连接）
+    api.on('close', () => {
+      if (this.api !== api) return;
+      logger.warn('RouterOS connection closed');
+      this.handleConnectionLost('连接已关闭');
+    });
+
+    api.on('error', (err: unknown) => {
+      if (this.api !== api) return;
+      logger.error('RouterOS connection error:', err);
+      this.handleConnectionLost(this.parseError(err));
+    });
+
+    try {
       // 建立连接
-      await this.api.connect();
+      await api.connect();
 
       // 测试连接 - 获取系统资源信息
-      const result = await this.api.write('/system/resource/print');
+      const result = await api.write('/system/resource/print', []);
       logger.info('Connection test successful, resources:', result?.length || 0);
-
-      this.config = config;
-      this.connected = true;
-      logger.info(`Connected to RouterOS at ${config.host}:${config.port}`);
-      return true;
     } catch (error) {
       this.connected = false;
-      if (this.api) {
-        try {
-          this.api.close();
-        } catch {
-          // 忽略关闭错误
-        }
-      }
-      this.api = null;
-      this.config = null;
-      
-      const errorMessage = this.parseError(error);
-      logger.error(`Failed to connect to RouterOS: ${errorMessage}`);
-      throw new Error(errorMessage);
+      this.closeApi();
+      throw error;
     }
+
+    this.config = config;
+    this.connected = true;
+    this.retryCount = 0;
+    this.lastError = null;
+    this.lastConnectedAt = new Date();
+    logger.info(`Connected to RouterOS at ${config.host}:${config.port} (${config.protocol || 'api'})`);
+    this.setState('connected');
   }
 
   /**
-   * 断开与 RouterOS 的连接
+   * 关闭并释放底层连接（先移除监听器，避免触发自动重连）
    */
-  async disconnect(): Promise<void> {
-    if (this.api) {
-      try {
-        this.api.close();
-      } catch {
-        // 忽略关闭错误
-      }
-    }
+  private closeApi(): void {
+    const api = this.api;
     this.api = null;
+    if (!api) return;
+
+    for (const stream of this.streams) {
+      stream.fail(new Error('连接已断开'));
+    }
+    this.streams.clear();
+
+    api.removeAllListeners();
+    // 保留空的 error 监听器，防止关闭过程中的错误成为未处理异常
+    api.on('error', () => undefined);
+    try {
+      api.close();
+    } catch {
+      // 忽略关闭错误
+    }
+  }
+
+  /**
+   * 连接意外丢失：记录错误并开始自动重连
+   */
+  private handleConnectionLost(reason: string): void {
+    this.connected = false;
+    this.lastError = reason;
+
+    // 未曾成功连接（无配置）或已在重连中则不重复调度
+    if (!this.config || this.state === 'reconnecting' || this.state === 'connecting') {
+      return;
+    }
+
+    this.closeApi();
+    this.setState('disconnected');
+    this.scheduleReconnect();
+  }
+
+  /**
+   * 按指数退避调度下一次重连
+   */
+  private scheduleReconnect(): void {
+    if (!this.config || this.reconnectTimer) return;
+
+    const delay = Math.min(
+      RECONNECT_INITIAL_DELAY_MS * Math.pow(RECONNECT_BACKOFF_FACTOR, this.retryCount),
+      RECONNECT_MAX_DELAY_MS
+    );
+    this.retryCount++;
+    this.nextRetryAt = new Date(Date.now() + delay);
+    logger.info(`Reconnecting to RouterOS in ${delay}ms (attempt ${this.retryCount})`);
+    this.setState('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.attemptReconnect();
+    }, delay);
+    // 不阻止进程退出
+    this.reconnectTimer.unref?.();
+  }
+
+  /**
+   * 执行一次重连尝试，失败后继续调度
+   */
+  private async attemptReconnect(): Promise<void> {
+    const config = this.config;
+    if (!config) return;
+
+    this.nextRetryAt = null;
+    try {
+      await this.establish(config);
+      logger.info(`Reconnected to RouterOS at ${config.host} after ${this.retryCount} attempt(s)`);
+    } catch (error) {
+      // 重连期间被手动断开
+      if (this.config !== config) return;
+      this.lastError = this.parseError(error);
+      logger.warn(`Reconnect attempt ${this.retryCount} failed: ${this.lastError}`);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * 取消待执行的重连
+   */
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.nextRetryAt = null;
+  }
+
+  /**
+   * 更新状态并触发事件
+   */
+  private setState(state: ConnectionState): void {
+    this.state = state;
+    const status = this.getStatus();
+    if (state === 'connected' || state === 'disconnected' || state === 'reconnecting') {
+      this.emit(state, status);
+    }
+    this.emit('stateChange', status);
+  }
+
+  /**
+   * 断开与 RouterOS 的连接（停止自动重连）
+   */
+  async disconnect(): Promise<void> {
+    this.cancelReconnect();
+    this.closeApi();
     this.config = null;
     this.connected = false;
+    this.retryCount = 0;
+    this.lastError = null;
+    this.setState('disconnected');
     logger.info('Disconnected from RouterOS');
   }
 
@@ -124,6 +280,23 @@ export class RouterOSClient {
     return safeConfig;
   }
 
+  /**
+   * 获取连接状态（含重连信息）
+   */
+  getStatus(): ConnectionStatus {
+    const config = this.getConfig();
+    return {
+      state: this.state,
+      connected: this.isConnected(),
+      host: config?.host,
+      lastConnected: this.lastConnectedAt?.toISOString(),
+      error: this.lastError || undefined,
+      retryCount: this.retryCount,
+      nextRetryAt: this.nextRetryAt?.toISOString(),
+      config: config || undefined,
+    };
+  }
+
   /**
    * 执行 print 命令获取资源列表
    * @param path API 路径，如 /interface
@@ -184,9 +357,9 @@ export class RouterOSClient {
       const errMsg = this.parseError(error);
       logger.error(`Print command failed: ${errMsg}`);
       
-      // 如果是连接断开，更新状态
+      // 如果是连接断开，更新状态并开始自动重连
       if (errMsg.includes('连接') || errMsg.includes('connect') || errMsg.includes('closed') || errMsg.includes('socket')) {
-        this.connected = false;
+        this.handleConnectionLost(errMsg);
       }
       throw new Error(errMsg);
     }
@@ -240,11 +413,18 @@ export class RouterOSClient {
       // 返回新创建的资源
       if (response && Array.isArray(response) && response.length > 0 && response[0].ret) {
         const newId = response[0].ret;
-        const created = await this.getById<T>(path, newId);
+        // 资源已经添加，读取失败时不再抛出错误，返回带 ret 的原始响应，调用方仍可据此删除
+        let created: T | null = null;
+        try {
+          created = await this.getById<T>(path, newId);
+        } catch (error) {
+          logger.warn(`Failed to read added resource ${path} ${newId}:`, error);
+        }
+        this.recordChange({ operation: 'add', path, id: newId, before: null, after: created });
         if (created) return created;
       }
       
-      // 如果没有返回 ID，尝试返回响应
+      // 如果没有返回 ID 或读取新资源失败，返回原始响应
       if (response && Array.isArray(response) && response.length > 0) {
         return response[0] as T;
       }
@@ -267,10 +447,12 @@ export class RouterOSClient {
     try {
       const command = `${path}/set`;
       const params = [`=.id=${id}`, ...this.objectToParams(data)];
+      const before = await this.captureState(path, id);
       await this.api!.write(command, params);
       
       // 返回更新后的资源
       const updated = await this.getById<T>(path, id);
+      this.recordChange({ operation: 'set', path, id, before, after: updated });
       if (!updated) {
         throw new Error('资源不存在或已被删除');
       }
@@ -280,6 +462,26 @@ export class RouterOSClient {
     }
   }
 
+  /**
+   * 更新单例菜单（没有条目 ID 的菜单，如 /ip/dns、/system/identity）
+   * @param path API 路径
+   * @param data 更新数据
+   * @returns 更新后的菜单属性
+   */
+  async setSingleton<T>(path: string, data: Record<string, unknown>): Promise<T> {
+    this.ensureConnected();
+    try {
+      const before = configChangeRecorder.isRecording() ? (await this.print<T>(path))[0] : null;
+      await this.api!.write(`${path}/set`, this.objectToParams(data));
+
+      const [updated] = await this.print<T>(path);
+      this.recordChange({ operation: 'set', path, before, after: updated });
+      return updated ?? ({} as T);
+    } catch (error) {
+      throw new Error(this.parseError(error));
+    }
+  }
+
   /**
    * 删除资源
    * @param path API 路径
@@ -289,7 +491,9 @@ export class RouterOSClient {
     this.ensureConnected();
     try {
       const command = `${path}/remove`;
+      const before = await this.captureState(path, id);
       await this.api!.write(command, [`=.id=${id}`]);
+      this.recordChange({ operation: 'remove', path, id, before, after: null });
     } catch (error) {
       throw new Error(this.parseError(error));
     }
@@ -304,7 +508,9 @@ export class RouterOSClient {
     this.ensureConnected();
     try {
       const command = `${path}/enable`;
+      const before = await this.captureState(path, id);
       await this.api!.write(command, [`=.id=${id}`]);
+      this.recordChange({ operation: 'enable', path, id, before, after: await this.captureState(path, id) });
     } catch (error) {
       throw new Error(this.parseError(error));
     }
@@ -319,7 +525,28 @@ export class RouterOSClient {
     this.ensureConnected();
     try {
       const command = `${path}/disable`;
+      const before = await this.captureState(path, id);
       await this.api!.write(command, [`=.id=${id}`]);
+      this.recordChange({ operation: 'disable', path, id, before, after: await this.captureState(path, id) });
+    } catch (error) {
+      throw new Error(this.parseError(error));
+    }
+  }
+
+  /**
+   * 移动列表条目（防火墙规则等按顺序匹配的菜单）
+   * @param path API 路径
+   * @param id 资源 ID
+   * @param destination 移动到该条目之前，未指定时移动到末尾
+   */
+  async move(path: string, id: string, destination?: string): Promise<void> {
+    this.ensureConnected();
+    try {
+      const command = `${path}/move`;
+      const params = [`=numbers=${id}`, ...(destination ? [`=destination=${destination}`] : [])];
+      const before = await this.captureState(path, id);
+      await this.api!.write(command, params);
+      this.recordChange({ operation: 'move', path, id, destination, before, after: await this.captureState(path, id) });
     } catch (error) {
       throw new Error(this.parseError(error));
     }
@@ -332,7 +559,9 @@ export class RouterOSClient {
   async runScript(id: string): Promise<void> {
     this.ensureConnected();
     try {
-      await this.api!.write('/system/script/run', [`=.id=${id}`]);
+      await this.recordCommand('/system/script/run', [`=.id=${id}`], () =>
+        this.api!.write('/system/script/run', [`=.id=${id}`])
+      );
     } catch (error) {
       throw new Error(this.parseError(error));
     }
@@ -347,7 +576,7 @@ export class RouterOSClient {
     this.ensureConnected();
     try {
       logger.info(`Executing command: ${command}, params: ${JSON.stringify(params)}`);
-      await this.api!.write(command, params);
+      await this.recordCommand(command, params, () => this.api!.write(command, params));
     } catch (error: any) {
       // 处理 RouterOS 返回 !empty 的情况（某些命令成功执行但无返回）
       const errorMessage = error?.message || String(error);
@@ -372,7 +601,7 @@ export class RouterOSClient {
     this.ensureConnected();
     try {
       logger.info(`Executing raw command: ${command}, params: ${JSON.stringify(params)}`);
-      const response = await this.api!.write(command, params);
+      const response = await this.recordCommand(command, params, () => this.api!.write(command, params));
       logger.info(`Raw command response: ${JSON.stringify(response)}`);
       return response;
     } catch (error: any) {
@@ -389,6 +618,31 @@ export class RouterOSClient {
     }
   }
 
+  /**
+   * 执行持续输出的命令
+   * @param command 命令路径，如 /interface/monitor-traffic、/log/print
+   * @param params 命令参数，如 ['=interface=ether1,ether2']、['=follow-only=']
+   * @returns 结果流，使用完毕后需调用 stop()（异步迭代提前退出时自动停止）
+   */
+  stream(command: string, params: string[] = []): RouterOSCommandStream {
+    this.ensureConnected();
+    logger.info(`Starting stream: ${command}, params: ${JSON.stringify(params)}`);
+
+    const stream = new RouterOSCommandStream(command, params);
+    const source = this.api!.stream([command, ...params], (error, packet) => {
+      if (error) {
+        stream.fail(new Error(this.parseError(error)));
+      } else {
+        stream.push(packet);
+      }
+    });
+    stream.attach(source);
+
+    this.streams.add(stream);
+    stream.once('end', () => this.streams.delete(stream));
+    return stream;
+  }
+
   /**
    * 确保已连接
    */
@@ -397,14 +651,79 @@ export class RouterOSClient {
       this.connected = false;
       throw new Error('Not connected to RouterOS');
     }
-    // 额外检查 api.connected
+    // 额外检查 api.connected（底层连接已丢失但未触发 close 事件时开始重连）
+    if (this.api.connected === false) {
+      this.handleConnectionLost('连接已断开');
+      throw new Error('Not connected to RouterOS');
+    }
+  }
+
+  /**
+   * 读取条目当前状态用于变更记录
+   * 仅在记录上下文中读取，读取失败时返回 null，不影响修改本身
+   */
+  private async captureState(path: string, id: string | undefined): Promise<Record<string, unknown> | null> {
+    if (!id || !configChangeRecorder.isRecording()) {
+      return null;
+    }
     try {
-      if (this.api.connected === false) {
-        this.connected = false;
-        throw new Error('Not connected to RouterOS');
+      return await this.getById<Record<string, unknown>>(path, id);
+    } catch (error) {
+      logger.debug(`Failed to capture state of ${path} ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 记录一项配置修改（不在记录上下文中时忽略）
+   */
+  private recordChange(change: {
+    operation: 'add' | 'set' | 'remove' | 'enable' | 'disable' | 'move';
+    path: string;
+    id?: string;
+    destination?: string;
+    before: unknown;
+    after: unknown;
+  }): void {
+    configChangeRecorder.record({
+      ...change,
+      before: (change.before as Record<string, unknown> | null) ?? null,
+      after: (change.after as Record<string, unknown> | null) ?? null,
+    });
+  }
+
+  /**
+   * 执行命令，并在记录上下文中记录修改类命令
+   * 参数带 .id 时读取该条目（命令所在菜单）执行前后的状态
+   */
+  private async recordCommand<T>(command: string, params: string[], run: () => Promise<T>): Promise<T> {
+    if (!configChangeRecorder.isRecording() || isReadOnlyCommand(command)) {
+      return run();
+    }
+
+    const path = command.substring(0, command.lastIndexOf('/')) || '/';
+    const id = params.find((param) => param.startsWith('=.id='))?.substring('=.id='.length);
+    const before = await this.captureState(path, id);
+    let failed = false;
+    try {
+      return await run();
+    } catch (error: any) {
+      // !empty 表示命令已执行但无返回，仍需记录
+      const errorMessage = error?.message || String(error);
+      failed = !(errorMessage.includes('!empty') || errorMessage.includes('UNKNOWNREPLY') || error?.errno === 'UNKNOWNREPLY');
+      throw error;
+    } finally {
+      if (!failed) {
+        configChangeRecorder.record({
+          operation: 'command',
+          path,
+          id,
+          command,
+          params,
+          before,
+          after: await this.captureState(path, id),
+        });
       }
-    } catch {
-      // 忽略属性访问错误
     }
   }
 
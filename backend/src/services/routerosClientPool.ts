@@ -0,0 +1,174 @@
+/**
+ * RouterOS Client Pool
+ * 为设备清单中的每台设备维护独立的 RouterOS 客户端
+ *
+ * - 默认设备（default）使用原有的 routerosClient 单例，保持单设备部署的行为不变
+ * - 请求通过 X-Device-Id 请求头或 /api/devices/:deviceId/... 路径选择目标设备，
+ *   处理过程中 getRouterOSClient() 返回该设备的客户端
+ * - 后台任务（指标采集、调度器等）不在请求上下文中，使用默认设备
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { RouterOSClient, routerosClient } from './routerosClient';
+import { deviceService } from './deviceService';
+import { ConnectionStatus } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * 默认设备 ID（对应 /api/connection 管理的单一连接）
+ */
+export const DEFAULT_DEVICE_ID = 'default';
+
+export class RouterOSClientPool {
+  private clients: Map<string, RouterOSClient> = new Map();
+  private context = new AsyncLocalStorage<string>();
+  private stateChangeHandlers: Array<(deviceId: string, status: ConnectionStatus) => void> = [];
+
+  constructor() {
+    this.watchClient(DEFAULT_DEVICE_ID, routerosClient);
+  }
+
+  /**
+   * 获取指定设备的客户端（不存在时创建，未连接）
+   */
+  get(deviceId: string): RouterOSClient {
+    if (deviceId === DEFAULT_DEVICE_ID) {
+      return routerosClient;
+    }
+
+    let client = this.clients.get(deviceId);
+    if (!client) {
+      client = new RouterOSClient();
+      this.clients.set(deviceId, client);
+      this.watchClient(deviceId, client);
+    }
+    return client;
+  }
+
+  /**
+   * 使用设备清单中保存的配置连接设备
+   */
+  async connect(deviceId: string): Promise<RouterOSClient> {
+    const device = await deviceService.getDeviceById(deviceId);
+    if (!device) {
+      throw new Error(`设备不存在: ${deviceId}`);
+    }
+
+    const client = this.get(deviceId);
+    await client.connect(device.config);
+    logger.info(`Device connected: ${device.name} (${device.config.host})`);
+    return client;
+  }
+
+  /**
+   * 断开设备连接
+   */
+  async disconnect(deviceId: string): Promise<void> {
+    const client = deviceId === DEFAULT_DEVICE_ID ? routerosClient : this.clients.get(deviceId);
+    if (client) {
+      await client.disconnect();
+    }
+  }
+
+  /**
+   * 断开并移除设备客户端（设备被删除时调用）
+   */
+  async remove(deviceId: string): Promise<void> {
+    const client = this.clients.get(deviceId);
+    if (client) {
+      await client.disconnect();
+      client.removeAllListeners('stateChange');
+      this.clients.delete(deviceId);
+    }
+  }
+
+  /**
+   * 检查设备是否已连接
+   */
+  isConnected(deviceId: string): boolean {
+    if (deviceId === DEFAULT_DEVICE_ID) {
+      return routerosClient.isConnected();
+    }
+    return this.clients.get(deviceId)?.isConnected() ?? false;
+  }
+
+  /**
+   * 在指定设备的上下文中执行函数
+   * 函数内（包括其后续异步调用）getRouterOSClient() 返回该设备的客户端
+   */
+  runWithDevice<T>(deviceId: string, fn: () => T): T {
+    return this.context.run(deviceId, fn);
+  }
+
+  /**
+   * 获取当前上下文的设备 ID
+   */
+  getCurrentDeviceId(): string {
+    return this.context.getStore() || DEFAULT_DEVICE_ID;
+  }
+
+  /**
+   * 获取当前上下文的客户端
+   */
+  current(): RouterOSClient {
+    return this.get(this.getCurrentDeviceId());
+  }
+
+  /**
+   * 注册连接状态变化处理器（任意设备）
+   */
+  onStateChange(handler: (deviceId: string, status: ConnectionStatus) => void): void {
+    this.stateChangeHandlers.push(handler);
+  }
+
+  /**
+   * 移除连接状态变化处理器
+   */
+  offStateChange(handler: (deviceId: string, status: ConnectionStatus) => void): void {
+    const index = this.stateChangeHandlers.indexOf(handler);
+    if (index !== -1) {
+      this.stateChangeHandlers.splice(index, 1);
+    }
+  }
+
+  /**
+   * 将客户端的状态变化转发给已注册的处理器
+   */
+  private watchClient(deviceId: string, client: RouterOSClient): void {
+    client.on('stateChange', (status: ConnectionStatus) => {
+      for (const handler of this.stateChangeHandlers) {
+        try {
+          handler(deviceId, { ...status, deviceId });
+        } catch (error) {
+          logger.error('Connection state handler error:', error);
+        }
+      }
+    });
+  }
+
+  /**
+   * 获取已创建客户端的设备 ID（包含默认设备）
+   */
+  getDeviceIds(): string[] {
+    return [DEFAULT_DEVICE_ID, ...this.clients.keys()];
+  }
+
+  /**
+   * 断开所有设备连接（服务停止时调用）
+   */
+  async disconnectAll(): Promise<void> {
+    for (const client of this.clients.values()) {
+      await client.disconnect();
+    }
+  }
+}
+
+// 导出单例实例
+export const routerosClientPool = new RouterOSClientPool();
+
+/**
+ * 获取当前请求所选设备的客户端，未选择设备时返回默认客户端
+ */
+export function getRouterOSClient(): RouterOSClient {
+  return routerosClientPool.current();
+}
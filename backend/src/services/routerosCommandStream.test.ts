@@ -0,0 +1,118 @@
+/**
+ * 持续输出命令测试
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { routerosClient } from './routerosClient';
+import { MockRouterOSServer } from './mockRouterOS';
+import { RouterOSRecord } from './routerosCommandStream';
+import streamRoutes from '../routes/streamRoutes';
+
+describe('RouterOSClient.stream', () => {
+  let server: MockRouterOSServer;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should iterate monitor-traffic samples and cancel when the loop exits', async () => {
+    const stream = routerosClient.stream('/interface/monitor-traffic', ['=interface=ether1,ether2', '=interval=50ms']);
+
+    const batches: RouterOSRecord[][] = [];
+    for await (const records of stream) {
+      batches.push(records);
+      if (batches.length === 3) break;
+    }
+
+    expect(stream.isEnded()).toBe(true);
+    expect(stream.getError()).toBeNull();
+    for (const records of batches) {
+      expect(records.map((record) => record.name)).toEqual(['ether1', 'ether2']);
+      expect(records[0]).toHaveProperty('rx-bits-per-second');
+    }
+
+    // 取消后连接仍可正常使用
+    const identity = await routerosClient.print('/system/identity');
+    expect(identity).toHaveLength(1);
+  });
+
+  it('should end when the command finishes', async () => {
+    const stream = routerosClient.stream('/ping', ['=address=192.168.88.1', '=count=3', '=interval=20ms']);
+    const replies: RouterOSRecord[] = [];
+    stream.on('data', (records: RouterOSRecord[]) => replies.push(...records));
+
+    const error = await new Promise((resolve) => stream.once('end', resolve));
+    expect(error).toBeNull();
+    expect(replies.map((reply) => reply.seq)).toEqual(['0', '1', '2']);
+  });
+
+  it('should throw command errors from the iterator', async () => {
+    const stream = routerosClient.stream('/interface/monitor-traffic', ['=interface=ether9']);
+    const iterate = async () => {
+      for await (const records of stream) {
+        void records;
+      }
+    };
+    await expect(iterate()).rejects.toThrow('input does not match any value of interface');
+  });
+
+  it('should end active streams with an error on disconnect', async () => {
+    const stream = routerosClient.stream('/log/print', ['=follow-only=']);
+    const ended = new Promise<Error | null>((resolve) => stream.once('end', resolve));
+
+    await routerosClient.disconnect();
+    expect((await ended)?.message).toBe('连接已断开');
+  });
+});
+
+describe('streamRoutes', () => {
+  let server: MockRouterOSServer;
+  let app: express.Express;
+
+  beforeEach(async () => {
+    server = new MockRouterOSServer();
+    const port = await server.start();
+    await routerosClient.connect({ host: '127.0.0.1', port, username: 'admin', password: '', useTLS: false });
+    app = express();
+    // ping 等主动执行的命令需要 operator
+    app.use((req, _res, next) => {
+      req.user = { id: 'u1', username: 'operator', role: 'operator', createdAt: 0, updatedAt: 0 };
+      req.sessionToken = 'session-1';
+      next();
+    });
+    app.use('/api/stream', streamRoutes);
+  });
+
+  afterEach(async () => {
+    await routerosClient.disconnect();
+    await server.stop();
+  });
+
+  it('should push command output as server-sent events', async () => {
+    const response = await request(app)
+      .get('/api/stream/ping')
+      .query({ address: '192.168.88.1', count: '2', interval: '20ms' });
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const messages = response.text
+      .split('\n')
+      .filter((line) => line.startsWith('data: '))
+      .map((line) => JSON.parse(line.substring(6)));
+    expect(messages.map((message) => message.type)).toEqual(['data', 'data', 'end']);
+    expect(messages[1].data[0]).toEqual(expect.objectContaining({ seq: '1', host: '192.168.88.1' }));
+  });
+
+  it('should reject commands that are not streamable', async () => {
+    expect((await request(app).get('/api/stream/system/reboot')).status).toBe(403);
+    expect((await request(app).get('/api/stream/user/listen')).status).toBe(403);
+    expect((await request(app).get('/api/stream/ping').query({ '.proplist': 'time' })).status).toBe(400);
+  });
+});
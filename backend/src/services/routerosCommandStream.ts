@@ -0,0 +1,135 @@
+/**
+ * RouterOS Command Stream
+ * 持续输出命令（/interface/monitor-traffic、/tool/torch、/ping、/log/print follow-only、.../listen）的结果流
+ *
+ * 两种使用方式：
+ * - 事件：'data'（每次收到的一组记录）、'error'（命令出错）、'end'（命令结束、出错或被停止）
+ * - 异步迭代：for await (const records of stream) { ... }，提前退出循环时自动停止命令
+ *
+ * stop() 取消设备上的命令；连接断开时流以错误结束
+ */
+
+import { EventEmitter } from 'events';
+import { RouterOSStream } from './routerosTransport';
+import { logger } from '../utils/logger';
+
+/**
+ * 命令输出的一条记录
+ */
+export type RouterOSRecord = Record<string, string>;
+
+export class RouterOSCommandStream extends EventEmitter {
+  private source: RouterOSStream | null = null;
+  private ended = false;
+  private failure: Error | null = null;
+
+  constructor(
+    readonly command: string,
+    readonly params: string[] = []
+  ) {
+    super();
+  }
+
+  /**
+   * 绑定底层流（由 RouterOSClient 调用），底层流关闭时结束
+   */
+  attach(source: RouterOSStream): void {
+    this.source = source;
+    source.once('close', () => this.finish());
+  }
+
+  /**
+   * 收到命令输出
+   */
+  push(packet: RouterOSRecord | RouterOSRecord[] | undefined): void {
+    if (this.ended || !packet) return;
+    const records = Array.isArray(packet) ? packet : [packet];
+    // 部分实现在无新数据时推送空记录，忽略
+    if (records.length === 0) return;
+    this.emit('data', records);
+  }
+
+  /**
+   * 以错误结束（命令出错或连接断开）
+   */
+  fail(error: Error): void {
+    if (this.ended) return;
+    this.failure = error;
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+    this.stop().catch(() => undefined);
+  }
+
+  /**
+   * 停止命令
+   */
+  async stop(): Promise<void> {
+    if (this.ended) return;
+    const source = this.source;
+    this.finish();
+    if (source) {
+      try {
+        await source.stop();
+      } catch (error) {
+        logger.debug(`Failed to cancel stream ${this.command}:`, error);
+      }
+    }
+  }
+
+  /**
+   * 是否已结束
+   */
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * 结束原因（正常结束或被停止时为 null）
+   */
+  getError(): Error | null {
+    return this.failure;
+  }
+
+  /**
+   * 异步迭代每次收到的一组记录，命令出错时抛出错误
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<RouterOSRecord[]> {
+    const queue: RouterOSRecord[][] = [];
+    let wake: (() => void) | null = null;
+    const onData = (records: RouterOSRecord[]) => {
+      queue.push(records);
+      wake?.();
+    };
+    const onEnd = () => wake?.();
+    this.on('data', onData);
+    this.on('end', onEnd);
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift() as RouterOSRecord[];
+          continue;
+        }
+        if (this.ended) {
+          if (this.failure) throw this.failure;
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    } finally {
+      this.off('data', onData);
+      this.off('end', onEnd);
+      await this.stop();
+    }
+  }
+
+  private finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.emit('end', this.failure);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * RouterOS REST 通信测试
+ *
+ * 使用本地 HTTP 服务模拟 RouterOS v7 /rest 接口，验证 API 语句到 REST 请求的转换，
+ * 以及 RouterOSClient 通过 REST 协议执行增删改查
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RestTransport, getDefaultPort } from './routerosTransport';
+import { RouterOSClient } from './routerosClient';
+import { RouterOSConfig } from '../types';
+
+interface AddressItem {
+  '.id': string;
+  address: string;
+  interface: string;
+  disabled: string;
+}
+
+/**
+ * 模拟 RouterOS REST 接口（仅实现 /system/identity、/system/resource 和 /ip/address）
+ */
+function createRestStandIn() {
+  const requests: Array<{ method: string; url: string; body: Record<string, unknown> }> = [];
+  let items: AddressItem[] = [];
+  let nextId = 1;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+      requests.push({ method: req.method || '', url: req.url || '', body });
+
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      const expected = 'Basic ' + Buffer.from('admin:secret').toString('base64');
+      if (req.headers.authorization !== expected) {
+        send(401, { error: 401, message: 'Unauthorized' });
+        return;
+      }
+
+      const matches = (item: AddressItem) =>
+        ((body['.query'] as string[] | undefined) || []).every((q) => {
+          const [key, value] = q.split('=');
+          return item[key as keyof AddressItem] === value;
+        });
+
+      switch (`${req.method} ${req.url}`) {
+        case 'GET /rest/system/identity':
+          send(200, { name: 'stand-in' });
+          return;
+        case 'POST /rest/system/resource/print':
+          send(200, [{ 'cpu-load': '1', version: '7.15' }]);
+          return;
+        case 'POST /rest/ip/address/print':
+          send(200, items.filter(matches));
+          return;
+        case 'POST /rest/ip/address/add': {
+          const item: AddressItem = {
+            '.id': `*${nextId++}`,
+            address: String(body.address),
+            interface: String(body.interface),
+            disabled: 'false',
+          };
+          items.push(item);
+          send(200, { ret: item['.id'] });
+          return;
+        }
+        case 'POST /rest/ip/address/set': {
+          const item = items.find((i) => i['.id'] === body['.id']);
+          if (!item) {
+            send(400, { error: 400, message: 'Bad Request', detail: 'no such item' });
+            return;
+          }
+          Object.assign(item, body);
+          send(200, []);
+          return;
+        }
+        case 'POST /rest/ip/address/remove':
+          items = items.filter((i) => i['.id'] !== body['.id']);
+          send(200, []);
+          return;
+        default:
+          send(400, { error: 400, message: 'Bad Request', detail: 'no such command or directory' });
+      }
+    });
+  });
+
+  return { server, requests };
+}
+
+describe('RestTransport', () => {
+  it('should convert API parameters to REST request body', () => {
+    expect(
+      RestTransport.toRequestBody(['=address=10.0.0.1/24', '=.proplist=.id,address', '?interface=ether1', '?disabled=false'])
+    ).toEqual({
+      address: '10.0.0.1/24',
+      '.proplist': ['.id', 'address'],
+      '.query': ['interface=ether1', 'disabled=false'],
+    });
+    expect(RestTransport.toRequestBody(['=comment=a=b'])).toEqual({ comment: 'a=b' });
+  });
+
+  it('should use protocol specific default ports', () => {
+    expect(getDefaultPort('api', false)).toBe(8728);
+    expect(getDefaultPort('api', true)).toBe(8729);
+    expect(getDefaultPort('rest', false)).toBe(80);
+    expect(getDefaultPort('rest', true)).toBe(443);
+  });
+});
+
+describe('RouterOSClient over REST', () => {
+  const standIn = createRestStandIn();
+  let config: RouterOSConfig;
+  let client: RouterOSClient;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+    config = {
+      host: '127.0.0.1',
+      port: (standIn.server.address() as AddressInfo).port,
+      username: 'admin',
+      password: 'secret',
+      useTLS: false,
+      protocol: 'rest',
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    client = new RouterOSClient();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+  });
+
+  it('should connect and run CRUD commands', async () => {
+    await client.connect(config);
+    expect(client.isConnected()).toBe(true);
+    expect(client.getStatus().config?.protocol).toBe('rest');
+
+    const created = await client.add<AddressItem>('/ip/address', { address: '10.0.0.1/24', interface: 'ether1' });
+    expect(created).toEqual({ '.id': '*1', address: '10.0.0.1/24', interface: 'ether1', disabled: 'false' });
+
+    const updated = await client.set<AddressItem>('/ip/address', '*1', { disabled: 'true' });
+    expect(updated.disabled).toBe('true');
+
+    expect(await client.print<AddressItem>('/ip/address', { interface: 'ether1' })).toHaveLength(1);
+    expect(await client.print<AddressItem>('/ip/address', { interface: 'ether2' })).toHaveLength(0);
+
+    await client.remove('/ip/address', '*1');
+    expect(await client.getById('/ip/address', '*1')).toBeNull();
+
+    const last = standIn.requests[standIn.requests.length - 1];
+    expect(last).toEqual({ method: 'POST', url: '/rest/ip/address/print', body: { '.query': ['.id=*1'] } });
+  });
+
+  it('should report REST error details', async () => {
+    await client.connect(config);
+    await expect(client.set('/ip/address', '*99', { disabled: 'true' })).rejects.toThrow('no such item');
+    await expect(client.executeRaw('/no/such/command')).rejects.toThrow('no such command');
+  });
+
+  it('should reject invalid credentials', async () => {
+    await expect(client.connect({ ...config, password: 'wrong' })).rejects.toThrow('用户名或密码错误');
+    expect(client.isConnected()).toBe(false);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * RouterOS Transport
+ * RouterOSClient 的底层通信抽象，命令统一使用 API 语句格式：
+ * 命令路径（如 /ip/address/print）+ 参数（=key=value 属性、?key=value 查询）
+ *
+ * - api: node-routeros 二进制 API 协议，长连接，连接关闭时触发 close 事件
+ * - rest: RouterOS v7 REST 接口（HTTP(S) + Basic 认证），每条命令转换为
+ *   POST /rest/<命令路径> 请求，属性作为 JSON 字段，查询条件放入 .query
+ *
+ * 持续输出的命令（monitor-traffic、torch、ping、print follow、listen）通过 stream() 执行：
+ * api 协议由设备持续推送；REST 不支持持续输出，按间隔轮询模拟（见 RestTransport.stream）
+ */
+
+import { EventEmitter } from 'events';
+import https from 'https';
+import axios, { AxiosInstance } from 'axios';
+import { RouterOSAPI } from 'node-routeros';
+import { RouterOSConfig, RouterOSProtocol } from '../types';
+
+/**
+ * REST 请求超时时间
+ */
+const REST_TIMEOUT_MS = 60000;
+
+/**
+ * REST 轮询模拟持续输出时的默认间隔
+ */
+const REST_STREAM_INTERVAL_MS = 1000;
+
+/**
+ * 支持 once 参数（只输出一次）的监视类命令
+ */
+const MONITOR_COMMANDS = ['monitor', 'monitor-traffic', 'torch'];
+
+/**
+ * 命令响应（每条记录为属性键值对）
+ */
+export type RouterOSResponse = Array<Record<string, string>>;
+
+/**
+ * 持续输出命令的回调：每次收到一条记录，或一组带相同 .section 的记录
+ */
+export type RouterOSStreamCallback = (
+  error: Error | null,
+  packet?: Record<string, string> | Array<Record<string, string>>
+) => void;
+
+/**
+ * 持续输出命令的底层流
+ * 命令结束（如 ping 达到 count）或被停止后触发 close 事件
+ */
+export interface RouterOSStream extends EventEmitter {
+  stop(): Promise<void>;
+}
+
+/**
+ * 底层通信接口
+ * node-routeros 的 RouterOSAPI 满足此接口
+ */
+export interface RouterOSTransport extends EventEmitter {
+  connected: boolean;
+  connect(): Promise<unknown>;
+  write(command: string, params: string[]): Promise<RouterOSResponse>;
+  /**
+   * 执行持续输出的命令
+   * @param params 命令路径和参数，如 ['/interface/monitor-traffic', '=interface=ether1']
+   */
+  stream(params: string[], callback: RouterOSStreamCallback): RouterOSStream;
+  close(): unknown;
+}
+
+/**
+ * 获取协议默认端口
+ * api: 8728 / 8729（TLS），rest: 80 / 443（HTTPS）
+ */
+export function getDefaultPort(protocol: RouterOSProtocol | undefined, useTLS: boolean): number {
+  if (protocol === 'rest') {
+    return useTLS ? 443 : 80;
+  }
+  return useTLS ? 8729 : 8728;
+}
+
+/**
+ * 根据配置创建底层通信实例
+ */
+export function createTransport(config: RouterOSConfig): RouterOSTransport {
+  if (config.protocol === 'rest') {
+    return new RestTransport(config);
+  }
+
+  // 不设置 timeout，使用网络自然超时
+  return new RouterOSAPI({
+    host: config.host,
+    port: config.port,
+    user: config.username,
+    password: config.password,
+    tls: config.useTLS ? {
+      rejectUnauthorized: false,
+    } : undefined,
+    keepalive: true,
+  });
+}
+
+/**
+ * RouterOS v7 REST 接口通信
+ *
+ * REST 为无状态请求，connect() 通过读取 /system/identity 验证地址和凭据；
+ * 请求因网络原因失败时标记为未连接并触发 close 事件，由 RouterOSClient 自动重连
+ */
+export class RestTransport extends EventEmitter implements RouterOSTransport {
+  connected = false;
+  private http: AxiosInstance;
+
+  constructor(config: RouterOSConfig) {
+    super();
+    const scheme = config.useTLS ? 'https' : 'http';
+    this.http = axios.create({
+      baseURL: `${scheme}://${config.host}:${config.port}/rest`,
+      auth: { username: config.username, password: config.password },
+      timeout: REST_TIMEOUT_MS,
+      // 路由器通常使用自签名证书
+      httpsAgent: config.useTLS ? new https.Agent({ rejectUnauthorized: false }) : undefined,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * 验证地址和凭据
+   */
+  async connect(): Promise<this> {
+    await this.request(() => this.http.get('/system/identity'));
+    this.connected = true;
+    return this;
+  }
+
+  /**
+   * 执行 API 语句
+   * @param command 命令路径，如 /ip/address/print
+   * @param params API 参数，如 =address=10.0.0.1/24、?.id=*1、=.proplist=name,type
+   */
+  async write(command: string, params: string[] = []): Promise<RouterOSResponse> {
+    const body = RestTransport.toRequestBody(params);
+    const data = await this.request(() =>
+      this.http.post<RouterOSResponse | Record<string, string> | string | null>(command, body)
+    );
+
+    if (data === undefined || data === null || data === '') {
+      return [];
+    }
+    if (Array.isArray(data)) {
+      return data;
+    }
+    if (typeof data === 'object') {
+      // 如 add 返回 { ret: '*1' }，与二进制 API 的响应格式保持一致
+      return [data];
+    }
+    return [{ ret: data }];
+  }
+
+  /**
+   * 模拟持续输出（REST 每次请求只返回一次结果）
+   * - 监视类命令（monitor、monitor-traffic、torch）加 once 参数按 interval 轮询
+   * - print 带 follow / follow-only 时按间隔重新读取，只输出新出现的条目
+   * - 其他命令（如 ping count=N）执行一次，输出全部结果后结束
+   */
+  stream(params: string[], callback: RouterOSStreamCallback): RouterOSStream {
+    const [command, ...args] = params;
+    const name = command.substring(command.lastIndexOf('/') + 1);
+    const interval = parseInterval(args) ?? REST_STREAM_INTERVAL_MS;
+    const follow = args.find((arg) => arg.startsWith('=follow=') || arg.startsWith('=follow-only='));
+    const stream = new RestStream();
+
+    let poll: () => Promise<boolean>;
+    if (MONITOR_COMMANDS.includes(name)) {
+      const onceArgs = [...args.filter((arg) => !arg.startsWith('=interval=') && !arg.startsWith('=once')), '=once='];
+      poll = async () => {
+        const records = await this.write(command, onceArgs);
+        if (records.length > 0) callback(null, records.length === 1 ? records[0] : records);
+        return true;
+      };
+    } else if (name === 'print' && follow) {
+      const printArgs = args.filter((arg) => arg !== follow && !arg.startsWith('=interval='));
+      const seen = new Set<string>();
+      let first = true;
+      poll = async () => {
+        const records = await this.write(command, printArgs);
+        for (const record of records) {
+          const id = String(record['.id'] ?? JSON.stringify(record));
+          if (seen.has(id)) continue;
+          seen.add(id);
+          if (!(first && follow.startsWith('=follow-only='))) callback(null, record);
+        }
+        first = false;
+        return true;
+      };
+    } else {
+      poll = async () => {
+        for (const record of await this.write(command, args)) {
+          callback(null, record);
+        }
+        return false;
+      };
+    }
+
+    stream.run(poll, interval, (error) => callback(error));
+    return stream;
+  }
+
+  /**
+   * 标记为已关闭（REST 无需释放连接）
+   */
+  close(): void {
+    this.connected = false;
+  }
+
+  /**
+   * 将 API 参数转换为 REST 请求体
+   */
+  static toRequestBody(params: string[]): Record<string, unknown> {
+    const body: Record<string, unknown> = {};
+    const query: string[] = [];
+
+    for (const param of params) {
+      if (param.startsWith('?')) {
+        query.push(param.slice(1));
+      } else if (param.startsWith('=')) {
+        const separator = param.indexOf('=', 1);
+        const key = separator === -1 ? param.slice(1) : param.slice(1, separator);
+        const value = separator === -1 ? '' : param.slice(separator + 1);
+        body[key] = key === '.proplist' ? value.split(',') : value;
+      }
+    }
+
+    if (query.length > 0) {
+      body['.query'] = query;
+    }
+    return body;
+  }
+
+  /**
+   * 发送请求并将 REST 错误转换为与二进制 API 一致的错误信息
+   */
+  private async request<T>(send: () => Promise<{ data: T }>): Promise<T> {
+    try {
+      const response = await send();
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          if (error.response.status === 401) {
+            throw new Error('cannot log in');
+          }
+          const data = error.response.data as { message?: string; detail?: string } | undefined;
+          throw new Error(data?.detail || data?.message || `HTTP ${error.response.status}`);
+        }
+
+        // 无响应（连接被拒绝、超时等）视为连接丢失
+        if (this.connected) {
+          this.connected = false;
+          this.emit('close');
+        }
+        throw new Error(error.code ? `${error.code}: ${error.message}` : error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * 解析 =interval= 参数（RouterOS 时间格式，如 1s、500ms、2），返回毫秒
+ */
+function parseInterval(args: string[]): number | undefined {
+  const arg = args.find((item) => item.startsWith('=interval='));
+  const match = arg?.substring('=interval='.length).match(/^(\d+(?:\.\d+)?)(ms|s)?$/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return Math.max(100, match[2] === 'ms' ? value : value * 1000);
+}
+
+/**
+ * REST 轮询流：按间隔执行 poll，poll 返回 false、出错或 stop() 后结束并触发 close
+ */
+class RestStream extends EventEmitter implements RouterOSStream {
+  private stopped = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  run(poll: () => Promise<boolean>, interval: number, onError: (error: Error) => void): void {
+    const tick = async () => {
+      this.timer = null;
+      if (this.stopped) return;
+      try {
+        const again = await poll();
+        if (again && !this.stopped) {
+          this.timer = setTimeout(tick, interval);
+          return;
+        }
+      } catch (error) {
+        if (!this.stopped) onError(error instanceof Error ? error : new Error(String(error)));
+      }
+      this.finish();
+    };
+    setImmediate(tick);
+  }
+
+  async stop(): Promise<void> {
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.stopped) return;
+    this.stopped = true;
+    this.emit('close');
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Secret Migration
+ * 用 secretStore 的当前密钥重新加密所有保存的敏感信息
+ *
+ * - 启动时执行：加密旧版本保存的明文密码和旧格式 API Key 密文，以及更换 SECRET_KEY 后旧密钥加密的值
+ * - 密钥轮换后执行：用新密钥重新加密
+ */
+
+import { configService } from './configService';
+import { deviceService } from './deviceService';
+import { apiConfigService } from './ai/apiConfigService';
+import { notificationService } from './ai-ops/notificationService';
+import { secretStore } from './secretStore';
+import { logger } from '../utils/logger';
+
+/**
+ * 迁移结果
+ */
+export interface SecretMigrationResult {
+  /** 当前密钥 ID */
+  keyId: string;
+  /** 各文件重新加密的数量 */
+  reencrypted: Record<string, number>;
+  /** 迁移失败的文件及原因 */
+  errors: Record<string, string>;
+}
+
+const OWNERS: Array<[string, { reencryptSecrets(): Promise<number> }]> = [
+  ['connection.json', configService],
+  ['devices.json', deviceService],
+  ['ai-agent.json', apiConfigService],
+  ['ai-ops/channels.json', notificationService],
+];
+
+/**
+ * 重新加密所有保存的敏感信息，单个文件失败不影响其他文件
+ */
+export async function migrateSecrets(): Promise<SecretMigrationResult> {
+  const result: SecretMigrationResult = {
+    keyId: secretStore.getKeyInfo().currentKeyId,
+    reencrypted: {},
+    errors: {},
+  };
+
+  for (const [file, owner] of OWNERS) {
+    try {
+      result.reencrypted[file] = await owner.reencryptSecrets();
+    } catch (error) {
+      logger.error(`Failed to re-encrypt secrets in ${file}:`, error);
+      result.errors[file] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const total = Object.values(result.reencrypted).reduce((sum, count) => sum + count, 0);
+  if (total > 0) {
+    logger.info(`Re-encrypted ${total} stored secrets with key ${result.keyId}`);
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+/**
+ * 敏感信息加密测试
+ *
+ * 使用 SECRET_KEY 环境变量提供密钥，不读写 data 目录下的密钥文件
+ */
+
+import { CryptoService } from './ai/cryptoService';
+import { SECRET_MASK, SecretStore } from './secretStore';
+
+describe('SecretStore', () => {
+  beforeEach(() => {
+    process.env.SECRET_KEY = 'first-key';
+  });
+
+  afterEach(() => {
+    delete process.env.SECRET_KEY;
+    delete process.env.SECRET_KEY_PREVIOUS;
+  });
+
+  it('should encrypt with a random iv and decrypt back', () => {
+    const store = new SecretStore();
+    const first = store.encrypt('p@ssw0rd');
+    const second = store.encrypt('p@ssw0rd');
+
+    expect(first).toMatch(/^enc:v1:[0-9a-f]{8}:/);
+    expect(first).not.toContain('p@ssw0rd');
+    expect(first).not.toBe(second);
+    expect(store.decrypt(first)).toBe('p@ssw0rd');
+    expect(store.encrypt('')).toBe('');
+  });
+
+  it('should read plain text and legacy API key ciphertext', () => {
+    const store = new SecretStore();
+    const legacy = new CryptoService().encrypt('sk-legacy');
+
+    expect(store.decrypt('plain-password')).toBe('plain-password');
+    expect(store.decrypt(legacy)).toBe('sk-legacy');
+    expect(store.needsReencrypt('plain-password')).toBe(true);
+    expect(store.needsReencrypt(legacy)).toBe(true);
+    expect(store.needsReencrypt(store.encrypt('x'))).toBe(false);
+  });
+
+  it('should decrypt with previous keys and re-encrypt with the current key after rotation', () => {
+    const encrypted = new SecretStore().encrypt('router-secret');
+
+    process.env.SECRET_KEY = 'second-key';
+    expect(() => new SecretStore().decrypt(encrypted)).toThrow('找不到加密密钥');
+
+    process.env.SECRET_KEY_PREVIOUS = 'first-key';
+    const store = new SecretStore();
+    expect(store.decrypt(encrypted)).toBe('router-secret');
+    expect(store.needsReencrypt(encrypted)).toBe(true);
+
+    const reencrypted = store.reencrypt(encrypted);
+    expect(store.needsReencrypt(reencrypted)).toBe(false);
+    expect(store.getKeyInfo().keyIds).toHaveLength(2);
+
+    delete process.env.SECRET_KEY_PREVIOUS;
+    expect(new SecretStore().decrypt(reencrypted)).toBe('router-secret');
+  });
+
+  it('should reject tampered ciphertext and keep undecryptable values when unsealing', () => {
+    const store = new SecretStore();
+    const encrypted = store.encrypt('secret');
+    const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+    expect(() => store.decrypt(tampered)).toThrow('解密失败');
+    expect(store.unseal(tampered, 'test')).toBe(tampered);
+    expect(store.seal(tampered)).toBe(tampered);
+  });
+
+  it('should not rotate keys provided by the environment', () => {
+    expect(() => new SecretStore().rotateKey()).toThrow('SECRET_KEY');
+  });
+
+  it('should mask secrets', () => {
+    const store = new SecretStore();
+    expect(store.mask('secret')).toBe(SECRET_MASK);
+    expect(store.mask('')).toBe('');
+    expect(store.isMasked(SECRET_MASK)).toBe(true);
+    expect(store.isMasked('secret')).toBe(false);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Secret Store
+ * 本地存储的敏感信息（设备密码、AI API Key、SMTP 密码、Webhook 认证请求头）的加密、解密和掩码
+ *
+ * - 加密：AES-256-GCM，密文格式 enc:v1:<密钥 ID>:<iv>:<tag>:<密文>，密钥 ID 用于找到解密用的密钥
+ * - 密钥：SECRET_KEY 环境变量（轮换后旧密钥通过 SECRET_KEY_PREVIOUS 提供，逗号分隔）；
+ *   未设置时使用 data/secret-keys.json 中自动生成的密钥
+ * - 兼容：未加密的明文和旧版 API Key 密文（crypto-js AES）可以正常读取，由 secretMigration 重新加密
+ * - 轮换：rotateKey() 生成新密钥并保留旧密钥，随后由 secretMigration 用新密钥重新加密所有文件
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ICryptoService } from '../types/ai';
+import { cryptoService as legacyCrypto } from './ai/cryptoService';
+import { logger } from '../utils/logger';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const KEYRING_FILE = path.join(DATA_DIR, 'secret-keys.json');
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+// crypto-js AES 密文以 "Salted__" 的 base64 开头
+const LEGACY_PREFIX = 'U2FsdGVkX1';
+
+/**
+ * API 响应中代替敏感值的掩码
+ */
+export const SECRET_MASK = '********';
+
+/**
+ * 密钥来源
+ */
+export type SecretKeySource = 'env' | 'file';
+
+/**
+ * 密钥文件内容
+ */
+interface Keyring {
+  current: string;
+  /** 密钥 ID -> base64 编码的 32 字节密钥 */
+  keys: Record<string, string>;
+}
+
+interface Keys {
+  source: SecretKeySource;
+  currentId: string;
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * 密钥 ID：密钥 SHA-256 的前 8 位十六进制
+ */
+function keyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 8);
+}
+
+/**
+ * 环境变量中的密钥可以是任意字符串，派生为 32 字节
+ */
+function deriveKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret, 'utf-8').digest();
+}
+
+export class SecretStore implements ICryptoService {
+  private loaded: Keys | null = null;
+
+  /**
+   * 是否为本模块生成的密文
+   */
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  /**
+   * 是否需要（重新）加密：明文、旧版密文或使用非当前密钥加密的密文
+   */
+  needsReencrypt(value: string): boolean {
+    if (!value) return false;
+    if (!this.isEncrypted(value)) return true;
+    return value.substring(PREFIX.length).split(':')[0] !== this.getKeys().currentId;
+  }
+
+  /**
+   * 使用当前密钥加密，空字符串保持为空
+   */
+  encrypt(plainText: string): string {
+    if (!plainText) return '';
+    const { currentId, keys } = this.getKeys();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentId)!, iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf-8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `${PREFIX}${currentId}:${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
+  }
+
+  /**
+   * 解密，未加密的明文原样返回
+   * @throws Error 密钥不存在或密文损坏
+   */
+  decrypt(value: string): string {
+    if (!value) return '';
+    if (value.startsWith(LEGACY_PREFIX)) {
+      try {
+        return legacyCrypto.decrypt(value);
+      } catch {
+        // 恰好以相同前缀开头的明文
+        return value;
+      }
+    }
+    if (!this.isEncrypted(value)) return value;
+
+    const [id, iv, tag, data] = value.substring(PREFIX.length).split(':');
+    const key = this.getKeys().keys.get(id);
+    if (!key) {
+      throw new Error(`找不到加密密钥 ${id}，请检查 SECRET_KEY / SECRET_KEY_PREVIOUS 配置`);
+    }
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error('解密失败：密文已损坏或密钥不匹配');
+    }
+  }
+
+  /**
+   * 写入文件前加密：已加密的值（无法解密而保留的密文）原样返回
+   */
+  seal(value: string): string {
+    return this.isEncrypted(value) ? value : this.encrypt(value);
+  }
+
+  /**
+   * 读取文件后解密：无法解密时记录错误并保留密文，避免保存时丢失
+   * @param label 用于日志的字段说明
+   */
+  unseal(value: string, label: string): string {
+    try {
+      return this.decrypt(value);
+    } catch (error) {
+      logger.error(`Failed to decrypt ${label}:`, error);
+      return value;
+    }
+  }
+
+  /**
+   * 用当前密钥重新加密（已是当前密钥的密文原样返回）
+   */
+  reencrypt(value: string): string {
+    return this.needsReencrypt(value) ? this.encrypt(this.decrypt(value)) : value;
+  }
+
+  /**
+   * 掩码：有值时返回 SECRET_MASK，空值保持为空
+   */
+  mask(value: string | undefined): string {
+    return value ? SECRET_MASK : '';
+  }
+
+  /**
+   * 是否为掩码（客户端未修改敏感值时原样提交的掩码，应保留原值）
+   */
+  isMasked(value: unknown): boolean {
+    return value === SECRET_MASK;
+  }
+
+  /**
+   * 当前密钥信息
+   */
+  getKeyInfo(): { source: SecretKeySource; currentKeyId: string; keyIds: string[] } {
+    const { source, currentId, keys } = this.getKeys();
+    return { source, currentKeyId: currentId, keyIds: Array.from(keys.keys()) };
+  }
+
+  /**
+   * 生成新的当前密钥，旧密钥保留用于解密
+   * 使用 SECRET_KEY 环境变量时不支持，需修改环境变量并把旧密钥加入 SECRET_KEY_PREVIOUS 后重启
+   * @returns 新密钥 ID
+   */
+  rotateKey(): string {
+    const current = this.getKeys();
+    if (current.source === 'env') {
+      throw new Error('密钥由 SECRET_KEY 环境变量提供，请修改环境变量（旧密钥加入 SECRET_KEY_PREVIOUS）后重启服务');
+    }
+
+    const key = crypto.randomBytes(32);
+    const id = keyId(key);
+    const keys = new Map(current.keys);
+    keys.set(id, key);
+    this.saveKeyring({ current: id, keys: Object.fromEntries(Array.from(keys, ([k, v]) => [k, v.toString('base64')])) });
+    this.loaded = { source: 'file', currentId: id, keys };
+
+    logger.info(`Rotated secret key: ${current.currentId} -> ${id}`);
+    return id;
+  }
+
+  /**
+   * 重新读取密钥（密钥文件被恢复或环境变量变化后）
+   */
+  reload(): void {
+    this.loaded = null;
+  }
+
+  /**
+   * 读取密钥（首次使用时同步加载，加密和解密可在同步代码中调用）
+   */
+  private getKeys(): Keys {
+    if (!this.loaded) {
+      this.loaded = process.env.SECRET_KEY ? this.loadEnvKeys(process.env.SECRET_KEY) : this.loadFileKeys();
+    }
+    return this.loaded;
+  }
+
+  private loadEnvKeys(secret: string): Keys {
+    const current = deriveKey(secret);
+    const keys = new Map<string, Buffer>([[keyId(current), current]]);
+    for (const previous of (process.env.SECRET_KEY_PREVIOUS || '').split(',')) {
+      if (previous.trim()) {
+        const key = deriveKey(previous.trim());
+        keys.set(keyId(key), key);
+      }
+    }
+    return { source: 'env', currentId: keyId(current), keys };
+  }
+
+  private loadFileKeys(): Keys {
+    try {
+      const keyring = JSON.parse(fs.readFileSync(KEYRING_FILE, 'utf-8')) as Keyring;
+      const keys = new Map(Object.entries(keyring.keys).map(([id, key]) => [id, Buffer.from(key, 'base64')]));
+      if (!keys.has(keyring.current)) {
+        throw new Error(`当前密钥 ${keyring.current} 不在密钥文件中`);
+      }
+      return { source: 'file', currentId: keyring.current, keys };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load secret keyring:', error);
+        throw new Error('读取加密密钥文件失败');
+      }
+    }
+
+    const key = crypto.randomBytes(32);
+    const id = keyId(key);
+    this.saveKeyring({ current: id, keys: { [id]: key.toString('base64') } });
+    logger.info(`Generated secret key ${id}: ${KEYRING_FILE}`);
+    return { source: 'file', currentId: id, keys: new Map([[id, key]]) };
+  }
+
+  private saveKeyring(keyring: Keyring): void {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.writeFileSync(KEYRING_FILE, JSON.stringify(keyring, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  }
+}
+
+// 导出单例实例
+export const secretStore = new SecretStore();
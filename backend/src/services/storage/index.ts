@@ -0,0 +1,75 @@
+/**
+ * 存储模块导出
+ *
+ * 通过环境变量 STORAGE_BACKEND 选择时序记录的存储方式：
+ * - sqlite（默认）: data/ai-ops/storage.db，首次启动时自动导入已有的 JSON 数据
+ * - json: 按日期分文件的 JSON 存储
+ */
+
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { TimeSeriesCollection, TimeSeriesStore } from './timeSeriesStore';
+import { JsonTimeSeriesStore } from './jsonTimeSeriesStore';
+import { SqliteTimeSeriesStore, closeSqliteDatabases } from './sqliteTimeSeriesStore';
+
+export {
+  TimeSeriesCollection,
+  TimeSeriesQuery,
+  TimeSeriesStore,
+  IndexValue,
+  getDateString,
+} from './timeSeriesStore';
+export { JsonTimeSeriesStore } from './jsonTimeSeriesStore';
+export { SqliteTimeSeriesStore } from './sqliteTimeSeriesStore';
+
+export type StorageBackend = 'json' | 'sqlite';
+
+const SQLITE_FILE = path.join(process.cwd(), 'data', 'ai-ops', 'storage.db');
+
+// 已创建的集合存储（用于备份与恢复）
+const stores: Map<string, TimeSeriesStore<unknown>> = new Map();
+
+/**
+ * 获取配置的存储方式
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'sqlite').toLowerCase();
+  if (backend !== 'json' && backend !== 'sqlite') {
+    logger.warn(`Unknown STORAGE_BACKEND "${backend}", falling back to sqlite`);
+    return 'sqlite';
+  }
+  return backend;
+}
+
+/**
+ * 按配置的存储方式创建集合存储
+ */
+export function createTimeSeriesStore<T>(collection: TimeSeriesCollection<T>): TimeSeriesStore<T> {
+  const store: TimeSeriesStore<T> =
+    getStorageBackend() === 'json'
+      ? new JsonTimeSeriesStore(collection)
+      : new SqliteTimeSeriesStore(collection, SQLITE_FILE);
+  stores.set(collection.name, store as TimeSeriesStore<unknown>);
+  return store;
+}
+
+/**
+ * 获取已创建的全部集合存储
+ */
+export function getTimeSeriesStores(): TimeSeriesStore<unknown>[] {
+  return Array.from(stores.values());
+}
+
+/**
+ * SQLite 数据库文件路径
+ */
+export function getSqliteFile(): string {
+  return SQLITE_FILE;
+}
+
+/**
+ * 关闭存储（释放数据库连接）
+ */
+export function closeStorage(): void {
+  closeSqliteDatabases();
+}
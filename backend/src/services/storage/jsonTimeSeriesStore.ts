@@ -0,0 +1,207 @@
+/**
+ * JSON 文件时序存储
+ * 记录按时间字段的 UTC 日期写入 <dir>/YYYY-MM-DD.json，每个文件为记录数组
+ * 写入需要读取并重写整个日期文件，查询需要逐个读取日期文件后在内存中过滤
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import {
+  TimeSeriesCollection,
+  TimeSeriesQuery,
+  TimeSeriesStore,
+  getDateString,
+  getFieldValue,
+  toIndexValue,
+  assertIndexedFields,
+} from './timeSeriesStore';
+
+export class JsonTimeSeriesStore<T> implements TimeSeriesStore<T> {
+  // 串行化写入，避免并发读改写同一日期文件时丢失记录
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly collection: TimeSeriesCollection<T>) {}
+
+  async insert(record: T): Promise<void> {
+    await this.insertMany([record]);
+  }
+
+  async insertMany(records: T[]): Promise<void> {
+    await this.enqueueWrite(async () => {
+      for (const [dateStr, group] of this.groupByDate(records)) {
+        const existing = await this.readDateFile(dateStr);
+        await this.writeDateFile(dateStr, existing.concat(group));
+      }
+    });
+  }
+
+  async upsert(record: T): Promise<void> {
+    await this.upsertMany([record]);
+  }
+
+  async upsertMany(records: T[]): Promise<void> {
+    const idField = this.requireIdField();
+    await this.enqueueWrite(async () => {
+      for (const [dateStr, group] of this.groupByDate(records)) {
+        const existing = await this.readDateFile(dateStr);
+        for (const record of group) {
+          const index = existing.findIndex((r) => r[idField] === record[idField]);
+          if (index >= 0) {
+            existing[index] = record;
+          } else {
+            existing.push(record);
+          }
+        }
+        await this.writeDateFile(dateStr, existing);
+      }
+    });
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const idField = this.requireIdField();
+    // 从最近的日期开始查找
+    const dates = (await this.listDates()).reverse();
+    for (const dateStr of dates) {
+      const found = (await this.readDateFile(dateStr)).find((r) => String(r[idField]) === id);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  async query(options: TimeSeriesQuery = {}): Promise<T[]> {
+    const { from, to, where, order = 'asc', limit } = options;
+    assertIndexedFields(this.collection, where);
+
+    const fromDate = from !== undefined ? getDateString(from) : undefined;
+    const toDate = to !== undefined ? getDateString(to) : undefined;
+    const dates = (await this.listDates()).filter(
+      (dateStr) => (!fromDate || dateStr >= fromDate) && (!toDate || dateStr <= toDate)
+    );
+
+    const timeField = this.collection.timeField;
+    const conditions = Object.entries(where || {});
+    let results: T[] = [];
+
+    for (const dateStr of dates) {
+      const records = await this.readDateFile(dateStr);
+      for (const record of records) {
+        const time = Number(record[timeField]);
+        if (from !== undefined && time < from) continue;
+        if (to !== undefined && time > to) continue;
+        if (!conditions.every(([field, value]) => toIndexValue(getFieldValue(record, field)) === value)) continue;
+        results.push(record);
+      }
+    }
+
+    results.sort((a, b) => Number(a[timeField]) - Number(b[timeField]));
+    if (order === 'desc') {
+      results.reverse();
+    }
+    if (limit !== undefined && limit > 0) {
+      results = results.slice(0, limit);
+    }
+    return results;
+  }
+
+  async deleteBefore(timestamp: number): Promise<number> {
+    const cutoffDateStr = getDateString(timestamp);
+    let deletedCount = 0;
+
+    await this.enqueueWrite(async () => {
+      for (const dateStr of await this.listDates()) {
+        if (dateStr >= cutoffDateStr) continue;
+        try {
+          const records = await this.readDateFile(dateStr);
+          await fs.unlink(this.getFilePath(dateStr));
+          deletedCount += records.length;
+          logger.info(`Deleted expired ${this.collection.name} file: ${dateStr} (${records.length} records)`);
+        } catch (error) {
+          logger.error(`Failed to delete ${this.collection.name} file ${dateStr}:`, error);
+        }
+      }
+    });
+
+    return deletedCount;
+  }
+
+  async clear(): Promise<void> {
+    await this.enqueueWrite(async () => {
+      for (const dateStr of await this.listDates()) {
+        await fs.unlink(this.getFilePath(dateStr));
+      }
+    });
+  }
+
+  /**
+   * 列出所有日期文件（升序）
+   */
+  async listDates(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.collection.dir);
+      return files
+        .filter((f) => /^\d{4}-\d{2}-\d{2}\.json$/.test(f))
+        .map((f) => f.replace('.json', ''))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 读取指定日期的记录，文件不存在或损坏时返回空数组
+   */
+  async readDateFile(dateStr: string): Promise<T[]> {
+    try {
+      const data = await fs.readFile(this.getFilePath(dateStr), 'utf-8');
+      const records = JSON.parse(data);
+      return Array.isArray(records) ? (records as T[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read ${this.collection.name} file ${dateStr}:`, error);
+      }
+      return [];
+    }
+  }
+
+  private async writeDateFile(dateStr: string, records: T[]): Promise<void> {
+    await fs.mkdir(this.collection.dir, { recursive: true });
+    await fs.writeFile(this.getFilePath(dateStr), JSON.stringify(records, null, 2), 'utf-8');
+  }
+
+  private getFilePath(dateStr: string): string {
+    return path.join(this.collection.dir, `${dateStr}.json`);
+  }
+
+  /**
+   * 按记录日期分组
+   */
+  private groupByDate(records: T[]): Map<string, T[]> {
+    const groups: Map<string, T[]> = new Map();
+    for (const record of records) {
+      const dateStr = getDateString(Number(record[this.collection.timeField]));
+      const group = groups.get(dateStr);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(dateStr, [record]);
+      }
+    }
+    return groups;
+  }
+
+  private requireIdField(): keyof T & string {
+    if (!this.collection.idField) {
+      throw new Error(`Collection ${this.collection.name} has no id field`);
+    }
+    return this.collection.idField;
+  }
+
+  private enqueueWrite<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * SQLite 时序存储
+ * 每个集合一张表：seq 自增主键、id（可选，唯一）、ts 时间戳、各索引字段列，以及完整记录的 JSON（data）
+ * ts 和索引字段列均建立索引，时间范围查询和条件过滤直接在数据库中完成
+ *
+ * 首次打开集合时一次性导入该集合 JSON 目录中的历史数据（导入后在 storage_meta 表中记录，
+ * 不会重复导入；原 JSON 文件保留不动，可在确认迁移无误后手动删除）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { logger } from '../../utils/logger';
+import {
+  TimeSeriesCollection,
+  TimeSeriesQuery,
+  TimeSeriesStore,
+  IndexValue,
+  getFieldValue,
+  toIndexValue,
+  assertIndexedFields,
+} from './timeSeriesStore';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// 同一数据库文件共用一个连接
+const databases: Map<string, Database.Database> = new Map();
+
+/**
+ * 打开（或复用）数据库连接
+ */
+function openDatabase(file: string): Database.Database {
+  let db = databases.get(file);
+  if (!db) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    db.exec('CREATE TABLE IF NOT EXISTS storage_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    databases.set(file, db);
+    logger.info(`SQLite storage opened: ${file}`);
+  }
+  return db;
+}
+
+/**
+ * 关闭所有数据库连接
+ */
+export function closeSqliteDatabases(): void {
+  for (const [file, db] of databases) {
+    try {
+      db.close();
+    } catch (error) {
+      logger.warn(`Failed to close SQLite storage ${file}:`, error);
+    }
+  }
+  databases.clear();
+}
+
+/**
+ * 索引字段对应的列名（user.username -> f_user_username）
+ */
+function getColumnName(field: string): string {
+  return `f_${field.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+interface Statements {
+  insert: Database.Statement;
+  upsert: Database.Statement | null;
+  findById: Database.Statement | null;
+  deleteBefore: Database.Statement;
+}
+
+export class SqliteTimeSeriesStore<T> implements TimeSeriesStore<T> {
+  private db: Database.Database | null = null;
+  private statements: Statements | null = null;
+  private readonly table: string;
+  private readonly columns: string[];
+
+  /**
+   * @param collection 集合定义
+   * @param file 数据库文件路径
+   */
+  constructor(readonly collection: TimeSeriesCollection<T>, private readonly file: string) {
+    if (!NAME_PATTERN.test(collection.name)) {
+      throw new Error(`Invalid collection name: ${collection.name}`);
+    }
+    this.table = collection.name;
+    this.columns = (collection.indexes || []).map(getColumnName);
+  }
+
+  async insert(record: T): Promise<void> {
+    const { insert } = this.open();
+    insert.run(this.toRow(record));
+  }
+
+  async insertMany(records: T[]): Promise<void> {
+    const { insert } = this.open();
+    this.getDatabase().transaction(() => {
+      for (const record of records) {
+        insert.run(this.toRow(record));
+      }
+    })();
+  }
+
+  async upsert(record: T): Promise<void> {
+    this.requireUpsert().run(this.toRow(record));
+  }
+
+  async upsertMany(records: T[]): Promise<void> {
+    const upsert = this.requireUpsert();
+    this.getDatabase().transaction(() => {
+      for (const record of records) {
+        upsert.run(this.toRow(record));
+      }
+    })();
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const { findById } = this.open();
+    if (!findById) {
+      throw new Error(`Collection ${this.collection.name} has no id field`);
+    }
+    const row = findById.get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  async query(options: TimeSeriesQuery = {}): Promise<T[]> {
+    const { from, to, where, order = 'asc', limit } = options;
+    assertIndexedFields(this.collection, where);
+    const db = this.getDatabase();
+
+    const conditions: string[] = [];
+    const params: IndexValue[] = [];
+    if (from !== undefined) {
+      conditions.push('ts >= ?');
+      params.push(from);
+    }
+    if (to !== undefined) {
+      conditions.push('ts <= ?');
+      params.push(to);
+    }
+    for (const [field, value] of Object.entries(where || {})) {
+      conditions.push(`${getColumnName(field)} IS ?`);
+      params.push(value);
+    }
+
+    const direction = order === 'desc' ? 'DESC' : 'ASC';
+    let sql = `SELECT data FROM ${this.table}`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ` ORDER BY ts ${direction}, seq ${direction}`;
+    if (limit !== undefined && limit > 0) {
+      sql += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    const rows = db.prepare(sql).all(...params) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as T);
+  }
+
+  async deleteBefore(timestamp: number): Promise<number> {
+    const { deleteBefore } = this.open();
+    return deleteBefore.run(timestamp).changes;
+  }
+
+  async clear(): Promise<void> {
+    this.getDatabase().prepare(`DELETE FROM ${this.table}`).run();
+  }
+
+  private requireUpsert(): Database.Statement {
+    const { upsert } = this.open();
+    if (!upsert) {
+      throw new Error(`Collection ${this.collection.name} has no id field`);
+    }
+    return upsert;
+  }
+
+  /**
+   * 获取数据库连接（首次调用时建表并导入 JSON 数据）
+   */
+  private getDatabase(): Database.Database {
+    this.open();
+    return this.db as Database.Database;
+  }
+
+  private open(): Statements {
+    if (this.statements && this.db?.open) {
+      return this.statements;
+    }
+
+    const db = openDatabase(this.file);
+    this.createTable(db);
+
+    const columnList = ['id', 'ts', ...this.columns, 'data'];
+    const placeholders = columnList.map((c) => `@${c}`).join(', ');
+    const updates = columnList
+      .filter((c) => c !== 'id')
+      .map((c) => `${c} = excluded.${c}`)
+      .join(', ');
+    const hasId = Boolean(this.collection.idField);
+
+    this.statements = {
+      insert: db.prepare(`INSERT INTO ${this.table} (${columnList.join(', ')}) VALUES (${placeholders})`),
+      upsert: hasId
+        ? db.prepare(
+            `INSERT INTO ${this.table} (${columnList.join(', ')}) VALUES (${placeholders}) ` +
+              `ON CONFLICT(id) DO UPDATE SET ${updates}`
+          )
+        : null,
+      findById: hasId ? db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`) : null,
+      deleteBefore: db.prepare(`DELETE FROM ${this.table} WHERE ts < ?`),
+    };
+    this.db = db;
+
+    this.importJsonFiles(db);
+    return this.statements;
+  }
+
+  /**
+   * 建表和索引，补齐新增的索引字段列
+   */
+  private createTable(db: Database.Database): void {
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+        'seq INTEGER PRIMARY KEY, id TEXT UNIQUE, ts INTEGER NOT NULL, data TEXT NOT NULL)'
+    );
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_${this.table}_ts ON ${this.table} (ts)`);
+
+    const existing = new Set(
+      (db.prepare(`PRAGMA table_info(${this.table})`).all() as Array<{ name: string }>).map((c) => c.name)
+    );
+    (this.collection.indexes || []).forEach((field, i) => {
+      const column = this.columns[i];
+      if (!existing.has(column)) {
+        db.exec(`ALTER TABLE ${this.table} ADD COLUMN ${column}`);
+        db.prepare(`UPDATE ${this.table} SET ${column} = json_extract(data, ?)`).run(`$.${field}`);
+      }
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_${this.table}_${column} ON ${this.table} (${column}, ts)`);
+    });
+  }
+
+  /**
+   * 一次性导入 JSON 目录中的历史数据
+   */
+  private importJsonFiles(db: Database.Database): void {
+    const metaKey = `json_import:${this.table}`;
+    if (db.prepare('SELECT value FROM storage_meta WHERE key = ?').get(metaKey)) {
+      return;
+    }
+
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(this.collection.dir).filter((f) => /^\d{4}-\d{2}-\d{2}\.json$/.test(f)).sort();
+    } catch {
+      // 目录不存在，无需导入
+    }
+
+    const { insert, upsert } = this.statements as Statements;
+    const write = upsert || insert;
+    let imported = 0;
+
+    db.transaction(() => {
+      for (const file of files) {
+        let records: T[];
+        try {
+          const parsed = JSON.parse(fs.readFileSync(path.join(this.collection.dir, file), 'utf-8'));
+          records = Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+          logger.warn(`Skipped unreadable ${this.collection.name} file ${file} during import:`, error);
+          continue;
+        }
+        for (const record of records) {
+          if (!Number.isFinite(Number(record?.[this.collection.timeField]))) continue;
+          write.run(this.toRow(record));
+          imported++;
+        }
+      }
+      db.prepare('INSERT INTO storage_meta (key, value) VALUES (?, ?)').run(metaKey, String(Date.now()));
+    })();
+
+    if (imported > 0) {
+      logger.info(`Imported ${imported} ${this.collection.name} records from ${files.length} JSON files`);
+    }
+  }
+
+  private toRow(record: T): Record<string, IndexValue> {
+    const row: Record<string, IndexValue> = {
+      id: this.collection.idField ? toIndexValue(record[this.collection.idField]) : null,
+      ts: Number(record[this.collection.timeField]),
+      data: JSON.stringify(record),
+    };
+    (this.collection.indexes || []).forEach((field, i) => {
+      row[this.columns[i]] = toIndexValue(getFieldValue(record, field));
+    });
+    return row;
+  }
+}
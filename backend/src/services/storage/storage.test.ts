@@ -0,0 +1,111 @@
+/**
+ * 时序存储测试
+ *
+ * 对 JSON 和 SQLite 两种实现执行相同的读写用例，并验证 SQLite 首次打开时导入 JSON 数据
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsonTimeSeriesStore } from './jsonTimeSeriesStore';
+import { SqliteTimeSeriesStore, closeSqliteDatabases } from './sqliteTimeSeriesStore';
+import { TimeSeriesCollection, TimeSeriesStore } from './timeSeriesStore';
+
+interface TestEvent {
+  id: string;
+  timestamp: number;
+  status: string;
+  user?: { username: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BASE = Date.UTC(2024, 0, 10, 12, 0, 0);
+
+function createEvent(id: string, timestamp: number, status = 'active', username?: string): TestEvent {
+  return { id, timestamp, status, user: username ? { username } : undefined };
+}
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+});
+
+afterEach(async () => {
+  closeSqliteDatabases();
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+function createCollection(): TimeSeriesCollection<TestEvent> {
+  return {
+    name: 'test_events',
+    dir: path.join(tempDir, 'events'),
+    timeField: 'timestamp',
+    idField: 'id',
+    indexes: ['status', 'user.username'],
+  };
+}
+
+const backends: Array<[string, () => TimeSeriesStore<TestEvent>]> = [
+  ['json', () => new JsonTimeSeriesStore(createCollection())],
+  ['sqlite', () => new SqliteTimeSeriesStore(createCollection(), path.join(tempDir, 'storage.db'))],
+];
+
+describe.each(backends)('%s store', (_name, createStore) => {
+  it('should query by time range, index and order', async () => {
+    const store = createStore();
+    await store.insert(createEvent('a', BASE - DAY_MS, 'active', 'admin'));
+    await store.insert(createEvent('b', BASE, 'resolved', 'admin'));
+    await store.insert(createEvent('c', BASE + DAY_MS, 'active', 'viewer'));
+
+    expect((await store.query()).map((e) => e.id)).toEqual(['a', 'b', 'c']);
+    expect((await store.query({ from: BASE, to: BASE + DAY_MS })).map((e) => e.id)).toEqual(['b', 'c']);
+    expect((await store.query({ where: { status: 'active' }, order: 'desc' })).map((e) => e.id)).toEqual(['c', 'a']);
+    expect((await store.query({ where: { 'user.username': 'admin' }, limit: 1, order: 'desc' })).map((e) => e.id)).toEqual(['b']);
+    await expect(store.query({ where: { id: 'a' } })).rejects.toThrow('not indexed');
+  });
+
+  it('should upsert and find by id', async () => {
+    const store = createStore();
+    await store.upsert(createEvent('a', BASE));
+    await store.upsert({ ...createEvent('a', BASE), status: 'resolved' });
+
+    expect(await store.query()).toHaveLength(1);
+    expect((await store.findById('a'))?.status).toBe('resolved');
+    expect(await store.findById('missing')).toBeNull();
+  });
+
+  it('should delete records before cutoff', async () => {
+    const store = createStore();
+    await store.insert(createEvent('old', BASE - 3 * DAY_MS));
+    await store.insert(createEvent('new', BASE));
+
+    // 截止时间取当天零点，两种实现的删除结果一致
+    const cutoff = Date.UTC(2024, 0, 9);
+    expect(await store.deleteBefore(cutoff)).toBe(1);
+    expect((await store.query()).map((e) => e.id)).toEqual(['new']);
+  });
+});
+
+describe('SqliteTimeSeriesStore JSON import', () => {
+  it('should import existing JSON files once', async () => {
+    const collection = createCollection();
+    const jsonStore = new JsonTimeSeriesStore(collection);
+    await jsonStore.insert(createEvent('a', BASE - DAY_MS));
+    await jsonStore.insert(createEvent('b', BASE, 'resolved'));
+    await fs.writeFile(path.join(collection.dir, '2024-01-01.json'), 'not json', 'utf-8');
+    // 同目录下的其他文件（如流量采集的 last-bytes.json）不是日期文件，不导入
+    await fs.writeFile(path.join(collection.dir, 'last-bytes.json'), '{"ether1":{}}', 'utf-8');
+
+    const dbFile = path.join(tempDir, 'storage.db');
+    const store = new SqliteTimeSeriesStore(collection, dbFile);
+    expect((await store.query()).map((e) => e.id)).toEqual(['a', 'b']);
+    expect((await store.findById('b'))?.status).toBe('resolved');
+
+    // 再次打开时不会重复导入
+    closeSqliteDatabases();
+    await jsonStore.insert(createEvent('c', BASE + DAY_MS));
+    const reopened = new SqliteTimeSeriesStore(collection, dbFile);
+    expect((await reopened.query()).map((e) => e.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * 时序记录存储接口
+ * 告警事件、审计日志、决策历史、修复记录、Syslog 事件和指标数据均为按时间追加的记录，
+ * 各服务通过此接口读写，具体存储方式由 STORAGE_BACKEND 决定：
+ *
+ * - json: 按 UTC 日期分文件（<dir>/YYYY-MM-DD.json），与早期版本的数据布局一致
+ * - sqlite: 每个集合一张表，时间字段和索引字段单独建列并建立索引，支持高效的时间范围查询
+ */
+
+/**
+ * 索引字段取值（对象类型的字段以 JSON 字符串参与比较）
+ */
+export type IndexValue = string | number | null;
+
+/**
+ * 集合定义
+ */
+export interface TimeSeriesCollection<T> {
+  /** 集合名称（SQLite 表名），仅允许字母、数字和下划线 */
+  name: string;
+  /** JSON 文件目录（json 存储的数据目录，也是 sqlite 存储首次启动时导入的来源） */
+  dir: string;
+  /** 时间字段（毫秒时间戳） */
+  timeField: keyof T & string;
+  /** ID 字段，设置后支持按 ID 查找和覆盖更新 */
+  idField?: keyof T & string;
+  /** 可用于精确匹配查询的字段，支持 user.username 形式的嵌套路径 */
+  indexes?: string[];
+}
+
+/**
+ * 查询选项
+ */
+export interface TimeSeriesQuery {
+  /** 开始时间（包含） */
+  from?: number;
+  /** 结束时间（包含） */
+  to?: number;
+  /** 索引字段精确匹配 */
+  where?: Record<string, IndexValue>;
+  /** 按时间排序方向，默认升序 */
+  order?: 'asc' | 'desc';
+  /** 最大返回数量 */
+  limit?: number;
+}
+
+/**
+ * 时序记录存储
+ */
+export interface TimeSeriesStore<T> {
+  readonly collection: TimeSeriesCollection<T>;
+
+  /**
+   * 追加记录
+   */
+  insert(record: T): Promise<void>;
+
+  /**
+   * 批量追加记录
+   */
+  insertMany(records: T[]): Promise<void>;
+
+  /**
+   * 按 ID 覆盖记录，不存在时追加（需要 idField）
+   */
+  upsert(record: T): Promise<void>;
+
+  /**
+   * 批量按 ID 覆盖或追加记录（需要 idField）
+   */
+  upsertMany(records: T[]): Promise<void>;
+
+  /**
+   * 按 ID 查找记录（需要 idField）
+   */
+  findById(id: string): Promise<T | null>;
+
+  /**
+   * 按时间范围和索引字段查询
+   */
+  query(options?: TimeSeriesQuery): Promise<T[]>;
+
+  /**
+   * 删除指定时间之前的记录，返回删除数量
+   * json 存储按天删除整个文件，即只删除 timestamp 所在日期之前的文件
+   */
+  deleteBefore(timestamp: number): Promise<number>;
+
+  /**
+   * 删除全部记录
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * 获取日期字符串 (YYYY-MM-DD) - 使用 UTC 时间
+ */
+export function getDateString(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+/**
+ * 读取字段值，支持嵌套路径
+ */
+export function getFieldValue(record: unknown, fieldPath: string): unknown {
+  let value: unknown = record;
+  for (const key of fieldPath.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * 将字段值转换为索引值
+ */
+export function toIndexValue(value: unknown): IndexValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 校验查询条件中的字段均已声明为索引
+ */
+export function assertIndexedFields<T>(collection: TimeSeriesCollection<T>, where?: Record<string, IndexValue>): void {
+  for (const field of Object.keys(where || {})) {
+    if (!collection.indexes?.includes(field)) {
+      throw new Error(`Field "${field}" is not indexed in collection ${collection.name}`);
+    }
+  }
+}
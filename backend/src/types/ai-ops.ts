@@ -35,7 +35,10 @@ export type AuditAction =
   | 'alert_resolve'
   | 'remediation_execute'
   | 'config_restore'
-  | 'snapshot_create';
+  | 'snapshot_create'
+  | 'backup_export'
+  | 'backup_restore'
+  | 'api_change';
 
 // ==================== 指标采集类型 ====================
 
@@ -205,8 +208,9 @@ export interface TaskExecution {
 
 /**
  * 快照触发方式
+ * - pre-change: 通过 API 修改防火墙规则前自动创建
  */
-export type SnapshotTrigger = 'auto' | 'manual' | 'pre-remediation';
+export type SnapshotTrigger = 'auto' | 'manual' | 'pre-remediation' | 'pre-change';
 
 /**
  * 配置快照
@@ -456,15 +460,43 @@ export interface AuditLog {
   timestamp: number;
   action: AuditAction;
   actor: 'system' | 'user';
+  user?: AuditUser;        // 通过已登录请求触发时记录操作用户
   details: {
     trigger?: string;
     script?: string;
     result?: string;
     error?: string;
     metadata?: Record<string, unknown>;
+    change?: AuditConfigChange;   // api_change：通过 REST API 对设备配置的修改
   };
 }
 
+/**
+ * 配置修改记录
+ * command 表示其他命令（如 /container/start、/system/script/run）
+ * move 表示调整条目顺序（如防火墙规则），条目本身的属性不变
+ * bulk 表示批量操作（如地址列表导入），只记录汇总，不记录各条目的前后状态
+ */
+export interface AuditConfigChange {
+  operation: 'add' | 'set' | 'remove' | 'enable' | 'disable' | 'move' | 'command' | 'bulk';
+  path: string;            // RouterOS 菜单路径，如 /ip/firewall/nat
+  id?: string;             // 条目 ID，如 *1A
+  destination?: string;    // operation 为 move 时移动到该条目之前，为空表示移动到末尾
+  command?: string;        // operation 为 command 时的完整命令
+  params?: string[];       // operation 为 command 时的命令参数（敏感值已隐藏）
+  summary?: Record<string, unknown>;  // operation 为 bulk 时的汇总（操作名称、数量、涉及的地址等）
+  before: Record<string, unknown> | null;  // 修改前的条目状态，新增时为 null
+  after: Record<string, unknown> | null;   // 修改后的条目状态，删除时为 null
+}
+
+/**
+ * 审计日志中记录的操作用户
+ */
+export interface AuditUser {
+  id: string;
+  username: string;
+}
+
 /**
  * 审计日志查询选项
  */
@@ -473,6 +505,7 @@ export interface AuditLogQueryOptions {
   to?: number;
   action?: AuditAction;
   actor?: 'system' | 'user';
+  username?: string;
   limit?: number;
 }
 
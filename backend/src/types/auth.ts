@@ -0,0 +1,71 @@
+/**
+ * 认证与用户类型定义
+ * 定义本地用户账户及登录会话所需的接口类型
+ */
+
+// ==================== 用户 ====================
+
+/**
+ * 用户角色
+ * - viewer: 只读，仅允许 GET 请求
+ * - operator: 日常运维操作（启用/禁用接口、NAT 规则等写操作）
+ * - admin: 全部权限，包括重启/关机、恢复快照、执行脚本、执行修复方案及用户管理
+ */
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+/**
+ * 本地用户（持久化存储，密码仅保存哈希）
+ */
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  passwordHash: string;    // scrypt 哈希，格式 salt:hash（hex）
+  createdAt: number;
+  updatedAt: number;
+  lastLoginAt?: number;
+}
+
+/**
+ * 用户信息（不含密码哈希，用于 API 响应）
+ */
+export type SafeUser = Omit<User, 'passwordHash'>;
+
+/**
+ * 创建用户输入
+ */
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  role?: UserRole;         // 默认 viewer
+}
+
+/**
+ * 更新用户输入
+ */
+export interface UpdateUserInput {
+  username?: string;
+  password?: string;
+  role?: UserRole;
+}
+
+// ==================== 会话 ====================
+
+/**
+ * 登录会话（服务端保存，令牌以 Bearer 方式传递）
+ */
+export interface Session {
+  token: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * 登录结果
+ */
+export interface LoginResult {
+  token: string;
+  expiresAt: number;
+  user: SafeUser;
+}
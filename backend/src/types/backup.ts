@@ -0,0 +1,84 @@
+/**
+ * 备份与恢复类型定义
+ * 备份归档为 gzip 压缩的 JSON 文档，包含 data 目录下的配置文件以及（可选的）历史记录
+ */
+
+/**
+ * 归档格式标识
+ */
+export const BACKUP_FORMAT = 'routeros-web-manager-backup';
+
+/**
+ * 当前归档版本
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * 导出选项
+ */
+export interface BackupOptions {
+  includeHistory: boolean;   // 包含告警事件、审计日志、指标等历史记录
+  includeSecrets: boolean;   // 包含密码、API Key 等敏感字段
+}
+
+/**
+ * 归档中的文件（路径相对于 data 目录）
+ * JSON 文件以解析后的对象保存，其他文件（如 .rsc 配置快照）以 UTF-8 文本保存
+ */
+export interface BackupFile {
+  path: string;
+  encoding: 'json' | 'utf8';
+  content: unknown;
+}
+
+/**
+ * 备份归档
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  options: BackupOptions;
+  files: BackupFile[];
+  history?: Record<string, unknown[]>;   // 集合名称 -> 记录列表
+}
+
+/**
+ * 导入方式
+ * - merge: 与当前数据合并，带 id 的列表按 id 合并，归档中的值优先
+ * - replace: 清空当前数据后写入归档内容
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * 归档内容摘要
+ */
+export interface BackupSummary {
+  version: number;
+  createdAt: number;
+  options: BackupOptions;
+  files: string[];
+  historyRecords: Record<string, number>;
+}
+
+/**
+ * 归档校验结果
+ */
+export interface BackupValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  summary?: BackupSummary;
+}
+
+/**
+ * 导入结果
+ */
+export interface RestoreResult {
+  mode: RestoreMode;
+  filesWritten: number;
+  filesRemoved: number;
+  historyRecords: number;
+  warnings: string[];
+  restartRequired: boolean;
+}
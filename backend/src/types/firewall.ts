@@ -0,0 +1,431 @@
+/**
+ * 防火墙相关类型定义
+ */
+
+/**
+ * 防火墙规则表
+ */
+export type FirewallTable = 'filter' | 'nat' | 'mangle' | 'raw' | 'ipv6-filter';
+
+/**
+ * 防火墙规则（RouterOS 返回的属性，值均为字符串）
+ */
+export type FirewallRule = Record<string, string | undefined> & {
+  '.id': string;
+  chain: string;
+};
+
+/**
+ * 规则分析问题类型
+ * - shadowed: 同一 Chain 中更早、范围更大的规则已终止匹配，该规则永远不会匹配
+ * - duplicate: 与同一 Chain 中更早的规则完全相同
+ * - missing-address-list: 引用了不存在的地址列表
+ * - missing-interface: 引用了不存在的接口
+ * - missing-interface-list: 引用了不存在的接口列表
+ * - disabled-no-comment: 已禁用且没有备注
+ */
+export type FirewallIssueType =
+  | 'shadowed'
+  | 'duplicate'
+  | 'missing-address-list'
+  | 'missing-interface'
+  | 'missing-interface-list'
+  | 'disabled-no-comment';
+
+/**
+ * 规则分析发现的问题
+ */
+export interface FirewallAnalysisIssue {
+  type: FirewallIssueType;
+  severity: 'warning' | 'info';
+  table: FirewallTable;
+  ruleId: string;
+  chain: string;
+  position: number;         // 规则在 Chain 中的位置（从 1 开始）
+  relatedRuleId?: string;   // shadowed / duplicate：造成问题的更早规则
+  relatedPosition?: number;
+  reference?: string;       // missing-*：不存在的地址列表、接口或接口列表名称
+  message: string;
+}
+
+/**
+ * 规则分析结果
+ */
+export interface FirewallAnalysisReport {
+  analyzedAt: number;
+  ruleCounts: Partial<Record<FirewallTable, number>>;
+  issues: FirewallAnalysisIssue[];
+}
+
+// ==================== 数据包路径模拟 ====================
+
+/**
+ * 模拟时假设的连接状态
+ */
+export type SimulatedConnectionState = 'new' | 'established' | 'related' | 'invalid' | 'untracked';
+
+/**
+ * 要模拟的数据包
+ * 不填 inInterface 表示由路由器自身发出的数据包
+ */
+export interface SimulatedPacket {
+  inInterface?: string;
+  outInterface?: string;
+  srcAddress: string;
+  dstAddress: string;
+  protocol: string;
+  srcPort?: number;
+  dstPort?: number;
+  connectionState?: SimulatedConnectionState;
+}
+
+/**
+ * 数据包经过的路径
+ * - input: 发往路由器自身
+ * - forward: 经路由器转发
+ * - output: 由路由器自身发出
+ */
+export type PacketPath = 'input' | 'forward' | 'output';
+
+/**
+ * 模拟过程中匹配到的规则
+ */
+export interface PacketSimulationMatch {
+  ruleId: string;
+  chain: string;            // 规则所在 chain（可能是 jump 目标的自定义 chain）
+  position: number;         // 规则在 chain 中的位置（从 1 开始）
+  action: string;
+  comment?: string;
+}
+
+/**
+ * 单个内置 chain 的模拟结果
+ */
+export interface PacketSimulationStep {
+  table: 'filter' | 'nat' | 'mangle';
+  chain: string;
+  matches: PacketSimulationMatch[];   // 按顺序匹配到的全部规则（含 jump、log 等非终止规则）
+  decision?: PacketSimulationMatch;   // 终止匹配的规则，为空表示走到 chain 末尾（默认 accept）
+  skipped?: string;                   // 未执行该 chain 的原因
+}
+
+/**
+ * 数据包地址与端口
+ */
+export interface PacketAddress {
+  srcAddress: string;
+  srcPort?: number;
+  dstAddress: string;
+  dstPort?: number;
+}
+
+/**
+ * 数据包路径模拟结果
+ */
+export interface PacketSimulationResult {
+  path: PacketPath;
+  verdict: 'accept' | 'drop' | 'reject' | 'tarpit';
+  original: PacketAddress;
+  translated: PacketAddress;            // 经过 dstnat、srcnat 后的地址与端口
+  marks: {
+    connectionMark?: string;
+    packetMark?: string;
+    routingMark?: string;
+  };
+  steps: PacketSimulationStep[];
+  notes: string[];                      // 无法模拟的匹配条件等说明
+}
+
+// ==================== 连接跟踪 ====================
+
+/**
+ * 连接跟踪表条目（/ip/firewall/connection）
+ * src-address / dst-address 带端口，如 192.168.88.10:443
+ */
+export type FirewallConnection = Record<string, string | undefined> & {
+  '.id': string;
+};
+
+/**
+ * 连接跟踪过滤条件
+ * src / dst 可以是地址、CIDR、地址区间或地址片段
+ */
+export interface ConnectionFilter {
+  src?: string;
+  dst?: string;
+  protocol?: string;
+  state?: string;            // TCP 状态（tcp-state），如 established、time-wait
+  connectionMark?: string;
+}
+
+/**
+ * 按某一维度汇总的连接数与流量（双向字节数之和）
+ */
+export interface ConnectionAggregate {
+  key: string;
+  connections: number;
+  bytes: number;
+}
+
+/**
+ * 连接跟踪汇总
+ */
+export interface ConnectionTrackingSummary {
+  protocols: ConnectionAggregate[];
+  topSources: ConnectionAggregate[];
+  topDestinations: ConnectionAggregate[];
+  topPorts: ConnectionAggregate[];        // key 为 协议/目标端口，如 tcp/443
+}
+
+/**
+ * 连接跟踪查询结果
+ */
+export interface ConnectionTrackingResult {
+  total: number;                          // 连接跟踪表中的全部连接数
+  matched: number;                        // 符合过滤条件的连接数
+  connections: FirewallConnection[];      // 符合过滤条件的连接（最多 limit 条）
+  summary: ConnectionTrackingSummary;     // 基于全部符合条件的连接
+}
+
+// ==================== 地址列表批量导入 ====================
+
+/**
+ * 导入内容格式
+ * - text: 每行一个地址，# 或 ; 之后为注释
+ * - csv: address,timeout,comment（可带表头）
+ * - json: 地址字符串数组或 { address, timeout?, comment? } 数组
+ * - auto: 根据内容自动判断
+ */
+export type AddressListImportFormat = 'auto' | 'text' | 'csv' | 'json';
+
+/**
+ * 导入方式
+ * - merge: 只添加设备上不存在的地址
+ * - sync: 同时删除设备上存在但导入内容中没有的地址
+ */
+export type AddressListImportMode = 'merge' | 'sync';
+
+/**
+ * 地址列表导入请求
+ */
+export interface AddressListImportRequest {
+  list: string;
+  content: string;
+  format?: AddressListImportFormat;
+  mode?: AddressListImportMode;
+  timeout?: string;              // 未单独指定 timeout 的条目使用的默认超时
+}
+
+/**
+ * 待导入的地址
+ */
+export interface AddressListImportEntry {
+  address: string;
+  timeout?: string;
+  comment?: string;
+}
+
+/**
+ * 无法导入的内容
+ */
+export interface AddressListImportInvalid {
+  line: number;                  // 所在行（JSON 为数组下标 + 1）
+  value: string;
+  error: string;
+}
+
+/**
+ * 导入内容与设备上地址列表的差异
+ */
+export interface AddressListDiff {
+  list: string;
+  mode: AddressListImportMode;
+  added: AddressListImportEntry[];
+  removed: Array<AddressListImportEntry & { id: string }>;
+  changed: AddressListChangedEntry[];
+  unchanged: AddressListImportEntry[];
+  invalid: AddressListImportInvalid[];
+}
+
+/**
+ * 设备上已有、但超时或备注与导入内容不同的地址（按导入内容更新）
+ */
+export interface AddressListChangedEntry extends AddressListImportEntry {
+  id: string;
+  previous: { timeout?: string; comment?: string };  // 设备上的超时（剩余时间）和备注
+}
+
+/**
+ * 导入进度
+ */
+export interface AddressListImportProgress {
+  done: number;
+  total: number;
+  added: number;
+  removed: number;
+  updated: number;
+  failed: number;
+}
+
+/**
+ * 导入结果
+ */
+export interface AddressListImportResult {
+  list: string;
+  added: number;
+  removed: number;
+  updated: number;
+  unchanged: number;
+  failed: Array<{ address: string; operation: 'add' | 'remove' | 'update'; error: string }>;
+}
+
+// ==================== 规则命中计数 ====================
+
+/**
+ * 规则计数器的最近一次采样值（用于计算增量）
+ */
+export interface FirewallRuleCounter {
+  bytes: number;
+  packets: number;
+  firstSeen: number;    // 首次采样到该规则的时间
+  timestamp: number;    // 最近一次采样时间
+}
+
+/**
+ * 两次采样之间单条规则的命中增量（只存储有命中的规则）
+ */
+export interface FirewallRuleHitDelta {
+  timestamp: number;
+  table: FirewallTable;
+  ruleId: string;
+  bytes: number;
+  packets: number;
+}
+
+/**
+ * 规则命中历史（按时间段汇总，用于趋势图）
+ */
+export interface FirewallRuleHitHistory {
+  table: FirewallTable;
+  from: number;
+  to: number;
+  bucketMs: number;
+  rules: Record<string, { packets: number[]; bytes: number[] }>;
+}
+
+/**
+ * 一段时间内没有命中的规则
+ */
+export interface UnusedFirewallRule {
+  table: FirewallTable;
+  ruleId: string;
+  chain: string;
+  action?: string;
+  comment?: string;
+  disabled: boolean;
+  firstSeen: number;
+}
+
+/**
+ * 未使用规则报告
+ * pending 为同样没有命中、但采样时间不足 days 天的规则数量
+ */
+export interface UnusedFirewallRuleReport {
+  days: number;
+  from: number;
+  to: number;
+  rules: UnusedFirewallRule[];
+  pending: number;
+}
+
+// ==================== 规则模板 ====================
+
+/**
+ * 模板规则所属的表（address-list 为地址列表条目）
+ */
+export type FirewallTemplateTable = 'filter' | 'nat' | 'mangle' | 'raw' | 'address-list';
+
+/**
+ * 模板参数类型
+ * - interface: 接口名称（不支持接口列表）
+ * - cidr: IPv4 网段，如 192.168.88.0/24
+ * - addresses: 逗号分隔的 IPv4 地址、网段或地址区间
+ */
+export type FirewallTemplateParameterType = 'interface' | 'cidr' | 'addresses';
+
+/**
+ * 模板参数
+ */
+export interface FirewallTemplateParameter {
+  name: string;
+  label: string;
+  type: FirewallTemplateParameterType;
+  required: boolean;
+  default?: string;
+  description?: string;
+}
+
+/**
+ * 模板中的规则，属性值中的 {{参数名}} 在预览时替换为参数值
+ */
+export interface FirewallTemplateRule {
+  table: FirewallTemplateTable;
+  properties: Record<string, string>;
+  when?: string;            // 仅当该参数有值时添加
+  forEach?: string;         // addresses 类型参数，每个地址添加一条，{{item}} 替换为地址
+  position?: FirewallTemplateRulePosition;  // 规则在链中的位置，默认 top；地址列表条目没有顺序，忽略
+}
+
+/**
+ * 模板规则在链中的位置
+ * - top: 紧跟同一条链中上一条模板规则（设备上已存在时紧跟其对应规则）；没有上一条时插入到后一条已存在的
+ *   模板规则之前，都没有时插入到链首。同一条链的模板规则保持模板中的顺序
+ * - bottom: 添加到链末尾（如 masquerade）
+ */
+export type FirewallTemplateRulePosition = 'top' | 'bottom';
+
+/**
+ * 防火墙规则模板
+ */
+export interface FirewallTemplate {
+  id: string;
+  name: string;
+  description: string;
+  parameters: FirewallTemplateParameter[];
+  rules: FirewallTemplateRule[];
+}
+
+/**
+ * 替换参数后的规则
+ */
+export interface FirewallTemplateRenderedRule {
+  table: FirewallTemplateTable;
+  properties: Record<string, string>;
+  position?: FirewallTemplateRulePosition;  // 地址列表条目没有位置
+  placeBefore?: string;     // 预览时确定：position 为 top 时插入到该规则之前，为空时添加到末尾
+}
+
+/**
+ * 模板预览结果
+ * rules 为将要按顺序添加的规则；设备上已存在完全相同的规则时计入 existing，应用时不再添加
+ */
+export interface FirewallTemplatePreview {
+  templateId: string;
+  parameters: Record<string, string>;
+  rules: FirewallTemplateRenderedRule[];
+  existing: FirewallTemplateRenderedRule[];
+  errors: string[];
+}
+
+/**
+ * 模板应用结果
+ * 任一规则添加失败时，已添加的规则按相反顺序删除（回滚），applied 为 false
+ */
+export interface FirewallTemplateApplyResult {
+  templateId: string;
+  applied: boolean;
+  added: Array<{ table: FirewallTemplateTable; id: string }>;
+  failed?: { index: number; rule: FirewallTemplateRenderedRule; error: string };
+  rolledBack: number;
+  rollbackErrors: Array<{ table: FirewallTemplateTable; id: string; error: string }>;
+}
@@ -5,3 +5,7 @@ export * from './routeros';
 export * from './ipv6';
 export * from './ai';
 export * from './ai-ops';
+export * from './auth';
+export * from './realtime';
+export * from './backup';
+export * from './firewall';
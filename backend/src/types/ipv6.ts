@@ -163,3 +163,89 @@ export interface IPv6FilterRule {
   log?: boolean;              // 是否记录日志
   'log-prefix'?: string;      // 日志前缀
 }
+
+// ==================== IPv6 Firewall NAT / Mangle / Raw ====================
+
+/**
+ * IPv6 防火墙 NAT 规则数据模型
+ */
+export interface IPv6NatRule {
+  '.id': string;              // RouterOS 内部 ID
+  chain: string;              // Chain: srcnat, dstnat 或自定义 Chain
+  action: string;             // Action: masquerade, src-nat, dst-nat, netmap, redirect, accept 等
+  'src-address'?: string;     // 源地址
+  'dst-address'?: string;     // 目标地址
+  protocol?: string;          // 协议
+  'src-port'?: string;        // 源端口
+  'dst-port'?: string;        // 目标端口
+  'in-interface'?: string;    // 入接口
+  'out-interface'?: string;   // 出接口
+  'to-address'?: string;      // 转换后的地址
+  'to-ports'?: string;        // 转换后的端口
+  disabled?: boolean;         // 是否禁用
+  comment?: string;           // 备注
+  dynamic?: boolean;          // 是否动态
+  bytes?: number;             // 字节数
+  packets?: number;           // 数据包数
+}
+
+/**
+ * IPv6 防火墙 Mangle 规则数据模型
+ */
+export interface IPv6MangleRule {
+  '.id': string;              // RouterOS 内部 ID
+  chain: string;              // Chain: prerouting, input, forward, output, postrouting
+  action: string;             // Action: mark-connection, mark-packet, mark-routing, change-hop-limit 等
+  'src-address'?: string;     // 源地址
+  'dst-address'?: string;     // 目标地址
+  protocol?: string;          // 协议
+  'dst-port'?: string;        // 目标端口
+  'in-interface'?: string;    // 入接口
+  'new-connection-mark'?: string; // 新连接标记
+  'new-packet-mark'?: string; // 新数据包标记
+  'new-routing-mark'?: string; // 新路由标记
+  passthrough?: string;       // 标记后是否继续匹配
+  disabled?: boolean;         // 是否禁用
+  comment?: string;           // 备注
+  dynamic?: boolean;          // 是否动态
+  bytes?: number;             // 字节数
+  packets?: number;           // 数据包数
+}
+
+/**
+ * IPv6 防火墙 Raw 规则数据模型
+ */
+export interface IPv6RawRule {
+  '.id': string;              // RouterOS 内部 ID
+  chain: string;              // Chain: prerouting, output
+  action: string;             // Action: accept, drop, notrack, jump 等
+  'src-address'?: string;     // 源地址
+  'dst-address'?: string;     // 目标地址
+  'src-address-list'?: string; // 源地址列表
+  'dst-address-list'?: string; // 目标地址列表
+  protocol?: string;          // 协议
+  'dst-port'?: string;        // 目标端口
+  'in-interface'?: string;    // 入接口
+  'jump-target'?: string;     // 跳转目标 Chain
+  disabled?: boolean;         // 是否禁用
+  comment?: string;           // 备注
+  dynamic?: boolean;          // 是否动态
+  bytes?: number;             // 字节数
+  packets?: number;           // 数据包数
+}
+
+// ==================== IPv6 Firewall Address List ====================
+
+/**
+ * IPv6 防火墙地址列表条目数据模型
+ */
+export interface IPv6AddressListEntry {
+  '.id': string;              // RouterOS 内部 ID
+  list: string;               // 列表名称
+  address: string;            // IPv6 地址或前缀
+  timeout?: string;           // 超时时间，为空表示永久
+  'creation-time'?: string;   // 创建时间
+  disabled?: boolean;         // 是否禁用
+  dynamic?: boolean;          // 是否动态
+  comment?: string;           // 备注
+}
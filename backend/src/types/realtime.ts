@@ -0,0 +1,45 @@
+/**
+ * 实时推送类型定义
+ * 定义 /api/events 服务器推送通道的主题与消息格式
+ */
+
+/**
+ * 推送主题
+ * - traffic: 接口流量速率数据点（{ 接口名: TrafficRatePoint }）
+ * - metrics: 指标采集结果（{ system, interfaces }）
+ * - resource: 所选设备的 /system/resource，每 5 秒一次
+ * - alerts: 告警触发与恢复（{ action, event }）
+ * - syslog: 收到的 Syslog 事件
+ * - connection: RouterOS 连接状态变化（ConnectionStatus）
+ * - notifications: Web Push 渠道通知（{ channelId, notification }）
+ */
+export type RealtimeTopic =
+  | 'traffic'
+  | 'metrics'
+  | 'resource'
+  | 'alerts'
+  | 'syslog'
+  | 'connection'
+  | 'notifications';
+
+/**
+ * 所有可订阅的主题
+ */
+export const REALTIME_TOPICS: RealtimeTopic[] = [
+  'traffic',
+  'metrics',
+  'resource',
+  'alerts',
+  'syslog',
+  'connection',
+  'notifications',
+];
+
+/**
+ * 推送消息（以 SSE data 行发送）
+ */
+export interface RealtimeMessage<T = unknown> {
+  topic: RealtimeTopic | 'ready';
+  data: T;
+  timestamp: number;
+}
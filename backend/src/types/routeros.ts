@@ -5,15 +5,55 @@
 
 // ==================== 连接配置 ====================
 
+/**
+ * RouterOS 通信协议
+ * - api: 二进制 API 协议（node-routeros），端口 8728 / 8729（TLS）
+ * - rest: RouterOS v7 REST 接口（www / www-ssl 服务的 /rest），端口 80 / 443（HTTPS）
+ */
+export type RouterOSProtocol = 'api' | 'rest';
+
 /**
  * RouterOS 连接配置
  */
 export interface RouterOSConfig {
   host: string;        // RouterOS 地址
-  port: number;        // API 端口，默认 443
+  port: number;        // 端口，未指定时按协议和 TLS 取默认值
   username: string;    // 用户名
   password: string;    // 密码
-  useTLS: boolean;     // 是否使用 HTTPS
+  useTLS: boolean;     // 是否使用 TLS（REST 协议下即 HTTPS）
+  protocol?: RouterOSProtocol; // 通信协议，默认 api
+}
+
+// ==================== 设备管理 ====================
+
+/**
+ * 受管设备（每台设备拥有独立的连接配置）
+ */
+export interface Device {
+  id: string;
+  name: string;
+  description?: string;
+  config: RouterOSConfig;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 创建设备输入
+ */
+export type CreateDeviceInput = Omit<Device, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * 更新设备输入
+ */
+export type UpdateDeviceInput = Partial<Omit<Device, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * 设备信息（不含密码，用于 API 响应）
+ */
+export interface DeviceSummary extends Omit<Device, 'config'> {
+  config: Omit<RouterOSConfig, 'password'>;
+  connected: boolean;
 }
 
 // ==================== Interface 模块 ====================
@@ -135,14 +175,27 @@ export interface ApiErrorResponse {
  */
 export type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
 
+/**
+ * 连接状态机状态
+ * - disconnected: 未连接（未配置或手动断开）
+ * - connecting: 正在建立连接
+ * - connected: 已连接
+ * - reconnecting: 连接意外断开，正在按退避策略自动重连
+ */
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
 /**
  * 连接状态
  */
 export interface ConnectionStatus {
+  deviceId?: string;
+  state?: ConnectionState;
   connected: boolean;
   host?: string;
   lastConnected?: string;
-  error?: string;
+  error?: string;          // 最近一次连接错误
+  retryCount?: number;     // 当前重连尝试次数
+  nextRetryAt?: string;    // 下次重连时间
   config?: Omit<RouterOSConfig, 'password'>;
 }
 
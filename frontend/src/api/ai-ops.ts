@@ -51,6 +51,9 @@ export type AuditAction =
   | 'remediation_execute'
   | 'config_restore'
   | 'snapshot_create'
+  | 'backup_export'
+  | 'backup_restore'
+  | 'api_change'
 
 /**
  * 指标数据点
@@ -220,7 +223,7 @@ export interface TaskExecution {
 /**
  * 快照触发方式
  */
-export type SnapshotTrigger = 'auto' | 'manual' | 'pre-remediation'
+export type SnapshotTrigger = 'auto' | 'manual' | 'pre-remediation' | 'pre-change'
 
 /**
  * 配置快照
@@ -460,15 +463,32 @@ export interface AuditLog {
   timestamp: number
   action: AuditAction
   actor: 'system' | 'user'
+  user?: { id: string; username: string }
   details: {
     trigger?: string
     script?: string
     result?: string
     error?: string
     metadata?: Record<string, unknown>
+    change?: AuditConfigChange
   }
 }
 
+/**
+ * 通过 REST API 对设备配置的修改（api_change）
+ */
+export interface AuditConfigChange {
+  operation: 'add' | 'set' | 'remove' | 'enable' | 'disable' | 'move' | 'command' | 'bulk'
+  path: string
+  id?: string
+  destination?: string
+  command?: string
+  params?: string[]
+  summary?: Record<string, unknown>
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+}
+
 /**
  * 仪表盘数据
  */
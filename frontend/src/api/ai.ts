@@ -12,6 +12,8 @@
  */
 
 import api from './index'
+import { useAuthStore } from '@/stores/auth'
+import { useConnectionStore, DEFAULT_DEVICE_ID } from '@/stores/connection'
 
 // ==================== 类型定义 ====================
 
@@ -291,11 +293,20 @@ export const chatApi = {
     const controller = new AbortController()
 
     // 使用 fetch 发送 POST 请求并处理 SSE 响应
+    // fetch 不经过 axios 拦截器，需手动附加会话令牌和目标设备
+    const authStore = useAuthStore()
+    const connectionStore = useConnectionStore()
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (authStore.token) {
+      headers.Authorization = `Bearer ${authStore.token}`
+    }
+    if (connectionStore.activeDeviceId !== DEFAULT_DEVICE_ID) {
+      headers['X-Device-Id'] = connectionStore.activeDeviceId
+    }
+
     fetch('/api/ai/chat/stream', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
+      headers,
       body: JSON.stringify(data),
       signal: controller.signal
     })
@@ -1,13 +1,29 @@
 import axios from 'axios'
-import { useConnectionStore } from '@/stores/connection'
+import { useConnectionStore, DEFAULT_DEVICE_ID } from '@/stores/connection'
+import { useAuthStore, UserRole } from '@/stores/auth'
 
 const api = axios.create({
   baseURL: '/api',
 })
 
-// Request interceptor
+// Request interceptor - attach session token and target the active device
 api.interceptors.request.use(
-  (config) => config,
+  (config) => {
+    try {
+      const authStore = useAuthStore()
+      if (authStore.token) {
+        config.headers.set('Authorization', `Bearer ${authStore.token}`)
+      }
+
+      const connectionStore = useConnectionStore()
+      if (connectionStore.activeDeviceId !== DEFAULT_DEVICE_ID) {
+        config.headers.set('X-Device-Id', connectionStore.activeDeviceId)
+      }
+    } catch {
+      // Store might not be initialized yet, ignore
+    }
+    return config
+  },
   (error) => Promise.reject(error)
 )
 
@@ -31,6 +47,19 @@ api.interceptors.response.use(
     return response
   },
   (error) => {
+    // Session expired or missing - back to login page
+    if (error.response?.status === 401 && !(error.config?.url || '').includes('/auth/login')) {
+      try {
+        useAuthStore().clearSession()
+      } catch {
+        // Store might not be initialized yet, ignore
+      }
+      if (window.location.pathname !== '/login') {
+        const redirect = encodeURIComponent(window.location.pathname + window.location.search)
+        window.location.href = `/login?redirect=${redirect}`
+      }
+    }
+
     // Check if error indicates connection issue
     const message = error.response?.data?.error || error.message || 'Request failed'
     const lowerMessage = message.toLowerCase()
@@ -60,6 +89,7 @@ export interface RouterOSConfig {
   username: string
   password: string
   useTLS: boolean
+  protocol?: 'api' | 'rest'
 }
 
 // Connection API
@@ -71,6 +101,111 @@ export const connectionApi = {
   saveConfig: (config: RouterOSConfig) => api.post('/connection/config', config)
 }
 
+// Auth API
+export interface AuthUserInput {
+  username: string
+  password: string
+  role?: UserRole
+}
+
+export const authApi = {
+  login: (data: AuthUserInput) => api.post('/auth/login', data),
+  logout: () => api.post('/auth/logout'),
+  me: () => api.get('/auth/me'),
+  changePassword: (currentPassword: string, newPassword: string) =>
+    api.post('/auth/password', { currentPassword, newPassword }),
+  getUsers: () => api.get('/auth/users'),
+  createUser: (data: AuthUserInput) => api.post('/auth/users', data),
+  updateUser: (id: string, data: Partial<AuthUserInput>) => api.put(`/auth/users/${id}`, data),
+  deleteUser: (id: string) => api.delete(`/auth/users/${id}`)
+}
+
+// Device API
+export interface DeviceInput {
+  name: string
+  description?: string
+  config: RouterOSConfig
+}
+
+export const deviceApi = {
+  getAll: () => api.get('/devices'),
+  getById: (id: string) => api.get(`/devices/${id}`),
+  create: (data: DeviceInput) => api.post('/devices', data),
+  update: (id: string, data: Partial<DeviceInput>) => api.put(`/devices/${id}`, data),
+  delete: (id: string) => api.delete(`/devices/${id}`),
+  connect: (id: string) => api.post(`/devices/${id}/connect`),
+  disconnect: (id: string) => api.post(`/devices/${id}/disconnect`)
+}
+
+// Backup API
+export interface BackupOptions {
+  includeHistory: boolean
+  includeSecrets: boolean
+}
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface BackupSummary {
+  version: number
+  createdAt: number
+  options: BackupOptions
+  files: string[]
+  historyRecords: Record<string, number>
+}
+
+export interface BackupValidationResult {
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  summary?: BackupSummary
+}
+
+export interface RestoreResult {
+  mode: RestoreMode
+  filesWritten: number
+  filesRemoved: number
+  historyRecords: number
+  warnings: string[]
+  restartRequired: boolean
+}
+
+export const backupApi = {
+  export: async (options: BackupOptions): Promise<Blob> => {
+    const response = await api.get('/backup/export', {
+      params: { history: options.includeHistory, secrets: options.includeSecrets },
+      responseType: 'blob'
+    })
+    return response.data
+  },
+  validate: (file: File) =>
+    api.post('/backup/validate', file, {
+      headers: { 'Content-Type': 'application/octet-stream' }
+    }),
+  import: (file: File, mode: RestoreMode) =>
+    api.post('/backup/import', file, {
+      params: { mode },
+      headers: { 'Content-Type': 'application/octet-stream' }
+    })
+}
+
+// Secret API（敏感信息加密密钥，仅管理员）
+export interface SecretKeyInfo {
+  source: 'env' | 'file'
+  currentKeyId: string
+  keyIds: string[]
+}
+
+export interface SecretMigrationResult {
+  keyId: string
+  reencrypted: Record<string, number>
+  errors: Record<string, string>
+}
+
+export const secretApi = {
+  getInfo: () => api.get('/secrets'),
+  rotate: () => api.post('/secrets/rotate')
+}
+
 // Interface API
 export const interfaceApi = {
   getAll: () => api.get('/interfaces'),
@@ -181,10 +316,244 @@ export const dashboardApi = {
 }
 
 // Firewall API
+export type FirewallTable = 'filter' | 'nat' | 'mangle' | 'raw' | 'ipv6-filter'
+
+export type FirewallIssueType =
+  | 'shadowed'
+  | 'duplicate'
+  | 'missing-address-list'
+  | 'missing-interface'
+  | 'missing-interface-list'
+  | 'disabled-no-comment'
+
+export interface FirewallAnalysisIssue {
+  type: FirewallIssueType
+  severity: 'warning' | 'info'
+  table: FirewallTable
+  ruleId: string
+  chain: string
+  position: number
+  relatedRuleId?: string
+  relatedPosition?: number
+  reference?: string
+  message: string
+}
+
+export interface FirewallAnalysisReport {
+  analyzedAt: number
+  ruleCounts: Partial<Record<FirewallTable, number>>
+  issues: FirewallAnalysisIssue[]
+}
+
+export type SimulatedConnectionState = 'new' | 'established' | 'related' | 'invalid' | 'untracked'
+
+export interface SimulatedPacket {
+  inInterface?: string
+  outInterface?: string
+  srcAddress: string
+  dstAddress: string
+  protocol: string
+  srcPort?: number
+  dstPort?: number
+  connectionState?: SimulatedConnectionState
+}
+
+export interface PacketSimulationMatch {
+  ruleId: string
+  chain: string
+  position: number
+  action: string
+  comment?: string
+}
+
+export interface PacketSimulationStep {
+  table: 'filter' | 'nat' | 'mangle'
+  chain: string
+  matches: PacketSimulationMatch[]
+  decision?: PacketSimulationMatch
+  skipped?: string
+}
+
+export interface PacketAddress {
+  srcAddress: string
+  srcPort?: number
+  dstAddress: string
+  dstPort?: number
+}
+
+export interface PacketSimulationResult {
+  path: 'input' | 'forward' | 'output'
+  verdict: 'accept' | 'drop' | 'reject' | 'tarpit'
+  original: PacketAddress
+  translated: PacketAddress
+  marks: {
+    connectionMark?: string
+    packetMark?: string
+    routingMark?: string
+  }
+  steps: PacketSimulationStep[]
+  notes: string[]
+}
+
+export type FirewallConnection = Record<string, string | undefined> & { '.id': string }
+
+export interface ConnectionFilter {
+  src?: string
+  dst?: string
+  protocol?: string
+  state?: string
+  connectionMark?: string
+}
+
+export interface ConnectionAggregate {
+  key: string
+  connections: number
+  bytes: number
+}
+
+export interface ConnectionTrackingResult {
+  total: number
+  matched: number
+  connections: FirewallConnection[]
+  summary: {
+    protocols: ConnectionAggregate[]
+    topSources: ConnectionAggregate[]
+    topDestinations: ConnectionAggregate[]
+    topPorts: ConnectionAggregate[]
+  }
+}
+
+export type AddressListImportFormat = 'auto' | 'text' | 'csv' | 'json'
+export type AddressListImportMode = 'merge' | 'sync'
+
+export interface AddressListImportRequest {
+  list: string
+  content: string
+  format?: AddressListImportFormat
+  mode?: AddressListImportMode
+  timeout?: string
+}
+
+export interface AddressListImportEntry {
+  address: string
+  timeout?: string
+  comment?: string
+}
+
+export interface AddressListDiff {
+  list: string
+  mode: AddressListImportMode
+  added: AddressListImportEntry[]
+  removed: Array<AddressListImportEntry & { id: string }>
+  changed: Array<AddressListImportEntry & { id: string; previous: { timeout?: string; comment?: string } }>
+  unchanged: AddressListImportEntry[]
+  invalid: Array<{ line: number; value: string; error: string }>
+}
+
+export interface AddressListImportProgress {
+  done: number
+  total: number
+  added: number
+  removed: number
+  updated: number
+  failed: number
+}
+
+export interface AddressListImportResult {
+  list: string
+  added: number
+  removed: number
+  updated: number
+  unchanged: number
+  failed: Array<{ address: string; operation: 'add' | 'remove' | 'update'; error: string }>
+}
+
+export type AddressListImportMessage =
+  | { type: 'progress'; progress: AddressListImportProgress }
+  | { type: 'done'; result: AddressListImportResult }
+  | { type: 'error'; error: string }
+
+export type RuleCounterTable = 'filter' | 'nat' | 'mangle' | 'raw'
+
+export interface FirewallRuleHitHistory {
+  table: RuleCounterTable
+  from: number
+  to: number
+  bucketMs: number
+  rules: Record<string, { packets: number[]; bytes: number[] }>
+}
+
+export interface UnusedFirewallRule {
+  table: RuleCounterTable
+  ruleId: string
+  chain: string
+  action?: string
+  comment?: string
+  disabled: boolean
+  firstSeen: number
+}
+
+export interface UnusedFirewallRuleReport {
+  days: number
+  from: number
+  to: number
+  rules: UnusedFirewallRule[]
+  pending: number
+}
+
+export type FirewallTemplateTable = RuleCounterTable | 'address-list'
+
+export interface FirewallTemplateParameter {
+  name: string
+  label: string
+  type: 'interface' | 'cidr' | 'addresses'
+  required: boolean
+  default?: string
+  description?: string
+}
+
+export interface FirewallTemplate {
+  id: string
+  name: string
+  description: string
+  parameters: FirewallTemplateParameter[]
+  rules: Array<{ table: FirewallTemplateTable; properties: Record<string, string> }>
+}
+
+export interface FirewallTemplateRenderedRule {
+  table: FirewallTemplateTable
+  properties: Record<string, string>
+  position?: 'top' | 'bottom'
+  placeBefore?: string
+}
+
+export interface FirewallTemplatePreview {
+  templateId: string
+  parameters: Record<string, string>
+  rules: FirewallTemplateRenderedRule[]
+  existing: FirewallTemplateRenderedRule[]
+  errors: string[]
+}
+
+export interface FirewallTemplateApplyResult {
+  templateId: string
+  applied: boolean
+  added: Array<{ table: FirewallTemplateTable; id: string }>
+  failed?: { index: number; rule: FirewallTemplateRenderedRule; error: string }
+  rolledBack: number
+  rollbackErrors: Array<{ table: FirewallTemplateTable; id: string; error: string }>
+}
+
 export const firewallApi = {
-  // Filter Rules (只读)
+  // Filter Rules (完整 CRUD)
   getFilters: () => api.get('/firewall/filter'),
   getFilterById: (id: string) => api.get(`/firewall/filter/${id}`),
+  createFilter: (data: object) => api.post('/firewall/filter', data),
+  updateFilter: (id: string, data: object) => api.patch(`/firewall/filter/${id}`, data),
+  deleteFilter: (id: string) => api.delete(`/firewall/filter/${id}`),
+  enableFilter: (id: string) => api.post(`/firewall/filter/${id}/enable`),
+  disableFilter: (id: string) => api.post(`/firewall/filter/${id}/disable`),
+  moveFilter: (id: string, destination?: string) => api.post(`/firewall/filter/${id}/move`, { destination }),
   // NAT Rules (完整 CRUD)
   getNats: () => api.get('/firewall/nat'),
   getNatById: (id: string) => api.get(`/firewall/nat/${id}`),
@@ -193,14 +562,112 @@ export const firewallApi = {
   deleteNat: (id: string) => api.delete(`/firewall/nat/${id}`),
   enableNat: (id: string) => api.post(`/firewall/nat/${id}/enable`),
   disableNat: (id: string) => api.post(`/firewall/nat/${id}/disable`),
-  // Mangle Rules (只读)
+  moveNat: (id: string, destination?: string) => api.post(`/firewall/nat/${id}/move`, { destination }),
+  // Mangle Rules (完整 CRUD)
   getMangles: () => api.get('/firewall/mangle'),
   getMangleById: (id: string) => api.get(`/firewall/mangle/${id}`),
+  createMangle: (data: object) => api.post('/firewall/mangle', data),
+  updateMangle: (id: string, data: object) => api.patch(`/firewall/mangle/${id}`, data),
+  deleteMangle: (id: string) => api.delete(`/firewall/mangle/${id}`),
+  enableMangle: (id: string) => api.post(`/firewall/mangle/${id}/enable`),
+  disableMangle: (id: string) => api.post(`/firewall/mangle/${id}/disable`),
+  moveMangle: (id: string, destination?: string) => api.post(`/firewall/mangle/${id}/move`, { destination }),
+  // Raw Rules (完整 CRUD)
+  getRaws: () => api.get('/firewall/raw'),
+  getRawById: (id: string) => api.get(`/firewall/raw/${id}`),
+  createRaw: (data: object) => api.post('/firewall/raw', data),
+  updateRaw: (id: string, data: object) => api.patch(`/firewall/raw/${id}`, data),
+  deleteRaw: (id: string) => api.delete(`/firewall/raw/${id}`),
+  enableRaw: (id: string) => api.post(`/firewall/raw/${id}/enable`),
+  disableRaw: (id: string) => api.post(`/firewall/raw/${id}/disable`),
+  moveRaw: (id: string, destination?: string) => api.post(`/firewall/raw/${id}/move`, { destination }),
   // Address List (完整 CRUD)
   getAddressList: () => api.get('/firewall/address-list'),
   createAddressEntry: (data: object) => api.post('/firewall/address-list', data),
   updateAddressEntry: (id: string, data: object) => api.patch(`/firewall/address-list/${id}`, data),
-  deleteAddressEntry: (id: string) => api.delete(`/firewall/address-list/${id}`)
+  deleteAddressEntry: (id: string) => api.delete(`/firewall/address-list/${id}`),
+  deleteAddressEntries: (ids: string[]) => api.post('/firewall/address-list/delete', { ids }),
+  previewAddressListImport: (data: AddressListImportRequest) => api.post('/firewall/address-list/import/preview', data),
+  /**
+   * 执行地址列表导入，通过 SSE 接收进度
+   * fetch 不经过 axios 拦截器，需手动附加会话令牌和目标设备
+   */
+  applyAddressListImport: (
+    data: AddressListImportRequest,
+    handler: (message: AddressListImportMessage) => void
+  ): AbortController => {
+    const controller = new AbortController()
+    const authStore = useAuthStore()
+    const connectionStore = useConnectionStore()
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (authStore.token) {
+      headers.Authorization = `Bearer ${authStore.token}`
+    }
+    if (connectionStore.activeDeviceId !== DEFAULT_DEVICE_ID) {
+      headers['X-Device-Id'] = connectionStore.activeDeviceId
+    }
+
+    const run = async () => {
+      const response = await fetch('/api/firewall/address-list/import/apply', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(data),
+        signal: controller.signal
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        handler({ type: 'error', error: body?.error || `HTTP ${response.status}` })
+        return
+      }
+
+      const reader = response.body?.getReader()
+      if (!reader) {
+        handler({ type: 'error', error: '无法读取响应流' })
+        return
+      }
+
+      const decoder = new TextDecoder()
+      let buffer = ''
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || '' // 保留未完成的行
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            handler(JSON.parse(line.slice(6)) as AddressListImportMessage)
+          }
+        }
+      }
+    }
+
+    run().catch((error) => {
+      if (error.name !== 'AbortError') {
+        handler({ type: 'error', error: error.message || '网络请求失败' })
+      }
+    })
+    return controller
+  },
+  // Connection Tracking
+  getConnections: (params?: ConnectionFilter & { limit?: number; top?: number }) =>
+    api.get('/firewall/connection', { params }),
+  killConnection: (id: string) => api.delete(`/firewall/connection/${id}`),
+  // Rule Analysis
+  analyze: (table?: FirewallTable) => api.get('/firewall/analysis', { params: { table } }),
+  // Rule Hit Counters
+  getRuleHits: (table: RuleCounterTable, hours?: number, buckets?: number) =>
+    api.get('/firewall/counters', { params: { table, hours, buckets } }),
+  getUnusedRules: (days?: number) => api.get('/firewall/unused-rules', { params: { days } }),
+  // Packet Simulation
+  simulate: (packet: SimulatedPacket) => api.post('/firewall/simulate', packet),
+  // Firewall Templates
+  getTemplates: () => api.get('/firewall/templates'),
+  previewTemplate: (id: string, parameters: Record<string, string>) =>
+    api.post(`/firewall/templates/${id}/preview`, { parameters }),
+  applyTemplate: (id: string, parameters: Record<string, string>) =>
+    api.post(`/firewall/templates/${id}/apply`, { parameters })
 }
 
 // Container API
@@ -264,5 +731,56 @@ export const ipv6Api = {
   updateFirewallFilter: (id: string, data: object) => api.patch(`/ipv6/firewall/filter/${id}`, data),
   deleteFirewallFilter: (id: string) => api.delete(`/ipv6/firewall/filter/${id}`),
   enableFirewallFilter: (id: string) => api.post(`/ipv6/firewall/filter/${id}/enable`),
-  disableFirewallFilter: (id: string) => api.post(`/ipv6/firewall/filter/${id}/disable`)
+  disableFirewallFilter: (id: string) => api.post(`/ipv6/firewall/filter/${id}/disable`),
+  moveFirewallFilter: (id: string, destination?: string) => api.post(`/ipv6/firewall/filter/${id}/move`, { destination }),
+
+  // IPv6 Firewall NAT
+  getFirewallNats: () => api.get('/ipv6/firewall/nat'),
+  getFirewallNatById: (id: string) => api.get(`/ipv6/firewall/nat/${id}`),
+  createFirewallNat: (data: object) => api.post('/ipv6/firewall/nat', data),
+  updateFirewallNat: (id: string, data: object) => api.patch(`/ipv6/firewall/nat/${id}`, data),
+  deleteFirewallNat: (id: string) => api.delete(`/ipv6/firewall/nat/${id}`),
+  enableFirewallNat: (id: string) => api.post(`/ipv6/firewall/nat/${id}/enable`),
+  disableFirewallNat: (id: string) => api.post(`/ipv6/firewall/nat/${id}/disable`),
+  moveFirewallNat: (id: string, destination?: string) => api.post(`/ipv6/firewall/nat/${id}/move`, { destination }),
+
+  // IPv6 Firewall Mangle
+  getFirewallMangles: () => api.get('/ipv6/firewall/mangle'),
+  getFirewallMangleById: (id: string) => api.get(`/ipv6/firewall/mangle/${id}`),
+  createFirewallMangle: (data: object) => api.post('/ipv6/firewall/mangle', data),
+  updateFirewallMangle: (id: string, data: object) => api.patch(`/ipv6/firewall/mangle/${id}`, data),
+  deleteFirewallMangle: (id: string) => api.delete(`/ipv6/firewall/mangle/${id}`),
+  enableFirewallMangle: (id: string) => api.post(`/ipv6/firewall/mangle/${id}/enable`),
+  disableFirewallMangle: (id: string) => api.post(`/ipv6/firewall/mangle/${id}/disable`),
+  moveFirewallMangle: (id: string, destination?: string) => api.post(`/ipv6/firewall/mangle/${id}/move`, { destination }),
+
+  // IPv6 Firewall Raw
+  getFirewallRaws: () => api.get('/ipv6/firewall/raw'),
+  getFirewallRawById: (id: string) => api.get(`/ipv6/firewall/raw/${id}`),
+  createFirewallRaw: (data: object) => api.post('/ipv6/firewall/raw', data),
+  updateFirewallRaw: (id: string, data: object) => api.patch(`/ipv6/firewall/raw/${id}`, data),
+  deleteFirewallRaw: (id: string) => api.delete(`/ipv6/firewall/raw/${id}`),
+  enableFirewallRaw: (id: string) => api.post(`/ipv6/firewall/raw/${id}/enable`),
+  disableFirewallRaw: (id: string) => api.post(`/ipv6/firewall/raw/${id}/disable`),
+  moveFirewallRaw: (id: string, destination?: string) => api.post(`/ipv6/firewall/raw/${id}/move`, { destination }),
+
+  // IPv6 Firewall Address List
+  getAddressList: () => api.get('/ipv6/firewall/address-list'),
+  createAddressEntry: (data: object) => api.post('/ipv6/firewall/address-list', data),
+  updateAddressEntry: (id: string, data: object) => api.patch(`/ipv6/firewall/address-list/${id}`, data),
+  deleteAddressEntry: (id: string) => api.delete(`/ipv6/firewall/address-list/${id}`),
+  enableAddressEntry: (id: string) => api.post(`/ipv6/firewall/address-list/${id}/enable`),
+  disableAddressEntry: (id: string) => api.post(`/ipv6/firewall/address-list/${id}/disable`)
+}
+
+// RouterOS Menu API（通用菜单浏览器，menu 为完整菜单路径，如 /queue/simple）
+export const rosApi = {
+  getMenus: () => api.get('/ros/menus'),
+  print: (menu: string, query?: Record<string, string>) => api.get(`/ros${menu}`, { params: query }),
+  add: (menu: string, data: object) => api.post(`/ros${menu}`, data),
+  update: (menu: string, id: string, data: object) => api.patch(`/ros${menu}/${id}`, data),
+  updateSingleton: (menu: string, data: object) => api.patch(`/ros${menu}`, data),
+  remove: (menu: string, id: string) => api.delete(`/ros${menu}/${id}`),
+  enable: (menu: string, id: string) => api.post(`/ros${menu}/${id}/enable`),
+  disable: (menu: string, id: string) => api.post(`/ros${menu}/${id}/disable`)
 }
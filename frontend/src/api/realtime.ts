@@ -0,0 +1,217 @@
+/**
+ * Realtime Client
+ * 订阅后端 /api/events 实时事件流（SSE），替代轮询
+ *
+ * - 页面内所有订阅共用一个连接，订阅主题为各订阅者主题的并集，主题变化时重新建立连接
+ * - 连接断开后自动重连；每次（重新）连接成功都会收到 ready 消息，订阅者可据此补齐数据
+ * - 使用 fetch 读取事件流，以便附加会话令牌和目标设备请求头
+ */
+
+import { useAuthStore } from '@/stores/auth'
+import { useConnectionStore, DEFAULT_DEVICE_ID } from '@/stores/connection'
+import type { ConnectionStatusInfo, RouterOSConfig } from '@/stores/connection'
+import type {
+  AlertEvent,
+  SyslogEvent,
+  TrafficRatePoint,
+  SystemMetrics,
+  InterfaceMetrics,
+  Notification
+} from './ai-ops'
+
+// ==================== 类型定义 ====================
+
+/**
+ * 推送主题
+ */
+export type RealtimeTopic =
+  | 'traffic'
+  | 'metrics'
+  | 'resource'
+  | 'alerts'
+  | 'syslog'
+  | 'connection'
+  | 'notifications'
+
+/**
+ * 各主题的消息数据
+ */
+export interface RealtimeTopicData {
+  traffic: Record<string, TrafficRatePoint>
+  metrics: { system: SystemMetrics; interfaces: InterfaceMetrics[] }
+  resource: Record<string, string>
+  alerts: { action: 'triggered' | 'resolved'; event: AlertEvent }
+  syslog: SyslogEvent
+  connection: ConnectionStatusInfo & { deviceId?: string; config?: RouterOSConfig }
+  notifications: {
+    channelId: string
+    notification: Omit<Notification, 'id' | 'channelId' | 'status' | 'retryCount'>
+  }
+}
+
+/**
+ * 推送消息
+ */
+export type RealtimeMessage =
+  | { [K in RealtimeTopic]: { topic: K; data: RealtimeTopicData[K]; timestamp: number } }[RealtimeTopic]
+  | { topic: 'ready'; data: { topics: RealtimeTopic[] }; timestamp: number }
+
+export type RealtimeHandler = (message: RealtimeMessage) => void
+
+interface Subscriber {
+  topics: RealtimeTopic[]
+  handler: RealtimeHandler
+}
+
+// ==================== 连接管理 ====================
+
+const RECONNECT_DELAY_MS = 3000
+
+const subscribers = new Set<Subscriber>()
+let controller: AbortController | null = null
+let connectedTopics = ''
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+let updateScheduled = false
+
+/**
+ * 计算当前所有订阅者的主题并集（排序后拼接，用于比较）
+ */
+function collectTopics(): string {
+  const topics = new Set<RealtimeTopic>()
+  for (const subscriber of subscribers) {
+    subscriber.topics.forEach(topic => topics.add(topic))
+  }
+  return Array.from(topics).sort().join(',')
+}
+
+function dispatch(message: RealtimeMessage) {
+  for (const subscriber of subscribers) {
+    if (message.topic !== 'ready' && !subscriber.topics.includes(message.topic)) continue
+    try {
+      subscriber.handler(message)
+    } catch (error) {
+      console.error('Realtime handler error:', error)
+    }
+  }
+}
+
+function closeStream() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+  }
+  if (controller) {
+    controller.abort()
+    controller = null
+  }
+  connectedTopics = ''
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || subscribers.size === 0) return
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null
+    connectedTopics = ''
+    updateStream()
+  }, RECONNECT_DELAY_MS)
+}
+
+async function openStream(topics: string) {
+  const authStore = useAuthStore()
+  const connectionStore = useConnectionStore()
+  if (!authStore.token) return
+
+  const headers: Record<string, string> = { Authorization: `Bearer ${authStore.token}` }
+  if (connectionStore.activeDeviceId !== DEFAULT_DEVICE_ID) {
+    headers['X-Device-Id'] = connectionStore.activeDeviceId
+  }
+
+  const current = new AbortController()
+  controller = current
+  connectedTopics = topics
+
+  try {
+    const response = await fetch(`/api/events?topics=${encodeURIComponent(topics)}`, {
+      headers,
+      signal: current.signal
+    })
+
+    // 会话失效时不再重连，由 axios 拦截器处理跳转登录
+    if (response.status === 401) {
+      if (controller === current) closeStream()
+      return
+    }
+
+    const reader = response.body?.getReader()
+    if (!response.ok || !reader) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // 解析 SSE 数据，心跳注释行直接忽略
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || '' // 保留未完成的行
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue
+        try {
+          dispatch(JSON.parse(line.slice(6)) as RealtimeMessage)
+        } catch {
+          // 忽略无法解析的消息
+        }
+      }
+    }
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') return
+  }
+
+  // 连接结束（服务重启、网络中断）后重连
+  if (controller === current) {
+    controller = null
+    scheduleReconnect()
+  }
+}
+
+/**
+ * 订阅主题变化后，在下一个事件循环统一更新连接，避免同一渲染周期内多次重连
+ */
+function updateStream() {
+  if (updateScheduled) return
+  updateScheduled = true
+  setTimeout(() => {
+    updateScheduled = false
+    const topics = collectTopics()
+    if (!topics) {
+      closeStream()
+      return
+    }
+    if (topics === connectedTopics && (controller || reconnectTimer)) return
+    closeStream()
+    openStream(topics)
+  }, 0)
+}
+
+/**
+ * 订阅实时事件
+ * @param topics 订阅的主题
+ * @param handler 消息处理函数（另会收到 ready 消息）
+ * @returns 取消订阅函数
+ */
+export function subscribeRealtime(topics: RealtimeTopic[], handler: RealtimeHandler): () => void {
+  const subscriber: Subscriber = { topics, handler }
+  subscribers.add(subscriber)
+  updateStream()
+
+  return () => {
+    subscribers.delete(subscriber)
+    updateStream()
+  }
+}
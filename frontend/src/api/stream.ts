@@ -0,0 +1,109 @@
+/**
+ * Command Stream Client
+ * 执行持续输出的 RouterOS 命令（/api/stream/*，SSE），如 monitor-traffic、torch、ping、log follow
+ *
+ * - 每个调用独占一个连接，调用返回的关闭函数会断开连接并停止设备上的命令
+ * - 不自动重连：命令结束、出错或连接中断时回调 end/error 消息
+ */
+
+import { useAuthStore } from '@/stores/auth'
+import { useConnectionStore, DEFAULT_DEVICE_ID } from '@/stores/connection'
+
+export type StreamRecord = Record<string, string>
+
+/**
+ * 推送消息
+ */
+export type StreamMessage =
+  | { type: 'data'; data: StreamRecord[]; timestamp: string }
+  | { type: 'end'; timestamp: string }
+  | { type: 'error'; error: string; timestamp: string }
+
+export type StreamHandler = (message: StreamMessage) => void
+
+/**
+ * 执行持续输出的命令
+ * @param command 命令路径，如 /interface/monitor-traffic
+ * @param params 命令参数，值为空字符串表示开关参数（如 follow-only）
+ * @param handler 消息处理函数
+ * @returns 关闭函数
+ */
+export function openCommandStream(
+  command: string,
+  params: Record<string, string>,
+  handler: StreamHandler
+): () => void {
+  const authStore = useAuthStore()
+  const connectionStore = useConnectionStore()
+  const controller = new AbortController()
+
+  const headers: Record<string, string> = {}
+  if (authStore.token) headers.Authorization = `Bearer ${authStore.token}`
+  if (connectionStore.activeDeviceId !== DEFAULT_DEVICE_ID) {
+    headers['X-Device-Id'] = connectionStore.activeDeviceId
+  }
+
+  const path = command.split('/').filter(Boolean).join('/')
+  const query = new URLSearchParams(params).toString()
+
+  const fail = (error: string) => handler({ type: 'error', error, timestamp: new Date().toISOString() })
+
+  const run = async () => {
+    let ended = false
+    try {
+      const response = await fetch(`/api/stream/${path}${query ? `?${query}` : ''}`, {
+        headers,
+        signal: controller.signal
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        fail(body?.error || `HTTP ${response.status}`)
+        return
+      }
+
+      const reader = response.body?.getReader()
+      if (!reader) {
+        fail('浏览器不支持流式响应')
+        return
+      }
+
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+
+        // 解析 SSE 数据，心跳注释行直接忽略
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || '' // 保留未完成的行
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue
+          let message: StreamMessage
+          try {
+            message = JSON.parse(line.slice(6)) as StreamMessage
+          } catch {
+            continue // 忽略无法解析的消息
+          }
+          if (message.type !== 'data') ended = true
+          handler(message)
+        }
+      }
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return
+      fail((error as Error).message || '连接中断')
+      return
+    }
+
+    if (!ended && !controller.signal.aborted) {
+      fail('连接中断')
+    }
+  }
+
+  run()
+  return () => controller.abort()
+}
@@ -0,0 +1,107 @@
+import { computed, ref, Ref } from 'vue'
+import { ElMessage } from 'element-plus'
+
+// Rule fields used for drag sorting
+export interface SortableRule {
+  '.id': string
+  chain: string
+  dynamic?: boolean
+}
+
+export interface RuleDragSortOptions<T extends SortableRule> {
+  rules: Ref<T[]>
+  // Move the rule before destination (or to the end when destination is undefined)
+  move: (id: string, destination?: string) => Promise<unknown>
+  successMessage: string
+  errorMessage: string
+  onMoved: () => void
+}
+
+export type RuleDropIndicator = 'before' | 'after' | ''
+
+/**
+ * Drag-and-drop ordering of firewall rules within a chain
+ * The dragged rule takes the place of the target rule: moving up places it before the target,
+ * moving down places it after the target
+ */
+export function useRuleDragSort<T extends SortableRule>(options: RuleDragSortOptions<T>) {
+  const { rules } = options
+  const draggingId = ref('')
+  const dragOverId = ref('')
+
+  // Position of each rule within its chain (RouterOS matches rules in this order)
+  const chainPositions = computed(() => {
+    const counters: Record<string, number> = {}
+    const positions: Record<string, number> = {}
+    rules.value.forEach(rule => {
+      counters[rule.chain] = (counters[rule.chain] || 0) + 1
+      positions[rule['.id']] = counters[rule.chain]
+    })
+    return positions
+  })
+
+  const indexOf = (id: string) => rules.value.findIndex(rule => rule['.id'] === id)
+
+  const positionOf = (rule: SortableRule) => chainPositions.value[rule['.id']]
+
+  // Where the dragged rule will land relative to the hovered rule
+  const indicatorFor = (rule: SortableRule): RuleDropIndicator => {
+    if (!draggingId.value || dragOverId.value !== rule['.id'] || draggingId.value === rule['.id']) return ''
+    return indexOf(draggingId.value) < indexOf(rule['.id']) ? 'after' : 'before'
+  }
+
+  const handleDragStart = (rule: SortableRule) => {
+    draggingId.value = rule['.id']
+  }
+
+  const handleDragOver = (rule: SortableRule) => {
+    dragOverId.value = rule['.id']
+  }
+
+  const handleDragLeave = (rule: SortableRule) => {
+    if (dragOverId.value === rule['.id']) {
+      dragOverId.value = ''
+    }
+  }
+
+  const handleDragEnd = () => {
+    draggingId.value = ''
+    dragOverId.value = ''
+  }
+
+  const handleDrop = async (target: SortableRule) => {
+    const source = rules.value.find(rule => rule['.id'] === draggingId.value)
+    handleDragEnd()
+    if (!source || source['.id'] === target['.id']) return
+    if (source.chain !== target.chain) {
+      ElMessage.warning('只能在同一 Chain 内调整规则顺序')
+      return
+    }
+
+    // Moving down places the rule before the one following the target (or at the end)
+    const sourceIndex = rules.value.indexOf(source)
+    const targetIndex = indexOf(target['.id'])
+    const destination = sourceIndex < targetIndex ? rules.value[targetIndex + 1]?.['.id'] : target['.id']
+
+    try {
+      await options.move(source['.id'], destination)
+      ElMessage.success(options.successMessage)
+      options.onMoved()
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : options.errorMessage
+      ElMessage.error(message)
+    }
+  }
+
+  return {
+    positionOf,
+    indicatorFor,
+    handleDragStart,
+    handleDragOver,
+    handleDragLeave,
+    handleDragEnd,
+    handleDrop
+  }
+}
+
+export type RuleDragSort = ReturnType<typeof useRuleDragSort>
@@ -1,7 +1,14 @@
 import { createRouter, createWebHistory, RouteRecordRaw } from 'vue-router'
 import AppLayout from '@/components/AppLayout.vue'
+import { useAuthStore, UserRole } from '@/stores/auth'
 
 const routes: RouteRecordRaw[] = [
+  {
+    path: '/login',
+    name: 'Login',
+    component: () => import('@/views/LoginView.vue'),
+    meta: { title: '登录', public: true }
+  },
   {
     path: '/',
     component: AppLayout,
@@ -17,6 +24,24 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/ConnectionView.vue'),
         meta: { title: '连接配置' }
       },
+      {
+        path: 'devices',
+        name: 'Devices',
+        component: () => import('@/views/DevicesView.vue'),
+        meta: { title: '设备管理' }
+      },
+      {
+        path: 'users',
+        name: 'Users',
+        component: () => import('@/views/UsersView.vue'),
+        meta: { title: '用户管理', role: 'admin' }
+      },
+      {
+        path: 'backup',
+        name: 'Backup',
+        component: () => import('@/views/BackupView.vue'),
+        meta: { title: '备份与恢复', role: 'admin' }
+      },
       {
         path: 'interfaces',
         name: 'Interfaces',
@@ -90,12 +115,42 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/FirewallMangleView.vue'),
         meta: { title: 'Mangle 规则' }
       },
+      {
+        path: 'ip/firewall/raw',
+        name: 'IpFirewallRaw',
+        component: () => import('@/views/FirewallRawView.vue'),
+        meta: { title: 'Raw 规则' }
+      },
       {
         path: 'ip/firewall/address-list',
         name: 'IpFirewallAddressList',
         component: () => import('@/views/FirewallAddressListView.vue'),
         meta: { title: '地址列表' }
       },
+      {
+        path: 'ip/firewall/connection',
+        name: 'IpFirewallConnection',
+        component: () => import('@/views/FirewallConnectionView.vue'),
+        meta: { title: '连接跟踪' }
+      },
+      {
+        path: 'ip/firewall/simulator',
+        name: 'IpFirewallSimulator',
+        component: () => import('@/views/FirewallSimulatorView.vue'),
+        meta: { title: '数据包路径模拟' }
+      },
+      {
+        path: 'ip/firewall/unused-rules',
+        name: 'IpFirewallUnusedRules',
+        component: () => import('@/views/FirewallUnusedRulesView.vue'),
+        meta: { title: '未使用规则' }
+      },
+      {
+        path: 'ip/firewall/templates',
+        name: 'IpFirewallTemplates',
+        component: () => import('@/views/FirewallTemplatesView.vue'),
+        meta: { title: '规则模板' }
+      },
       {
         path: 'system/scheduler',
         name: 'Scheduler',
@@ -114,6 +169,12 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/PowerManagementView.vue'),
         meta: { title: '电源管理' }
       },
+      {
+        path: 'ros',
+        name: 'RosMenuBrowser',
+        component: () => import('@/views/RosMenuBrowserView.vue'),
+        meta: { title: '菜单浏览器' }
+      },
       // Old firewall routes - redirect to new IP firewall routes
       {
         path: 'firewall/filter',
@@ -186,6 +247,30 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/views/IPv6FirewallFilterView.vue'),
         meta: { title: 'IPv6 防火墙 Filter' }
       },
+      {
+        path: 'ipv6/firewall/nat',
+        name: 'IPv6FirewallNat',
+        component: () => import('@/views/IPv6FirewallNatView.vue'),
+        meta: { title: 'IPv6 防火墙 NAT' }
+      },
+      {
+        path: 'ipv6/firewall/mangle',
+        name: 'IPv6FirewallMangle',
+        component: () => import('@/views/IPv6FirewallMangleView.vue'),
+        meta: { title: 'IPv6 防火墙 Mangle' }
+      },
+      {
+        path: 'ipv6/firewall/raw',
+        name: 'IPv6FirewallRaw',
+        component: () => import('@/views/IPv6FirewallRawView.vue'),
+        meta: { title: 'IPv6 防火墙 Raw' }
+      },
+      {
+        path: 'ipv6/firewall/address-list',
+        name: 'IPv6FirewallAddressList',
+        component: () => import('@/views/IPv6FirewallAddressListView.vue'),
+        meta: { title: 'IPv6 防火墙地址列表' }
+      },
       // AI Agent routes
       {
         path: 'ai/chat',
@@ -303,6 +388,21 @@ const router = createRouter({
   routes
 })
 
+// Route guard - require login for all non-public pages
+router.beforeEach((to) => {
+  const authStore = useAuthStore()
+  if (!to.meta.public && !authStore.isAuthenticated) {
+    return { path: '/login', query: { redirect: to.fullPath } }
+  }
+  if (to.path === '/login' && authStore.isAuthenticated) {
+    return { path: '/' }
+  }
+  if (to.meta.role && !authStore.hasRole(to.meta.role as UserRole)) {
+    return { path: '/' }
+  }
+  return true
+})
+
 // Global error handler for navigation failures
 router.onError((error) => {
   console.error('Router error:', error)
@@ -0,0 +1,74 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+
+export type UserRole = 'viewer' | 'operator' | 'admin'
+
+// 角色权限等级，与后端保持一致
+const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2
+}
+
+export interface AuthUser {
+  id: string
+  username: string
+  role: UserRole
+  createdAt: number
+  updatedAt: number
+  lastLoginAt?: number
+}
+
+const TOKEN_KEY = 'authToken'
+const USER_KEY = 'authUser'
+
+function loadUser(): AuthUser | null {
+  try {
+    const raw = localStorage.getItem(USER_KEY)
+    return raw ? (JSON.parse(raw) as AuthUser) : null
+  } catch {
+    return null
+  }
+}
+
+export const useAuthStore = defineStore('auth', () => {
+  const token = ref<string | null>(localStorage.getItem(TOKEN_KEY))
+  const user = ref<AuthUser | null>(loadUser())
+
+  const isAuthenticated = computed(() => !!token.value)
+
+  // 当前用户是否至少具有指定角色
+  function hasRole(required: UserRole): boolean {
+    const role = user.value?.role
+    return !!role && ROLE_LEVELS[role] >= ROLE_LEVELS[required]
+  }
+
+  function setSession(newToken: string, newUser: AuthUser) {
+    token.value = newToken
+    user.value = newUser
+    localStorage.setItem(TOKEN_KEY, newToken)
+    localStorage.setItem(USER_KEY, JSON.stringify(newUser))
+  }
+
+  function setUser(newUser: AuthUser) {
+    user.value = newUser
+    localStorage.setItem(USER_KEY, JSON.stringify(newUser))
+  }
+
+  function clearSession() {
+    token.value = null
+    user.value = null
+    localStorage.removeItem(TOKEN_KEY)
+    localStorage.removeItem(USER_KEY)
+  }
+
+  return {
+    token,
+    user,
+    isAuthenticated,
+    hasRole,
+    setSession,
+    setUser,
+    clearSession
+  }
+})
@@ -1,24 +1,76 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
 
+// RouterOS protocol: binary API (8728/8729) or v7 REST over HTTP(S) (80/443)
+export type RouterOSProtocol = 'api' | 'rest'
+
 export interface RouterOSConfig {
   host: string
   port: number
   username: string
   password: string
   useTLS: boolean
+  protocol?: RouterOSProtocol
+}
+
+// Default port for the given protocol and TLS setting
+export function getDefaultPort(protocol: RouterOSProtocol | undefined, useTLS: boolean): number {
+  if (protocol === 'rest') {
+    return useTLS ? 443 : 80
+  }
+  return useTLS ? 8729 : 8728
+}
+
+export interface DeviceSummary {
+  id: string
+  name: string
+  description?: string
+  config: Omit<RouterOSConfig, 'password'>
+  connected: boolean
+  createdAt: number
+  updatedAt: number
+}
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+// 后端连接状态（含自动重连信息）
+export interface ConnectionStatusInfo {
+  state?: ConnectionState
+  connected: boolean
+  host?: string
+  lastConnected?: string
+  error?: string
+  retryCount?: number
+  nextRetryAt?: string
 }
 
+// 默认设备，对应连接配置页面管理的单一连接
+export const DEFAULT_DEVICE_ID = 'default'
+const ACTIVE_DEVICE_KEY = 'activeDeviceId'
+
 export const useConnectionStore = defineStore('connection', () => {
   const isConnected = ref(false)
   const config = ref<RouterOSConfig | null>(null)
   const loading = ref(false)
   const error = ref<string | null>(null)
+  const state = ref<ConnectionState>('disconnected')
+  const retryCount = ref(0)
+  const nextRetryAt = ref<string | null>(null)
+  const devices = ref<DeviceSummary[]>([])
+  const activeDeviceId = ref(localStorage.getItem(ACTIVE_DEVICE_KEY) || DEFAULT_DEVICE_ID)
 
   function setConnected(connected: boolean) {
     isConnected.value = connected
   }
 
+  function setStatus(status: ConnectionStatusInfo) {
+    isConnected.value = status.connected
+    state.value = status.state || (status.connected ? 'connected' : 'disconnected')
+    error.value = status.error || null
+    retryCount.value = status.retryCount || 0
+    nextRetryAt.value = status.nextRetryAt || null
+  }
+
   function setConfig(newConfig: RouterOSConfig | null) {
     config.value = newConfig
   }
@@ -31,14 +83,31 @@ export const useConnectionStore = defineStore('connection', () => {
     error.value = errorMessage
   }
 
+  function setDevices(list: DeviceSummary[]) {
+    devices.value = list
+  }
+
+  function setActiveDevice(deviceId: string) {
+    activeDeviceId.value = deviceId
+    localStorage.setItem(ACTIVE_DEVICE_KEY, deviceId)
+  }
+
   return {
     isConnected,
     config,
     loading,
     error,
+    state,
+    retryCount,
+    nextRetryAt,
+    devices,
+    activeDeviceId,
     setConnected,
+    setStatus,
     setConfig,
     setLoading,
-    setError
+    setError,
+    setDevices,
+    setActiveDevice
   }
 })